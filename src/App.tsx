@@ -1,44 +1,142 @@
-import React, { useState } from 'react'
-import { AuthProvider } from './hooks/useAuth'
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { AuthProvider, useAuth } from './hooks/useAuth'
+import { AchievementsProvider } from './hooks/useAchievements'
+import { RouterProvider, useRouter } from './hooks/useRouter'
+import { PageId } from './lib/router'
 import { Navbar } from './components/Layout/Navbar'
 import { HomePage } from './components/Home/HomePage'
 import { RoutesPage } from './components/Routes/RoutesPage'
+import { RouteDetailPage } from './components/Routes/RouteDetailPage'
+import { TrainingPlansPage } from './components/Training/TrainingPlansPage'
+import { CalendarPage } from './components/Calendar/CalendarPage'
 import { ProfilePage } from './components/Profile/ProfilePage'
 import { ProcrastinationGenerator } from './components/Procrastination/ProcrastinationGenerator'
+import { ProcrastinationLibraryPage } from './components/Procrastination/ProcrastinationLibraryPage'
 import { SavedProcrastinationRoutes } from './components/Procrastination/SavedProcrastinationRoutes'
 import { BadgeExamples } from './components/UI/BadgeExamples'
 import { SignOutDebugger } from './components/Debug/SignOutDebugger'
 import { AuthCleaner } from './components/Auth/AuthCleaner'
 import { RestApiDebugger } from './components/Debug/RestApiDebugger'
 import { AuthModal } from './components/Auth/AuthModal'
+import { AuthRequired } from './components/Auth/AuthRequired'
+import { NotFound } from './components/Layout/NotFound'
 import { NetworkStatus } from './components/UI/NetworkStatus'
 import { ErrorBoundary } from './components/UI/ErrorBoundary'
 
-function App() {
-  const [currentPage, setCurrentPage] = useState('home')
+// Pages that belong to a navbar entry without having one of their own
+const NAV_PARENT: Partial<Record<PageId, PageId>> = {
+  'route-detail': 'routes',
+  'procrastination-seed': 'procrastination',
+  'procrastination-seed-budget': 'procrastination',
+  'saved-procrastination-detail': 'saved-procrastination'
+}
+
+function AppContent() {
+  const { user, loading: authLoading } = useAuth()
+  const { route, params, navigateTo } = useRouter()
   const [showAuthModal, setShowAuthModal] = useState(false)
+  const [authModalMode, setAuthModalMode] = useState<'login' | 'signup'>('signup')
+
+  const needsSignIn = !!route.requiresAuth && !authLoading && !user
+
+  // Deep links to members-only pages prompt for sign-in straight away
+  useEffect(() => {
+    if (needsSignIn) {
+      setAuthModalMode('login')
+      setShowAuthModal(true)
+    }
+  }, [needsSignIn])
+
+  const openAuthModal = (mode: 'login' | 'signup') => {
+    setAuthModalMode(mode)
+    setShowAuthModal(true)
+  }
 
   const handleNavigate = (page: string) => {
     if (page === 'auth') {
-      setShowAuthModal(true)
+      openAuthModal('signup')
     } else {
-      setCurrentPage(page)
+      navigateTo(page as PageId)
     }
   }
 
   const renderCurrentPage = () => {
-    switch (currentPage) {
+    if (route.requiresAuth && authLoading) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      )
+    }
+
+    if (needsSignIn) {
+      return <AuthRequired title={route.title} onSignIn={() => openAuthModal('login')} />
+    }
+
+    switch (route.page) {
       case 'home':
-        return <HomePage onNavigate={handleNavigate} />
+        return (
+          <HomePage
+            onNavigate={handleNavigate}
+            onOpenRoute={(routeId) => navigateTo('route-detail', { id: routeId })}
+          />
+        )
       case 'routes':
       case 'saved':
-        return <RoutesPage />
+        return (
+          <RoutesPage
+            key={route.page}
+            initialFilter={route.page === 'saved' ? 'saved' : 'all'}
+            onViewDetails={(routeId) => navigateTo('route-detail', { id: routeId })}
+          />
+        )
+      case 'route-detail':
+        return (
+          <RouteDetailPage
+            key={params.id}
+            routeId={params.id}
+            onBack={() => navigateTo('routes')}
+            onOpenRoute={(routeId) => navigateTo('route-detail', { id: routeId })}
+          />
+        )
+      case 'training':
+        return <TrainingPlansPage onOpenRoute={(routeId) => navigateTo('route-detail', { id: routeId })} />
+      case 'calendar':
+        return (
+          <CalendarPage
+            onOpenRoute={(routeId) => navigateTo('route-detail', { id: routeId })}
+            onOpenProcrastinationRoute={(routeId) => navigateTo('saved-procrastination-detail', { id: routeId })}
+          />
+        )
       case 'profile':
         return <ProfilePage />
       case 'procrastination':
-        return <ProcrastinationGenerator />
+      case 'procrastination-seed':
+      case 'procrastination-seed-budget':
+        return (
+          <ProcrastinationGenerator
+            key={params.seed ? `${params.seed}/${params.budget ?? ''}/${params.task}` : 'new'}
+            initialTask={params.task}
+            initialSeed={params.seed}
+            initialBudget={params.budget}
+            onOpenLibrary={() => navigateTo('procrastination-library')}
+          />
+        )
+      case 'procrastination-library':
+        return <ProcrastinationLibraryPage />
       case 'saved-procrastination':
-        return <SavedProcrastinationRoutes />
+      case 'saved-procrastination-detail':
+        return (
+          <SavedProcrastinationRoutes
+            openRouteId={params.id}
+            onOpenRoute={(routeId) => navigateTo('saved-procrastination-detail', { id: routeId })}
+            onCloseRoute={() => navigateTo('saved-procrastination')}
+            onRegenerateRoute={(task, seed, budgetMinutes) => budgetMinutes
+              ? navigateTo('procrastination-seed-budget', { seed, budget: String(budgetMinutes), task })
+              : navigateTo('procrastination-seed', { seed, task })}
+          />
+        )
       case 'badge-examples':
         return <BadgeExamples />
       case 'debug-signout':
@@ -48,61 +146,72 @@ function App() {
       case 'debug-rest-api':
         return <RestApiDebugger />
       default:
-        return <HomePage onNavigate={handleNavigate} />
+        return <NotFound onNavigate={handleNavigate} />
     }
   }
 
   return (
-    <ErrorBoundary>
-      <AuthProvider>
-        <div className="min-h-screen bg-gray-50">
-          {/* Network Status - Show when there are connection issues */}
-          <div className="fixed top-4 left-4 z-50">
-            <NetworkStatus />
-          </div>
+    <div className="min-h-screen bg-gray-50">
+      {/* Network Status - Show when there are connection issues */}
+      <div className="fixed top-4 left-4 z-50">
+        <NetworkStatus />
+      </div>
 
-          <Navbar currentPage={currentPage} onNavigate={handleNavigate} />
-          
-          <main>
-            <ErrorBoundary>
-              {renderCurrentPage()}
-            </ErrorBoundary>
-          </main>
-          
-          <AuthModal
-            isOpen={showAuthModal}
-            onClose={() => setShowAuthModal(false)}
-            initialMode="signup"
-          />
-          
-          {/* Debug Helper - Remove in production */}
-          {process.env.NODE_ENV === 'development' && (
-            <div className="fixed bottom-4 left-4 z-50 space-y-2">
-              <button
-                onClick={() => handleNavigate('debug-signout')}
-                className="block px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white text-xs rounded-lg shadow-lg"
-              >
-                Debug Sign-out
-              </button>
-              <button
-                onClick={() => handleNavigate('auth-cleaner')}
-                className="block px-3 py-2 bg-red-600 hover:bg-red-700 text-white text-xs rounded-lg shadow-lg"
-              >
-                Clear Auth Data
-              </button>
-              <button
-                onClick={() => handleNavigate('debug-rest-api')}
-                className="block px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-xs rounded-lg shadow-lg"
-              >
-                Debug REST API
-              </button>
-              <div className="bg-white p-2 rounded-lg shadow-lg">
-                <NetworkStatus showDetails />
-              </div>
-            </div>
-          )}
+      <Navbar currentPage={NAV_PARENT[route.page] ?? route.page} onNavigate={handleNavigate} />
+    
+      <main>
+        <ErrorBoundary>
+          {renderCurrentPage()}
+        </ErrorBoundary>
+      </main>
+    
+      <AuthModal
+        key={authModalMode}
+        isOpen={showAuthModal}
+        onClose={() => setShowAuthModal(false)}
+        initialMode={authModalMode}
+      />
+    
+      {/* Debug Helper - Remove in production */}
+      {process.env.NODE_ENV === 'development' && (
+        <div className="fixed bottom-4 left-4 z-50 space-y-2">
+          <button
+            onClick={() => handleNavigate('debug-signout')}
+            className="block px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white text-xs rounded-lg shadow-lg"
+          >
+            Debug Sign-out
+          </button>
+          <button
+            onClick={() => handleNavigate('auth-cleaner')}
+            className="block px-3 py-2 bg-red-600 hover:bg-red-700 text-white text-xs rounded-lg shadow-lg"
+          >
+            Clear Auth Data
+          </button>
+          <button
+            onClick={() => handleNavigate('debug-rest-api')}
+            className="block px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-xs rounded-lg shadow-lg"
+          >
+            Debug REST API
+          </button>
+          <div className="bg-white p-2 rounded-lg shadow-lg">
+            <NetworkStatus showDetails />
+          </div>
         </div>
-      </AuthProvider>
+      )}
+    </div>
+  )
+}
+
+function App() {
+  return (
+    <ErrorBoundary>
+      <RouterProvider>
+        <AuthProvider>
+          <AchievementsProvider>
+            <AppContent />
+          </AchievementsProvider>
+        </AuthProvider>
+      </RouterProvider>
     </ErrorBoundary>
   )
 }
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { Award, Lock, Loader2 } from 'lucide-react'
+import { Badge } from '../UI/Badge'
+import { useAchievements } from '../../hooks/useAchievements'
+import { formatAchievementProgress } from '../../utils/achievements'
+
+export function AchievementsPanel() {
+  const { achievements, unseenCount, loading, error, markAllSeen } = useAchievements()
+  // Achievements that were new when the panel was opened keep their "New" badge
+  // for this visit even though they're marked seen straight away
+  const [freshIds, setFreshIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (unseenCount === 0) return
+
+    const unseen = achievements
+      .filter(status => status.unlocked && !status.unlocked.seen_at)
+      .map(status => status.definition.id)
+    setFreshIds(prev => new Set([...prev, ...unseen]))
+    markAllSeen()
+  }, [unseenCount, achievements, markAllSeen])
+
+  const unlockedCount = achievements.filter(status => status.unlocked).length
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+          <Award className="w-5 h-5 text-blue-600" />
+          <span>Achievements</span>
+        </h2>
+        <span className="text-sm text-gray-500">
+          {loading && achievements.length === 0
+            ? <Loader2 className="w-4 h-4 animate-spin" />
+            : `${unlockedCount} of ${achievements.length} unlocked`}
+        </span>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {achievements.map(({ definition, progress, unlocked }) => {
+          const isFresh = freshIds.has(definition.id)
+
+          return (
+            <div
+              key={definition.id}
+              className={`flex items-start space-x-3 p-4 rounded-xl border ${
+                unlocked ? 'border-gray-200 bg-white' : 'border-dashed border-gray-200 bg-gray-50'
+              }`}
+            >
+              <Badge
+                content={isFresh ? 'New' : '✓'}
+                variant={isFresh ? 'danger' : definition.variant}
+                pulse={isFresh}
+                show={!!unlocked}
+                ariaLabel={isFresh ? `New achievement: ${definition.title}` : `${definition.title} unlocked`}
+              >
+                <div className={`w-12 h-12 rounded-full flex items-center justify-center text-2xl ${
+                  unlocked ? 'bg-blue-50' : 'bg-gray-100 grayscale opacity-60'
+                }`}>
+                  {unlocked ? definition.icon : <Lock className="w-5 h-5 text-gray-400" />}
+                </div>
+              </Badge>
+              <div className="flex-1 min-w-0">
+                <p className={`font-medium ${unlocked ? 'text-gray-900' : 'text-gray-500'}`}>{definition.title}</p>
+                <p className="text-xs text-gray-500">{definition.description}</p>
+                <p className="text-xs mt-1 text-gray-400">
+                  {unlocked
+                    ? `Unlocked ${new Date(unlocked.unlocked_at).toLocaleDateString()}`
+                    : formatAchievementProgress(definition, progress)}
+                </p>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { Trash2, Shield, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react'
-import { supabase } from '../../lib/supabase'
+import { database } from '../../lib/database'
 import { useAuth } from '../../hooks/useAuth'
 
 export function AuthCleaner() {
@@ -161,7 +161,7 @@ export function AuthCleaner() {
       // Step 7: Verify Supabase session is cleared
       addStatus('Verifying session clearance', true, ['Checking Supabase session status...'])
       try {
-        const { data: { session }, error } = await supabase.auth.getSession()
+        const { data: { session }, error } = await database.auth.getSession()
         if (session) {
           addStatus('Session verification', false, ['Session still exists after cleanup'])
         } else {
@@ -0,0 +1,26 @@
+import { Lock, LogIn } from 'lucide-react'
+
+interface AuthRequiredProps {
+  title: string
+  onSignIn: () => void
+}
+
+// Placeholder rendered in place of a page that needs a signed-in user
+export function AuthRequired({ title, onSignIn }: AuthRequiredProps) {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="text-center py-12">
+        <Lock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Sign In Required</h2>
+        <p className="text-gray-600 mb-6">Please sign in to view {title.toLowerCase()}.</p>
+        <button
+          onClick={onSignIn}
+          className="inline-flex items-center space-x-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          <span>Sign In</span>
+        </button>
+      </div>
+    </div>
+  )
+}
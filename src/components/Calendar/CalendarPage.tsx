@@ -0,0 +1,277 @@
+import { useMemo, useState } from 'react'
+import {
+  CalendarDays, ChevronLeft, ChevronRight, Download, Rss, Copy, Check, CheckCircle, XCircle, Loader2
+} from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useCalendarEvents } from '../../hooks/useCalendarEvents'
+import {
+  CalendarEvent,
+  CalendarEventKind,
+  CalendarView,
+  formatEventTime,
+  getMonthDays,
+  getWeekDays,
+  groupEventsByDay,
+  shiftPeriod,
+  toICalendar
+} from '../../utils/calendar'
+import { formatPlanDate } from '../../utils/trainingPlans'
+import { downloadTextFile } from '../../utils/routeFileFormats'
+
+interface CalendarPageProps {
+  onOpenRoute: (routeId: string) => void
+  onOpenProcrastinationRoute: (routeId: string) => void
+}
+
+const KIND_STYLES: Record<CalendarEventKind, { label: string; chip: string; dot: string }> = {
+  workout: { label: 'Scheduled workout', chip: 'bg-blue-50 text-blue-800 hover:bg-blue-100', dot: 'bg-blue-500' },
+  activity: { label: 'Completed activity', chip: 'bg-green-50 text-green-800 hover:bg-green-100', dot: 'bg-green-500' },
+  procrastination: {
+    label: 'Procrastination step',
+    chip: 'bg-amber-50 text-amber-800 hover:bg-amber-100',
+    dot: 'bg-amber-500'
+  }
+}
+
+// Cells in the month view list this many events before collapsing the rest
+const MONTH_CELL_EVENTS = 3
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function EventChip({ event, showTime, onOpen }: { event: CalendarEvent; showTime: boolean; onOpen: () => void }) {
+  return (
+    <button
+      onClick={onOpen}
+      title={[event.title, formatEventTime(event), event.description].filter(Boolean).join('\n')}
+      className={`w-full flex items-center space-x-1 px-1.5 py-0.5 rounded text-left text-xs transition-colors ${KIND_STYLES[event.kind].chip}`}
+    >
+      {event.status === 'done' && <CheckCircle className="w-3 h-3 shrink-0 text-green-600" />}
+      {event.status === 'missed' && <XCircle className="w-3 h-3 shrink-0 text-red-400" />}
+      <span className="truncate">
+        {showTime && !event.allDay && (
+          <span className="font-medium">
+            {event.start.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}{' '}
+          </span>
+        )}
+        {event.title}
+      </span>
+    </button>
+  )
+}
+
+export function CalendarPage({ onOpenRoute, onOpenProcrastinationRoute }: CalendarPageProps) {
+  const { user } = useAuth()
+  const { events, loading, error } = useCalendarEvents(user?.id)
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+  const [showFeed, setShowFeed] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const days = useMemo(() => view === 'month' ? getMonthDays(cursor) : getWeekDays(cursor), [view, cursor])
+  const eventsByDay = useMemo(() => groupEventsByDay(events, days), [events, days])
+  const feed = useMemo(() => showFeed ? toICalendar(events) : '', [showFeed, events])
+
+  const today = formatPlanDate(new Date())
+
+  const periodLabel = view === 'month'
+    ? cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${
+      days[days.length - 1].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+    }`
+
+  const openEvent = (event: CalendarEvent) => {
+    if (!event.linkId) return
+    if (event.kind === 'procrastination') {
+      onOpenProcrastinationRoute(event.linkId)
+    } else {
+      onOpenRoute(event.linkId)
+    }
+  }
+
+  const showWeekOf = (day: Date) => {
+    setCursor(day)
+    setView('week')
+  }
+
+  const exportCalendar = () => {
+    downloadTextFile(toICalendar(events), 'strong-strong-calendar.ics', 'text/calendar')
+  }
+
+  const copyFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(feed)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying calendar feed:', error)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Calendar</h1>
+          <p className="text-gray-600">Training plans, logged workouts and procrastination routes in one place</p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex space-x-2">
+          <button
+            onClick={() => setShowFeed(prev => !prev)}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-xl transition-colors"
+          >
+            <Rss className="w-5 h-5" />
+            <span>Feed</span>
+          </button>
+          <button
+            onClick={exportCalendar}
+            disabled={events.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+          >
+            <Download className="w-5 h-5" />
+            <span>Export .ics</span>
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-6 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>}
+
+      {showFeed && (
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Calendar feed</h2>
+              <p className="text-sm text-gray-600">
+                Save this text as a .ics file wherever your calendar app can reach it, then subscribe to its URL.
+                Re-copy it after changing your plans to keep the feed current.
+              </p>
+            </div>
+            <button
+              onClick={copyFeed}
+              className="ml-4 shrink-0 flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </button>
+          </div>
+          <textarea
+            readOnly
+            value={feed}
+            rows={8}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-xl bg-gray-50"
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setCursor(prev => shiftPeriod(prev, view, -1))}
+              className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100"
+              aria-label="Previous"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setCursor(new Date())}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setCursor(prev => shiftPeriod(prev, view, 1))}
+              className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100"
+              aria-label="Next"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <h2 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+              <CalendarDays className="w-5 h-5 text-blue-600" />
+              <span>{periodLabel}</span>
+            </h2>
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+          </div>
+
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['month', 'week'] as CalendarView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 capitalize ${view === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mb-4 text-xs text-gray-600">
+          {Object.values(KIND_STYLES).map(style => (
+            <span key={style.label} className="flex items-center space-x-1">
+              <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+              <span>{style.label}</span>
+            </span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-xl overflow-hidden">
+          {WEEKDAY_LABELS.map(label => (
+            <div key={label} className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500 text-center">
+              {label}
+            </div>
+          ))}
+
+          {days.map(day => {
+            const key = formatPlanDate(day)
+            const dayEvents = eventsByDay.get(key) ?? []
+            const visible = view === 'month' ? dayEvents.slice(0, MONTH_CELL_EVENTS) : dayEvents
+            const hidden = dayEvents.length - visible.length
+            const outsideMonth = view === 'month' && day.getMonth() !== cursor.getMonth()
+
+            return (
+              <div
+                key={key}
+                className={`p-1.5 space-y-1 ${view === 'month' ? 'min-h-[6rem]' : 'min-h-[16rem]'} ${
+                  outsideMonth ? 'bg-gray-50' : 'bg-white'
+                }`}
+              >
+                <p
+                  className={`text-xs font-medium ${
+                    key === today
+                      ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-blue-600 text-white'
+                      : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+                  }`}
+                >
+                  {day.getDate()}
+                </p>
+                {visible.map(event => (
+                  <EventChip
+                    key={event.id}
+                    event={event}
+                    showTime={view === 'week'}
+                    onOpen={() => openEvent(event)}
+                  />
+                ))}
+                {hidden > 0 && (
+                  <button
+                    onClick={() => showWeekOf(day)}
+                    className="text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    +{hidden} more
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {!loading && events.length === 0 && (
+          <p className="mt-4 text-sm text-gray-500 text-center">
+            Nothing on your calendar yet. Start a training plan, log a workout or save a procrastination route.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
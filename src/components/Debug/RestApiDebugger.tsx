@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { Activity, RefreshCw, CheckCircle, AlertTriangle, X, Download, Eye } from 'lucide-react'
-import { database, SupabaseError, testSupabaseConnection } from '../../lib/supabase'
+import { SupabaseError, testSupabaseConnection } from '../../lib/supabase'
+import { database } from '../../lib/database'
 
 interface RestApiDiagnosticResult {
   endpoint: string
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { useAuth } from '../../hooks/useAuth'
-import { supabase } from '../../lib/supabase'
+import { database } from '../../lib/database'
 import { AlertCircle, CheckCircle, Info, RefreshCw, Clock, Wifi, Database, Shield, Trash2 } from 'lucide-react'
 
 interface DiagnosticResult {
@@ -74,7 +74,7 @@ export function SignOutDebugger() {
     // Test 3: Supabase Connection Test
     const connectionStartTime = Date.now()
     try {
-      const { data: { session: currentSession }, error } = await supabase.auth.getSession()
+      const { data: { session: currentSession }, error } = await database.auth.getSession()
       if (error) {
         addDebugResult('Supabase Connection', 'fail', `Connection error: ${error.message}`, error, Date.now() - connectionStartTime)
       } else {
@@ -0,0 +1,65 @@
+import { Flame, CheckCircle, Trash2 } from 'lucide-react'
+import { GoalWithProgress } from '../../hooks/useGoals'
+import { describeGoal, formatGoalAmount } from '../../utils/goalProgress'
+
+interface GoalProgressItemProps {
+  item: GoalWithProgress
+  onDelete?: (goalId: string) => void
+  deleting?: boolean
+}
+
+export function GoalProgressItem({ item, onDelete, deleting = false }: GoalProgressItemProps) {
+  const { goal, progress, streak } = item
+  const daysLeft = Math.max(0, Math.ceil((progress.periodEnd.getTime() - Date.now()) / 86400000))
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-xl">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium text-gray-900 capitalize">{describeGoal(goal)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {progress.achieved
+              ? `Done for this ${goal.period}`
+              : `${formatGoalAmount(goal.metric, Math.max(0, progress.target - progress.current))} to go · ${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {streak.current > 0 && (
+            <span
+              className="flex items-center space-x-1 text-xs text-orange-600"
+              title={`Best streak: ${streak.best} ${goal.period}${streak.best === 1 ? '' : 's'}`}
+            >
+              <Flame className="w-4 h-4" />
+              <span>{streak.current}</span>
+            </span>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => onDelete(goal.id)}
+              disabled={deleting}
+              className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+              aria-label="Delete goal"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-center space-x-3">
+        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all ${progress.achieved ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ width: `${progress.fraction * 100}%` }}
+          />
+        </div>
+        <span className="flex items-center space-x-1 text-xs text-gray-700 whitespace-nowrap">
+          {progress.achieved && <CheckCircle className="w-3 h-3 text-green-600" />}
+          <span>
+            {formatGoalAmount(goal.metric, progress.current)} / {formatGoalAmount(goal.metric, progress.target)}
+          </span>
+        </span>
+      </div>
+    </div>
+  )
+}
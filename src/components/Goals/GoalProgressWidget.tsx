@@ -0,0 +1,52 @@
+import { Target, Flame, ArrowRight, Loader2 } from 'lucide-react'
+import { useGoals } from '../../hooks/useGoals'
+import { GoalProgressItem } from './GoalProgressItem'
+
+interface GoalProgressWidgetProps {
+  userId: string
+  onManageGoals: () => void
+}
+
+// Compact view of this period's goals for the home page
+export function GoalProgressWidget({ userId, onManageGoals }: GoalProgressWidgetProps) {
+  const { goals, activityStreak, loading, error } = useGoals(userId)
+
+  return (
+    <div className="mt-12 max-w-3xl mx-auto bg-white rounded-2xl shadow-lg p-6 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+          <Target className="w-5 h-5 text-blue-600" />
+          <span>Your Progress</span>
+        </h2>
+        <span className="flex items-center space-x-1 text-sm text-orange-600">
+          <Flame className="w-4 h-4" />
+          <span>{activityStreak.current} day streak</span>
+        </span>
+      </div>
+
+      {loading && goals.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : goals.length === 0 ? (
+        <p className="text-sm text-gray-500">Set a weekly or monthly goal to start tracking your progress.</p>
+      ) : (
+        <div className="space-y-3">
+          {goals.map(item => (
+            <GoalProgressItem key={item.goal.id} item={item} />
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onManageGoals}
+        className="mt-4 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+      >
+        <span>{goals.length === 0 ? 'Set a goal' : 'Manage goals'}</span>
+        <ArrowRight className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Target, Flame, Plus, Save, X, Loader2 } from 'lucide-react'
+import { GoalMetric, GoalPeriod, FitnessRoute } from '../../lib/supabase'
+import { useGoals } from '../../hooks/useGoals'
+import { GOAL_METRIC_LABELS } from '../../utils/goalProgress'
+import { ROUTE_TYPES } from '../../utils/routeValidation'
+import { GoalProgressItem } from './GoalProgressItem'
+
+interface GoalsPanelProps {
+  userId: string
+}
+
+interface GoalFormData {
+  metric: GoalMetric
+  period: GoalPeriod
+  target: string
+  route_type: FitnessRoute['route_type'] | ''
+}
+
+const defaultFormValues: GoalFormData = {
+  metric: 'workouts',
+  period: 'week',
+  target: '3',
+  route_type: ''
+}
+
+export function GoalsPanel({ userId }: GoalsPanelProps) {
+  const { goals, activityStreak, loading, error, createGoal, deleteGoal } = useGoals(userId)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const { register, handleSubmit, formState: { errors }, reset } = useForm<GoalFormData>({
+    defaultValues: defaultFormValues
+  })
+
+  const openForm = () => {
+    reset(defaultFormValues)
+    setShowForm(true)
+  }
+
+  const onSubmit = async (data: GoalFormData) => {
+    setSaving(true)
+    const created = await createGoal({
+      metric: data.metric,
+      period: data.period,
+      target: parseFloat(data.target),
+      route_type: data.route_type || null
+    })
+    setSaving(false)
+
+    if (created) setShowForm(false)
+  }
+
+  const handleDelete = async (goalId: string) => {
+    if (!window.confirm('Delete this goal?')) return
+
+    setDeletingId(goalId)
+    await deleteGoal(goalId)
+    setDeletingId(null)
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+          <Target className="w-5 h-5 text-blue-600" />
+          <span>Goals</span>
+        </h2>
+        <div className="flex items-center space-x-4">
+          <span
+            className="flex items-center space-x-1 text-sm text-orange-600"
+            title={`Longest daily streak: ${activityStreak.best} day${activityStreak.best === 1 ? '' : 's'}`}
+          >
+            <Flame className="w-4 h-4" />
+            <span>{activityStreak.current} day streak</span>
+          </span>
+          {!showForm && (
+            <button
+              onClick={openForm}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Goal</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>}
+
+      {showForm && (
+        <form onSubmit={handleSubmit(onSubmit)} className="mb-6 p-4 bg-gray-50 rounded-xl space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Target</label>
+              <input
+                {...register('target', {
+                  required: 'Target is required',
+                  validate: value => {
+                    const target = parseFloat(value)
+                    return (target > 0 && target <= 100000) || 'Enter a positive number'
+                  }
+                })}
+                type="number"
+                step="any"
+                min="0"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {errors.target && <p className="mt-1 text-xs text-red-600">{errors.target.message}</p>}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Measure</label>
+              <select
+                {...register('metric')}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(GOAL_METRIC_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Activity</label>
+              <select
+                {...register('route_type')}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any</option>
+                {ROUTE_TYPES.map(type => (
+                  <option key={type} value={type} className="capitalize">{type.replace('-', ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Every</label>
+              <select
+                {...register('period')}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="flex items-center space-x-1 px-3 py-2 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-1 px-3 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              <span>Save Goal</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && goals.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : goals.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          No goals yet. Try something like 3 workouts or 20 miles of running per week.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {goals.map(item => (
+            <GoalProgressItem
+              key={item.goal.id}
+              item={item}
+              onDelete={handleDelete}
+              deleting={deletingId === item.goal.id}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,15 @@
 import React, { useState } from 'react'
 import { Activity, MapPin, Users, Award, ArrowRight, Star } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
+import { GoalProgressWidget } from '../Goals/GoalProgressWidget'
+import { TodaysWorkoutWidget } from '../Training/TodaysWorkout'
 
 interface HomePageProps {
   onNavigate: (page: string) => void
+  onOpenRoute: (routeId: string) => void
 }
 
-export function HomePage({ onNavigate }: HomePageProps) {
+export function HomePage({ onNavigate, onOpenRoute }: HomePageProps) {
   const { user } = useAuth()
   const [boltBadgeRotating, setBoltBadgeRotating] = useState(false)
 
@@ -115,6 +118,17 @@ export function HomePage({ onNavigate }: HomePageProps) {
               )}
             </div>
           </div>
+
+          {user && (
+            <>
+              <GoalProgressWidget userId={user.id} onManageGoals={() => onNavigate('profile')} />
+              <TodaysWorkoutWidget
+                userId={user.id}
+                onOpenRoute={onOpenRoute}
+                onManagePlans={() => onNavigate('training')}
+              />
+            </>
+          )}
         </div>
       </section>
 
@@ -1,7 +1,8 @@
 import React, { useState } from 'react'
-import { Menu, X, User, LogOut, Settings, Heart, Activity, Home, Coffee, AlertTriangle, Wifi } from 'lucide-react'
+import { Menu, X, User, LogOut, Settings, Heart, Activity, Home, Coffee, AlertTriangle, Wifi, CalendarDays, Calendar, BookOpen } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import { useNetwork } from '../../hooks/useNetwork'
+import { useAchievements } from '../../hooks/useAchievements'
 import { AuthModal } from '../Auth/AuthModal'
 import { Badge, NotificationBadge } from '../UI/Badge'
 
@@ -13,6 +14,7 @@ interface NavbarProps {
 export function Navbar({ currentPage, onNavigate }: NavbarProps) {
   const { user, profile, signOut, signOutLoading, lastSignOutAttempt, connectionError } = useAuth()
   const { status: networkStatus } = useNetwork()
+  const { unseenCount: unseenAchievements } = useAchievements()
   const [showAuthModal, setShowAuthModal] = useState(false)
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login')
   const [showMobileMenu, setShowMobileMenu] = useState(false)
@@ -81,15 +83,18 @@ export function Navbar({ currentPage, onNavigate }: NavbarProps) {
     { id: 'procrastination', label: 'Procrastination Planner', icon: Coffee },
     ...(user ? [
       { id: 'saved', label: 'My Fitness Routes', icon: Heart },
-      { id: 'saved-procrastination', label: 'My Procrastination Routes', icon: Coffee }
+      { id: 'training', label: 'Training Plans', icon: CalendarDays },
+      { id: 'calendar', label: 'Calendar', icon: Calendar },
+      { id: 'saved-procrastination', label: 'My Procrastination Routes', icon: Coffee },
+      { id: 'procrastination-library', label: 'Step Library', icon: BookOpen }
     ] : [])
   ]
 
-  // Mock notification counts for demonstration
+  // Mock notification counts for demonstration; profile shows newly unlocked achievements
   const notificationCounts = {
     routes: 3,
     'saved-procrastination': 5,
-    profile: 2
+    profile: unseenAchievements
   }
 
   return (
@@ -160,6 +165,8 @@ export function Navbar({ currentPage, onNavigate }: NavbarProps) {
                 <div className="relative">
                   <NotificationBadge 
                     count={notificationCounts.profile}
+                    show={notificationCounts.profile > 0}
+                    ariaLabel={`${notificationCounts.profile} new achievement${notificationCounts.profile === 1 ? '' : 's'}`}
                     className={selectedBadges.has('profile') ? 'badge-rotate-360' : ''}
                   >
                     <button
@@ -0,0 +1,24 @@
+import { Compass, ArrowRight } from 'lucide-react'
+
+interface NotFoundProps {
+  onNavigate: (page: string) => void
+}
+
+export function NotFound({ onNavigate }: NotFoundProps) {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="text-center py-12">
+        <Compass className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Page Not Found</h2>
+        <p className="text-gray-600 mb-6">This path doesn't lead anywhere. Let's get you back on route.</p>
+        <button
+          onClick={() => onNavigate('home')}
+          className="inline-flex items-center space-x-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors"
+        >
+          <span>Go Home</span>
+          <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,115 +1,134 @@
-import React, { useState } from 'react'
-import { Save, Check, AlertCircle } from 'lucide-react'
+import React, { useMemo, useState } from 'react'
+import { Save, Check, AlertCircle, Shuffle, Link2, BookOpen, Clock } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
-import { ProcrastinationStep, database, SupabaseError } from '../../lib/supabase'
+import { useProcrastinationLibrary } from '../../hooks/useProcrastinationLibrary'
+import { ProcrastinationStep, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { buildPath } from '../../lib/router'
 import { CorporateDetourHeader } from './CorporateDetourHeader'
 import { ProcrastinationStepCard } from './ProcrastinationStepCard'
 import { CorporateLoadingSpinner } from './CorporateLoadingSpinner'
+import {
+  TIME_BUDGET_MAX_MINUTES,
+  defaultCatalog,
+  formatTimeInvestment,
+  generateRouteSteps,
+  generateSeededRoute,
+  getTotalMinutes,
+  parseTimeInvestment,
+  withLibrarySteps
+} from '../../utils/procrastinationEngine'
+import { SEED_MAX_LENGTH, nextSeed, randomSeed } from '../../utils/random'
 import '../../styles/design-system.css'
 
-export function ProcrastinationGenerator() {
+interface ProcrastinationGeneratorProps {
+  // From a shared or saved route's link: regenerate it straight away
+  initialTask?: string
+  initialSeed?: string
+  // Time budget in minutes, as it appears in the link
+  initialBudget?: string
+  onOpenLibrary?: () => void
+}
+
+type GeneratedFrom = {
+  task: string
+  // Null for routes mixed with library steps, which a seed cannot reproduce
+  seed: string | null
+  budgetMinutes: number | null
+}
+
+// Budgets from links are whole minutes; anything else is ignored
+function parseBudgetParam(value: string | undefined): number | null {
+  const minutes = Number(value)
+  return value && Number.isInteger(minutes) && minutes >= 1 && minutes <= TIME_BUDGET_MAX_MINUTES ? minutes : null
+}
+
+const getRoutePath = ({ task, seed, budgetMinutes }: GeneratedFrom & { seed: string }) => budgetMinutes
+  ? buildPath('procrastination-seed-budget', { seed, budget: String(budgetMinutes), task })
+  : buildPath('procrastination-seed', { seed, task })
+
+export function ProcrastinationGenerator({
+  initialTask,
+  initialSeed,
+  initialBudget,
+  onOpenLibrary
+}: ProcrastinationGeneratorProps = {}) {
   const { user } = useAuth()
-  const [task, setTask] = useState('')
-  const [generatedRoute, setGeneratedRoute] = useState<ProcrastinationStep[]>([])
+  const [task, setTask] = useState(initialTask ?? '')
+  const [seedInput, setSeedInput] = useState(initialSeed ?? '')
+  const [budgetInput, setBudgetInput] = useState(() => {
+    const minutes = parseBudgetParam(initialBudget)
+    return minutes ? formatTimeInvestment(minutes) : ''
+  })
+  const { steps: librarySteps, communitySteps } = useProcrastinationLibrary(user?.id)
+  const [mixLibrary, setMixLibrary] = useState(false)
+  // The inputs the shown route came from, so editing them can't mislabel it
+  const [generatedFrom, setGeneratedFrom] = useState<GeneratedFrom | null>(() =>
+    initialTask?.trim() && initialSeed
+      ? { task: initialTask.trim(), seed: initialSeed, budgetMinutes: parseBudgetParam(initialBudget) }
+      : null)
+  const [generatedRoute, setGeneratedRoute] = useState<ProcrastinationStep[]>(() =>
+    generatedFrom?.seed
+      ? generateSeededRoute(generatedFrom.task, generatedFrom.seed, generatedFrom.budgetMinutes)
+      : [])
   const [isGenerating, setIsGenerating] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [saveMessage, setSaveMessage] = useState('')
   const [isRouteSaved, setIsRouteSaved] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
   const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set())
 
-  const generateProcrastinationRoute = () => {
-    if (!task.trim()) return
+  // Built-in templates plus the user's own and approved community steps
+  const libraryCatalog = useMemo(
+    () => withLibrarySteps(defaultCatalog, [...librarySteps, ...communitySteps]),
+    [librarySteps, communitySteps]
+  )
+  const canMixLibrary = librarySteps.length + communitySteps.length > 0
+
+  // Blank means no budget; otherwise a duration such as "3 hours" or "90 min"
+  const budgetMinutes = budgetInput.trim() ? parseTimeInvestment(budgetInput) : null
+  const budgetInvalid = budgetInput.trim() !== ''
+    && (budgetMinutes === null || budgetMinutes > TIME_BUDGET_MAX_MINUTES)
+
+  // A null seed mixes in library steps, at random rather than from a seed
+  const generateProcrastinationRoute = (
+    seed: string | null = mixLibrary && canMixLibrary ? null : seedInput.trim() || randomSeed(),
+    budget = budgetMinutes
+  ) => {
+    const taskText = task.trim()
+    if (!taskText || budgetInvalid) return
 
     setIsGenerating(true)
     
     // Extended delay for satirical effect
     setTimeout(() => {
-      const routes = generateRouteSteps(task)
-      setGeneratedRoute(routes)
+      setGeneratedFrom({ task: taskText, seed, budgetMinutes: budget })
+      setGeneratedRoute(seed === null
+        ? generateRouteSteps(taskText, libraryCatalog, Math.random, budget)
+        : generateSeededRoute(taskText, seed, budget))
       setIsGenerating(false)
       setIsRouteSaved(false)
       setSaveMessage('')
+      setLinkCopied(false)
       setExpandedSteps(new Set())
     }, 2500)
   }
 
-  const generateRouteSteps = (userTask: string): ProcrastinationStep[] => {
-    const taskLower = userTask.toLowerCase()
-    
-    const baseRoutes = [
-      {
-        name: "Comprehensive Workspace Ergonomics Assessment",
-        description: "Conduct a 47-point evaluation of your desk setup including monitor height calculations using the golden ratio, keyboard angle measurements with a protractor, and chair height optimization through systematic 0.5cm adjustments while documenting each change in a color-coded spreadsheet with pivot tables for future analysis.",
-        timeInvestment: "2.5 hours",
-        benefit: "Achieves optimal productivity posture for tackling challenging tasks with unprecedented efficiency."
-      },
-      {
-        name: "Email Organization Architecture Overhaul",
-        description: "Create a sophisticated 12-tier folder hierarchy system, establish 47 custom email rules with Boolean logic operators, retroactively categorize every email from the past 3 years using advanced machine learning principles, and design a personal email charter with response time protocols and signature font psychology analysis.",
-        timeInvestment: "4 hours",
-        benefit: "Eliminates digital clutter that clearly blocks creative thinking and innovative problem-solving capabilities."
-      },
-      {
-        name: "Strategic Snack Inventory Management System",
-        description: "Catalog all kitchen contents by nutritional value, expiration date, and motivational potential using a proprietary scoring algorithm. Create a meal planning system that optimizes brain food consumption for peak performance, including a 15-page analysis of optimal coffee brewing temperatures with scientific citations.",
-        timeInvestment: "1.5 hours",
-        benefit: "Ensures proper fuel for sustained focus on important projects while maximizing cognitive enhancement potential."
-      },
-      {
-        name: "Deep Research Rabbit Hole Expedition",
-        description: "Begin with a 'quick' fact-check about your task, evolve into reading 37 Wikipedia articles about tangentially related topics, watch 14 YouTube videos about productivity techniques from thought leaders, and create a comprehensive mind map connecting everything you've learned with color-coded relationship indicators.",
-        timeInvestment: "3.2 hours",
-        benefit: "Builds comprehensive background knowledge essential for informed decision-making and contextual understanding."
-      },
-      {
-        name: "Social Media Competitive Intelligence Analysis",
-        description: "Systematically review how industry peers are handling similar challenges by scrolling through all major platforms, analyzing their success patterns with statistical rigor, screenshot inspirational quotes for motivation database, and create a vision board of aspirational productivity aesthetics using design thinking principles.",
-        timeInvestment: "2.8 hours",
-        benefit: "Gathers crucial market intelligence and motivational resources for strategic advantage implementation."
-      },
-      {
-        name: "Digital Tool Optimization Audit",
-        description: "Research and test 23 new productivity apps, create detailed feature comparison matrices, migrate data between systems for optimal workflow integration, customize notification settings for maximum efficiency, and establish a personal SOP manual for tool utilization with version control.",
-        timeInvestment: "3.7 hours",
-        benefit: "Streamlines technological infrastructure to eliminate friction in future high-priority task execution."
-      }
-    ]
-
-    // Add task-specific variations with enhanced satirical elements
-    if (taskLower.includes('write') || taskLower.includes('essay') || taskLower.includes('report')) {
-      baseRoutes.push({
-        name: "Literary Inspiration Archaeological Expedition",
-        description: "Research advanced writing techniques by reading 23 articles about productivity science, reorganize digital bookmarks into a taxonomic system worthy of Library of Congress standards, test 7 different writing applications with detailed feature matrices and performance benchmarks, and create the perfect Spotify playlist for creative flow states using neuroscience principles.",
-        timeInvestment: "3.5 hours",
-        benefit: "Establishes optimal creative environment for breakthrough insights and revolutionary thought leadership content."
-      })
-    }
-
-    if (taskLower.includes('study') || taskLower.includes('exam') || taskLower.includes('learn')) {
-      baseRoutes.push({
-        name: "Neuroplasticity Enhancement Protocol Development",
-        description: "Research the latest peer-reviewed studies on learning efficiency and memory consolidation, reorganize all study materials by color psychology and information architecture principles, create a complex scheduling system with 15-minute intervals optimized for circadian rhythms, and design custom flashcards with advanced typography and cognitive psychology applications.",
-        timeInvestment: "2.8 hours",
-        benefit: "Optimizes neural pathways for accelerated information retention and enhanced cognitive performance metrics."
-      })
-    }
+  const copyRouteLink = async () => {
+    if (!generatedFrom?.seed) return
 
-    if (taskLower.includes('clean') || taskLower.includes('organize')) {
-      baseRoutes.push({
-        name: "Zen Master Space Clearing Meditation Protocol",
-        description: "Read extensively about Marie Kondo's philosophy and spatial psychology research, watch minimalism documentaries for cultural context, create a detailed floor plan with precise measurements and feng shui analysis, research storage solutions for 2 hours using comparative shopping methodology, and develop a 12-step decluttering framework with photographic documentation and progress metrics.",
-        timeInvestment: "4.2 hours",
-        benefit: "Achieves enlightened understanding of spatial harmony principles for maximum environmental productivity enhancement."
-      })
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${getRoutePath({ ...generatedFrom, seed: generatedFrom.seed })}`
+      )
+      setLinkCopied(true)
+    } catch (error) {
+      console.error('Error copying route link:', error)
     }
-
-    // Return 3-5 random routes with weighted selection
-    const shuffled = baseRoutes.sort(() => 0.5 - Math.random())
-    return shuffled.slice(0, Math.floor(Math.random() * 3) + 3)
   }
 
   const saveRoute = async () => {
-    if (!user || !generatedRoute.length || !task.trim()) {
+    if (!user || !generatedRoute.length || !generatedFrom) {
       setSaveMessage('Please log in and generate a route first.')
       return
     }
@@ -120,8 +139,10 @@ export function ProcrastinationGenerator() {
     try {
       const { error } = await database.saveProcrastinationRoute(
         user.id,
-        task.trim(),
-        generatedRoute
+        generatedFrom.task,
+        generatedRoute,
+        generatedFrom.seed,
+        generatedFrom.budgetMinutes
       )
 
       if (error) {
@@ -187,9 +208,40 @@ export function ProcrastinationGenerator() {
             className="input-corporate text-lg"
             onKeyDown={(e) => e.key === 'Enter' && generateProcrastinationRoute()}
           />
+          <input
+            type="text"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            maxLength={SEED_MAX_LENGTH}
+            disabled={mixLibrary && canMixLibrary}
+            placeholder={mixLibrary && canMixLibrary
+              ? 'Routes mixed with library steps have no seed'
+              : 'Seed (optional) - the same task and seed always give the same route'}
+            className="input-corporate text-sm font-mono"
+            onKeyDown={(e) => e.key === 'Enter' && generateProcrastinationRoute()}
+          />
+          <div>
+            <input
+              type="text"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="Time budget (optional) - e.g. I have 3 hours to waste"
+              className="input-corporate text-sm"
+              onKeyDown={(e) => e.key === 'Enter' && generateProcrastinationRoute()}
+            />
+            {budgetInvalid ? (
+              <p className="mt-1 text-sm text-red-600 font-secondary">
+                Enter a duration such as "3 hours" or "90 min", up to {formatTimeInvestment(TIME_BUDGET_MAX_MINUTES)}.
+              </p>
+            ) : budgetMinutes !== null && (
+              <p className="mt-1 text-sm text-muted font-secondary">
+                Steps will fill {formatTimeInvestment(budgetMinutes)} as closely as possible.
+              </p>
+            )}
+          </div>
           <button
-            onClick={generateProcrastinationRoute}
-            disabled={!task.trim() || isGenerating}
+            onClick={() => generateProcrastinationRoute()}
+            disabled={!task.trim() || budgetInvalid || isGenerating}
             className="btn-primary w-full text-lg py-4 hover-hesitate click-delay"
           >
             {isGenerating ? (
@@ -208,6 +260,35 @@ export function ProcrastinationGenerator() {
         <div className="productivity-mockery mt-4 text-sm">
           * Results optimized for maximum time displacement with minimal guilt accumulation
         </div>
+
+        {user && canMixLibrary && (
+          <label className="mt-3 flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={mixLibrary}
+              onChange={(e) => setMixLibrary(e.target.checked)}
+              className="w-4 h-4 text-purple-600 rounded focus:ring-purple-500"
+            />
+            <span>
+              Mix in {librarySteps.length} of your own and {communitySteps.length} community steps
+              (the route can't be shared as a link)
+            </span>
+          </label>
+        )}
+
+        {user && onOpenLibrary && (
+          <button
+            onClick={onOpenLibrary}
+            className="mt-3 flex items-center space-x-1 text-sm text-purple-700 hover:text-purple-900"
+          >
+            <BookOpen className="w-4 h-4" />
+            <span>
+              {librarySteps.length > 0
+                ? `${librarySteps.length} steps of your own - manage your library`
+                : 'Write your own steps in the Step Library'}
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Loading State */}
@@ -229,6 +310,42 @@ export function ProcrastinationGenerator() {
               <p className="text-muted font-secondary mt-2">
                 Scientifically designed to maximize productivity theater while minimizing actual progress
               </p>
+              {generatedFrom && (
+                <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+                  <span className="flex items-center space-x-1 text-muted">
+                    <Clock className="w-4 h-4" />
+                    <span>
+                      Displaces {formatTimeInvestment(getTotalMinutes(generatedRoute))}
+                      {generatedFrom.budgetMinutes !== null &&
+                        ` of ${formatTimeInvestment(generatedFrom.budgetMinutes)} budgeted`}
+                    </span>
+                  </span>
+                  <span className="text-muted">
+                    {generatedFrom.seed !== null
+                      ? <>Seed <code className="font-mono text-gray-900">{generatedFrom.seed}</code></>
+                      : 'Mixed with library steps'}
+                  </span>
+                  <button
+                    onClick={() => generateProcrastinationRoute(
+                      generatedFrom.seed === null ? null : nextSeed(generatedFrom.seed),
+                      generatedFrom.budgetMinutes
+                    )}
+                    className="flex items-center space-x-1 text-purple-700 hover:text-purple-900"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                    <span>Another variation</span>
+                  </button>
+                  {generatedFrom.seed !== null && (
+                    <button
+                      onClick={copyRouteLink}
+                      className="flex items-center space-x-1 text-purple-700 hover:text-purple-900"
+                    >
+                      {linkCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                      <span>{linkCopied ? 'Link copied' : 'Copy link'}</span>
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
             
             {user && (
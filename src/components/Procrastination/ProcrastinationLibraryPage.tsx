@@ -0,0 +1,289 @@
+import { useState } from 'react'
+import { BookOpen, Plus, Edit3, Trash2, Save, Loader2, Users, Clock } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useProcrastinationLibrary } from '../../hooks/useProcrastinationLibrary'
+import { ProcrastinationLibraryStep, ProcrastinationLibraryStepInput } from '../../lib/supabase'
+import {
+  LIBRARY_STEP_LIMITS,
+  STEP_MAX_MINUTES,
+  formatTimeInvestment,
+  parseTimeInvestment
+} from '../../utils/procrastinationEngine'
+
+type LibraryTab = 'mine' | 'community'
+
+const emptyStep = (): ProcrastinationLibraryStepInput => ({
+  name: '',
+  description: '',
+  time_investment_minutes: 60,
+  benefit: '',
+  is_public: false
+})
+
+const toStepInput = (step: ProcrastinationLibraryStep): ProcrastinationLibraryStepInput => ({
+  name: step.name,
+  description: step.description,
+  time_investment_minutes: step.time_investment_minutes,
+  benefit: step.benefit,
+  is_public: step.is_public
+})
+
+function getStatusBadge(step: ProcrastinationLibraryStep) {
+  if (!step.is_public) return { label: 'Private', className: 'bg-gray-100 text-gray-600' }
+  switch (step.review_status) {
+    case 'approved':
+      return { label: 'In community pool', className: 'bg-green-100 text-green-700' }
+    case 'rejected':
+      return { label: 'Not approved', className: 'bg-red-100 text-red-700' }
+    default:
+      return { label: 'Awaiting review', className: 'bg-amber-100 text-amber-700' }
+  }
+}
+
+interface StepFormProps {
+  initial: ProcrastinationLibraryStepInput
+  saving: boolean
+  onSave: (step: ProcrastinationLibraryStepInput) => void
+  onCancel: () => void
+}
+
+function StepForm({ initial, saving, onSave, onCancel }: StepFormProps) {
+  const [draft, setDraft] = useState(initial)
+  // Typed as a duration, e.g. "2.5 hours", and stored in minutes
+  const [timeText, setTimeText] = useState(() => formatTimeInvestment(initial.time_investment_minutes))
+
+  const update = (updates: Partial<ProcrastinationLibraryStepInput>) => setDraft(prev => ({ ...prev, ...updates }))
+
+  const minutes = parseTimeInvestment(timeText)
+  const validTime = minutes !== null && minutes <= STEP_MAX_MINUTES
+  const trimmed = {
+    ...draft,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    time_investment_minutes: minutes ?? draft.time_investment_minutes,
+    benefit: draft.benefit.trim()
+  }
+  const complete = Boolean(trimmed.name && trimmed.description && validTime && trimmed.benefit)
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 space-y-3">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => update({ name: e.target.value })}
+        maxLength={LIBRARY_STEP_LIMITS.nameMaxLength}
+        placeholder="Step name, e.g. Alphabetize the spice rack"
+        className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+      <textarea
+        value={draft.description}
+        onChange={(e) => update({ description: e.target.value })}
+        rows={3}
+        maxLength={LIBRARY_STEP_LIMITS.descriptionMaxLength}
+        placeholder='What it involves. "{task}" is replaced with the task being avoided.'
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <input
+            type="text"
+            value={timeText}
+            onChange={(e) => setTimeText(e.target.value)}
+            placeholder="Time, e.g. 2.5 hours"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          {timeText.trim() !== '' && (
+            validTime ? (
+              <p className="mt-1 text-xs text-gray-500">{formatTimeInvestment(minutes)}</p>
+            ) : (
+              <p className="mt-1 text-xs text-amber-600">
+                Enter a duration such as "2.5 hours" or "45 min", up to {formatTimeInvestment(STEP_MAX_MINUTES)}.
+              </p>
+            )
+          )}
+        </div>
+        <input
+          type="text"
+          value={draft.benefit}
+          onChange={(e) => update({ benefit: e.target.value })}
+          maxLength={LIBRARY_STEP_LIMITS.benefitMaxLength}
+          placeholder="The benefit, stated with confidence"
+          className="sm:col-span-2 w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={draft.is_public}
+            onChange={(e) => update({ is_public: e.target.checked })}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          <span>Submit to the community pool (reviewed before anyone else sees it)</span>
+        </label>
+        <div className="ml-auto flex space-x-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(trimmed)}
+            disabled={saving || !complete}
+            className="flex items-center space-x-1 px-4 py-2 text-sm bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface StepCardProps {
+  step: ProcrastinationLibraryStep
+  onEdit?: () => void
+  onDelete?: () => void
+}
+
+function StepCard({ step, onEdit, onDelete }: StepCardProps) {
+  const badge = onEdit ? getStatusBadge(step) : null
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-semibold text-gray-900">{step.name}</h3>
+          <span className="flex items-center space-x-1 text-xs bg-purple-100 text-purple-600 px-2 py-1 rounded-full">
+            <Clock className="w-3 h-3" />
+            <span>{formatTimeInvestment(step.time_investment_minutes)}</span>
+          </span>
+          {badge && <span className={`text-xs px-2 py-1 rounded-full ${badge.className}`}>{badge.label}</span>}
+        </div>
+        {onEdit && onDelete && (
+          <div className="flex shrink-0 space-x-1">
+            <button
+              onClick={onEdit}
+              className="p-1.5 text-gray-400 hover:text-purple-600 rounded-lg transition-colors"
+              aria-label="Edit step"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onDelete}
+              className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+              aria-label="Delete step"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-700 mb-2">{step.description}</p>
+      <p className="text-sm text-purple-700">
+        <span className="font-semibold">Benefit:</span> {step.benefit}
+      </p>
+    </div>
+  )
+}
+
+export function ProcrastinationLibraryPage() {
+  const { user } = useAuth()
+  const { steps, communitySteps, loading, error, createStep, updateStep, deleteStep } = useProcrastinationLibrary(user?.id)
+  const [tab, setTab] = useState<LibraryTab>('mine')
+  // null: form closed; 'new' or the id of the step being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const editingStep = steps.find(step => step.id === editing)
+
+  const handleSave = async (input: ProcrastinationLibraryStepInput) => {
+    setSaving(true)
+    const saved = editingStep ? await updateStep(editingStep.id, input) : await createStep(input)
+    setSaving(false)
+    if (saved) setEditing(null)
+  }
+
+  const handleDelete = async (step: ProcrastinationLibraryStep) => {
+    if (!window.confirm(`Delete the step "${step.name}"?`)) return
+    await deleteStep(step.id)
+  }
+
+  const shown = tab === 'mine' ? steps : communitySteps
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Step Library</h1>
+          <p className="text-gray-600">
+            Write your own procrastination steps. The planner mixes them, and approved community steps, into every route.
+          </p>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="mt-4 sm:mt-0 flex items-center space-x-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-xl transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Step</span>
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-6 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>}
+
+      {editing !== null && (
+        <StepForm
+          key={editing}
+          initial={editingStep ? toStepInput(editingStep) : emptyStep()}
+          saving={saving}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <div className="flex space-x-2 mb-4">
+        {([
+          ['mine', BookOpen, `My steps (${steps.length})`],
+          ['community', Users, `Community (${communitySteps.length})`]
+        ] as const).map(([id, Icon, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`flex items-center space-x-2 px-4 py-2 text-sm rounded-xl transition-colors ${
+              tab === id ? 'bg-purple-100 text-purple-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {loading && shown.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-purple-600" />
+        </div>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-12">
+          {tab === 'mine'
+            ? 'No steps yet. Your first one could be "Research the history of procrastination".'
+            : 'No community steps have been approved yet.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {shown.map(step => tab === 'mine' ? (
+            <StepCard
+              key={step.id}
+              step={step}
+              onEdit={() => setEditing(step.id)}
+              onDelete={() => handleDelete(step)}
+            />
+          ) : (
+            <StepCard key={step.id} step={step} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
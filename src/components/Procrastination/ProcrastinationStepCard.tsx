@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { Clock, Lightbulb, ChevronDown, ChevronUp } from 'lucide-react'
 import { ProcrastinationStep } from '../../lib/supabase'
+import { formatTimeInvestment } from '../../utils/procrastinationEngine'
 
 interface ProcrastinationStepCardProps {
   step: ProcrastinationStep
@@ -44,7 +45,7 @@ export function ProcrastinationStepCard({
               {/* Time Investment with Hesitant Animation */}
               <div className="flex items-center space-x-1 text-purple-600 bg-purple-50 px-3 py-2 rounded-full hover-hesitate">
                 <div className="icon-melting-clock w-4 h-4"></div>
-                <span className="text-sm font-medium font-secondary">{step.timeInvestment}</span>
+                <span className="text-sm font-medium font-secondary">{formatTimeInvestment(step.timeInvestmentMinutes)}</span>
               </div>
               
               {/* Expand/Collapse Button */}
@@ -2,10 +2,13 @@ import React, { useState, useEffect } from 'react'
 import { 
   Coffee, Trash2, Calendar, Clock, AlertCircle, Loader2, Search, Filter, 
   CheckCircle, Edit3, Save, X, Eye, Share2, Download, MoreVertical,
-  ChevronLeft, ChevronRight, Check
+  ChevronLeft, ChevronRight, Check, RefreshCw, ListChecks, Square, CheckSquare
 } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
-import { SavedProcrastinationRoute, ProcrastinationStep, database, SupabaseError } from '../../lib/supabase'
+import { SavedProcrastinationRoute, ProcrastinationStep, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { formatTimeInvestment, getTotalMinutes } from '../../utils/procrastinationEngine'
+import { getRouteProgress, isStepCompleted, setStepCompleted } from '../../utils/procrastinationProgress'
 
 type SortOption = 'date' | 'title' | 'status' | 'alphabetical'
 type FilterOption = 'all' | 'active' | 'completed' | 'archived'
@@ -16,13 +19,24 @@ interface RouteModalProps {
   onClose: () => void
   onUpdate: (route: SavedProcrastinationRoute) => void
   onDelete: (routeId: string) => void
+  onRegenerate?: (route: SavedProcrastinationRoute) => void
 }
 
-function RouteDetailModal({ route, isOpen, onClose, onUpdate, onDelete }: RouteModalProps) {
+// "7 h 30 min", or "7 h 30 min of 8 h budgeted" for routes generated to fill a budget
+function describeTimeDisplaced(route: SavedProcrastinationRoute): string {
+  const total = formatTimeInvestment(getTotalMinutes(route.route_steps))
+  return route.time_budget_minutes
+    ? `${total} of ${formatTimeInvestment(route.time_budget_minutes)} budgeted`
+    : total
+}
+
+function RouteDetailModal({ route, isOpen, onClose, onUpdate, onDelete, onRegenerate }: RouteModalProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editTitle, setEditTitle] = useState('')
   const [editNotes, setEditNotes] = useState('')
   const [loading, setLoading] = useState(false)
+  const [checklistMode, setChecklistMode] = useState(false)
+  const [savingStep, setSavingStep] = useState<number | null>(null)
 
   useEffect(() => {
     if (route) {
@@ -81,11 +95,33 @@ function RouteDetailModal({ route, isOpen, onClose, onUpdate, onDelete }: RouteM
     }
   }
 
+  // Completing the last open step completes the route as well
+  const toggleStep = async (index: number) => {
+    const updates = setStepCompleted(route, index, !isStepCompleted(route.route_steps[index]))
+
+    setSavingStep(index)
+    try {
+      const { error } = await database.updateProcrastinationRoute(route.id, updates)
+
+      if (error) throw error
+
+      onUpdate({ ...route, ...updates })
+    } catch (error) {
+      console.error('Error updating step:', error)
+    } finally {
+      setSavingStep(null)
+    }
+  }
+
+  const progress = getRouteProgress(route.route_steps)
+
   const exportRoute = () => {
     const content = `
 PROCRASTINATION ROUTE: ${route.title || route.original_task}
-Generated: ${new Date(route.created_at).toLocaleDateString()}
-Status: ${route.status}
+Generated: ${route.created_at ? new Date(route.created_at).toLocaleDateString() : 'Unknown'}
+Status: ${route.status ?? 'active'}
+Time displaced: ${describeTimeDisplaced(route)}
+Progress: ${progress.completedSteps} of ${progress.totalSteps} steps done
 ${route.notes ? `Notes: ${route.notes}` : ''}
 
 ORIGINAL TASK TO AVOID:
@@ -93,9 +129,10 @@ ${route.original_task}
 
 PROCRASTINATION STEPS:
 ${route.route_steps.map((step, index) => `
-${index + 1}. ${step.name} (${step.timeInvestment})
+${index + 1}. [${isStepCompleted(step) ? 'x' : ' '}] ${step.name} (${formatTimeInvestment(step.timeInvestmentMinutes)})
    ${step.description}
-   Benefit: ${step.benefit}
+   Benefit: ${step.benefit}${step.completedAt ? `
+   Done: ${new Date(step.completedAt).toLocaleString()}` : ''}
 `).join('\n')}
 
 Generated by Strong Strong - The Optimal Procrastination Route Planner
@@ -154,7 +191,7 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
               <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
                 <div className="flex items-center space-x-1">
                   <Calendar className="w-4 h-4" />
-                  <span>Created {new Date(route.created_at).toLocaleDateString()}</span>
+                  {route.created_at && <span>Created {new Date(route.created_at).toLocaleDateString()}</span>}
                 </div>
                 {route.completed_at && (
                   <div className="flex items-center space-x-1">
@@ -162,6 +199,10 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
                     <span>Completed {new Date(route.completed_at).toLocaleDateString()}</span>
                   </div>
                 )}
+                <div className="flex items-center space-x-1">
+                  <Clock className="w-4 h-4" />
+                  <span>Displaces {describeTimeDisplaced(route)}</span>
+                </div>
               </div>
             </div>
             <div className="flex items-center space-x-2">
@@ -175,6 +216,17 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
               >
                 <CheckCircle className="w-5 h-5" />
               </button>
+              <button
+                onClick={() => setChecklistMode(!checklistMode)}
+                className={`p-2 rounded-full transition-colors ${
+                  checklistMode
+                    ? 'bg-purple-100 text-purple-600'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-600'
+                }`}
+                aria-label="Checklist mode"
+              >
+                <ListChecks className="w-5 h-5" />
+              </button>
               <button
                 onClick={() => setIsEditing(!isEditing)}
                 className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-full transition-colors"
@@ -206,6 +258,20 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
           <div className="mb-6 p-4 bg-purple-50 rounded-xl">
             <h3 className="font-semibold text-purple-900 mb-2">Original Task to Avoid:</h3>
             <p className="text-purple-700">{route.original_task}</p>
+            {route.seed && (
+              <div className="flex items-center space-x-3 mt-3 text-sm text-purple-700">
+                <span>Seed <code className="font-mono text-purple-900">{route.seed}</code></span>
+                {onRegenerate && (
+                  <button
+                    onClick={() => onRegenerate(route)}
+                    className="flex items-center space-x-1 font-medium hover:text-purple-900"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    <span>Regenerate in planner</span>
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Notes */}
@@ -249,19 +315,63 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
 
           {/* Route Steps */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-gray-900">Procrastination Steps</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Procrastination Steps</h3>
+              <span className="text-sm text-gray-500">
+                {progress.completedSteps} of {progress.totalSteps} done
+                · {formatTimeInvestment(progress.completedMinutes)} of {formatTimeInvestment(progress.totalMinutes)}
+              </span>
+            </div>
+            {(checklistMode || progress.completedSteps > 0) && (
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-500 transition-all"
+                  style={{ width: `${Math.round(progress.fraction * 100)}%` }}
+                />
+              </div>
+            )}
             {route.route_steps.map((step, index) => (
-              <div key={index} className="border border-gray-200 rounded-xl p-4">
+              <div
+                key={index}
+                className={`border rounded-xl p-4 ${
+                  isStepCompleted(step) ? 'border-green-200 bg-green-50/50' : 'border-gray-200'
+                }`}
+              >
                 <div className="flex items-start space-x-3">
-                  <div className="bg-purple-100 text-purple-600 w-8 h-8 rounded-full flex items-center justify-center font-bold">
-                    {index + 1}
-                  </div>
+                  {checklistMode ? (
+                    <button
+                      onClick={() => toggleStep(index)}
+                      disabled={savingStep !== null}
+                      className="w-8 h-8 flex items-center justify-center text-purple-600 hover:text-purple-800 disabled:opacity-50"
+                      aria-label={isStepCompleted(step) ? `Mark step ${index + 1} as not done` : `Mark step ${index + 1} as done`}
+                    >
+                      {savingStep === index ? (
+                        <Loader2 className="w-6 h-6 animate-spin" />
+                      ) : isStepCompleted(step) ? (
+                        <CheckSquare className="w-6 h-6 text-green-600" />
+                      ) : (
+                        <Square className="w-6 h-6" />
+                      )}
+                    </button>
+                  ) : (
+                    <div className="bg-purple-100 text-purple-600 w-8 h-8 rounded-full flex items-center justify-center font-bold">
+                      {index + 1}
+                    </div>
+                  )}
                   <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <h4 className="font-semibold text-gray-900">{step.name}</h4>
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <h4 className={`font-semibold ${isStepCompleted(step) ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                        {step.name}
+                      </h4>
                       <span className="text-xs bg-purple-100 text-purple-600 px-2 py-1 rounded-full">
-                        {step.timeInvestment}
+                        {formatTimeInvestment(step.timeInvestmentMinutes)}
                       </span>
+                      {step.completedAt && (
+                        <span className="flex items-center space-x-1 text-xs text-green-700">
+                          <Check className="w-3 h-3" />
+                          <span>Done {new Date(step.completedAt).toLocaleString()}</span>
+                        </span>
+                      )}
                     </div>
                     <p className="text-gray-700 mb-2">{step.description}</p>
                     <p className="text-purple-700 font-medium text-sm">
@@ -278,7 +388,21 @@ Generated by Strong Strong - The Optimal Procrastination Route Planner
   )
 }
 
-export function SavedProcrastinationRoutes() {
+interface SavedProcrastinationRoutesProps {
+  // Route whose detail modal is open, taken from the URL
+  openRouteId?: string
+  onOpenRoute?: (routeId: string) => void
+  onCloseRoute?: () => void
+  // Opens the planner on the route's task, seed and time budget
+  onRegenerateRoute?: (task: string, seed: string, budgetMinutes: number | null) => void
+}
+
+export function SavedProcrastinationRoutes({
+  openRouteId,
+  onOpenRoute,
+  onCloseRoute,
+  onRegenerateRoute
+}: SavedProcrastinationRoutesProps = {}) {
   const { user } = useAuth()
   const [savedRoutes, setSavedRoutes] = useState<SavedProcrastinationRoute[]>([])
   const [filteredRoutes, setFilteredRoutes] = useState<SavedProcrastinationRoute[]>([])
@@ -310,14 +434,33 @@ export function SavedProcrastinationRoutes() {
     applyFiltersAndSort()
   }, [savedRoutes, searchTerm, sortBy, filterBy])
 
+  // Keep the modal in step with the URL, including back/forward navigation
+  const urlControlled = !!onOpenRoute
+
+  useEffect(() => {
+    if (!urlControlled) return
+
+    const route = openRouteId ? savedRoutes.find(candidate => candidate.id === openRouteId) : undefined
+    setSelectedRoute(route ?? null)
+    setShowModal(!!route)
+
+    if (openRouteId && !loading && !route) {
+      setMessage('That procrastination route could not be found.')
+    }
+  }, [openRouteId, savedRoutes, loading, urlControlled])
+
   const fetchSavedRoutes = async () => {
     if (!user) return
 
     try {
-      const { data, error } = await database.getUserProcrastinationRoutes(user.id)
+      const { data, error, malformed } = await database.getUserProcrastinationRoutes(user.id)
 
       if (error) throw error
+      // Malformed rows are already left out of data and are never rendered
       setSavedRoutes(data || [])
+      if (malformed) {
+        setMessage('Some saved routes were hidden because their data is malformed.')
+      }
     } catch (error: any) {
       console.error('Error fetching saved routes:', error)
       
@@ -330,6 +473,9 @@ export function SavedProcrastinationRoutes() {
           case 'PERMISSION_ERROR':
             errorMessage = 'Access denied. Please check your account permissions.'
             break
+          case 'VALIDATION_ERROR':
+            errorMessage = 'Your saved routes could not be shown because their data is malformed.'
+            break
           default:
             errorMessage = error.message
         }
@@ -354,14 +500,14 @@ export function SavedProcrastinationRoutes() {
 
     // Apply status filter
     if (filterBy !== 'all') {
-      filtered = filtered.filter(route => route.status === filterBy)
+      filtered = filtered.filter(route => (route.status ?? 'active') === filterBy)
     }
 
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortBy) {
         case 'date':
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+          return new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime()
         case 'title':
           const aTitle = a.title || a.original_task
           const bTitle = b.title || b.original_task
@@ -369,7 +515,7 @@ export function SavedProcrastinationRoutes() {
         case 'alphabetical':
           return a.original_task.localeCompare(b.original_task)
         case 'status':
-          return a.status.localeCompare(b.status)
+          return (a.status ?? 'active').localeCompare(b.status ?? 'active')
         default:
           return 0
       }
@@ -480,13 +626,25 @@ export function SavedProcrastinationRoutes() {
     setSavedRoutes(prev => prev.map(route => 
       route.id === updatedRoute.id ? updatedRoute : route
     ))
+    // The modal builds its next update from this route, so it has to see the last one
+    setSelectedRoute(prev => (prev?.id === updatedRoute.id ? updatedRoute : prev))
   }
 
   const openRouteModal = (route: SavedProcrastinationRoute) => {
+    if (onOpenRoute) {
+      onOpenRoute(route.id)
+      return
+    }
+
     setSelectedRoute(route)
     setShowModal(true)
   }
 
+  const closeRouteModal = () => {
+    setShowModal(false)
+    onCloseRoute?.()
+  }
+
   if (!user) {
     return (
       <div className="max-w-6xl mx-auto p-6">
@@ -655,11 +813,15 @@ export function SavedProcrastinationRoutes() {
                         <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
                           <div className="flex items-center space-x-1">
                             <Calendar className="w-4 h-4" />
-                            <span>{new Date(route.created_at).toLocaleDateString()}</span>
+                            {route.created_at && <span>{new Date(route.created_at).toLocaleDateString()}</span>}
                           </div>
                           <div className="flex items-center space-x-1">
                             <Clock className="w-4 h-4" />
-                            <span>{route.route_steps.length} steps</span>
+                            <span>
+                              {route.route_steps.length} steps · {formatTimeInvestment(getTotalMinutes(route.route_steps))}
+                              {route.route_steps.some(isStepCompleted) &&
+                                ` · ${route.route_steps.filter(isStepCompleted).length} done`}
+                            </span>
                           </div>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             route.status === 'completed' 
@@ -668,7 +830,7 @@ export function SavedProcrastinationRoutes() {
                               ? 'bg-gray-100 text-gray-800'
                               : 'bg-purple-100 text-purple-800'
                           }`}>
-                            {route.status}
+                            {route.status ?? 'active'}
                           </span>
                         </div>
                       </div>
@@ -774,11 +936,14 @@ export function SavedProcrastinationRoutes() {
       <RouteDetailModal
         route={selectedRoute}
         isOpen={showModal}
-        onClose={() => setShowModal(false)}
+        onClose={closeRouteModal}
         onUpdate={handleRouteUpdate}
+        onRegenerate={onRegenerateRoute && (route => {
+          if (route.seed) onRegenerateRoute(route.original_task, route.seed, route.time_budget_minutes)
+        })}
         onDelete={(routeId) => {
           deleteRoute(routeId)
-          setShowModal(false)
+          closeRouteModal()
         }}
       />
     </div>
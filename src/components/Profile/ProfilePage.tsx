@@ -1,7 +1,10 @@
 import React, { useState } from 'react'
-import { User, Calendar, Award, Settings, Edit3, Save, X, Camera, Trash2, LogOut } from 'lucide-react'
+import { User, Calendar, Edit3, Save, X, Camera, Trash2, LogOut } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import { useForm } from 'react-hook-form'
+import { ProfileStats } from './ProfileStats'
+import { GoalsPanel } from '../Goals/GoalsPanel'
+import { AchievementsPanel } from '../Achievements/AchievementsPanel'
 
 interface ProfileFormData {
   full_name: string
@@ -91,7 +94,7 @@ export function ProfilePage() {
     )
   }
 
-  const joinDate = new Date(profile.created_at).toLocaleDateString('en-US', {
+  const joinDate = profile.created_at && new Date(profile.created_at).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
     day: 'numeric'
@@ -127,10 +130,12 @@ export function ProfilePage() {
             </h1>
             <p className="text-gray-600">@{profile.username || 'user'}</p>
             <div className="flex items-center justify-center sm:justify-start space-x-4 mt-2">
-              <div className="flex items-center text-sm text-gray-500">
-                <Calendar className="w-4 h-4 mr-1" />
-                Joined {joinDate}
-              </div>
+              {joinDate && (
+                <div className="flex items-center text-sm text-gray-500">
+                  <Calendar className="w-4 h-4 mr-1" />
+                  Joined {joinDate}
+                </div>
+              )}
             </div>
           </div>
 
@@ -214,44 +219,11 @@ export function ProfilePage() {
         )}
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-        <div className="bg-white rounded-2xl shadow-lg p-6">
-          <div className="flex items-center space-x-3">
-            <div className="p-3 bg-blue-100 rounded-full">
-              <Award className="w-6 h-6 text-blue-600" />
-            </div>
-            <div>
-              <p className="text-2xl font-bold text-gray-900">0</p>
-              <p className="text-gray-600">Routes Completed</p>
-            </div>
-          </div>
-        </div>
+      <ProfileStats userId={user.id} />
 
-        <div className="bg-white rounded-2xl shadow-lg p-6">
-          <div className="flex items-center space-x-3">
-            <div className="p-3 bg-green-100 rounded-full">
-              <Settings className="w-6 h-6 text-green-600" />
-            </div>
-            <div>
-              <p className="text-2xl font-bold text-gray-900">0</p>
-              <p className="text-gray-600">Routes Saved</p>
-            </div>
-          </div>
-        </div>
+      <GoalsPanel userId={user.id} />
 
-        <div className="bg-white rounded-2xl shadow-lg p-6">
-          <div className="flex items-center space-x-3">
-            <div className="p-3 bg-purple-100 rounded-full">
-              <Calendar className="w-6 h-6 text-purple-600" />
-            </div>
-            <div>
-              <p className="text-2xl font-bold text-gray-900">0</p>
-              <p className="text-gray-600">Days Active</p>
-            </div>
-          </div>
-        </div>
-      </div>
+      <AchievementsPanel />
 
       {/* Account Settings */}
       <div className="bg-white rounded-2xl shadow-lg p-8">
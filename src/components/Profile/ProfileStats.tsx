@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react'
+import { Award, Bookmark, Calendar, MapPin, Timer, TrendingUp, Loader2 } from 'lucide-react'
+import { SupabaseError, UserStats } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { ROUTE_TYPES } from '../../utils/routeValidation'
+import { formatDuration } from '../../utils/workoutMetrics'
+import { TrendChart } from './TrendChart'
+
+interface ProfileStatsProps {
+  userId: string
+}
+
+type Granularity = 'week' | 'month'
+type Metric = 'distance' | 'workouts'
+
+export function ProfileStats({ userId }: ProfileStatsProps) {
+  const [stats, setStats] = useState<UserStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [granularity, setGranularity] = useState<Granularity>('week')
+  const [metric, setMetric] = useState<Metric>('distance')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchStats = async () => {
+      setLoading(true)
+      setError('')
+
+      try {
+        const { data, error } = await database.getUserStats(userId)
+        if (error) throw error
+        if (!cancelled) setStats(data)
+      } catch (error: unknown) {
+        console.error('Error fetching profile stats:', error)
+        if (!cancelled) {
+          setError(error instanceof SupabaseError && error.code === 'NETWORK_ERROR'
+            ? 'Unable to load your stats. Check your connection and try again.'
+            : 'Unable to load your stats right now.')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchStats()
+    return () => { cancelled = true }
+  }, [userId])
+
+  const summaryCards = [
+    { label: 'Routes Completed', value: stats?.routes_completed ?? 0, icon: Award, color: 'bg-blue-100 text-blue-600' },
+    { label: 'Routes Saved', value: stats?.routes_saved ?? 0, icon: Bookmark, color: 'bg-green-100 text-green-600' },
+    { label: 'Days Active', value: stats?.days_active ?? 0, icon: Calendar, color: 'bg-purple-100 text-purple-600' }
+  ]
+
+  const totalDistance = Number(stats?.total_distance ?? 0)
+  const distanceByType = ROUTE_TYPES
+    .map(type => ({ type, distance: Number(stats?.distance_by_route_type[type] ?? 0) }))
+    .filter(entry => entry.distance > 0)
+    .sort((a, b) => b.distance - a.distance)
+
+  return (
+    <div className="mb-6 space-y-6">
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {summaryCards.map(({ label, value, icon: Icon, color }) => (
+          <div key={label} className="bg-white rounded-2xl shadow-lg p-6">
+            <div className="flex items-center space-x-3">
+              <div className={`p-3 rounded-full ${color}`}>
+                <Icon className="w-6 h-6" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">
+                  {loading ? <Loader2 className="w-6 h-6 animate-spin text-gray-400" /> : value}
+                </p>
+                <p className="text-gray-600">{label}</p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>
+      )}
+
+      {stats && (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+              <TrendingUp className="w-5 h-5 text-blue-600" />
+              <span>Activity</span>
+            </h2>
+            <div className="flex space-x-2">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as Metric)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="distance">Distance</option>
+                <option value="workouts">Workouts</option>
+              </select>
+              <select
+                value={granularity}
+                onChange={(e) => setGranularity(e.target.value as Granularity)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="week">Weekly</option>
+                <option value="month">Monthly</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+            <div>
+              <p className="text-lg font-semibold text-gray-900">{stats.workouts}</p>
+              <p className="text-xs text-gray-500">Workouts</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold text-gray-900 flex items-center justify-center space-x-1">
+                <MapPin className="w-4 h-4 text-gray-400" />
+                <span>{totalDistance.toFixed(1)} mi</span>
+              </p>
+              <p className="text-xs text-gray-500">Total distance</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold text-gray-900 flex items-center justify-center space-x-1">
+                <Timer className="w-4 h-4 text-gray-400" />
+                <span>{formatDuration(stats.total_elapsed_seconds)}</span>
+              </p>
+              <p className="text-xs text-gray-500">Time moving</p>
+            </div>
+          </div>
+
+          <TrendChart
+            periods={granularity === 'week' ? stats.weekly : stats.monthly}
+            metric={metric}
+            granularity={granularity}
+          />
+
+          {/* Distance by route type */}
+          {distanceByType.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">Distance by route type</h3>
+              <div className="space-y-2">
+                {distanceByType.map(({ type, distance }) => (
+                  <div key={type} className="flex items-center space-x-3 text-sm">
+                    <span className="w-28 capitalize text-gray-600">{type.replace('-', ' ')}</span>
+                    <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 rounded-full"
+                        style={{ width: `${totalDistance > 0 ? (distance / totalDistance) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-gray-900">{distance.toFixed(1)} mi</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
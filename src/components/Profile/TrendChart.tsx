@@ -0,0 +1,87 @@
+import { StatsPeriod } from '../../lib/supabase'
+
+interface TrendChartProps {
+  periods: StatsPeriod[]
+  metric: 'distance' | 'workouts'
+  granularity: 'week' | 'month'
+  height?: number
+}
+
+const CHART_WIDTH = 600
+const LABEL_HEIGHT = 20
+const BAR_GAP = 6
+
+// period_start is a plain calendar date - parse it as local time, not UTC midnight
+const parsePeriodStart = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const formatPeriodLabel = (value: string, granularity: TrendChartProps['granularity']) =>
+  parsePeriodStart(value).toLocaleDateString('en-US', granularity === 'week'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short' })
+
+const formatValue = (value: number, metric: TrendChartProps['metric']) =>
+  metric === 'distance' ? `${value.toFixed(1)} mi` : `${value} workout${value === 1 ? '' : 's'}`
+
+export function TrendChart({ periods, metric, granularity, height = 160 }: TrendChartProps) {
+  if (periods.length === 0) {
+    return <p className="text-sm text-gray-500">No activity yet.</p>
+  }
+
+  const values = periods.map(period => Number(period[metric]))
+  // Floor of 1 keeps an all-zero series flat instead of dividing by zero
+  const maxValue = Math.max(...values, 1)
+  const plotHeight = height - LABEL_HEIGHT
+  const slotWidth = CHART_WIDTH / periods.length
+  const barWidth = Math.max(2, slotWidth - BAR_GAP)
+  // Label every other bar once they start to crowd
+  const labelEvery = periods.length > 8 ? 2 : 1
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+      className="w-full"
+      role="img"
+      aria-label={`${metric === 'distance' ? 'Distance' : 'Workouts'} per ${granularity}`}
+    >
+      <line x1={0} y1={plotHeight} x2={CHART_WIDTH} y2={plotHeight} stroke="#e5e7eb" />
+
+      {periods.map((period, index) => {
+        const value = values[index]
+        const barHeight = (value / maxValue) * (plotHeight - 4)
+        const x = index * slotWidth + BAR_GAP / 2
+        const isCurrent = index === periods.length - 1
+
+        return (
+          <g key={period.period_start}>
+            <rect
+              x={x}
+              y={plotHeight - barHeight}
+              width={barWidth}
+              height={barHeight}
+              rx={3}
+              className={isCurrent ? 'fill-blue-600' : 'fill-blue-300'}
+            >
+              <title>
+                {formatPeriodLabel(period.period_start, granularity)}: {formatValue(value, metric)}
+              </title>
+            </rect>
+            {index % labelEvery === (periods.length - 1) % labelEvery && (
+              <text
+                x={x + barWidth / 2}
+                y={height - 6}
+                textAnchor="middle"
+                className="fill-gray-500"
+                fontSize={11}
+              >
+                {formatPeriodLabel(period.period_start, granularity)}
+              </text>
+            )}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
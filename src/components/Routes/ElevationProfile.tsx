@@ -0,0 +1,126 @@
+import { TrendingUp, TrendingDown, Mountain, Percent } from 'lucide-react'
+import { Climb, ClimbCategory, ElevationAnalysis } from '../../utils/elevationAnalysis'
+
+interface ElevationProfileProps {
+  analysis: ElevationAnalysis
+  height?: number
+  showClimbs?: boolean
+}
+
+const CHART_WIDTH = 320
+const PADDING = { top: 8, right: 8, bottom: 18, left: 32 }
+
+const getClimbCategoryColor = (category: ClimbCategory) => {
+  switch (category) {
+    case 'HC': return 'bg-red-100 text-red-800'
+    case '1': return 'bg-orange-100 text-orange-800'
+    case '2': return 'bg-yellow-100 text-yellow-800'
+    case '3': return 'bg-blue-100 text-blue-800'
+    case '4': return 'bg-green-100 text-green-800'
+    default: return 'bg-gray-100 text-gray-700'
+  }
+}
+
+const formatCategory = (category: ClimbCategory) => {
+  if (category === 'HC') return 'HC'
+  if (category === 'uncategorized') return 'Uncat.'
+  return `Cat ${category}`
+}
+
+export function ElevationProfile({ analysis, height = 120, showClimbs = true }: ElevationProfileProps) {
+  const { samples, minElevation, maxElevation } = analysis
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const totalDistance = samples[samples.length - 1].distance || 1
+  // Avoid a flat line collapsing the vertical scale
+  const elevationRange = Math.max(maxElevation - minElevation, 10)
+
+  const x = (distance: number) => PADDING.left + (distance / totalDistance) * plotWidth
+  const y = (elevation: number) =>
+    PADDING.top + plotHeight - ((elevation - minElevation) / elevationRange) * plotHeight
+
+  const linePath = samples
+    .map((sample, index) => `${index === 0 ? 'M' : 'L'}${x(sample.distance).toFixed(1)},${y(sample.elevation).toFixed(1)}`)
+    .join(' ')
+  const baseline = PADDING.top + plotHeight
+  const areaPath = `${linePath} L${x(totalDistance).toFixed(1)},${baseline} L${x(0).toFixed(1)},${baseline} Z`
+
+  const categorizedClimbs = analysis.climbs.filter((climb: Climb) => climb.category !== 'uncategorized')
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={`Elevation profile from ${Math.round(minElevation)} to ${Math.round(maxElevation)} meters`}
+      >
+        {/* Climb highlights */}
+        {categorizedClimbs.map((climb, index) => (
+          <rect
+            key={index}
+            x={x(climb.startDistance)}
+            y={PADDING.top}
+            width={Math.max(x(climb.endDistance) - x(climb.startDistance), 1)}
+            height={plotHeight}
+            className="fill-orange-100"
+          />
+        ))}
+
+        <path d={areaPath} className="fill-blue-100" />
+        <path d={linePath} className="stroke-blue-600" fill="none" strokeWidth={1.5} />
+
+        {/* Axes */}
+        <line x1={PADDING.left} y1={baseline} x2={CHART_WIDTH - PADDING.right} y2={baseline} className="stroke-gray-300" />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" className="fill-gray-500 text-[9px]">
+          {Math.round(maxElevation)}m
+        </text>
+        <text x={PADDING.left - 4} y={baseline} textAnchor="end" className="fill-gray-500 text-[9px]">
+          {Math.round(minElevation)}m
+        </text>
+        <text x={PADDING.left} y={height - 4} className="fill-gray-500 text-[9px]">0 mi</text>
+        <text x={CHART_WIDTH - PADDING.right} y={height - 4} textAnchor="end" className="fill-gray-500 text-[9px]">
+          {totalDistance.toFixed(1)} mi
+        </text>
+      </svg>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3 text-xs">
+        <div className="flex items-center space-x-1 text-gray-600">
+          <TrendingUp className="w-3 h-3 text-green-600" />
+          <span>{analysis.totalAscent} m up</span>
+        </div>
+        <div className="flex items-center space-x-1 text-gray-600">
+          <TrendingDown className="w-3 h-3 text-red-600" />
+          <span>{analysis.totalDescent} m down</span>
+        </div>
+        <div className="flex items-center space-x-1 text-gray-600">
+          <Percent className="w-3 h-3 text-orange-600" />
+          <span>{analysis.maxGrade}% max</span>
+        </div>
+        <div className="flex items-center space-x-1 text-gray-600">
+          <Mountain className="w-3 h-3 text-blue-600" />
+          <span>{analysis.climbs.length} climb{analysis.climbs.length === 1 ? '' : 's'}</span>
+        </div>
+      </div>
+
+      {/* Climbs */}
+      {showClimbs && analysis.climbs.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {analysis.climbs.map((climb, index) => (
+            <li key={index} className="flex items-center justify-between text-xs text-gray-600">
+              <span className={`px-2 py-0.5 rounded-full font-medium ${getClimbCategoryColor(climb.category)}`}>
+                {formatCategory(climb.category)}
+              </span>
+              <span>
+                {climb.length.toFixed(2)} mi at {climb.averageGrade}% · +{climb.gain} m
+              </span>
+              <span className="text-gray-400">from mile {climb.startDistance.toFixed(1)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { Star } from 'lucide-react'
+
+interface RatingStarsProps {
+  rating: number | null
+  size?: 'sm' | 'md'
+  // Makes the stars buttons that pick a rating from 1 to 5
+  onChange?: (rating: number) => void
+}
+
+const STARS = [1, 2, 3, 4, 5]
+
+export function RatingStars({ rating, size = 'sm', onChange }: RatingStarsProps) {
+  const iconClass = size === 'sm' ? 'w-3.5 h-3.5' : 'w-6 h-6'
+  // Averages round to the nearest whole star
+  const filled = Math.round(rating ?? 0)
+
+  return (
+    <div
+      className="flex items-center"
+      role={onChange ? 'radiogroup' : 'img'}
+      aria-label={rating ? `${rating} out of 5 stars` : 'Not rated'}
+    >
+      {STARS.map(star => {
+        const icon = (
+          <Star className={`${iconClass} ${star <= filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        )
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === filled}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            onClick={() => onChange(star)}
+            className="p-0.5 hover:scale-110 transition-transform"
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,392 @@
+import { useEffect, useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { X, Save, Loader2, Upload, AlertCircle, MapPin } from 'lucide-react'
+import { FitnessRoute, FitnessRouteInput, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { parseRouteFile, RouteFileError } from '../../utils/routeFileFormats'
+import { computeTrackDistance, MIN_TRACK_POINTS } from '../../utils/routeGeometry'
+import { computeAscentDescent, getElevationSamples } from '../../utils/elevationAnalysis'
+import { computeDifficultyLevel, getDifficultyColor } from '../../utils/routeDifficulty'
+import { RouteMap } from './RouteMap'
+import {
+  ROUTE_LIMITS,
+  ROUTE_TYPES,
+  formatCoordinate,
+  formatWaypoints,
+  parseCoordinate,
+  parseWaypoints,
+  validateRouteInput
+} from '../../utils/routeValidation'
+
+interface RouteBuilderModalProps {
+  isOpen: boolean
+  userId: string
+  route?: FitnessRoute | null
+  onClose: () => void
+  onSaved: (route: FitnessRoute) => void
+}
+
+interface RouteFormData {
+  name: string
+  description: string
+  route_type: FitnessRoute['route_type']
+  waypoints: string
+  start: string
+  distance: string
+  duration_minutes: string
+  elevation_gain_meters: string
+}
+
+const toFormData = (route?: FitnessRoute | null): RouteFormData => ({
+  name: route?.name ?? '',
+  description: route?.description ?? '',
+  route_type: route?.route_type ?? 'running',
+  waypoints: route?.track_points ? formatWaypoints(route.track_points) : '',
+  start: route && route.start_lat !== null && route.start_lon !== null
+    ? formatCoordinate({ lat: route.start_lat, lon: route.start_lon })
+    : '',
+  distance: route ? String(route.distance) : '',
+  duration_minutes: route ? String(route.duration_minutes) : '',
+  elevation_gain_meters: route ? String(route.elevation_gain_meters) : '0'
+})
+
+export function RouteBuilderModal({ isOpen, userId, route, onClose, onSaved }: RouteBuilderModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [saving, setSaving] = useState(false)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [fileMessage, setFileMessage] = useState('')
+
+  const { register, handleSubmit, formState: { errors }, watch, reset, setValue, getValues } = useForm<RouteFormData>({
+    defaultValues: toFormData(route)
+  })
+
+  useEffect(() => {
+    if (isOpen) {
+      reset(toFormData(route))
+      setFormErrors([])
+      setFileMessage('')
+    }
+  }, [isOpen, route, reset])
+
+  const waypointsText = watch('waypoints')
+  const routeType = watch('route_type')
+  const manualDistance = parseFloat(watch('distance'))
+  const manualElevationGain = parseInt(watch('elevation_gain_meters'), 10)
+
+  if (!isOpen) return null
+
+  const { points, errors: waypointErrors } = parseWaypoints(waypointsText || '')
+  const hasTrack = points.length >= MIN_TRACK_POINTS
+  const elevationSamples = hasTrack ? getElevationSamples(points) : []
+  const hasTrackElevation = elevationSamples.length >= 2
+
+  const derivedDistance = hasTrack ? computeTrackDistance(points) : manualDistance
+  const derivedElevationGain = hasTrackElevation
+    ? computeAscentDescent(elevationSamples).ascent
+    : manualElevationGain
+  const previewDifficulty = computeDifficultyLevel(
+    Number.isFinite(derivedDistance) ? derivedDistance : 0,
+    Number.isFinite(derivedElevationGain) ? derivedElevationGain : 0,
+    routeType
+  )
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setFileMessage('')
+    try {
+      const parsed = await parseRouteFile(file)
+      setValue('waypoints', formatWaypoints(parsed.points))
+      if (!getValues('name') && parsed.name) setValue('name', parsed.name.slice(0, ROUTE_LIMITS.nameMaxLength))
+      if (!getValues('description') && parsed.description) setValue('description', parsed.description)
+      setFileMessage(`Loaded ${parsed.points.length} points from ${file.name}.`)
+    } catch (error: unknown) {
+      setFileMessage(error instanceof RouteFileError ? error.message : 'Failed to read the track file.')
+    }
+  }
+
+  const onSubmit = async (data: RouteFormData) => {
+    if (waypointErrors.length > 0) {
+      setFormErrors(waypointErrors)
+      return
+    }
+
+    // A track starts at its first point; otherwise the start is optional
+    const start = hasTrack ? points[0] : parseCoordinate(data.start)
+
+    const input: FitnessRouteInput = {
+      name: data.name.trim(),
+      description: data.description.trim(),
+      route_type: data.route_type,
+      track_points: hasTrack ? points : null,
+      start_lat: start?.lat ?? null,
+      start_lon: start?.lon ?? null,
+      distance: hasTrack ? computeTrackDistance(points) : parseFloat(data.distance),
+      duration_minutes: parseInt(data.duration_minutes, 10),
+      elevation_gain_meters: hasTrackElevation
+        ? computeAscentDescent(elevationSamples).ascent
+        : parseInt(data.elevation_gain_meters || '0', 10)
+    }
+
+    const validationErrors = validateRouteInput(input)
+    if (validationErrors.length > 0) {
+      setFormErrors(validationErrors)
+      return
+    }
+
+    setSaving(true)
+    setFormErrors([])
+
+    try {
+      const { data: savedRoute, error } = route
+        ? await database.updateFitnessRoute(route.id, input)
+        : await database.createFitnessRoute(userId, input)
+
+      if (error) throw error
+      if (savedRoute) onSaved(savedRoute)
+      onClose()
+    } catch (error: unknown) {
+      console.error('Error saving fitness route:', error)
+      setFormErrors([
+        error instanceof SupabaseError ? error.message : 'Failed to save route. Please try again.'
+      ])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-5">
+          {/* Header */}
+          <div className="flex items-start justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {route ? 'Edit Route' : 'Create Route'}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {formErrors.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              <div className="flex items-center space-x-2 font-medium mb-1">
+                <AlertCircle className="w-4 h-4" />
+                <span>Please fix the following:</span>
+              </div>
+              <ul className="list-disc list-inside space-y-1">
+                {formErrors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {/* Name */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              {...register('name', {
+                required: 'Route name is required',
+                validate: value => value.trim().length > 0 || 'Route name is required',
+                maxLength: { value: ROUTE_LIMITS.nameMaxLength, message: `At most ${ROUTE_LIMITS.nameMaxLength} characters` }
+              })}
+              type="text"
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="e.g., Lakeside Sunrise Loop"
+            />
+            {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              {...register('description', {
+                maxLength: { value: ROUTE_LIMITS.descriptionMaxLength, message: `At most ${ROUTE_LIMITS.descriptionMaxLength} characters` }
+              })}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="What makes this route worth it?"
+            />
+            {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+          </div>
+
+          {/* Route Type */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Route Type</label>
+            <select
+              {...register('route_type', { required: true })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
+            >
+              {ROUTE_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace('-', ' ')}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Waypoints / Track */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Waypoints <span className="text-gray-400 font-normal">(one "lat, lon[, elevation m]" per line)</span>
+              </label>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Upload GPX / GeoJSON</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+            </div>
+            <textarea
+              {...register('waypoints')}
+              rows={5}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={'40.7812, -73.9665, 30\n40.7851, -73.9683, 34'}
+            />
+            {fileMessage && <p className="mt-1 text-sm text-gray-600">{fileMessage}</p>}
+            {waypointErrors.length > 0 && (
+              <p className="mt-1 text-sm text-red-600">{waypointErrors[0]}</p>
+            )}
+            {hasTrack && (
+              <p className="mt-1 flex items-center space-x-1 text-sm text-gray-500">
+                <MapPin className="w-4 h-4" />
+                <span>{points.length} points · distance is calculated from the track</span>
+              </p>
+            )}
+            {hasTrack && (
+              <div className="mt-3">
+                <RouteMap points={points} />
+              </div>
+            )}
+          </div>
+
+          {/* Start point, for finding routes nearby */}
+          {!hasTrack && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Start point <span className="text-gray-400 font-normal">(optional "lat, lon")</span>
+              </label>
+              <input
+                {...register('start', {
+                  validate: value => !value.trim() || parseCoordinate(value) !== null || 'Use "latitude, longitude"'
+                })}
+                type="text"
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="40.7812, -73.9665"
+              />
+              {errors.start && <p className="mt-1 text-sm text-red-600">{errors.start.message}</p>}
+            </div>
+          )}
+
+          {/* Stats */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Distance (miles)</label>
+              {hasTrack ? (
+                <div className="px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-gray-700">
+                  {derivedDistance.toFixed(2)}
+                </div>
+              ) : (
+                <input
+                  {...register('distance', {
+                    required: 'Distance is required without a track',
+                    min: { value: 0, message: 'Cannot be negative' },
+                    max: { value: ROUTE_LIMITS.maxDistance, message: `At most ${ROUTE_LIMITS.maxDistance} miles` }
+                  })}
+                  type="number"
+                  step="0.01"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+              {!hasTrack && errors.distance && <p className="mt-1 text-sm text-red-600">{errors.distance.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Duration (min)</label>
+              <input
+                {...register('duration_minutes', {
+                  required: 'Duration is required',
+                  min: { value: 0, message: 'Cannot be negative' },
+                  max: { value: ROUTE_LIMITS.maxDurationMinutes, message: `At most ${ROUTE_LIMITS.maxDurationMinutes} minutes` },
+                  validate: value => Number.isInteger(Number(value)) || 'Use whole minutes'
+                })}
+                type="number"
+                step="1"
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {errors.duration_minutes && <p className="mt-1 text-sm text-red-600">{errors.duration_minutes.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Climbing (m)</label>
+              {hasTrackElevation ? (
+                <div className="px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-gray-700">
+                  {derivedElevationGain}
+                </div>
+              ) : (
+                <input
+                  {...register('elevation_gain_meters', {
+                    min: { value: 0, message: 'Cannot be negative' },
+                    max: { value: ROUTE_LIMITS.maxElevationGainMeters, message: `At most ${ROUTE_LIMITS.maxElevationGainMeters} m` }
+                  })}
+                  type="number"
+                  step="1"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+              {!hasTrackElevation && errors.elevation_gain_meters && (
+                <p className="mt-1 text-sm text-red-600">{errors.elevation_gain_meters.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Difficulty */}
+          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+            <div>
+              <p className="text-sm font-medium text-gray-700">Difficulty</p>
+              <p className="text-xs text-gray-500">Calculated from distance, climbing and route type</p>
+            </div>
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(previewDifficulty)}`}>
+              {previewDifficulty}
+            </span>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-xl transition-colors"
+            >
+              <X className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              <span>{route ? 'Save Changes' : 'Create Route'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react'
+import {
+  X,
+  Plus,
+  Save,
+  Trash2,
+  Edit3,
+  Copy,
+  Globe,
+  Lock,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react'
+import { RouteCollection, RouteCollectionInput, RouteCollectionItem, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { ROUTE_LIMITS } from '../../utils/routeValidation'
+
+interface RouteCollectionsModalProps {
+  isOpen: boolean
+  userId: string
+  collections: RouteCollection[]
+  onClose: () => void
+  // Called after any change so the page can refetch collections and the routes shown
+  onChanged: () => void
+  onSelect: (collectionId: string) => void
+}
+
+type CollectionsTab = 'mine' | 'public'
+
+const emptyInput: RouteCollectionInput = { name: '', description: null, is_public: false }
+
+const ownerName = (collection: RouteCollection) =>
+  collection.profiles?.full_name || collection.profiles?.username || 'A fellow athlete'
+
+const routeCount = (collection: RouteCollection) => {
+  const count = collection.route_collection_items?.length ?? 0
+  return `${count} route${count === 1 ? '' : 's'}`
+}
+
+export function RouteCollectionsModal({ isOpen, userId, collections, onClose, onChanged, onSelect }: RouteCollectionsModalProps) {
+  const [tab, setTab] = useState<CollectionsTab>('mine')
+  const [draft, setDraft] = useState<RouteCollectionInput>(emptyInput)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<RouteCollectionInput>(emptyInput)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [items, setItems] = useState<RouteCollectionItem[]>([])
+  const [publicCollections, setPublicCollections] = useState<RouteCollection[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+
+  // Public collections are fetched each time the tab is opened
+  useEffect(() => {
+    if (!isOpen || tab !== 'public') return
+
+    let cancelled = false
+
+    const fetchPublicCollections = async () => {
+      setPublicCollections(null)
+      const { data, error } = await database.getPublicCollections(userId)
+      if (cancelled) return
+
+      if (error) {
+        console.error('Error fetching public collections:', error)
+        setMessage('Failed to load public collections.')
+      }
+      setPublicCollections(data || [])
+    }
+
+    fetchPublicCollections()
+    return () => { cancelled = true }
+  }, [isOpen, tab, userId])
+
+  if (!isOpen) return null
+
+  // Runs a change, reporting failures in the modal instead of throwing
+  const attempt = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true)
+    setMessage('')
+    try {
+      await action()
+    } catch (error: unknown) {
+      console.error(`${failure}:`, error)
+      setMessage(error instanceof SupabaseError ? error.message : `${failure}.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toInput = (input: RouteCollectionInput): RouteCollectionInput => ({
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    is_public: input.is_public
+  })
+
+  const createCollection = () => attempt(async () => {
+    if (!draft.name.trim()) {
+      setMessage('Give the collection a name.')
+      return
+    }
+    const { error } = await database.createCollection(userId, toInput(draft))
+    if (error) throw error
+    setDraft(emptyInput)
+    onChanged()
+  }, 'Failed to create the collection')
+
+  const startEditing = (collection: RouteCollection) => {
+    setEditingId(collection.id)
+    setEditDraft({ name: collection.name, description: collection.description, is_public: collection.is_public })
+  }
+
+  const saveEdit = (collectionId: string) => attempt(async () => {
+    if (!editDraft.name.trim()) {
+      setMessage('Give the collection a name.')
+      return
+    }
+    const { error } = await database.updateCollection(collectionId, toInput(editDraft))
+    if (error) throw error
+    setEditingId(null)
+    onChanged()
+  }, 'Failed to update the collection')
+
+  const togglePublic = (collection: RouteCollection) => attempt(async () => {
+    const { error } = await database.updateCollection(collection.id, { is_public: !collection.is_public })
+    if (error) throw error
+    onChanged()
+  }, 'Failed to change who can see the collection')
+
+  const deleteCollection = (collection: RouteCollection) => {
+    if (!window.confirm(`Delete the collection "${collection.name}"? The routes themselves are kept.`)) return
+
+    attempt(async () => {
+      const { error } = await database.deleteCollection(collection.id)
+      if (error) throw error
+      if (expandedId === collection.id) setExpandedId(null)
+      onChanged()
+    }, 'Failed to delete the collection')
+  }
+
+  const toggleExpanded = (collection: RouteCollection) => {
+    if (expandedId === collection.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(collection.id)
+    setItems([])
+    attempt(async () => {
+      const { data, error } = await database.getCollectionRoutes(collection.id)
+      if (error) throw error
+      setItems(data || [])
+    }, 'Failed to load the collection')
+  }
+
+  const moveItem = (collectionId: string, index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= items.length) return
+
+    const reordered = [...items]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+
+    attempt(async () => {
+      const { error } = await database.reorderCollection(collectionId, reordered.map(item => item.route_id))
+      if (error) throw error
+      setItems(reordered.map((item, position) => ({ ...item, position })))
+      onChanged()
+    }, 'Failed to reorder the collection')
+  }
+
+  const removeItem = (item: RouteCollectionItem) => attempt(async () => {
+    const { error } = await database.removeRouteFromCollection(item.collection_id, item.route_id)
+    if (error) throw error
+    setItems(prev => prev.filter(existing => existing.id !== item.id))
+    onChanged()
+  }, 'Failed to remove the route')
+
+  const copyCollection = (collection: RouteCollection) => attempt(async () => {
+    const { error } = await database.copyCollection(collection.id)
+    if (error) throw error
+    setTab('mine')
+    onChanged()
+  }, 'Failed to copy the collection')
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-5">
+          {/* Header */}
+          <div className="flex items-start justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Route Collections</h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex space-x-2">
+            {(['mine', 'public'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`px-4 py-2 text-sm rounded-xl transition-colors ${
+                  tab === value ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {value === 'mine' ? 'My collections' : 'Browse public'}
+              </button>
+            ))}
+          </div>
+
+          {message && <p className="text-sm text-red-600">{message}</p>}
+
+          {tab === 'mine' ? (
+            <>
+              {/* New collection */}
+              <div className="p-4 bg-gray-50 rounded-xl space-y-2">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={ROUTE_LIMITS.collectionNameMaxLength}
+                  placeholder="New collection, e.g. Marathon prep"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <textarea
+                  value={draft.description ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  maxLength={ROUTE_LIMITS.descriptionMaxLength}
+                  placeholder="Description (optional)"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={draft.is_public}
+                      onChange={(e) => setDraft(prev => ({ ...prev, is_public: e.target.checked }))}
+                    />
+                    <span>Public</span>
+                  </label>
+                  <button
+                    onClick={createCollection}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Create</span>
+                  </button>
+                </div>
+              </div>
+
+              {collections.length === 0 && (
+                <p className="text-sm text-gray-500 text-center">
+                  No collections yet. Create one, or copy a public collection.
+                </p>
+              )}
+
+              <ul className="space-y-3">
+                {collections.map(collection => (
+                  <li key={collection.id} className="p-4 border border-gray-200 rounded-xl">
+                    {editingId === collection.id ? (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={editDraft.name}
+                          onChange={(e) => setEditDraft(prev => ({ ...prev, name: e.target.value }))}
+                          maxLength={ROUTE_LIMITS.collectionNameMaxLength}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <textarea
+                          value={editDraft.description ?? ''}
+                          onChange={(e) => setEditDraft(prev => ({ ...prev, description: e.target.value }))}
+                          rows={2}
+                          maxLength={ROUTE_LIMITS.descriptionMaxLength}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => saveEdit(collection.id)}
+                            disabled={busy}
+                            className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                          >
+                            <Save className="w-4 h-4" />
+                            <span>Save</span>
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-start justify-between">
+                        <button onClick={() => onSelect(collection.id)} className="text-left">
+                          <p className="font-medium text-gray-900 hover:text-blue-600">{collection.name}</p>
+                          {collection.description && (
+                            <p className="text-sm text-gray-600 line-clamp-2">{collection.description}</p>
+                          )}
+                          <p className="text-xs text-gray-500">{routeCount(collection)}</p>
+                        </button>
+                        <div className="flex space-x-1 shrink-0">
+                          <button
+                            onClick={() => togglePublic(collection)}
+                            disabled={busy}
+                            title={collection.is_public ? 'Public: click to make private' : 'Private: click to make public'}
+                            className="p-2 text-gray-500 hover:text-blue-600 rounded-full hover:bg-gray-100"
+                          >
+                            {collection.is_public ? <Globe className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => startEditing(collection)}
+                            title="Rename"
+                            className="p-2 text-gray-500 hover:text-gray-900 rounded-full hover:bg-gray-100"
+                          >
+                            <Edit3 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => deleteCollection(collection)}
+                            disabled={busy}
+                            title="Delete"
+                            className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-gray-100"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => toggleExpanded(collection)}
+                            title="Arrange routes"
+                            className="p-2 text-gray-500 hover:text-gray-900 rounded-full hover:bg-gray-100"
+                          >
+                            {expandedId === collection.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Routes in order */}
+                    {expandedId === collection.id && (
+                      <ol className="mt-3 space-y-1">
+                        {items.length === 0 && (
+                          <li className="text-xs text-gray-500">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Add routes from the route list.'}
+                          </li>
+                        )}
+                        {items.map((item, index) => (
+                          <li key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                            <span className="truncate">
+                              {index + 1}. {item.fitness_routes?.name ?? 'Unknown route'}
+                            </span>
+                            <span className="flex space-x-1 shrink-0">
+                              <button
+                                onClick={() => moveItem(collection.id, index, -1)}
+                                disabled={busy || index === 0}
+                                title="Move up"
+                                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                              >
+                                <ArrowUp className="w-3 h-3" />
+                              </button>
+                              <button
+                                onClick={() => moveItem(collection.id, index, 1)}
+                                disabled={busy || index === items.length - 1}
+                                title="Move down"
+                                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                              >
+                                <ArrowDown className="w-3 h-3" />
+                              </button>
+                              <button
+                                onClick={() => removeItem(item)}
+                                disabled={busy}
+                                title="Remove from collection"
+                                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : publicCollections === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+            </div>
+          ) : publicCollections.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">No one has shared a collection yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {publicCollections.map(collection => (
+                <li key={collection.id} className="flex items-start justify-between p-4 border border-gray-200 rounded-xl">
+                  <div>
+                    <p className="font-medium text-gray-900">{collection.name}</p>
+                    {collection.description && (
+                      <p className="text-sm text-gray-600 line-clamp-2">{collection.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {routeCount(collection)} · by {ownerName(collection)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => copyCollection(collection)}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors disabled:opacity-50 shrink-0"
+                  >
+                    <Copy className="w-4 h-4" />
+                    <span>Copy</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
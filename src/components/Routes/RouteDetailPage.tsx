@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ArrowLeft, MapPin, Clock, TrendingUp, Calendar, Heart, CheckCircle, Plus, Save, Loader2, AlertTriangle, StickyNote
+} from 'lucide-react'
+import { FitnessRoute, SavedRoute, WorkoutLog, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { useAuth } from '../../hooks/useAuth'
+import { notifyActivityChanged } from '../../lib/activityEvents'
+import { analyzeElevation } from '../../utils/elevationAnalysis'
+import { getDifficultyColor } from '../../utils/routeDifficulty'
+import { ROUTE_LIMITS, getRouteTypeIcon } from '../../utils/routeValidation'
+import { ElevationProfile } from './ElevationProfile'
+import { RouteTrackActions } from './RouteTrackActions'
+import { WorkoutLogPanel } from './WorkoutLogPanel'
+import { RatingStars } from './RatingStars'
+import { RouteReviewsPanel } from './RouteReviewsPanel'
+
+interface RouteDetailPageProps {
+  routeId: string
+  onBack: () => void
+  onOpenRoute: (routeId: string) => void
+}
+
+type SavedStatus = SavedRoute['status']
+
+export function RouteDetailPage({ routeId, onBack, onOpenRoute }: RouteDetailPageProps) {
+  const { user } = useAuth()
+  const [route, setRoute] = useState<FitnessRoute | null>(null)
+  const [relatedRoutes, setRelatedRoutes] = useState<FitnessRoute[]>([])
+  const [savedRoute, setSavedRoute] = useState<SavedRoute | null>(null)
+  const [workouts, setWorkouts] = useState<WorkoutLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const [notes, setNotes] = useState('')
+  const [savingNotes, setSavingNotes] = useState(false)
+  const [statusUpdating, setStatusUpdating] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRoute = async () => {
+      setLoading(true)
+      setError('')
+      setMessage('')
+
+      try {
+        const { data, error } = await database.getFitnessRoute(routeId)
+        if (error) throw error
+        if (cancelled) return
+
+        if (!data) {
+          setRoute(null)
+          setError('This route does not exist or has been deleted.')
+          return
+        }
+
+        setRoute(data)
+
+        const related = await database.getRelatedRoutes(data)
+        if (!cancelled) setRelatedRoutes(related.data || [])
+      } catch (error: unknown) {
+        console.error('Error fetching route:', error)
+        if (!cancelled) {
+          setError(error instanceof SupabaseError && error.code === 'NETWORK_ERROR'
+            ? 'Unable to load this route. Check your connection and try again.'
+            : 'Failed to load this route.')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRoute()
+    return () => { cancelled = true }
+  }, [routeId])
+
+  useEffect(() => {
+    if (!user) {
+      setSavedRoute(null)
+      setWorkouts([])
+      return
+    }
+
+    let cancelled = false
+
+    const fetchUserData = async () => {
+      const [savedResult, workoutsResult] = await Promise.all([
+        database.getSavedRoute(user.id, routeId),
+        database.getRouteWorkoutLogs(user.id, routeId)
+      ])
+      if (cancelled) return
+
+      if (savedResult.error) console.error('Error fetching saved route:', savedResult.error)
+      if (workoutsResult.error) console.error('Error fetching workout logs:', workoutsResult.error)
+
+      setSavedRoute(savedResult.data)
+      setNotes(savedResult.data?.notes || '')
+      setWorkouts(workoutsResult.data || [])
+    }
+
+    fetchUserData()
+    return () => { cancelled = true }
+  }, [user, routeId])
+
+  const elevation = useMemo(() => analyzeElevation(route?.track_points ?? null), [route])
+
+  const changeStatus = async (status: SavedStatus) => {
+    if (!user || !route) return
+
+    setStatusUpdating(true)
+    setMessage('')
+
+    try {
+      const { data, error } = savedRoute
+        ? await database.updateRouteStatus(savedRoute.id, status)
+        : await database.saveRoute(user.id, route.id, status === 'favorite' ? 'favorite' : 'to-do')
+      if (error) throw error
+
+      setSavedRoute(data)
+      notifyActivityChanged()
+    } catch (error: unknown) {
+      console.error('Error updating route status:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to update route status.')
+    } finally {
+      setStatusUpdating(false)
+    }
+  }
+
+  const saveNotes = async () => {
+    if (!savedRoute) return
+
+    setSavingNotes(true)
+    setMessage('')
+
+    try {
+      const { data, error } = await database.updateSavedRouteNotes(savedRoute.id, notes.trim())
+      if (error) throw error
+
+      if (data) setSavedRoute(data)
+      setMessage('Notes saved.')
+    } catch (error: unknown) {
+      console.error('Error saving notes:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to save notes.')
+    } finally {
+      setSavingNotes(false)
+    }
+  }
+
+  const handleWorkoutLogged = (workout: WorkoutLog) => {
+    setWorkouts(prev =>
+      [workout, ...prev].sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())
+    )
+    notifyActivityChanged()
+  }
+
+  const handleWorkoutDeleted = (workoutId: string) => {
+    setWorkouts(prev => prev.filter(workout => workout.id !== workoutId))
+    notifyActivityChanged()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-500">Loading route...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!route) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="text-center py-12">
+          <AlertTriangle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Route Unavailable</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <button
+            onClick={onBack}
+            className="inline-flex items-center space-x-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to Routes</span>
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const notesChanged = notes.trim() !== (savedRoute?.notes || '')
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>All routes</span>
+      </button>
+
+      {/* Header */}
+      <div className="bg-white rounded-2xl shadow-lg p-8">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start space-x-4">
+            <span className="text-4xl">{getRouteTypeIcon(route.route_type)}</span>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{route.name}</h1>
+              <p className="text-gray-500 capitalize">{route.route_type.replace('-', ' ')}</p>
+              <div className="flex items-center space-x-2 mt-1">
+                <RatingStars rating={route.rating_average} />
+                <span className="text-sm text-gray-500">
+                  {route.rating_average !== null
+                    ? `${route.rating_average.toFixed(1)} from ${route.rating_count} review${route.rating_count === 1 ? '' : 's'}`
+                    : 'No ratings yet'}
+                </span>
+              </div>
+            </div>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${getDifficultyColor(route.difficulty_level)}`}>
+            {route.difficulty_level}
+          </span>
+        </div>
+
+        {route.description && (
+          <p className="mt-6 text-gray-700 whitespace-pre-line">{route.description}</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 mt-6">
+          <div className="p-4 bg-gray-50 rounded-xl text-center">
+            <MapPin className="w-5 h-5 text-blue-600 mx-auto mb-1" />
+            <p className="text-lg font-semibold text-gray-900">{route.distance} mi</p>
+            <p className="text-xs text-gray-500">Distance</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-xl text-center">
+            <Clock className="w-5 h-5 text-blue-600 mx-auto mb-1" />
+            <p className="text-lg font-semibold text-gray-900">{route.duration_minutes} min</p>
+            <p className="text-xs text-gray-500">Typical time</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-xl text-center">
+            <TrendingUp className="w-5 h-5 text-blue-600 mx-auto mb-1" />
+            <p className="text-lg font-semibold text-gray-900">{route.elevation_gain_meters} m</p>
+            <p className="text-xs text-gray-500">Climbing</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Elevation and geometry */}
+      {(elevation || route.track_points) && (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Elevation & Track</h2>
+          {elevation
+            ? <ElevationProfile analysis={elevation} height={160} />
+            : <p className="text-sm text-gray-500">This track has no elevation data.</p>}
+          <RouteTrackActions
+            route={route}
+            canEdit={!!user && route.created_by === user.id}
+            onTrackUpdated={setRoute}
+          />
+        </div>
+      )}
+
+      {/* Saved status, notes and history */}
+      {user ? (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Your Progress</h2>
+
+          <div className="flex flex-wrap gap-2">
+            {!savedRoute && (
+              <button
+                onClick={() => changeStatus('to-do')}
+                disabled={statusUpdating}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Save Route</span>
+              </button>
+            )}
+            <button
+              onClick={() => changeStatus(savedRoute?.status === 'favorite' ? 'to-do' : 'favorite')}
+              disabled={statusUpdating}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-xl transition-colors disabled:opacity-50 ${
+                savedRoute?.status === 'favorite' ? 'bg-red-100 text-red-700' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              <Heart className={`w-4 h-4 ${savedRoute?.status === 'favorite' ? 'fill-current' : ''}`} />
+              <span>{savedRoute?.status === 'favorite' ? 'Favorited' : 'Favorite'}</span>
+            </button>
+            {savedRoute && (
+              <button
+                onClick={() => changeStatus(savedRoute.status === 'completed' ? 'to-do' : 'completed')}
+                disabled={statusUpdating}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-xl transition-colors disabled:opacity-50 ${
+                  savedRoute.status === 'completed' ? 'bg-green-100 text-green-700' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>{savedRoute.status === 'completed' ? 'Completed' : 'Mark Completed'}</span>
+              </button>
+            )}
+          </div>
+
+          {savedRoute?.completed_at && (
+            <p className="mt-3 flex items-center space-x-1 text-sm text-gray-500">
+              <Calendar className="w-4 h-4" />
+              <span>First completed {new Date(savedRoute.completed_at).toLocaleDateString()}</span>
+            </p>
+          )}
+
+          {/* Notes */}
+          <div className="mt-6">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+              <StickyNote className="w-4 h-4" />
+              <span>Notes</span>
+            </label>
+            {savedRoute ? (
+              <>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={4}
+                  maxLength={ROUTE_LIMITS.notesMaxLength}
+                  placeholder="Parking, water stops, the hill that always gets you..."
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-gray-400">{notes.length}/{ROUTE_LIMITS.notesMaxLength}</span>
+                  <button
+                    onClick={saveNotes}
+                    disabled={savingNotes || !notesChanged}
+                    className="flex items-center space-x-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+                  >
+                    {savingNotes ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    <span>Save Notes</span>
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Save this route to keep notes on it.</p>
+            )}
+          </div>
+
+          {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+
+          {/* Completion history */}
+          <WorkoutLogPanel
+            route={route}
+            userId={user.id}
+            workouts={workouts}
+            onLogged={handleWorkoutLogged}
+            onDeleted={handleWorkoutDeleted}
+          />
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-lg p-8 text-center text-gray-600">
+          Sign in to save this route, keep notes and log your workouts.
+        </div>
+      )}
+
+      {/* Ratings and reviews */}
+      {user && (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h2 className="text-xl font-bold text-gray-900">Reviews</h2>
+          <RouteReviewsPanel route={route} userId={user.id} onRouteUpdated={setRoute} defaultExpanded />
+        </div>
+      )}
+
+      {/* Related routes */}
+      {relatedRoutes.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Similar Routes</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {relatedRoutes.map(related => (
+              <button
+                key={related.id}
+                onClick={() => onOpenRoute(related.id)}
+                className="text-left p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition-colors"
+              >
+                <div className="flex items-center space-x-2">
+                  <span className="text-xl">{getRouteTypeIcon(related.route_type)}</span>
+                  <span className="font-medium text-gray-900">{related.name}</span>
+                </div>
+                <div className="flex items-center space-x-3 mt-2 text-xs text-gray-500">
+                  <span>{related.distance} mi</span>
+                  <span>{related.duration_minutes} min</span>
+                  {related.elevation_gain_meters > 0 && <span>{related.elevation_gain_meters} m</span>}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
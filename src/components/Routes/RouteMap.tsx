@@ -0,0 +1,262 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react'
+import { TrackPoint } from '../../lib/supabase'
+import { computeTrackDistance, KM_PER_MILE } from '../../utils/routeGeometry'
+import {
+  ELEVATION_LEVELS,
+  MapTileLayer,
+  WorldPoint,
+  chooseMarkerStepKm,
+  elevationLevelColor,
+  getDistanceMarkers,
+  getElevationRuns,
+  getVisibleTiles,
+  getWorldBounds,
+  projectPoint
+} from '../../utils/routeMap'
+
+interface RouteMapProps {
+  points: TrackPoint[]
+  height?: number
+  // Background tiles are optional; without them the track is drawn on a plain grid
+  tileLayer?: MapTileLayer
+}
+
+const MAP_WIDTH = 320
+const PADDING = 16
+const MIN_ZOOM = 1
+const MAX_ZOOM = 256
+const ZOOM_STEP = 1.5
+// Keeps a track of (nearly) identical points from zooming in without limit
+const MIN_WORLD_SPAN = 1e-7
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
+
+export function RouteMap({ points, height = 200, tileLayer }: RouteMapProps) {
+  // useId contains colons, which url(#...) references do not accept everywhere
+  const gridId = `route-map-grid-${useId().replace(/:/g, '')}`
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragStart = useRef<{ clientX: number; clientY: number; pan: WorldPoint } | null>(null)
+  const [zoom, setZoom] = useState(MIN_ZOOM)
+  const [pan, setPan] = useState<WorldPoint>({ x: 0, y: 0 })
+
+  const projected = useMemo(() => points.map(projectPoint), [points])
+  const runs = useMemo(() => getElevationRuns(points), [points])
+  const markers = useMemo(() => {
+    const totalKm = computeTrackDistance(points) * KM_PER_MILE
+    return getDistanceMarkers(points, chooseMarkerStepKm(totalKm))
+  }, [points])
+
+  // Fit the whole track into the view at zoom 1
+  const bounds = useMemo(() => getWorldBounds(projected), [projected])
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  const fitScale = Math.min(
+    (MAP_WIDTH - 2 * PADDING) / Math.max(bounds.maxX - bounds.minX, MIN_WORLD_SPAN),
+    (height - 2 * PADDING) / Math.max(bounds.maxY - bounds.minY, MIN_WORLD_SPAN)
+  )
+  const scale = fitScale * zoom
+
+  const toView = (point: WorldPoint): WorldPoint => ({
+    x: MAP_WIDTH / 2 + (point.x - center.x) * scale + pan.x,
+    y: height / 2 + (point.y - center.y) * scale + pan.y
+  })
+
+  const resetView = () => {
+    setZoom(MIN_ZOOM)
+    setPan({ x: 0, y: 0 })
+  }
+
+  // Refit when the track moves, but not when the same track is passed again
+  useEffect(() => {
+    setZoom(MIN_ZOOM)
+    setPan({ x: 0, y: 0 })
+  }, [bounds.minX, bounds.minY, bounds.maxX, bounds.maxY])
+
+  // Zooms keeping the given view position (the map center by default) in place
+  const zoomBy = (factor: number, anchor: WorldPoint = { x: MAP_WIDTH / 2, y: height / 2 }) => {
+    const nextZoom = clampZoom(zoom * factor)
+    const applied = nextZoom / zoom
+    setZoom(nextZoom)
+    setPan({
+      x: anchor.x - MAP_WIDTH / 2 - (anchor.x - MAP_WIDTH / 2 - pan.x) * applied,
+      y: anchor.y - height / 2 - (anchor.y - height / 2 - pan.y) * applied
+    })
+  }
+
+  // Client pixels to view units; the SVG scales with its container
+  const viewUnitsPerPixel = () => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    return rect && rect.width > 0 ? MAP_WIDTH / rect.width : 1
+  }
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling.
+  // Only ctrl/cmd + wheel (and trackpad pinch, which sends ctrlKey) zooms so
+  // maps on the route list do not trap page scrolling.
+  const zoomByRef = useRef(zoomBy)
+  zoomByRef.current = zoomBy
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      const unitsPerPixel = rect.width > 0 ? MAP_WIDTH / rect.width : 1
+      zoomByRef.current(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, {
+        x: (event.clientX - rect.left) * unitsPerPixel,
+        y: (event.clientY - rect.top) * unitsPerPixel
+      })
+    }
+
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragStart.current = { clientX: event.clientX, clientY: event.clientY, pan }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const start = dragStart.current
+    if (!start) return
+    const unitsPerPixel = viewUnitsPerPixel()
+    setPan({
+      x: start.pan.x + (event.clientX - start.clientX) * unitsPerPixel,
+      y: start.pan.y + (event.clientY - start.clientY) * unitsPerPixel
+    })
+  }
+
+  const handlePointerUp = () => {
+    dragStart.current = null
+  }
+
+  if (points.length < 2) return null
+
+  const viewPoints = projected.map(toView)
+  const polyline = (from: number, to: number) =>
+    viewPoints.slice(from, to + 1).map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')
+
+  const tiles = tileLayer
+    ? getVisibleTiles(
+      tileLayer,
+      {
+        minX: center.x + (0 - MAP_WIDTH / 2 - pan.x) / scale,
+        minY: center.y + (0 - height / 2 - pan.y) / scale,
+        maxX: center.x + (MAP_WIDTH / 2 - pan.x) / scale,
+        maxY: center.y + (height / 2 - pan.y) / scale
+      },
+      scale,
+      toView({ x: 0, y: 0 })
+    )
+    : []
+
+  const start = viewPoints[0]
+  const finish = viewPoints[viewPoints.length - 1]
+
+  return (
+    <div className="relative rounded-xl overflow-hidden bg-slate-50 border border-gray-200">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${MAP_WIDTH} ${height}`}
+        className="w-full touch-none cursor-grab active:cursor-grabbing select-none"
+        role="img"
+        aria-label="Route map"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={resetView}
+      >
+        <defs>
+          <pattern id={gridId} width="20" height="20" patternUnits="userSpaceOnUse">
+            <path d="M 20 0 L 0 0 0 20" fill="none" className="stroke-gray-200" strokeWidth={0.5} />
+          </pattern>
+        </defs>
+        <rect width={MAP_WIDTH} height={height} fill={`url(#${gridId})`} />
+
+        {tiles.map(tile => (
+          <image key={tile.key} href={tile.url} x={tile.x} y={tile.y} width={tile.size} height={tile.size} />
+        ))}
+
+        {/* Track, colored by elevation when the track has it */}
+        <polyline points={polyline(0, viewPoints.length - 1)} fill="none" stroke="white" strokeWidth={5} strokeLinejoin="round" />
+        {runs.length > 0 ? (
+          runs.map(run => (
+            <polyline
+              key={run.start}
+              points={polyline(run.start, run.end)}
+              fill="none"
+              stroke={elevationLevelColor(run.level)}
+              strokeWidth={3}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+          ))
+        ) : (
+          <polyline
+            points={polyline(0, viewPoints.length - 1)}
+            fill="none"
+            className="stroke-blue-600"
+            strokeWidth={3}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        )}
+
+        {/* Kilometer markers */}
+        {markers.map(marker => {
+          const position = toView(marker)
+          return (
+            <g key={marker.km} transform={`translate(${position.x.toFixed(1)},${position.y.toFixed(1)})`}>
+              <circle r={7} className="fill-white stroke-gray-500" strokeWidth={1} />
+              <text textAnchor="middle" dy="2.5" className="fill-gray-700 text-[7px] font-medium">
+                {marker.km}
+              </text>
+            </g>
+          )
+        })}
+
+        {/* Finish first so the start stays visible on loops */}
+        <g transform={`translate(${finish.x.toFixed(1)},${finish.y.toFixed(1)})`}>
+          <title>Finish</title>
+          <rect x={-5} y={-5} width={10} height={10} rx={2} className="fill-red-600 stroke-white" strokeWidth={1.5} />
+        </g>
+        <g transform={`translate(${start.x.toFixed(1)},${start.y.toFixed(1)})`}>
+          <title>Start</title>
+          <circle r={5.5} className="fill-green-600 stroke-white" strokeWidth={1.5} />
+        </g>
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col bg-white rounded-lg shadow border border-gray-200">
+        <button type="button" onClick={() => zoomBy(ZOOM_STEP)} className="p-1 text-gray-600 hover:text-gray-900" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} className="p-1 text-gray-600 hover:text-gray-900" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={resetView} className="p-1 text-gray-600 hover:text-gray-900" title="Fit route">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="absolute bottom-2 left-2 flex items-center space-x-1 px-2 py-0.5 bg-white/80 rounded text-[10px] text-gray-600">
+          <span>Low</span>
+          <span
+            className="w-12 h-1.5 rounded-full"
+            style={{ background: `linear-gradient(to right, ${elevationLevelColor(0)}, ${elevationLevelColor((ELEVATION_LEVELS - 1) / 2)}, ${elevationLevelColor(ELEVATION_LEVELS - 1)})` }}
+          />
+          <span>High</span>
+        </div>
+      )}
+
+      {tileLayer?.attribution && tiles.length > 0 && (
+        <div className="absolute bottom-2 right-2 px-1 bg-white/80 rounded text-[9px] text-gray-500">
+          {tileLayer.attribution}
+        </div>
+      )}
+    </div>
+  )
+}
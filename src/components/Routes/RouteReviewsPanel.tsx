@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react'
+import { MessageSquare, Save, Trash2, Loader2, ChevronDown, ChevronUp } from 'lucide-react'
+import { FitnessRoute, RouteReview, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { ROUTE_LIMITS } from '../../utils/routeValidation'
+import { RatingStars } from './RatingStars'
+
+interface RouteReviewsPanelProps {
+  route: FitnessRoute
+  userId: string
+  // Called with the route's new rating average and count after a review changes
+  onRouteUpdated: (route: FitnessRoute) => void
+  defaultExpanded?: boolean
+}
+
+const reviewerName = (review: RouteReview) =>
+  review.profiles?.full_name || review.profiles?.username || 'A fellow athlete'
+
+export function RouteReviewsPanel({ route, userId, onRouteUpdated, defaultExpanded = false }: RouteReviewsPanelProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded)
+  const [reviews, setReviews] = useState<RouteReview[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [rating, setRating] = useState(0)
+  const [body, setBody] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const ownReview = reviews?.find(review => review.user_id === userId) ?? null
+
+  // Reviews are only fetched once the panel is opened
+  useEffect(() => {
+    if (!expanded || reviews) return
+
+    let cancelled = false
+
+    const fetchReviews = async () => {
+      setLoading(true)
+      const { data, error } = await database.getRouteReviews(route.id)
+      if (cancelled) return
+
+      if (error) {
+        console.error('Error fetching route reviews:', error)
+        setMessage('Failed to load reviews.')
+      }
+      const loaded = data || []
+      const own = loaded.find(review => review.user_id === userId)
+      setReviews(loaded)
+      setRating(own?.rating ?? 0)
+      setBody(own?.body ?? '')
+      setLoading(false)
+    }
+
+    fetchReviews()
+    return () => { cancelled = true }
+  }, [expanded, reviews, route.id, userId])
+
+  const refreshRoute = async () => {
+    const { data, error } = await database.getFitnessRoute(route.id)
+    if (error) {
+      console.error('Error refreshing route rating:', error)
+      return
+    }
+    if (data) onRouteUpdated(data)
+  }
+
+  const saveReview = async () => {
+    if (rating < 1) {
+      setMessage('Pick a rating from 1 to 5 stars.')
+      return
+    }
+
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const { data, error } = await database.saveRouteReview(userId, route.id, {
+        rating,
+        body: body.trim() || null
+      })
+      if (error) throw error
+
+      if (data) {
+        setReviews(prev => [data, ...(prev || []).filter(review => review.id !== data.id)])
+      }
+      await refreshRoute()
+    } catch (error: unknown) {
+      console.error('Error saving route review:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to save your review.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteReview = async () => {
+    if (!ownReview || !window.confirm('Delete your review of this route?')) return
+
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const { error } = await database.deleteRouteReview(ownReview.id)
+      if (error) throw error
+
+      setReviews(prev => (prev || []).filter(review => review.id !== ownReview.id))
+      setRating(0)
+      setBody('')
+      await refreshRoute()
+    } catch (error: unknown) {
+      console.error('Error deleting route review:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to delete your review.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const otherReviews = (reviews || []).filter(review => review.user_id !== userId)
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-sm text-gray-600 hover:text-gray-900"
+      >
+        <span className="flex items-center space-x-1">
+          <MessageSquare className="w-4 h-4" />
+          <span>
+            {route.rating_count === 0
+              ? 'No reviews yet'
+              : `${route.rating_count} review${route.rating_count === 1 ? '' : 's'}`}
+          </span>
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* The signed-in user's review */}
+              <div className="p-3 bg-gray-50 rounded-xl space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-gray-600">
+                    {ownReview ? 'Your review' : 'Rate this route'}
+                  </span>
+                  <RatingStars rating={rating} size="md" onChange={setRating} />
+                </div>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={2}
+                  maxLength={ROUTE_LIMITS.reviewMaxLength}
+                  placeholder="What should others know about this route?"
+                  className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex justify-end space-x-2">
+                  {ownReview && (
+                    <button
+                      onClick={deleteReview}
+                      disabled={saving}
+                      className="flex items-center space-x-1 px-3 py-1 text-xs bg-red-50 hover:bg-red-100 text-red-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>Delete</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={saveReview}
+                    disabled={saving}
+                    className="flex items-center space-x-1 px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                  >
+                    {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+                    <span>{ownReview ? 'Update' : 'Post review'}</span>
+                  </button>
+                </div>
+              </div>
+
+              {message && <p className="text-xs text-red-600">{message}</p>}
+
+              {/* Everyone else's */}
+              {otherReviews.length > 0 && (
+                <ul className="space-y-2">
+                  {otherReviews.map(review => (
+                    <li key={review.id} className="p-2 bg-gray-50 rounded-lg text-xs text-gray-600">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{reviewerName(review)}</span>
+                        <RatingStars rating={review.rating} />
+                      </div>
+                      {review.body && <p className="mt-1">{review.body}</p>}
+                      {review.updated_at && (
+                        <p className="mt-1 text-gray-400">{new Date(review.updated_at).toLocaleDateString()}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
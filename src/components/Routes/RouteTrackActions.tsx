@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react'
+import { Download, Upload, Loader2, Navigation } from 'lucide-react'
+import { FitnessRoute, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { exportRouteTrack, parseRouteFile, RouteFileError } from '../../utils/routeFileFormats'
+import { hasTrack, validateTrack } from '../../utils/routeGeometry'
+
+interface RouteTrackActionsProps {
+  route: FitnessRoute
+  canEdit: boolean
+  onTrackUpdated: (route: FitnessRoute) => void
+}
+
+export function RouteTrackActions({ route, canEdit, onTrackUpdated }: RouteTrackActionsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const routeHasTrack = hasTrack(route)
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setImporting(true)
+    setMessage('')
+
+    try {
+      const parsed = await parseRouteFile(file)
+
+      const problem = validateTrack(parsed.points)
+      if (problem) {
+        setMessage(problem)
+        return
+      }
+
+      const { data, error } = await database.updateRouteTrack(route.id, parsed.points)
+      if (error) throw error
+
+      if (data) onTrackUpdated(data)
+      setMessage(`Imported ${parsed.points.length} points from ${file.name}.`)
+    } catch (error: unknown) {
+      console.error('Error importing route track:', error)
+
+      if (error instanceof RouteFileError || error instanceof SupabaseError) {
+        setMessage(error.message)
+      } else {
+        setMessage('Failed to import the track file.')
+      }
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (!routeHasTrack && !canEdit) {
+    return null
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1 text-xs text-gray-500">
+          <Navigation className="w-3 h-3" />
+          <span>
+            {routeHasTrack ? `GPS track · ${route.track_points!.length} points` : 'No GPS track yet'}
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {routeHasTrack && (
+            <>
+              <button
+                onClick={() => exportRouteTrack(route, 'gpx')}
+                className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                title="Download as GPX 1.1"
+              >
+                <Download className="w-3 h-3" />
+                <span>GPX</span>
+              </button>
+              <button
+                onClick={() => exportRouteTrack(route, 'geojson')}
+                className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                title="Download as GeoJSON LineString"
+              >
+                <Download className="w-3 h-3" />
+                <span>GeoJSON</span>
+              </button>
+            </>
+          )}
+
+          {canEdit && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+                className="flex items-center space-x-1 px-2 py-1 text-xs bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors disabled:opacity-50"
+                title="Import a GPX or GeoJSON track"
+              >
+                {importing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                <span>Import</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <p className="mt-2 text-xs text-gray-600">{message}</p>
+      )}
+    </div>
+  )
+}
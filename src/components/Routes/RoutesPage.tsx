@@ -1,36 +1,237 @@
-import React, { useState, useEffect } from 'react'
-import { MapPin, Clock, Activity, Star, Heart, CheckCircle, Plus, Filter, Search, Calendar, AlertTriangle, RefreshCw, Wifi } from 'lucide-react'
-import { FitnessRoute, SavedRoute, database, SupabaseError } from '../../lib/supabase'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { MapPin, Clock, Activity, Star, Heart, CheckCircle, Plus, Filter, Search, Calendar, AlertTriangle, RefreshCw, Wifi, TrendingUp, ChevronDown, ChevronUp, Edit3, Trash2, LocateFixed, FolderPlus, FolderOpen, Check } from 'lucide-react'
+import { FitnessRoute, RouteCollection, RouteCursor, RouteQuery, RouteSort, SavedRoute, WorkoutLog, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
 import { useAuth } from '../../hooks/useAuth'
+import { notifyActivityChanged } from '../../lib/activityEvents'
 import { useNetwork } from '../../hooks/useNetwork'
+import { GeoPoint, GeolocationError, getCurrentPosition } from '../../lib/geolocation'
+import { RouteTrackActions } from './RouteTrackActions'
+import { ElevationProfile } from './ElevationProfile'
+import { RouteMap } from './RouteMap'
+import { analyzeElevation } from '../../utils/elevationAnalysis'
+import { getDifficultyColor } from '../../utils/routeDifficulty'
+import { ROUTE_TYPES, formatCoordinate, getRouteTypeIcon, parseCoordinate } from '../../utils/routeValidation'
+import { distanceToStartKm, matchesRouteQuery } from '../../utils/routeSearch'
+import { hasTrack } from '../../utils/routeGeometry'
+import { RouteBuilderModal } from './RouteBuilderModal'
+import { WorkoutLogPanel } from './WorkoutLogPanel'
+import { RatingStars } from './RatingStars'
+import { RouteReviewsPanel } from './RouteReviewsPanel'
+import { RouteCollectionsModal } from './RouteCollectionsModal'
 
-export function RoutesPage() {
+type RouteFilter = 'all' | 'saved' | 'completed' | 'favorites'
+
+const SAVED_STATUS_FOR_FILTER: Record<RouteFilter, RouteQuery['savedStatus']> = {
+  all: undefined,
+  saved: 'saved',
+  completed: 'completed',
+  favorites: 'favorite'
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// Collections share the filter select with the saved-status filters
+const COLLECTION_FILTER_PREFIX = 'collection:'
+
+const NEAR_RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100]
+const DEFAULT_NEAR_RADIUS_KM = 25
+
+// Empty or unparseable range inputs leave that side of the range open
+const parseBound = (value: string) => {
+  const parsed = Number(value)
+  return value.trim() === '' || !Number.isFinite(parsed) ? undefined : Math.max(0, parsed)
+}
+
+interface RoutesPageProps {
+  initialFilter?: RouteFilter
+  onViewDetails?: (routeId: string) => void
+}
+
+export function RoutesPage({ initialFilter = 'all', onViewDetails }: RoutesPageProps = {}) {
   const { user, connectionError } = useAuth()
   const { status: networkStatus, testConnectivity } = useNetwork()
   const [routes, setRoutes] = useState<FitnessRoute[]>([])
   const [savedRoutes, setSavedRoutes] = useState<SavedRoute[]>([])
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([])
   const [loading, setLoading] = useState(true)
-  const [filter, setFilter] = useState<'all' | 'saved' | 'completed' | 'favorites'>('all')
+  const [filter, setFilter] = useState<RouteFilter>(initialFilter)
   const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState<'name' | 'distance' | 'difficulty' | 'date'>('name')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortBy, setSortBy] = useState<RouteSort>('name')
+  const [routeTypeFilter, setRouteTypeFilter] = useState<FitnessRoute['route_type'] | ''>('')
+  const [difficultyFilter, setDifficultyFilter] = useState<FitnessRoute['difficulty_level'] | ''>('')
+  const [distanceRange, setDistanceRange] = useState({ min: '', max: '' })
+  const [durationRange, setDurationRange] = useState({ min: '', max: '' })
+  // Near me: routes starting within the radius of nearCenter, closest first
+  const [nearCenter, setNearCenter] = useState<GeoPoint | null>(null)
+  const [nearRadiusKm, setNearRadiusKm] = useState(DEFAULT_NEAR_RADIUS_KM)
+  const [nearInput, setNearInput] = useState('')
+  const [locating, setLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+  const [collections, setCollections] = useState<RouteCollection[]>([])
+  const [collectionId, setCollectionId] = useState<string | null>(null)
+  const [showCollections, setShowCollections] = useState(false)
+  const [collectionMenuRouteId, setCollectionMenuRouteId] = useState<string | null>(null)
+  const [expandedProfiles, setExpandedProfiles] = useState<Set<string>>(new Set())
+
+  // Route builder
+  const [showBuilder, setShowBuilder] = useState(false)
+  const [editingRoute, setEditingRoute] = useState<FitnessRoute | null>(null)
+  const [deletingRouteId, setDeletingRouteId] = useState<string | null>(null)
   
   // Enhanced error handling states
   const [fetchError, setFetchError] = useState<string | null>(null)
   const [retrying, setRetrying] = useState(false)
   const [lastFetchAttempt, setLastFetchAttempt] = useState<Date | null>(null)
 
+  // Infinite scroll: routes holds every page loaded so far for the current query
+  const [nextCursor, setNextCursor] = useState<RouteCursor | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const initialLoad = useRef(true)
+  // Bumped per query so pages of an outdated query are dropped when they arrive
+  const queryVersion = useRef(0)
+  const activeQuery = useRef<RouteQuery | null>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  // Lists the data layer left malformed rows out of, e.g. 'routes'
+  const [malformedLists, setMalformedLists] = useState<Set<string>>(new Set())
+
+  const trackMalformed = (list: string, malformed?: SupabaseError) => {
+    setMalformedLists(prev => {
+      const next = new Set(prev)
+      if (malformed) {
+        next.add(list)
+      } else {
+        next.delete(list)
+      }
+      return next
+    })
+  }
+
+  const routeQuery = useMemo<RouteQuery>(() => ({
+    search: debouncedSearch.trim() || undefined,
+    routeTypes: routeTypeFilter ? [routeTypeFilter] : undefined,
+    difficulties: difficultyFilter ? [difficultyFilter] : undefined,
+    minDistance: parseBound(distanceRange.min),
+    maxDistance: parseBound(distanceRange.max),
+    minDuration: parseBound(durationRange.min),
+    maxDuration: parseBound(durationRange.max),
+    savedStatus: SAVED_STATUS_FOR_FILTER[filter],
+    near: nearCenter ? { ...nearCenter, radiusKm: nearRadiusKm } : undefined,
+    sortBy
+  }), [debouncedSearch, routeTypeFilter, difficultyFilter, distanceRange, durationRange, filter, nearCenter, nearRadiusKm, sortBy])
+
+  const hasRefinements = !!(searchTerm || routeTypeFilter || difficultyFilter ||
+    distanceRange.min || distanceRange.max || durationRange.min || durationRange.max || nearCenter)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  // Saved, completed and favorite filters depend on who is signed in
   useEffect(() => {
     fetchRoutes()
+  }, [routeQuery, user, collectionId])
+
+  useEffect(() => {
     if (user) {
       fetchSavedRoutes()
+      fetchWorkoutLogs()
+      fetchCollections()
+    } else {
+      setCollections([])
+      setCollectionId(null)
     }
   }, [user])
 
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !nextCursor) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreRoutes()
+      }
+    }, { rootMargin: '400px' })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadingMore])
+
+  const clearRefinements = () => {
+    setSearchTerm('')
+    setDebouncedSearch('')
+    setRouteTypeFilter('')
+    setDifficultyFilter('')
+    setDistanceRange({ min: '', max: '' })
+    setDurationRange({ min: '', max: '' })
+    clearNear()
+  }
+
+  const searchNear = (center: GeoPoint) => {
+    setNearCenter(center)
+    setNearInput(formatCoordinate(center))
+    setLocationError(null)
+    setSortBy('nearest')
+  }
+
+  const clearNear = () => {
+    setNearCenter(null)
+    setNearInput('')
+    setLocationError(null)
+    setSortBy(prev => (prev === 'nearest' ? 'name' : prev))
+  }
+
+  const locateMe = async () => {
+    setLocating(true)
+    setLocationError(null)
+    try {
+      searchNear(await getCurrentPosition())
+    } catch (error: unknown) {
+      console.error('Error getting current position:', error)
+      setLocationError(error instanceof GeolocationError ? error.message : 'Could not find your location.')
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  const applyNearInput = () => {
+    if (!nearInput.trim()) {
+      clearNear()
+      return
+    }
+
+    const center = parseCoordinate(nearInput)
+    if (center) {
+      searchNear(center)
+    } else {
+      setLocationError('Enter coordinates as "latitude, longitude".')
+    }
+  }
+
+  // A collection is shown whole and in its own order, so the refinements are applied here
+  const searchCollection = async (id: string) => {
+    const { data, error, malformed } = await database.getCollectionRoutes(id)
+    const routes = (data || [])
+      .map(item => item.fitness_routes)
+      .filter((route): route is FitnessRoute => !!route && matchesRouteQuery(route, routeQuery, savedRoutes))
+    return { data: data ? { routes, nextCursor: null } : null, error, malformed }
+  }
+
   const fetchRoutes = async (isRetry = false) => {
-    if (!isRetry) {
+    const version = ++queryVersion.current
+    activeQuery.current = routeQuery
+    setNextCursor(null)
+    setLoadingMore(false)
+
+    if (isRetry) {
+      setRetrying(true)
+    } else if (initialLoad.current) {
       setLoading(true)
     } else {
-      setRetrying(true)
+      setSearching(true)
     }
     
     setFetchError(null)
@@ -43,25 +244,21 @@ export function RoutesPage() {
         networkStatus
       })
 
-      // Pre-flight connectivity check
-      if (networkStatus === 'offline') {
-        throw new SupabaseError(
-          'No internet connection detected',
-          'OFFLINE_ERROR',
-          { networkStatus },
-          true
-        )
-      }
-
-      const { data, error } = await database.getFitnessRoutes()
+      // Served from the offline cache when there is no connection
+      const { data, error, malformed } = collectionId
+        ? await searchCollection(collectionId)
+        : await database.searchFitnessRoutes(routeQuery)
+      if (version !== queryVersion.current) return
 
       if (error) {
         console.error('❌ Failed to fetch fitness routes:', error)
         throw error
       }
 
-      console.log('✅ Successfully fetched routes:', data?.length || 0)
-      setRoutes(data || [])
+      console.log('✅ Successfully fetched routes:', data?.routes.length || 0)
+      setRoutes(data?.routes || [])
+      setNextCursor(data?.nextCursor ?? null)
+      trackMalformed('routes', malformed)
       setFetchError(null)
       
     } catch (error: any) {
@@ -80,6 +277,9 @@ export function RoutesPage() {
           case 'PERMISSION_ERROR':
             errorMessage = 'Access denied. Please check your account permissions.'
             break
+          case 'VALIDATION_ERROR':
+            errorMessage = 'The routes could not be shown because their data is malformed.'
+            break
           default:
             errorMessage = error.message
         }
@@ -87,11 +287,45 @@ export function RoutesPage() {
         errorMessage = error.message || 'An unexpected error occurred'
       }
       
-      setFetchError(errorMessage)
+      if (version === queryVersion.current) {
+        setFetchError(errorMessage)
+      }
       
     } finally {
-      setLoading(false)
-      setRetrying(false)
+      if (version === queryVersion.current) {
+        initialLoad.current = false
+        setLoading(false)
+        setSearching(false)
+        setRetrying(false)
+      }
+    }
+  }
+
+  const loadMoreRoutes = async () => {
+    // A stale observer callback may still hold the previous query's cursor
+    if (!nextCursor || loadingMore || routeQuery !== activeQuery.current) return
+
+    const version = queryVersion.current
+    setLoadingMore(true)
+
+    try {
+      const { data, error, malformed } = await database.searchFitnessRoutes(routeQuery, nextCursor)
+      if (version !== queryVersion.current) return
+
+      if (error) {
+        console.error('❌ Failed to load more routes:', error)
+        return
+      }
+
+      setRoutes(prev => [...prev, ...(data?.routes || [])])
+      setNextCursor(data?.nextCursor ?? null)
+      if (malformed) trackMalformed('routes', malformed)
+    } catch (error: unknown) {
+      console.error('💥 Error loading more routes:', error)
+    } finally {
+      if (version === queryVersion.current) {
+        setLoadingMore(false)
+      }
     }
   }
 
@@ -101,7 +335,7 @@ export function RoutesPage() {
     try {
       console.log('🌐 Fetching saved routes for user:', user.id)
       
-      const { data, error } = await database.getUserSavedRoutes(user.id)
+      const { data, error, malformed } = await database.getUserSavedRoutes(user.id)
 
       if (error) {
         console.error('❌ Error fetching saved routes:', error)
@@ -110,11 +344,97 @@ export function RoutesPage() {
       
       console.log('✅ Successfully fetched saved routes:', data?.length || 0)
       setSavedRoutes(data || [])
+      trackMalformed('saved routes', malformed)
     } catch (error: any) {
       console.error('💥 Error fetching saved routes:', error)
     }
   }
 
+  const fetchCollections = async () => {
+    if (!user) return
+
+    try {
+      const { data, error, malformed } = await database.getUserCollections(user.id)
+
+      if (error) {
+        console.error('❌ Error fetching collections:', error)
+        return
+      }
+
+      setCollections(data || [])
+      trackMalformed('collections', malformed)
+      // The collection being shown may have just been deleted
+      if (collectionId && !(data || []).some(collection => collection.id === collectionId)) {
+        setCollectionId(null)
+      }
+    } catch (error: unknown) {
+      console.error('💥 Error fetching collections:', error)
+    }
+  }
+
+  const handleCollectionsChanged = async () => {
+    await fetchCollections()
+    if (collectionId) await fetchRoutes()
+  }
+
+  const selectFilter = (value: string) => {
+    if (value.startsWith(COLLECTION_FILTER_PREFIX)) {
+      setFilter('all')
+      setCollectionId(value.slice(COLLECTION_FILTER_PREFIX.length))
+    } else {
+      setFilter(value as RouteFilter)
+      setCollectionId(null)
+    }
+  }
+
+  const toggleRouteInCollection = async (collection: RouteCollection, routeId: string) => {
+    const inCollection = collection.route_collection_items?.some(item => item.route_id === routeId)
+
+    try {
+      const { error } = inCollection
+        ? await database.removeRouteFromCollection(collection.id, routeId)
+        : await database.addRouteToCollection(collection.id, routeId)
+      if (error) {
+        console.error('Failed to update collection:', error)
+        return
+      }
+
+      await handleCollectionsChanged()
+    } catch (error: unknown) {
+      console.error('Error updating collection:', error)
+    }
+  }
+
+  const fetchWorkoutLogs = async () => {
+    if (!user) return
+
+    try {
+      const { data, error, malformed } = await database.getUserWorkoutLogs(user.id)
+
+      if (error) {
+        console.error('❌ Error fetching workout logs:', error)
+        return
+      }
+
+      setWorkoutLogs(data || [])
+      trackMalformed('workouts', malformed)
+    } catch (error: unknown) {
+      console.error('💥 Error fetching workout logs:', error)
+    }
+  }
+
+  const handleWorkoutLogged = (workout: WorkoutLog) => {
+    setWorkoutLogs(prev =>
+      [workout, ...prev].sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())
+    )
+    notifyActivityChanged()
+  }
+
+  const handleWorkoutDeleted = (workoutId: string) => {
+    setWorkoutLogs(prev => prev.filter(workout => workout.id !== workoutId))
+    notifyActivityChanged()
+  }
+
   const handleRetry = async () => {
     console.log('🔄 Retrying data fetch...')
     
@@ -129,6 +449,8 @@ export function RoutesPage() {
     await fetchRoutes(true)
     if (user) {
       await fetchSavedRoutes()
+      await fetchWorkoutLogs()
+      await fetchCollections()
     }
   }
 
@@ -143,6 +465,7 @@ export function RoutesPage() {
       }
       
       await fetchSavedRoutes()
+      notifyActivityChanged()
     } catch (error: any) {
       console.error('Error saving route:', error)
     }
@@ -157,6 +480,7 @@ export function RoutesPage() {
       }
       
       await fetchSavedRoutes()
+      notifyActivityChanged()
     } catch (error: any) {
       console.error('Error updating route status:', error)
     }
@@ -178,56 +502,66 @@ export function RoutesPage() {
     }
   }
 
-  const getDifficultyColor = (difficulty: string) => {
-    switch (difficulty) {
-      case 'beginner': return 'bg-green-100 text-green-800'
-      case 'intermediate': return 'bg-yellow-100 text-yellow-800'
-      case 'advanced': return 'bg-red-100 text-red-800'
-      default: return 'bg-gray-100 text-gray-800'
-    }
+  const handleRouteUpdated = (updatedRoute: FitnessRoute) => {
+    setRoutes(prev => prev.map(route => route.id === updatedRoute.id ? updatedRoute : route))
   }
 
-  const getRouteTypeIcon = (type: string) => {
-    switch (type) {
-      case 'running': return '🏃‍♂️'
-      case 'walking': return '🚶‍♂️'
-      case 'cycling': return '🚴‍♂️'
-      case 'trail-running': return '⛰️'
-      case 'hiking': return '🥾'
-      default: return '🏃‍♂️'
-    }
+  const openBuilder = (route: FitnessRoute | null = null) => {
+    setEditingRoute(route)
+    setShowBuilder(true)
   }
 
-  const filteredRoutes = routes.filter(route => {
-    const matchesSearch = route.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         route.description.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    if (!matchesSearch) return false
+  const handleRouteSaved = (savedRoute: FitnessRoute) => {
+    setRoutes(prev => prev.some(route => route.id === savedRoute.id)
+      ? prev.map(route => route.id === savedRoute.id ? savedRoute : route)
+      : [savedRoute, ...prev]
+    )
+  }
 
-    if (filter === 'all') return true
-    
-    const savedRoute = savedRoutes.find(sr => sr.route_id === route.id)
-    
-    switch (filter) {
-      case 'saved': return !!savedRoute
-      case 'completed': return savedRoute?.status === 'completed'
-      case 'favorites': return savedRoute?.status === 'favorite'
-      default: return true
+  const deleteFitnessRoute = async (route: FitnessRoute) => {
+    if (!window.confirm(`Delete "${route.name}"? Anyone who saved it will lose it too.`)) {
+      return
     }
-  })
-
-  const sortedRoutes = [...filteredRoutes].sort((a, b) => {
-    switch (sortBy) {
-      case 'name': return a.name.localeCompare(b.name)
-      case 'distance': return a.distance - b.distance
-      case 'difficulty': 
-        const difficultyOrder = { beginner: 1, intermediate: 2, advanced: 3 }
-        return difficultyOrder[a.difficulty_level as keyof typeof difficultyOrder] - 
-               difficultyOrder[b.difficulty_level as keyof typeof difficultyOrder]
-      case 'date': return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      default: return 0
+
+    setDeletingRouteId(route.id)
+    try {
+      const { error } = await database.deleteFitnessRoute(route.id)
+      if (error) {
+        console.error('Failed to delete route:', error)
+        return
+      }
+
+      setRoutes(prev => prev.filter(r => r.id !== route.id))
+      setSavedRoutes(prev => prev.filter(sr => sr.route_id !== route.id))
+      // Workouts stay in the log, detached from the deleted route
+      setWorkoutLogs(prev => prev.map(workout =>
+        workout.route_id === route.id ? { ...workout, route_id: null, fitness_routes: null } : workout))
+      fetchCollections()
+    } catch (error: unknown) {
+      console.error('Error deleting route:', error)
+    } finally {
+      setDeletingRouteId(null)
     }
-  })
+  }
+
+  const toggleProfile = (routeId: string) => {
+    setExpandedProfiles(prev => {
+      const newSet = new Set(prev)
+      if (newSet.has(routeId)) {
+        newSet.delete(routeId)
+      } else {
+        newSet.add(routeId)
+      }
+      return newSet
+    })
+  }
+
+  const selectedCollection = collections.find(collection => collection.id === collectionId)
+
+  const elevationAnalyses = useMemo(
+    () => new Map(routes.map(route => [route.id, analyzeElevation(route.track_points)])),
+    [routes]
+  )
 
   // Show error state with detailed troubleshooting
   if (fetchError && !loading && !retrying) {
@@ -341,16 +675,36 @@ export function RoutesPage() {
         </div>
       )}
 
+      {/* Rows that failed validation are never rendered */}
+      {malformedLists.size > 0 && (
+        <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-xl">
+          <div className="flex items-center space-x-3">
+            <AlertTriangle className="w-5 h-5 text-orange-600" />
+            <div>
+              <p className="text-orange-800 font-medium">Some data could not be shown</p>
+              <p className="text-orange-700 text-sm">
+                Some {[...malformedLists].join(', ')} were hidden because their data is malformed.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Fitness Routes</h1>
           <p className="text-gray-600">
             Discover and save your favorite workout routes
-            {routes.length > 0 && ` (${routes.length} available)`}
+            {routes.length > 0 && ` (${routes.length}${nextCursor ? '+' : ''} ${hasRefinements || filter !== 'all' || collectionId ? 'matching' : 'available'})`}
           </p>
         </div>
-        <button className="mt-4 sm:mt-0 flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors">
+        <button
+          onClick={() => openBuilder()}
+          disabled={!user}
+          title={user ? 'Create a new route' : 'Sign in to add routes'}
+          className="mt-4 sm:mt-0 flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-xl transition-colors"
+        >
           <Plus className="w-5 h-5" />
           <span>Add Route</span>
         </button>
@@ -377,15 +731,33 @@ export function RoutesPage() {
           <div className="flex items-center space-x-2">
             <Filter className="w-5 h-5 text-gray-400" />
             <select
-              value={filter}
-              onChange={(e) => setFilter(e.target.value as any)}
+              value={collectionId ? `${COLLECTION_FILTER_PREFIX}${collectionId}` : filter}
+              onChange={(e) => selectFilter(e.target.value)}
               className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="all">All Routes</option>
               <option value="saved">Saved</option>
               <option value="completed">Completed</option>
               <option value="favorites">Favorites</option>
+              {collections.length > 0 && (
+                <optgroup label="Collections">
+                  {collections.map(collection => (
+                    <option key={collection.id} value={`${COLLECTION_FILTER_PREFIX}${collection.id}`}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
+            {user && (
+              <button
+                onClick={() => setShowCollections(true)}
+                title="Manage collections"
+                className="p-3 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-xl transition-colors"
+              >
+                <FolderOpen className="w-5 h-5" />
+              </button>
+            )}
           </div>
 
           {/* Sort */}
@@ -393,25 +765,154 @@ export function RoutesPage() {
             <span className="text-gray-600">Sort by:</span>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as any)}
-              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              onChange={(e) => setSortBy(e.target.value as RouteSort)}
+              disabled={!!collectionId}
+              title={collectionId ? 'Collections keep their own order' : undefined}
+              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
             >
               <option value="name">Name</option>
               <option value="distance">Distance</option>
               <option value="difficulty">Difficulty</option>
               <option value="date">Date Added</option>
+              <option value="rating">Top Rated</option>
+              {nearCenter && <option value="nearest">Nearest</option>}
             </select>
           </div>
         </div>
+
+        {/* Refinements */}
+        <div className="flex flex-wrap items-end gap-4 mt-4">
+          <select
+            value={routeTypeFilter}
+            onChange={(e) => setRouteTypeFilter(e.target.value as FitnessRoute['route_type'] | '')}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All types</option>
+            {ROUTE_TYPES.map(type => (
+              <option key={type} value={type}>{type.replace('-', ' ')}</option>
+            ))}
+          </select>
+
+          <select
+            value={difficultyFilter}
+            onChange={(e) => setDifficultyFilter(e.target.value as FitnessRoute['difficulty_level'] | '')}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All difficulties</option>
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+          </select>
+
+          <div className="flex items-center space-x-2">
+            <MapPin className="w-4 h-4 text-gray-400" />
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="Min mi"
+              value={distanceRange.min}
+              onChange={(e) => setDistanceRange(prev => ({ ...prev, min: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="Max mi"
+              value={distanceRange.max}
+              onChange={(e) => setDistanceRange(prev => ({ ...prev, max: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Clock className="w-4 h-4 text-gray-400" />
+            <input
+              type="number"
+              min="0"
+              step="5"
+              placeholder="Min min"
+              value={durationRange.min}
+              onChange={(e) => setDurationRange(prev => ({ ...prev, min: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min="0"
+              step="5"
+              placeholder="Max min"
+              value={durationRange.max}
+              onChange={(e) => setDurationRange(prev => ({ ...prev, max: e.target.value }))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={locateMe}
+              disabled={locating}
+              className={`flex items-center space-x-1 px-3 py-2 rounded-xl transition-colors ${
+                nearCenter ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+              } disabled:opacity-50`}
+            >
+              {locating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+              <span>Near me</span>
+            </button>
+            <input
+              type="text"
+              placeholder="or lat, lon"
+              value={nearInput}
+              onChange={(e) => setNearInput(e.target.value)}
+              onBlur={applyNearInput}
+              onKeyDown={(e) => e.key === 'Enter' && applyNearInput()}
+              className="w-40 px-3 py-2 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={nearRadiusKm}
+              onChange={(e) => setNearRadiusKm(Number(e.target.value))}
+              disabled={!nearCenter}
+              className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+            >
+              {NEAR_RADIUS_OPTIONS_KM.map(radius => (
+                <option key={radius} value={radius}>within {radius} km</option>
+              ))}
+            </select>
+          </div>
+
+          {hasRefinements && (
+            <button
+              onClick={clearRefinements}
+              className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              Clear filters
+            </button>
+          )}
+
+          {searching && <RefreshCw className="w-4 h-4 text-gray-400 animate-spin" />}
+        </div>
+
+        {locationError && (
+          <p className="mt-2 text-sm text-red-600">{locationError}</p>
+        )}
+
+        {selectedCollection?.description && (
+          <p className="mt-4 text-sm text-gray-600">{selectedCollection.description}</p>
+        )}
       </div>
 
       {/* Routes Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {sortedRoutes.map((route) => {
+        {routes.map((route) => {
           const savedRoute = savedRoutes.find(sr => sr.route_id === route.id)
           const isSaved = !!savedRoute
           const isFavorite = savedRoute?.status === 'favorite'
           const isCompleted = savedRoute?.status === 'completed'
+          const elevation = elevationAnalyses.get(route.id)
+          const isProfileExpanded = expandedProfiles.has(route.id)
+          const isOwner = !!user && route.created_by === user.id
 
           return (
             <div key={route.id} className="bg-white rounded-2xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow">
@@ -423,11 +924,58 @@ export function RoutesPage() {
                     <div>
                       <h3 className="font-bold text-gray-900">{route.name}</h3>
                       <p className="text-sm text-gray-600 capitalize">{route.route_type.replace('-', ' ')}</p>
+                      {nearCenter && (
+                        <p className="text-xs text-blue-600">{distanceToStartKm(route, nearCenter).toFixed(1)} km away</p>
+                      )}
+                      <div className="flex items-center space-x-1 mt-1">
+                        <RatingStars rating={route.rating_average} />
+                        <span className="text-xs text-gray-500">
+                          {route.rating_average !== null
+                            ? `${route.rating_average.toFixed(1)} (${route.rating_count})`
+                            : 'No ratings yet'}
+                        </span>
+                      </div>
                     </div>
                   </div>
                   
                   {user && (
                     <div className="flex space-x-2">
+                      <div className="relative">
+                        <button
+                          onClick={() => setCollectionMenuRouteId(collectionMenuRouteId === route.id ? null : route.id)}
+                          title="Add to collection"
+                          className="p-2 bg-gray-100 hover:bg-blue-100 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+                        >
+                          <FolderPlus className="w-4 h-4" />
+                        </button>
+                        {collectionMenuRouteId === route.id && (
+                          <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-lg border border-gray-200 py-1 z-10">
+                            {collections.map(collection => {
+                              const inCollection = collection.route_collection_items?.some(item => item.route_id === route.id)
+                              return (
+                                <button
+                                  key={collection.id}
+                                  onClick={() => toggleRouteInCollection(collection, route.id)}
+                                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-left text-gray-700 hover:bg-gray-50"
+                                >
+                                  <span className="truncate">{collection.name}</span>
+                                  {inCollection && <Check className="w-4 h-4 text-blue-600 shrink-0" />}
+                                </button>
+                              )
+                            })}
+                            <button
+                              onClick={() => {
+                                setCollectionMenuRouteId(null)
+                                setShowCollections(true)
+                              }}
+                              className="w-full px-3 py-2 text-sm text-left text-blue-600 hover:bg-gray-50"
+                            >
+                              {collections.length > 0 ? 'Manage collections...' : 'Create a collection...'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
                       <button
                         onClick={() => isFavorite ? 
                           updateRouteStatus(savedRoute!.id, 'to-do') : 
@@ -466,6 +1014,12 @@ export function RoutesPage() {
 
                 <p className="text-gray-600 text-sm mb-4 line-clamp-2">{route.description}</p>
 
+                {route.track_points && hasTrack(route) && (
+                  <div className="mb-4">
+                    <RouteMap points={route.track_points} height={160} />
+                  </div>
+                )}
+
                 {/* Route Stats */}
                 <div className="space-y-3">
                   <div className="flex items-center justify-between text-sm">
@@ -473,6 +1027,12 @@ export function RoutesPage() {
                       <MapPin className="w-4 h-4" />
                       <span>{route.distance} miles</span>
                     </div>
+                    {route.elevation_gain_meters > 0 && (
+                      <div className="flex items-center space-x-1 text-gray-600">
+                        <TrendingUp className="w-4 h-4" />
+                        <span>{route.elevation_gain_meters} m</span>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-1 text-gray-600">
                       <Clock className="w-4 h-4" />
                       <span>{route.duration_minutes} min</span>
@@ -493,8 +1053,72 @@ export function RoutesPage() {
                   </div>
                 </div>
 
+                {elevation && (
+                  <div className="mt-4">
+                    <button
+                      onClick={() => toggleProfile(route.id)}
+                      className="w-full flex items-center justify-between text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      <span>Elevation profile</span>
+                      {isProfileExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                    {isProfileExpanded && (
+                      <div className="mt-2">
+                        <ElevationProfile analysis={elevation} />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {user && (
+                  <RouteReviewsPanel
+                    route={route}
+                    userId={user.id}
+                    onRouteUpdated={handleRouteUpdated}
+                  />
+                )}
+
+                {user && (
+                  <WorkoutLogPanel
+                    route={route}
+                    userId={user.id}
+                    workouts={workoutLogs.filter(workout => workout.route_id === route.id)}
+                    onLogged={handleWorkoutLogged}
+                    onDeleted={handleWorkoutDeleted}
+                  />
+                )}
+
+                <RouteTrackActions
+                  route={route}
+                  canEdit={isOwner}
+                  onTrackUpdated={handleRouteUpdated}
+                />
+
+                {isOwner && (
+                  <div className="flex space-x-2 mt-4">
+                    <button
+                      onClick={() => openBuilder(route)}
+                      className="flex-1 flex items-center justify-center space-x-1 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-xl transition-colors"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={() => deleteFitnessRoute(route)}
+                      disabled={deletingRouteId === route.id}
+                      className="flex-1 flex items-center justify-center space-x-1 py-2 text-sm bg-red-50 hover:bg-red-100 text-red-600 rounded-xl transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                )}
+
                 {/* Action Button */}
-                <button className="w-full mt-4 py-3 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-xl transition-colors font-medium">
+                <button
+                  onClick={() => onViewDetails?.(route.id)}
+                  className="w-full mt-4 py-3 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-xl transition-colors font-medium"
+                >
                   View Details
                 </button>
               </div>
@@ -503,15 +1127,57 @@ export function RoutesPage() {
         })}
       </div>
 
-      {sortedRoutes.length === 0 && !fetchError && (
+      {/* Infinite scroll: the next page loads as this comes into view */}
+      {nextCursor && (
+        <div ref={loadMoreRef} className="flex justify-center py-8">
+          <button
+            onClick={loadMoreRoutes}
+            disabled={loadingMore}
+            className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            {loadingMore && <RefreshCw className="w-4 h-4 animate-spin" />}
+            <span>{loadingMore ? 'Loading more routes...' : 'Load more routes'}</span>
+          </button>
+        </div>
+      )}
+
+      {routes.length === 0 && !fetchError && (
         <div className="text-center py-12">
           <Activity className="w-12 h-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No routes found</h3>
           <p className="text-gray-600">
-            {filter === 'all' ? 'Try adjusting your search terms' : `No ${filter} routes found`}
+            {hasRefinements
+              ? 'Try adjusting your search terms or filters'
+              : selectedCollection
+                ? `"${selectedCollection.name}" has no routes yet`
+                : filter === 'all' ? 'No routes have been added yet' : `No ${filter} routes found`}
           </p>
         </div>
       )}
+
+      {user && (
+        <RouteBuilderModal
+          isOpen={showBuilder}
+          userId={user.id}
+          route={editingRoute}
+          onClose={() => setShowBuilder(false)}
+          onSaved={handleRouteSaved}
+        />
+      )}
+
+      {user && (
+        <RouteCollectionsModal
+          isOpen={showCollections}
+          userId={user.id}
+          collections={collections}
+          onClose={() => setShowCollections(false)}
+          onChanged={handleCollectionsChanged}
+          onSelect={(id) => {
+            selectFilter(`${COLLECTION_FILTER_PREFIX}${id}`)
+            setShowCollections(false)
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,249 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Timer, Plus, Trash2, Save, X, Loader2, Trophy, ChevronDown, ChevronUp } from 'lucide-react'
+import { FitnessRoute, WorkoutLog, SupabaseError } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import {
+  PERCEIVED_EFFORT_LABELS,
+  findPersonalBest,
+  formatDuration,
+  formatWorkoutPerformance,
+  parseDuration
+} from '../../utils/workoutMetrics'
+
+interface WorkoutLogPanelProps {
+  route: FitnessRoute
+  userId: string
+  workouts: WorkoutLog[]
+  onLogged: (workout: WorkoutLog) => void
+  onDeleted: (workoutId: string) => void
+}
+
+interface WorkoutFormData {
+  completed_at: string
+  elapsed: string
+  perceived_effort: string
+  notes: string
+}
+
+// datetime-local inputs expect local time without a zone suffix
+const toLocalDateTimeInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const defaultFormValues = (): WorkoutFormData => ({
+  completed_at: toLocalDateTimeInput(new Date()),
+  elapsed: '',
+  perceived_effort: '5',
+  notes: ''
+})
+
+export function WorkoutLogPanel({ route, userId, workouts, onLogged, onDeleted }: WorkoutLogPanelProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const { register, handleSubmit, formState: { errors }, reset } = useForm<WorkoutFormData>({
+    defaultValues: defaultFormValues()
+  })
+
+  const personalBest = findPersonalBest(workouts)
+
+  const openForm = () => {
+    reset(defaultFormValues())
+    setMessage('')
+    setShowForm(true)
+  }
+
+  const onSubmit = async (data: WorkoutFormData) => {
+    const elapsedSeconds = parseDuration(data.elapsed)
+    if (!elapsedSeconds) {
+      setMessage('Enter your time as hh:mm:ss, mm:ss or minutes.')
+      return
+    }
+
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const { data: workout, error } = await database.logWorkout(userId, {
+        route_id: route.id,
+        completed_at: new Date(data.completed_at).toISOString(),
+        elapsed_seconds: elapsedSeconds,
+        distance: route.distance,
+        perceived_effort: parseInt(data.perceived_effort, 10),
+        notes: data.notes.trim()
+      })
+
+      if (error) throw error
+
+      if (workout) onLogged(workout)
+      setShowForm(false)
+      setShowHistory(true)
+    } catch (error: unknown) {
+      console.error('Error logging workout:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to log workout.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteWorkout = async (workoutId: string) => {
+    if (!window.confirm('Delete this workout from your log?')) return
+
+    setDeletingId(workoutId)
+    try {
+      const { error } = await database.deleteWorkoutLog(workoutId)
+      if (error) throw error
+      onDeleted(workoutId)
+    } catch (error: unknown) {
+      console.error('Error deleting workout:', error)
+      setMessage(error instanceof SupabaseError ? error.message : 'Failed to delete workout.')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          disabled={workouts.length === 0}
+          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 disabled:hover:text-gray-600"
+        >
+          <Timer className="w-4 h-4" />
+          <span>
+            {workouts.length === 0
+              ? 'No workouts logged'
+              : `${workouts.length} workout${workouts.length === 1 ? '' : 's'} logged`}
+          </span>
+          {workouts.length > 0 && (showHistory ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+        </button>
+
+        {!showForm && (
+          <button
+            onClick={openForm}
+            className="flex items-center space-x-1 px-2 py-1 text-xs bg-green-50 hover:bg-green-100 text-green-700 rounded-lg transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Log workout</span>
+          </button>
+        )}
+      </div>
+
+      {message && <p className="mt-2 text-xs text-red-600">{message}</p>}
+
+      {/* Log form */}
+      {showForm && (
+        <form onSubmit={handleSubmit(onSubmit)} className="mt-3 space-y-3 p-3 bg-gray-50 rounded-xl">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">When</label>
+              <input
+                {...register('completed_at', { required: 'Date is required' })}
+                type="datetime-local"
+                max={toLocalDateTimeInput(new Date())}
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Time</label>
+              <input
+                {...register('elapsed', {
+                  required: 'Time is required',
+                  validate: value => parseDuration(value) !== null || 'Use hh:mm:ss'
+                })}
+                type="text"
+                placeholder="hh:mm:ss"
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {errors.elapsed && <p className="mt-1 text-xs text-red-600">{errors.elapsed.message}</p>}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Perceived effort</label>
+            <select
+              {...register('perceived_effort')}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {Object.entries(PERCEIVED_EFFORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{value} – {label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+            <textarea
+              {...register('notes')}
+              rows={2}
+              placeholder="How did it go?"
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="flex items-center space-x-1 px-3 py-1 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+            >
+              {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+              <span>Save</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* History */}
+      {showHistory && workouts.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {workouts.map(workout => (
+            <li key={workout.id} className="p-2 bg-gray-50 rounded-lg text-xs text-gray-600">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">
+                  {new Date(workout.completed_at).toLocaleDateString()}
+                </span>
+                <div className="flex items-center space-x-2">
+                  {personalBest?.id === workout.id && workouts.length > 1 && (
+                    <span className="flex items-center space-x-1 text-yellow-700">
+                      <Trophy className="w-3 h-3" />
+                      <span>Best</span>
+                    </span>
+                  )}
+                  <button
+                    onClick={() => deleteWorkout(workout.id)}
+                    disabled={deletingId === workout.id}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                    aria-label="Delete workout"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3 mt-1">
+                <span>{formatDuration(workout.elapsed_seconds)}</span>
+                <span>{formatWorkoutPerformance(workout, route.route_type)}</span>
+                {workout.perceived_effort && <span>RPE {workout.perceived_effort}</span>}
+              </div>
+              {workout.notes && <p className="mt-1 italic">{workout.notes}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { CheckCircle, Circle, XCircle } from 'lucide-react'
+import { ScheduledWorkout, formatTarget } from '../../utils/trainingPlans'
+import { formatDuration, formatWorkoutPerformance } from '../../utils/workoutMetrics'
+import { getRouteTypeIcon } from '../../utils/routeValidation'
+
+interface ScheduledWorkoutItemProps {
+  scheduled: ScheduledWorkout
+  onOpenRoute: (routeId: string) => void
+  // Editing controls, shown on the right
+  children?: React.ReactNode
+}
+
+const STATUS_ICONS = {
+  done: <CheckCircle className="w-5 h-5 text-green-600" />,
+  missed: <XCircle className="w-5 h-5 text-red-400" />,
+  today: <Circle className="w-5 h-5 text-blue-600" />,
+  upcoming: <Circle className="w-5 h-5 text-gray-300" />
+}
+
+export function ScheduledWorkoutItem({ scheduled, onOpenRoute, children }: ScheduledWorkoutItemProps) {
+  const { item, status, workout, metTarget } = scheduled
+  const route = item.fitness_routes
+  const routeId = item.route_id
+  const target = formatTarget(item)
+
+  return (
+    <div className="flex items-start space-x-2 p-2 bg-gray-50 rounded-lg text-sm">
+      <span className="shrink-0" title={status}>{STATUS_ICONS[status]}</span>
+      <div className="flex-1 min-w-0">
+        {routeId ? (
+          <button
+            onClick={() => onOpenRoute(routeId)}
+            className="block max-w-full truncate font-medium text-gray-900 hover:text-blue-600 text-left"
+          >
+            {route ? `${getRouteTypeIcon(route.route_type)} ${route.name}` : 'Unknown route'}
+          </button>
+        ) : (
+          <p className="truncate font-medium text-gray-400" title="This route was deleted">
+            {item.route_name ?? 'Unknown route'} (deleted)
+          </p>
+        )}
+        {target && <p className="text-xs text-gray-500">{target}</p>}
+        {workout && route && (
+          <p className={`text-xs ${metTarget === false ? 'text-orange-600' : 'text-green-700'}`}>
+            {formatDuration(workout.elapsed_seconds)} · {formatWorkoutPerformance(workout, route.route_type)}
+            {metTarget === false && ' · target missed'}
+          </p>
+        )}
+        {item.notes && <p className="text-xs text-gray-600 mt-0.5">{item.notes}</p>}
+      </div>
+      {children && <div className="flex shrink-0">{children}</div>}
+    </div>
+  )
+}
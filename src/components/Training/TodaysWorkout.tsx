@@ -0,0 +1,76 @@
+import { CalendarDays, ArrowRight, Loader2 } from 'lucide-react'
+import { useTrainingPlans } from '../../hooks/useTrainingPlans'
+import { ScheduledWorkout } from '../../utils/trainingPlans'
+import { ScheduledWorkoutItem } from './ScheduledWorkoutItem'
+
+interface TodaysWorkoutListProps {
+  workouts: ScheduledWorkout[]
+  loading: boolean
+  onOpenRoute: (routeId: string) => void
+}
+
+// Today's scheduled items across the active plans, grouped by plan
+export function TodaysWorkoutList({ workouts, loading, onOpenRoute }: TodaysWorkoutListProps) {
+  if (loading && workouts.length === 0) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  if (workouts.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing scheduled today. Rest up!</p>
+  }
+
+  const done = workouts.filter(scheduled => scheduled.status === 'done').length
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">{done} of {workouts.length} done</p>
+      {workouts.map(scheduled => (
+        <div key={scheduled.item.id}>
+          <p className="text-xs font-medium text-gray-500 mb-1">{scheduled.plan.name}</p>
+          <ScheduledWorkoutItem scheduled={scheduled} onOpenRoute={onOpenRoute} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface TodaysWorkoutWidgetProps {
+  userId: string
+  onOpenRoute: (routeId: string) => void
+  onManagePlans: () => void
+}
+
+// Compact view of today's training for the home page
+export function TodaysWorkoutWidget({ userId, onOpenRoute, onManagePlans }: TodaysWorkoutWidgetProps) {
+  const { plans, todaysWorkouts, loading, error } = useTrainingPlans(userId)
+
+  // Only users who have started a plan see the widget
+  if (!loading && !error && plans.length === 0) return null
+
+  return (
+    <div className="mt-6 max-w-3xl mx-auto bg-white rounded-2xl shadow-lg p-6 text-left">
+      <h2 className="text-lg font-bold text-gray-900 flex items-center space-x-2 mb-4">
+        <CalendarDays className="w-5 h-5 text-blue-600" />
+        <span>Today's Workout</span>
+      </h2>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <TodaysWorkoutList workouts={todaysWorkouts} loading={loading} onOpenRoute={onOpenRoute} />
+      )}
+
+      <button
+        onClick={onManagePlans}
+        className="mt-4 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+      >
+        <span>Training plans</span>
+        <ArrowRight className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
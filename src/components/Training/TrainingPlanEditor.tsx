@@ -0,0 +1,365 @@
+import { useState } from 'react'
+import { Plus, Save, X, Trash2, Edit3, ArrowUp, ArrowDown, Loader2 } from 'lucide-react'
+import { FitnessRoute, TrainingPlan, TrainingPlanInput, TrainingPlanItem, TrainingPlanItemInput } from '../../lib/supabase'
+import {
+  DAYS_PER_WEEK,
+  PLAN_LIMITS,
+  ScheduledWorkout,
+  addDays,
+  formatPlanDate,
+  getPlanWeekCount,
+  parsePlanDate
+} from '../../utils/trainingPlans'
+import { parseDuration } from '../../utils/workoutMetrics'
+import { ScheduledWorkoutItem } from './ScheduledWorkoutItem'
+
+interface TrainingPlanEditorProps {
+  plan: TrainingPlan
+  schedule: ScheduledWorkout[]
+  routes: FitnessRoute[]
+  onUpdatePlan: (updates: Partial<TrainingPlanInput>) => Promise<boolean>
+  onDeletePlan: () => void
+  onAddItem: (item: TrainingPlanItemInput) => Promise<boolean>
+  onDeleteItem: (item: TrainingPlanItem) => void
+  onMoveItem: (item: TrainingPlanItem, offset: -1 | 1) => void
+  onOpenRoute: (routeId: string) => void
+}
+
+type TargetKind = 'none' | 'duration' | 'pace'
+
+type ItemDraft = {
+  routeId: string
+  targetKind: TargetKind
+  target: string
+  notes: string
+}
+
+const emptyItemDraft: ItemDraft = { routeId: '', targetKind: 'none', target: '', notes: '' }
+
+const toPlanInput = (plan: TrainingPlan): TrainingPlanInput => ({
+  name: plan.name,
+  description: plan.description,
+  start_date: plan.start_date,
+  is_active: plan.is_active
+})
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+
+// Duration targets are plain minutes, pace targets "mm:ss" per mile
+function parseTarget(draft: ItemDraft): Pick<TrainingPlanItemInput, 'target_duration_minutes' | 'target_pace_minutes_per_mile'> | string {
+  if (draft.targetKind === 'none') {
+    return { target_duration_minutes: null, target_pace_minutes_per_mile: null }
+  }
+
+  if (draft.targetKind === 'duration') {
+    const minutes = Number(draft.target)
+    return draft.target.trim() && minutes > 0 && minutes <= PLAN_LIMITS.maxTargetDurationMinutes
+      ? { target_duration_minutes: minutes, target_pace_minutes_per_mile: null }
+      : `Enter a duration between 1 and ${PLAN_LIMITS.maxTargetDurationMinutes} minutes`
+  }
+
+  const seconds = parseDuration(draft.target)
+  return seconds !== null && seconds > 0 && seconds <= PLAN_LIMITS.maxTargetPace * 60
+    ? { target_duration_minutes: null, target_pace_minutes_per_mile: Math.round((seconds / 60) * 100) / 100 }
+    : 'Enter a pace per mile as mm:ss'
+}
+
+export function TrainingPlanEditor({
+  plan,
+  schedule,
+  routes,
+  onUpdatePlan,
+  onDeletePlan,
+  onAddItem,
+  onDeleteItem,
+  onMoveItem,
+  onOpenRoute
+}: TrainingPlanEditorProps) {
+  const [extraWeeks, setExtraWeeks] = useState(0)
+  const [editingDetails, setEditingDetails] = useState(false)
+  const [details, setDetails] = useState(() => toPlanInput(plan))
+  const [addingDay, setAddingDay] = useState<number | null>(null)
+  const [itemDraft, setItemDraft] = useState<ItemDraft>(emptyItemDraft)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const weeks = Math.min(getPlanWeekCount(plan) + extraWeeks, PLAN_LIMITS.maxDays / DAYS_PER_WEEK)
+  const start = parsePlanDate(plan.start_date)
+  const today = formatPlanDate(new Date())
+  const done = schedule.filter(scheduled => scheduled.status === 'done').length
+
+  const startEditingDetails = () => {
+    setDetails(toPlanInput(plan))
+    setEditingDetails(true)
+  }
+
+  const saveDetails = async () => {
+    if (!details.name.trim() || !details.start_date) {
+      setMessage('A plan needs a name and a start date.')
+      return
+    }
+
+    setSaving(true)
+    setMessage('')
+    const saved = await onUpdatePlan({
+      name: details.name.trim(),
+      description: details.description?.trim() || null,
+      start_date: details.start_date,
+      is_active: details.is_active
+    })
+    setSaving(false)
+    if (saved) setEditingDetails(false)
+  }
+
+  const openAddForm = (dayOffset: number) => {
+    setAddingDay(dayOffset)
+    setItemDraft({ ...emptyItemDraft, routeId: routes[0]?.id ?? '' })
+    setMessage('')
+  }
+
+  const addItem = async (dayOffset: number) => {
+    const target = parseTarget(itemDraft)
+    if (typeof target === 'string') {
+      setMessage(target)
+      return
+    }
+    if (!itemDraft.routeId) {
+      setMessage('Pick a route.')
+      return
+    }
+
+    setSaving(true)
+    setMessage('')
+    const added = await onAddItem({
+      route_id: itemDraft.routeId,
+      day_offset: dayOffset,
+      position: Math.max(-1, ...schedule
+        .filter(scheduled => scheduled.item.day_offset === dayOffset)
+        .map(scheduled => scheduled.item.position)) + 1,
+      notes: itemDraft.notes.trim() || null,
+      ...target
+    })
+    setSaving(false)
+    if (added) setAddingDay(null)
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      {/* Plan details */}
+      {editingDetails ? (
+        <div className="space-y-3 mb-6">
+          <input
+            type="text"
+            value={details.name}
+            onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={PLAN_LIMITS.nameMaxLength}
+            className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <textarea
+            value={details.description ?? ''}
+            onChange={(e) => setDetails(prev => ({ ...prev, description: e.target.value }))}
+            rows={2}
+            maxLength={PLAN_LIMITS.descriptionMaxLength}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Starts</span>
+              <input
+                type="date"
+                value={details.start_date}
+                onChange={(e) => setDetails(prev => ({ ...prev, start_date: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={details.is_active}
+                onChange={(e) => setDetails(prev => ({ ...prev, is_active: e.target.checked }))}
+              />
+              <span>Active</span>
+            </label>
+            <div className="ml-auto flex space-x-2">
+              <button
+                onClick={() => setEditingDetails(false)}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDetails}
+                disabled={saving}
+                className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{plan.name}</h2>
+            {plan.description && <p className="text-sm text-gray-600">{plan.description}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              Starts {start.toLocaleDateString()} · {done} of {schedule.length} workouts done
+              {!plan.is_active && ' · paused'}
+            </p>
+          </div>
+          <div className="flex space-x-1 shrink-0">
+            <button
+              onClick={startEditingDetails}
+              title="Edit plan"
+              className="p-2 text-gray-500 hover:text-gray-900 rounded-full hover:bg-gray-100"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onDeletePlan}
+              title="Delete plan"
+              className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-gray-100"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mb-4 text-sm text-red-600">{message}</p>}
+
+      {/* Schedule */}
+      <div className="space-y-6">
+        {Array.from({ length: weeks }, (_, week) => (
+          <div key={week}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Week {week + 1}</h3>
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+              {Array.from({ length: DAYS_PER_WEEK }, (_, weekday) => {
+                const dayOffset = week * DAYS_PER_WEEK + weekday
+                const date = addDays(start, dayOffset)
+                const dayItems = schedule.filter(scheduled => scheduled.item.day_offset === dayOffset)
+                const isToday = formatPlanDate(date) === today
+
+                return (
+                  <div key={dayOffset} className={`flex items-start p-2 ${isToday ? 'bg-blue-50' : ''}`}>
+                    <span className={`w-28 shrink-0 pt-2 text-xs ${isToday ? 'font-semibold text-blue-700' : 'text-gray-500'}`}>
+                      {formatDay(date)}
+                    </span>
+                    <div className="flex-1 space-y-1">
+                      {dayItems.map((scheduled, index) => (
+                        <ScheduledWorkoutItem key={scheduled.item.id} scheduled={scheduled} onOpenRoute={onOpenRoute}>
+                          <button
+                            onClick={() => onMoveItem(scheduled.item, -1)}
+                            disabled={index === 0}
+                            title="Move up"
+                            className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          >
+                            <ArrowUp className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => onMoveItem(scheduled.item, 1)}
+                            disabled={index === dayItems.length - 1}
+                            title="Move down"
+                            className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          >
+                            <ArrowDown className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => onDeleteItem(scheduled.item)}
+                            title="Remove"
+                            className="p-1 text-gray-500 hover:text-red-600"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </ScheduledWorkoutItem>
+                      ))}
+
+                      {addingDay === dayOffset ? (
+                        <div className="p-2 bg-gray-50 rounded-lg space-y-2">
+                          <select
+                            value={itemDraft.routeId}
+                            onChange={(e) => setItemDraft(prev => ({ ...prev, routeId: e.target.value }))}
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            {routes.map(route => (
+                              <option key={route.id} value={route.id}>{route.name} ({route.distance} mi)</option>
+                            ))}
+                          </select>
+                          <div className="flex space-x-2">
+                            <select
+                              value={itemDraft.targetKind}
+                              onChange={(e) => setItemDraft(prev => ({ ...prev, targetKind: e.target.value as TargetKind, target: '' }))}
+                              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              <option value="none">No target</option>
+                              <option value="duration">Finish within</option>
+                              <option value="pace">Pace per mile</option>
+                            </select>
+                            {itemDraft.targetKind !== 'none' && (
+                              <input
+                                type="text"
+                                value={itemDraft.target}
+                                onChange={(e) => setItemDraft(prev => ({ ...prev, target: e.target.value }))}
+                                placeholder={itemDraft.targetKind === 'duration' ? 'minutes' : 'mm:ss'}
+                                className="w-28 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                            )}
+                          </div>
+                          <input
+                            type="text"
+                            value={itemDraft.notes}
+                            onChange={(e) => setItemDraft(prev => ({ ...prev, notes: e.target.value }))}
+                            maxLength={PLAN_LIMITS.notesMaxLength}
+                            placeholder="Notes, e.g. easy effort, strides at the end"
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => setAddingDay(null)}
+                              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => addItem(dayOffset)}
+                              disabled={saving || routes.length === 0}
+                              className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                            >
+                              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                              <span>Add</span>
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => openAddForm(dayOffset)}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-400 hover:text-blue-600"
+                        >
+                          <Plus className="w-3 h-3" />
+                          <span>Add workout</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {weeks * DAYS_PER_WEEK < PLAN_LIMITS.maxDays && (
+        <button
+          onClick={() => setExtraWeeks(prev => prev + 1)}
+          className="mt-4 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add week</span>
+        </button>
+      )}
+    </div>
+  )
+}
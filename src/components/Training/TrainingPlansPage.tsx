@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react'
+import { CalendarDays, Plus, Save, Loader2 } from 'lucide-react'
+import { FitnessRoute, TrainingPlanInput } from '../../lib/supabase'
+import { database } from '../../lib/database'
+import { useAuth } from '../../hooks/useAuth'
+import { useTrainingPlans } from '../../hooks/useTrainingPlans'
+import { PLAN_LIMITS, formatPlanDate } from '../../utils/trainingPlans'
+import { TodaysWorkoutList } from './TodaysWorkout'
+import { TrainingPlanEditor } from './TrainingPlanEditor'
+
+interface TrainingPlansPageProps {
+  onOpenRoute: (routeId: string) => void
+}
+
+const newPlanInput = (): TrainingPlanInput => ({
+  name: '',
+  description: null,
+  start_date: formatPlanDate(new Date()),
+  is_active: true
+})
+
+export function TrainingPlansPage({ onOpenRoute }: TrainingPlansPageProps) {
+  const { user } = useAuth()
+  const {
+    plans,
+    schedules,
+    todaysWorkouts,
+    loading,
+    error,
+    createPlan,
+    updatePlan,
+    deletePlan,
+    addItem,
+    deleteItem,
+    moveItem
+  } = useTrainingPlans(user?.id)
+  const [routes, setRoutes] = useState<FitnessRoute[]>([])
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [draft, setDraft] = useState<TrainingPlanInput>(newPlanInput)
+  const [saving, setSaving] = useState(false)
+
+  // Routes to schedule, alphabetically
+  useEffect(() => {
+    const fetchRoutes = async () => {
+      const { data, error } = await database.getFitnessRoutes()
+      if (error) {
+        console.error('Error fetching routes for training plans:', error)
+        return
+      }
+      setRoutes([...(data || [])].sort((a, b) => a.name.localeCompare(b.name)))
+    }
+
+    fetchRoutes()
+  }, [])
+
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId) ?? plans[0]
+
+  const handleCreate = async () => {
+    if (!draft.name.trim() || !draft.start_date) return
+
+    setSaving(true)
+    const created = await createPlan({
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || null
+    })
+    setSaving(false)
+
+    if (created) {
+      setSelectedPlanId(created.id)
+      setShowForm(false)
+      setDraft(newPlanInput())
+    }
+  }
+
+  const handleDelete = async (planId: string, name: string) => {
+    if (!window.confirm(`Delete the training plan "${name}"?`)) return
+    await deletePlan(planId)
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Training Plans</h1>
+          <p className="text-gray-600">Schedule routes week by week; logged workouts check them off</p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="mt-4 sm:mt-0 flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Plan</span>
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-6 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>}
+
+      {showForm && (
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 space-y-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={PLAN_LIMITS.nameMaxLength}
+            placeholder="Plan name, e.g. 10K in 8 weeks"
+            className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <textarea
+            value={draft.description ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            rows={2}
+            maxLength={PLAN_LIMITS.descriptionMaxLength}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Starts</span>
+              <input
+                type="date"
+                value={draft.start_date}
+                onChange={(e) => setDraft(prev => ({ ...prev, start_date: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+            <div className="ml-auto flex space-x-2">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={saving || !draft.name.trim() || !draft.start_date}
+                className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-xl transition-colors"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Create</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          {/* Today's workout */}
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-900 flex items-center space-x-2 mb-4">
+              <CalendarDays className="w-5 h-5 text-blue-600" />
+              <span>Today's Workout</span>
+            </h2>
+            <TodaysWorkoutList workouts={todaysWorkouts} loading={loading} onOpenRoute={onOpenRoute} />
+          </div>
+
+          {/* Plans */}
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Your Plans</h2>
+            {plans.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {loading ? 'Loading...' : 'No plans yet. Create one to start scheduling routes.'}
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {plans.map(plan => {
+                  const schedule = schedules.get(plan.id) ?? []
+                  const done = schedule.filter(scheduled => scheduled.status === 'done').length
+
+                  return (
+                    <li key={plan.id}>
+                      <button
+                        onClick={() => setSelectedPlanId(plan.id)}
+                        className={`w-full text-left p-3 rounded-xl transition-colors ${
+                          plan.id === selectedPlan?.id ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50 hover:bg-gray-100'
+                        }`}
+                      >
+                        <p className="font-medium text-gray-900">{plan.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {done} of {schedule.length} done{!plan.is_active && ' · paused'}
+                        </p>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          {selectedPlan && (
+            <TrainingPlanEditor
+              key={selectedPlan.id}
+              plan={selectedPlan}
+              schedule={schedules.get(selectedPlan.id) ?? []}
+              routes={routes}
+              onUpdatePlan={(updates) => updatePlan(selectedPlan.id, updates)}
+              onDeletePlan={() => handleDelete(selectedPlan.id, selectedPlan.name)}
+              onAddItem={(item) => addItem(selectedPlan.id, item)}
+              onDeleteItem={deleteItem}
+              onMoveItem={moveItem}
+              onOpenRoute={onOpenRoute}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
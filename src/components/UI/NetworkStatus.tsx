@@ -1,5 +1,5 @@
 import React from 'react'
-import { Wifi, WifiOff, AlertTriangle, RefreshCw } from 'lucide-react'
+import { Wifi, WifiOff, AlertTriangle, RefreshCw, UploadCloud, X } from 'lucide-react'
 import { useNetwork } from '../../hooks/useNetwork'
 
 interface NetworkStatusProps {
@@ -8,7 +8,17 @@ interface NetworkStatusProps {
 }
 
 export function NetworkStatus({ showDetails = false, className = '' }: NetworkStatusProps) {
-  const { isOnline, isConnected, lastChecked, testConnectivity, status } = useNetwork()
+  const {
+    lastChecked,
+    testConnectivity,
+    status,
+    pendingChanges,
+    syncing,
+    conflicts,
+    waitingForSignIn,
+    syncNow,
+    dismissConflicts
+  } = useNetwork()
 
   const getStatusConfig = () => {
     switch (status) {
@@ -50,7 +60,9 @@ export function NetworkStatus({ showDetails = false, className = '' }: NetworkSt
   const config = getStatusConfig()
   const Icon = config.icon
 
-  if (!showDetails && status === 'connected') {
+  const hasSyncActivity = pendingChanges > 0 || conflicts.length > 0
+
+  if (!showDetails && status === 'connected' && !hasSyncActivity) {
     return null // Don't show anything when connected and details not requested
   }
 
@@ -72,6 +84,52 @@ export function NetworkStatus({ showDetails = false, className = '' }: NetworkSt
         )}
       </div>
       
+      {pendingChanges > 0 && (
+        <div className="flex items-center space-x-2 px-3 py-2 rounded-lg border bg-blue-50 border-blue-200">
+          {syncing ? (
+            <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />
+          ) : (
+            <UploadCloud className="w-4 h-4 text-blue-600" />
+          )}
+          <span className="text-sm font-medium text-blue-600">
+            {syncing ? 'Syncing' : `${pendingChanges} pending`} {pendingChanges === 1 ? 'change' : 'changes'}
+            {waitingForSignIn && !syncing && ' - sign in again to sync'}
+          </span>
+          {!syncing && !waitingForSignIn && status !== 'offline' && (
+            <button
+              onClick={syncNow}
+              className="ml-2 p-1 rounded text-blue-600 hover:bg-white/50 transition-colors"
+              title="Sync now"
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="flex items-start space-x-2 px-3 py-2 rounded-lg border bg-orange-50 border-orange-200 max-w-xs">
+          <AlertTriangle className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-orange-700">
+            <p className="font-medium">
+              {conflicts.length} offline {conflicts.length === 1 ? 'change' : 'changes'} could not be synced
+            </p>
+            <ul className="mt-1 text-xs space-y-0.5">
+              {conflicts.map(conflict => (
+                <li key={`${conflict.mutation.queuedAt}-${conflict.mutation.kind}`}>{conflict.reason}</li>
+              ))}
+            </ul>
+          </div>
+          <button
+            onClick={dismissConflicts}
+            className="p-1 rounded text-orange-600 hover:bg-white/50 transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
       {showDetails && lastChecked && (
         <span className="text-xs text-gray-500">
           Last checked: {lastChecked.toLocaleTimeString()}
@@ -0,0 +1,122 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { SupabaseError, UserAchievement } from '../lib/supabase'
+import { database } from '../lib/database'
+import { addActivityListener } from '../lib/activityEvents'
+import { useAuth } from './useAuth'
+import {
+  AchievementContext as AchievementRuleContext,
+  AchievementStatus,
+  evaluateAchievements,
+  findNewlyAchieved
+} from '../utils/achievements'
+
+interface AchievementsContextType {
+  achievements: AchievementStatus[]
+  unseenCount: number
+  loading: boolean
+  error: string
+  refresh: () => Promise<void>
+  markAllSeen: () => Promise<void>
+}
+
+const AchievementsContext = createContext<AchievementsContextType | undefined>(undefined)
+
+const emptyRuleContext: AchievementRuleContext = { savedRoutes: [], workouts: [], advancedRouteCount: 0 }
+
+export function AchievementsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const [ruleContext, setRuleContext] = useState<AchievementRuleContext>(emptyRuleContext)
+  const [unlocked, setUnlocked] = useState<UserAchievement[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const userId = user?.id
+
+  // Re-run every rule against the latest activity and persist anything newly earned
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setRuleContext(emptyRuleContext)
+      setUnlocked([])
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [savedResult, workoutsResult, advancedResult, unlockedResult] = await Promise.all([
+        database.getUserSavedRoutes(userId),
+        database.getUserWorkoutLogs(userId),
+        database.countFitnessRoutes('advanced'),
+        database.getUserAchievements(userId)
+      ])
+
+      const failed = [savedResult, workoutsResult, advancedResult, unlockedResult].find(result => result.error)
+      if (failed?.error) throw failed.error
+
+      const context: AchievementRuleContext = {
+        savedRoutes: savedResult.data || [],
+        workouts: workoutsResult.data || [],
+        advancedRouteCount: advancedResult.data ?? 0
+      }
+      let currentUnlocked = unlockedResult.data || []
+
+      const newlyAchieved = findNewlyAchieved(evaluateAchievements(context, currentUnlocked))
+      if (newlyAchieved.length > 0) {
+        const { data, error } = await database.unlockAchievements(userId, newlyAchieved)
+        if (error) throw error
+        currentUnlocked = [...(data || []), ...currentUnlocked]
+      }
+
+      setRuleContext(context)
+      setUnlocked(currentUnlocked)
+    } catch (error: unknown) {
+      console.error('Error evaluating achievements:', error)
+      setError(error instanceof SupabaseError ? error.message : 'Failed to load achievements.')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+    return addActivityListener(() => { refresh() })
+  }, [refresh])
+
+  const markAllSeen = useCallback(async () => {
+    if (!userId || !unlocked.some(achievement => !achievement.seen_at)) return
+
+    const { error } = await database.markAchievementsSeen(userId)
+    if (error) {
+      console.error('Error marking achievements seen:', error)
+      return
+    }
+
+    const seenAt = new Date().toISOString()
+    setUnlocked(prev => prev.map(achievement => achievement.seen_at ? achievement : { ...achievement, seen_at: seenAt }))
+  }, [userId, unlocked])
+
+  const achievements = useMemo(() => evaluateAchievements(ruleContext, unlocked), [ruleContext, unlocked])
+  const unseenCount = unlocked.filter(achievement => !achievement.seen_at).length
+
+  return (
+    <AchievementsContext.Provider value={{
+      achievements,
+      unseenCount,
+      loading,
+      error,
+      refresh,
+      markAllSeen
+    }}>
+      {children}
+    </AchievementsContext.Provider>
+  )
+}
+
+export function useAchievements() {
+  const context = useContext(AchievementsContext)
+  if (context === undefined) {
+    throw new Error('useAchievements must be used within an AchievementsProvider')
+  }
+  return context
+}
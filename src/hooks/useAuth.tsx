@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session, AuthError } from '@supabase/supabase-js'
-import { supabase, Profile, database, SupabaseError } from '../lib/supabase'
+import { Profile, SupabaseError } from '../lib/supabase'
+import { database } from '../lib/database'
 
 interface AuthContextType {
   user: User | null
@@ -42,7 +43,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         console.log('🔐 Initializing authentication...')
         setConnectionError(null)
         
-        const { data: { session }, error } = await supabase.auth.getSession()
+        const { data: { session }, error } = await database.auth.getSession()
         
         if (!mounted) return
 
@@ -74,7 +75,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initializeAuth()
 
     // Listen for auth changes with enhanced error handling
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+    const { data: { subscription } } = database.auth.onAuthStateChange(
       async (event, session) => {
         if (!mounted) return
 
@@ -143,7 +144,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('📝 Starting user registration...')
       setConnectionError(null)
       
-      const { error } = await supabase.auth.signUp({
+      const { error } = await database.auth.signUp({
         email,
         password,
         options: {
@@ -169,7 +170,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('🔑 Starting user sign-in...')
       setConnectionError(null)
       
-      const { error } = await supabase.auth.signInWithPassword({
+      const { error } = await database.auth.signInWithPassword({
         email,
         password
       })
@@ -229,7 +230,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('📡 Step 3: Calling Supabase auth.signOut()')
       
       try {
-        const signOutPromise = supabase.auth.signOut()
+        const signOutPromise = database.auth.signOut()
         const timeoutPromise = new Promise((_, reject) => 
           setTimeout(() => reject(new Error('Sign-out timeout')), 10000)
         )
@@ -300,7 +301,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('🔄 Starting password reset...')
       setConnectionError(null)
       
-      const { error } = await supabase.auth.resetPasswordForEmail(email)
+      const { error } = await database.auth.resetPasswordForEmail(email)
       
       if (error) {
         console.error('Password reset error:', error)
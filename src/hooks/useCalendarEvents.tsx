@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { SavedProcrastinationRoute, SupabaseError, TrainingPlan, WorkoutLog } from '../lib/supabase'
+import { database } from '../lib/database'
+import { addActivityListener } from '../lib/activityEvents'
+import { buildCalendarEvents } from '../utils/calendar'
+
+const describeError = (error: unknown, fallback: string) =>
+  error instanceof SupabaseError ? error.message : fallback
+
+export function useCalendarEvents(userId: string | undefined) {
+  const [plans, setPlans] = useState<TrainingPlan[]>([])
+  const [workouts, setWorkouts] = useState<WorkoutLog[]>([])
+  const [procrastinationRoutes, setProcrastinationRoutes] = useState<SavedProcrastinationRoute[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setPlans([])
+      setWorkouts([])
+      setProcrastinationRoutes([])
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [plansResult, workoutsResult, procrastinationResult] = await Promise.all([
+        database.getUserTrainingPlans(userId),
+        database.getUserWorkoutLogs(userId),
+        database.getUserProcrastinationRoutes(userId)
+      ])
+
+      if (plansResult.error) throw plansResult.error
+      if (workoutsResult.error) throw workoutsResult.error
+      if (procrastinationResult.error) throw procrastinationResult.error
+
+      setPlans(plansResult.data || [])
+      setWorkouts(workoutsResult.data || [])
+      setProcrastinationRoutes(procrastinationResult.data || [])
+    } catch (error: unknown) {
+      console.error('Error fetching calendar:', error)
+      setError(describeError(error, 'Failed to load your calendar.'))
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+    return addActivityListener(() => { refresh() })
+  }, [refresh])
+
+  const events = useMemo(
+    () => buildCalendarEvents(plans, workouts, procrastinationRoutes),
+    [plans, workouts, procrastinationRoutes]
+  )
+
+  return { events, loading, error, refresh }
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { SupabaseError, UserGoal, UserGoalInput, WorkoutLog } from '../lib/supabase'
+import { database } from '../lib/database'
+import { addActivityListener } from '../lib/activityEvents'
+import {
+  GoalProgress,
+  Streak,
+  computeActivityStreak,
+  computeGoalProgress,
+  computeGoalStreak
+} from '../utils/goalProgress'
+
+export type GoalWithProgress = {
+  goal: UserGoal
+  progress: GoalProgress
+  streak: Streak
+}
+
+const describeError = (error: unknown, fallback: string) =>
+  error instanceof SupabaseError ? error.message : fallback
+
+export function useGoals(userId: string | undefined) {
+  const [goals, setGoals] = useState<UserGoal[]>([])
+  const [workouts, setWorkouts] = useState<WorkoutLog[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setGoals([])
+      setWorkouts([])
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [goalsResult, workoutsResult] = await Promise.all([
+        database.getUserGoals(userId),
+        database.getUserWorkoutLogs(userId)
+      ])
+
+      if (goalsResult.error) throw goalsResult.error
+      if (workoutsResult.error) throw workoutsResult.error
+
+      setGoals(goalsResult.data || [])
+      setWorkouts(workoutsResult.data || [])
+    } catch (error: unknown) {
+      console.error('Error fetching goals:', error)
+      setError(describeError(error, 'Failed to load your goals.'))
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+    return addActivityListener(() => { refresh() })
+  }, [refresh])
+
+  const createGoal = async (goal: UserGoalInput) => {
+    if (!userId) return false
+
+    const { data, error } = await database.createGoal(userId, goal)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to create goal.'))
+      return false
+    }
+
+    setGoals(prev => [...prev, data])
+    return true
+  }
+
+  const deleteGoal = async (goalId: string) => {
+    const { error } = await database.deleteGoal(goalId)
+    if (error) {
+      setError(describeError(error, 'Failed to delete goal.'))
+      return false
+    }
+
+    setGoals(prev => prev.filter(goal => goal.id !== goalId))
+    return true
+  }
+
+  const goalProgress = useMemo<GoalWithProgress[]>(() => {
+    const now = new Date()
+    return goals.map(goal => ({
+      goal,
+      progress: computeGoalProgress(goal, workouts, now),
+      streak: computeGoalStreak(goal, workouts, now)
+    }))
+  }, [goals, workouts])
+
+  const activityStreak = useMemo(() => computeActivityStreak(workouts), [workouts])
+
+  return {
+    goals: goalProgress,
+    activityStreak,
+    loading,
+    error,
+    refresh,
+    createGoal,
+    deleteGoal
+  }
+}
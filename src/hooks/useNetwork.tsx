@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react'
 import { SupabaseHealthMonitor } from '../lib/supabase'
+import { OfflineMutationQueue, SyncState } from '../lib/offlineQueue'
 
 export function useNetwork() {
   const [isOnline, setIsOnline] = useState(navigator.onLine)
   const [isConnected, setIsConnected] = useState<boolean | null>(null)
   const [lastChecked, setLastChecked] = useState<Date | null>(null)
+  const [syncState, setSyncState] = useState<SyncState>(() => OfflineMutationQueue.getInstance().getState())
 
   useEffect(() => {
     const monitor = SupabaseHealthMonitor.getInstance()
@@ -20,10 +22,16 @@ export function useNetwork() {
       }
     })
 
+    // Track writes queued while offline
+    const removeSyncListener = OfflineMutationQueue.getInstance().addListener(setSyncState)
+
     // Initial connectivity test
     testConnectivity()
 
-    return removeListener
+    return () => {
+      removeListener()
+      removeSyncListener()
+    }
   }, [])
 
   const testConnectivity = async () => {
@@ -41,11 +49,22 @@ export function useNetwork() {
     }
   }
 
+  // A healthy check replays the queue (see the health listener in lib/supabaseSync)
+  const syncNow = () => testConnectivity()
+
+  const dismissConflicts = () => OfflineMutationQueue.getInstance().dismissConflicts()
+
   return {
     isOnline,
     isConnected,
     lastChecked,
     testConnectivity,
+    pendingChanges: syncState.pending,
+    syncing: syncState.syncing,
+    conflicts: syncState.conflicts,
+    waitingForSignIn: syncState.waitingForSignIn,
+    syncNow,
+    dismissConflicts,
     status: isOnline ? (isConnected ? 'connected' : 'limited') : 'offline'
   }
 }
\ No newline at end of file
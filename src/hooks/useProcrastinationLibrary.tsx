@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  ProcrastinationLibraryStep,
+  ProcrastinationLibraryStepInput,
+  SupabaseError
+} from '../lib/supabase'
+import { database } from '../lib/database'
+
+const describeError = (error: unknown, fallback: string) =>
+  error instanceof SupabaseError ? error.message : fallback
+
+export function useProcrastinationLibrary(userId: string | undefined) {
+  const [steps, setSteps] = useState<ProcrastinationLibraryStep[]>([])
+  const [communitySteps, setCommunitySteps] = useState<ProcrastinationLibraryStep[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setSteps([])
+      setCommunitySteps([])
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [stepsResult, communityResult] = await Promise.all([
+        database.getUserLibrarySteps(userId),
+        database.getCommunityLibrarySteps(userId)
+      ])
+
+      if (stepsResult.error) throw stepsResult.error
+      if (communityResult.error) throw communityResult.error
+
+      setSteps(stepsResult.data || [])
+      setCommunitySteps(communityResult.data || [])
+    } catch (error: unknown) {
+      console.error('Error fetching step library:', error)
+      setError(describeError(error, 'Failed to load your step library.'))
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createStep = async (step: ProcrastinationLibraryStepInput) => {
+    if (!userId) return false
+
+    const { data, error } = await database.createLibraryStep(userId, step)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to add the step.'))
+      return false
+    }
+
+    setSteps(prev => [data, ...prev])
+    return true
+  }
+
+  const updateStep = async (stepId: string, updates: Partial<ProcrastinationLibraryStepInput>) => {
+    const { data, error } = await database.updateLibraryStep(stepId, updates)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to update the step.'))
+      return false
+    }
+
+    setSteps(prev => prev.map(step => step.id === stepId ? data : step))
+    return true
+  }
+
+  const deleteStep = async (stepId: string) => {
+    const { error } = await database.deleteLibraryStep(stepId)
+    if (error) {
+      setError(describeError(error, 'Failed to delete the step.'))
+      return false
+    }
+
+    setSteps(prev => prev.filter(step => step.id !== stepId))
+    return true
+  }
+
+  return {
+    steps,
+    communitySteps,
+    loading,
+    error,
+    refresh,
+    createStep,
+    updateStep,
+    deleteStep
+  }
+}
@@ -0,0 +1,63 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { PageId, RouteMatch, RouteParams, buildPath, getDocumentTitle, matchPath } from '../lib/router'
+
+interface RouterContextType extends RouteMatch {
+  path: string
+  navigate: (path: string, options?: { replace?: boolean }) => void
+  navigateTo: (page: PageId, params?: RouteParams, options?: { replace?: boolean }) => void
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined)
+
+export function RouterProvider({ children }: { children: React.ReactNode }) {
+  const [path, setPath] = useState(() => window.location.pathname)
+
+  // Back/forward buttons
+  useEffect(() => {
+    const handlePopState = () => setPath(window.location.pathname)
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const navigate = useCallback((nextPath: string, options: { replace?: boolean } = {}) => {
+    if (nextPath === window.location.pathname) return
+
+    if (options.replace) {
+      window.history.replaceState(null, '', nextPath)
+    } else {
+      window.history.pushState(null, '', nextPath)
+      window.scrollTo(0, 0)
+    }
+    setPath(nextPath)
+  }, [])
+
+  const navigateTo = useCallback(
+    (page: PageId, params?: RouteParams, options?: { replace?: boolean }) => navigate(buildPath(page, params), options),
+    [navigate]
+  )
+
+  const match = useMemo(() => matchPath(path), [path])
+
+  useEffect(() => {
+    document.title = getDocumentTitle(match.route)
+  }, [match.route])
+
+  return (
+    <RouterContext.Provider value={{
+      ...match,
+      path,
+      navigate,
+      navigateTo
+    }}>
+      {children}
+    </RouterContext.Provider>
+  )
+}
+
+export function useRouter() {
+  const context = useContext(RouterContext)
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider')
+  }
+  return context
+}
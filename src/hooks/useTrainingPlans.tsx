@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  SupabaseError,
+  TrainingPlan,
+  TrainingPlanInput,
+  TrainingPlanItem,
+  TrainingPlanItemInput,
+  WorkoutLog
+} from '../lib/supabase'
+import { database } from '../lib/database'
+import { addActivityListener } from '../lib/activityEvents'
+import { ScheduledWorkout, getTodaysWorkouts, schedulePlan } from '../utils/trainingPlans'
+
+const describeError = (error: unknown, fallback: string) =>
+  error instanceof SupabaseError ? error.message : fallback
+
+const byScheduleOrder = (a: TrainingPlanItem, b: TrainingPlanItem) =>
+  a.day_offset - b.day_offset || a.position - b.position
+
+export function useTrainingPlans(userId: string | undefined) {
+  const [plans, setPlans] = useState<TrainingPlan[]>([])
+  const [workouts, setWorkouts] = useState<WorkoutLog[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setPlans([])
+      setWorkouts([])
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [plansResult, workoutsResult] = await Promise.all([
+        database.getUserTrainingPlans(userId),
+        database.getUserWorkoutLogs(userId)
+      ])
+
+      if (plansResult.error) throw plansResult.error
+      if (workoutsResult.error) throw workoutsResult.error
+
+      setPlans(plansResult.data || [])
+      setWorkouts(workoutsResult.data || [])
+    } catch (error: unknown) {
+      console.error('Error fetching training plans:', error)
+      setError(describeError(error, 'Failed to load your training plans.'))
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  // Logging a workout anywhere checks off the matching scheduled items
+  useEffect(() => {
+    refresh()
+    return addActivityListener(() => { refresh() })
+  }, [refresh])
+
+  const updatePlanItems = (planId: string, update: (items: TrainingPlanItem[]) => TrainingPlanItem[]) => {
+    setPlans(prev => prev.map(plan =>
+      plan.id === planId
+        ? { ...plan, training_plan_items: update(plan.training_plan_items ?? []).sort(byScheduleOrder) }
+        : plan
+    ))
+  }
+
+  const createPlan = async (plan: TrainingPlanInput) => {
+    if (!userId) return null
+
+    const { data, error } = await database.createTrainingPlan(userId, plan)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to create the training plan.'))
+      return null
+    }
+
+    setPlans(prev => [{ ...data, training_plan_items: [] }, ...prev])
+    return data
+  }
+
+  const updatePlan = async (planId: string, updates: Partial<TrainingPlanInput>) => {
+    const { data, error } = await database.updateTrainingPlan(planId, updates)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to update the training plan.'))
+      return false
+    }
+
+    setPlans(prev => prev.map(plan => plan.id === planId ? { ...plan, ...data } : plan))
+    return true
+  }
+
+  const deletePlan = async (planId: string) => {
+    const { error } = await database.deleteTrainingPlan(planId)
+    if (error) {
+      setError(describeError(error, 'Failed to delete the training plan.'))
+      return false
+    }
+
+    setPlans(prev => prev.filter(plan => plan.id !== planId))
+    return true
+  }
+
+  const addItem = async (planId: string, item: TrainingPlanItemInput) => {
+    const { data, error } = await database.addTrainingPlanItem(planId, item)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to add the workout.'))
+      return false
+    }
+
+    updatePlanItems(planId, items => [...items, data])
+    return true
+  }
+
+  const updateItem = async (item: TrainingPlanItem, updates: Partial<TrainingPlanItemInput>) => {
+    const { data, error } = await database.updateTrainingPlanItem(item.id, updates)
+    if (error || !data) {
+      setError(describeError(error, 'Failed to update the workout.'))
+      return false
+    }
+
+    updatePlanItems(item.plan_id, items => items.map(existing => existing.id === item.id ? data : existing))
+    return true
+  }
+
+  const deleteItem = async (item: TrainingPlanItem) => {
+    const { error } = await database.deleteTrainingPlanItem(item.id)
+    if (error) {
+      setError(describeError(error, 'Failed to remove the workout.'))
+      return false
+    }
+
+    updatePlanItems(item.plan_id, items => items.filter(existing => existing.id !== item.id))
+    return true
+  }
+
+  // Swaps an item with its neighbour on the same day
+  const moveItem = async (item: TrainingPlanItem, offset: -1 | 1) => {
+    const plan = plans.find(candidate => candidate.id === item.plan_id)
+    const sameDay = (plan?.training_plan_items ?? []).filter(candidate => candidate.day_offset === item.day_offset)
+    const index = sameDay.findIndex(candidate => candidate.id === item.id)
+    const neighbour = sameDay[index + offset]
+    if (!neighbour) return false
+
+    // Positions may repeat after deletions, so renumber the day rather than swap values
+    const reordered = [...sameDay]
+    ;[reordered[index], reordered[index + offset]] = [neighbour, item]
+    const changed = reordered.filter((candidate, position) => candidate.position !== position)
+    for (const candidate of changed) {
+      if (!(await updateItem(candidate, { position: reordered.indexOf(candidate) }))) return false
+    }
+    return true
+  }
+
+  const schedules = useMemo(() => {
+    const now = new Date()
+    return new Map<string, ScheduledWorkout[]>(plans.map(plan => [plan.id, schedulePlan(plan, workouts, now)]))
+  }, [plans, workouts])
+
+  const todaysWorkouts = useMemo(() => getTodaysWorkouts(plans, workouts), [plans, workouts])
+
+  return {
+    plans,
+    schedules,
+    todaysWorkouts,
+    loading,
+    error,
+    refresh,
+    createPlan,
+    updatePlan,
+    deletePlan,
+    addItem,
+    updateItem,
+    deleteItem,
+    moveItem
+  }
+}
@@ -0,0 +1,14 @@
+// Lets features derived from a user's activity (goals, achievements) refresh
+// when workouts or saved route statuses change elsewhere in the app
+type ActivityListener = () => void
+
+const activityListeners: Set<ActivityListener> = new Set()
+
+export function addActivityListener(callback: ActivityListener): () => void {
+  activityListeners.add(callback)
+  return () => activityListeners.delete(callback)
+}
+
+export function notifyActivityChanged() {
+  activityListeners.forEach(listener => listener())
+}
@@ -0,0 +1,41 @@
+// Which backend serves the `database` object:
+// - 'supabase' talks to the project in VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY
+// - 'local' keeps everything in this browser (IndexedDB), no Supabase project needed
+// VITE_DATA_BACKEND picks one explicitly; otherwise Supabase is used when configured.
+export type DataBackend = 'supabase' | 'local'
+
+export const supabaseUrl: string | undefined = import.meta.env.VITE_SUPABASE_URL
+export const supabaseAnonKey: string | undefined = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+function resolveDataBackend(): DataBackend {
+  const requested = import.meta.env.VITE_DATA_BACKEND
+
+  if (requested && requested !== 'supabase' && requested !== 'local') {
+    throw new Error(`Invalid VITE_DATA_BACKEND "${requested}". Use "supabase" or "local".`)
+  }
+
+  const hasSupabaseConfig = !!supabaseUrl && !!supabaseAnonKey
+
+  if (requested === 'supabase' && !hasSupabaseConfig) {
+    console.error('❌ Missing Supabase Environment Variables:', {
+      url: supabaseUrl ? '✅ Present' : '❌ Missing',
+      key: supabaseAnonKey ? '✅ Present' : '❌ Missing'
+    })
+    throw new Error(
+      'Missing Supabase environment variables. Please check your .env file contains:\n' +
+      'VITE_SUPABASE_URL=your-project-url\n' +
+      'VITE_SUPABASE_ANON_KEY=your-anon-key'
+    )
+  }
+
+  if (requested) return requested
+
+  if (!hasSupabaseConfig) {
+    console.warn('⚠️ Supabase is not configured, using the local in-browser backend')
+    return 'local'
+  }
+
+  return 'supabase'
+}
+
+export const dataBackend: DataBackend = resolveDataBackend()
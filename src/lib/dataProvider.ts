@@ -0,0 +1,152 @@
+import type { AuthChangeEvent, AuthError, Session, Subscription } from '@supabase/supabase-js'
+import type { SupabaseError } from './errors'
+import type {
+  FitnessRoute,
+  FitnessRouteInput,
+  ProcrastinationLibraryStep,
+  ProcrastinationLibraryStepInput,
+  ProcrastinationStep,
+  Profile,
+  RouteCollection,
+  RouteCollectionInput,
+  RouteCollectionItem,
+  RouteCursor,
+  RoutePage,
+  RouteQuery,
+  RouteReview,
+  RouteReviewInput,
+  SavedProcrastinationRoute,
+  SavedRoute,
+  TrackPoint,
+  UserAchievement,
+  TrainingPlan,
+  TrainingPlanInput,
+  TrainingPlanItem,
+  TrainingPlanItemInput,
+  UserGoal,
+  UserGoalInput,
+  UserStats,
+  WorkoutLog,
+  WorkoutLogInput
+} from './supabase'
+
+export type QueryResult<T> = Promise<{
+  data: T | null
+  error: SupabaseError | null
+  // Lists only: a VALIDATION_ERROR for rows that were malformed and left out of data
+  malformed?: SupabaseError
+}>
+
+// The slice of supabase.auth the app uses; the local backend implements the same shapes
+export interface AuthBackend {
+  getSession(): Promise<{ data: { session: Session | null }; error: AuthError | null }>
+  onAuthStateChange(
+    callback: (event: AuthChangeEvent, session: Session | null) => void
+  ): { data: { subscription: Pick<Subscription, 'unsubscribe'> } }
+  signUp(credentials: {
+    email: string
+    password: string
+    options?: { data?: Record<string, unknown> }
+  }): Promise<{ error: AuthError | null }>
+  signInWithPassword(credentials: { email: string; password: string }): Promise<{ error: AuthError | null }>
+  signOut(): Promise<{ error: AuthError | null }>
+  resetPasswordForEmail(email: string): Promise<{ error: AuthError | null }>
+}
+
+// Everything the app reads and writes. Implemented against Supabase in lib/supabaseDatabase
+// and in the browser by lib/localDatabase; `database` (lib/database) is whichever lib/config selects.
+export interface DataProvider {
+  auth: AuthBackend
+
+  // Profiles
+  getProfile(userId: string): QueryResult<Profile>
+  updateProfile(userId: string, updates: Partial<Profile>): QueryResult<Profile>
+
+  // Fitness Routes
+  getFitnessRoutes(limit?: number): QueryResult<FitnessRoute[]>
+  getFitnessRoute(routeId: string): QueryResult<FitnessRoute>
+  countFitnessRoutes(difficulty: FitnessRoute['difficulty_level']): QueryResult<number>
+  searchFitnessRoutes(query: RouteQuery, cursor?: RouteCursor | null, pageSize?: number): QueryResult<RoutePage>
+  getRelatedRoutes(route: Pick<FitnessRoute, 'id' | 'route_type' | 'difficulty_level'>, limit?: number): QueryResult<FitnessRoute[]>
+  createFitnessRoute(userId: string, route: FitnessRouteInput): QueryResult<FitnessRoute>
+  updateFitnessRoute(routeId: string, updates: Partial<FitnessRouteInput>): QueryResult<FitnessRoute>
+  deleteFitnessRoute(routeId: string): QueryResult<null>
+  updateRouteTrack(routeId: string, trackPoints: TrackPoint[]): QueryResult<FitnessRoute>
+
+  // Route Reviews
+  getRouteReviews(routeId: string): QueryResult<RouteReview[]>
+  saveRouteReview(userId: string, routeId: string, review: RouteReviewInput): QueryResult<RouteReview>
+  deleteRouteReview(reviewId: string): QueryResult<null>
+
+  // Route Collections
+  getUserCollections(userId: string): QueryResult<RouteCollection[]>
+  getPublicCollections(userId: string, limit?: number): QueryResult<RouteCollection[]>
+  getCollectionRoutes(collectionId: string): QueryResult<RouteCollectionItem[]>
+  createCollection(userId: string, collection: RouteCollectionInput): QueryResult<RouteCollection>
+  updateCollection(collectionId: string, updates: Partial<RouteCollectionInput>): QueryResult<RouteCollection>
+  deleteCollection(collectionId: string): QueryResult<null>
+  addRouteToCollection(collectionId: string, routeId: string): QueryResult<RouteCollectionItem>
+  removeRouteFromCollection(collectionId: string, routeId: string): QueryResult<null>
+  reorderCollection(collectionId: string, routeIds: string[]): QueryResult<null>
+  copyCollection(collectionId: string, name?: string): QueryResult<RouteCollection>
+
+  // Saved Routes
+  getUserSavedRoutes(userId: string): QueryResult<SavedRoute[]>
+  saveRoute(userId: string, routeId: string, status?: 'to-do' | 'favorite'): QueryResult<SavedRoute>
+  updateRouteStatus(savedRouteId: string, status: SavedRoute['status']): QueryResult<SavedRoute>
+  getSavedRoute(userId: string, routeId: string): QueryResult<SavedRoute>
+  updateSavedRouteNotes(savedRouteId: string, notes: string): QueryResult<SavedRoute>
+
+  // Workout Log
+  getUserWorkoutLogs(userId: string): QueryResult<WorkoutLog[]>
+  getRouteWorkoutLogs(userId: string, routeId: string): QueryResult<WorkoutLog[]>
+  logWorkout(userId: string, workout: WorkoutLogInput): QueryResult<WorkoutLog>
+  deleteWorkoutLog(workoutId: string): QueryResult<null>
+
+  // Goals
+  getUserGoals(userId: string): QueryResult<UserGoal[]>
+  createGoal(userId: string, goal: UserGoalInput): QueryResult<UserGoal>
+  updateGoal(goalId: string, updates: Partial<UserGoalInput>): QueryResult<UserGoal>
+  deleteGoal(goalId: string): QueryResult<null>
+
+  // Training Plans
+  getUserTrainingPlans(userId: string): QueryResult<TrainingPlan[]>
+  createTrainingPlan(userId: string, plan: TrainingPlanInput): QueryResult<TrainingPlan>
+  updateTrainingPlan(planId: string, updates: Partial<TrainingPlanInput>): QueryResult<TrainingPlan>
+  deleteTrainingPlan(planId: string): QueryResult<null>
+  addTrainingPlanItem(planId: string, item: TrainingPlanItemInput): QueryResult<TrainingPlanItem>
+  updateTrainingPlanItem(itemId: string, updates: Partial<TrainingPlanItemInput>): QueryResult<TrainingPlanItem>
+  deleteTrainingPlanItem(itemId: string): QueryResult<null>
+
+  // Achievements
+  getUserAchievements(userId: string): QueryResult<UserAchievement[]>
+  unlockAchievements(userId: string, achievementIds: string[]): QueryResult<UserAchievement[]>
+  markAchievementsSeen(userId: string): QueryResult<null>
+
+  // Statistics
+  getUserStats(userId: string): QueryResult<UserStats>
+
+  // Procrastination Routes
+  getUserProcrastinationRoutes(userId: string): QueryResult<SavedProcrastinationRoute[]>
+  saveProcrastinationRoute(
+    userId: string,
+    originalTask: string,
+    routeSteps: ProcrastinationStep[],
+    seed: string | null,
+    timeBudgetMinutes: number | null,
+    title?: string
+  ): QueryResult<SavedProcrastinationRoute>
+  updateProcrastinationRoute(routeId: string, updates: Partial<SavedProcrastinationRoute>): QueryResult<SavedProcrastinationRoute>
+  deleteProcrastinationRoute(routeId: string): QueryResult<null>
+
+  // Procrastination Step Library
+  getUserLibrarySteps(userId: string): QueryResult<ProcrastinationLibraryStep[]>
+  // Approved public steps written by other users, newest first
+  getCommunityLibrarySteps(userId: string, limit?: number): QueryResult<ProcrastinationLibraryStep[]>
+  createLibraryStep(userId: string, step: ProcrastinationLibraryStepInput): QueryResult<ProcrastinationLibraryStep>
+  updateLibraryStep(
+    stepId: string,
+    updates: Partial<ProcrastinationLibraryStepInput>
+  ): QueryResult<ProcrastinationLibraryStep>
+  deleteLibraryStep(stepId: string): QueryResult<null>
+}
@@ -0,0 +1,10 @@
+import { dataBackend } from './config'
+import type { DataProvider } from './dataProvider'
+import { createLocalDataProvider } from './localDatabase'
+import { supabaseDataProvider } from './supabaseDatabase'
+import { withValidation } from './validatedDatabase'
+
+// The backend every component talks to, selected in lib/config
+export const database: DataProvider = withValidation(
+  dataBackend === 'local' ? createLocalDataProvider() : supabaseDataProvider
+)
@@ -0,0 +1,779 @@
+// Schema types for the public schema as built by supabase/migrations, in the shape
+// `supabase gen types typescript` emits. Regenerate after adding a migration:
+//   npx supabase gen types typescript --local > src/lib/database.types.ts
+// Text columns limited by CHECK constraints and jsonb documents come out as string
+// and Json here; lib/supabase narrows them to the app's unions and shapes.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      fitness_routes: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          difficulty_level: string
+          distance: number
+          duration_minutes: number | null
+          elevation_gain_meters: number
+          id: string
+          name: string
+          rating_average: number | null
+          rating_count: number
+          route_type: string
+          start_lat: number | null
+          start_lon: number | null
+          track_points: Json | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          difficulty_level?: string
+          distance?: number
+          duration_minutes?: number | null
+          elevation_gain_meters?: number
+          id?: string
+          name: string
+          rating_average?: number | null
+          rating_count?: number
+          route_type?: string
+          start_lat?: number | null
+          start_lon?: number | null
+          track_points?: Json | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          difficulty_level?: string
+          distance?: number
+          duration_minutes?: number | null
+          elevation_gain_meters?: number
+          id?: string
+          name?: string
+          rating_average?: number | null
+          rating_count?: number
+          route_type?: string
+          start_lat?: number | null
+          start_lon?: number | null
+          track_points?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fitness_routes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      procrastination_steps: {
+        Row: {
+          benefit: string
+          created_at: string | null
+          description: string
+          id: string
+          is_public: boolean
+          name: string
+          review_status: string
+          time_investment_minutes: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          benefit: string
+          created_at?: string | null
+          description: string
+          id?: string
+          is_public?: boolean
+          name: string
+          review_status?: string
+          time_investment_minutes: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          benefit?: string
+          created_at?: string | null
+          description?: string
+          id?: string
+          is_public?: boolean
+          name?: string
+          review_status?: string
+          time_investment_minutes?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "procrastination_steps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          full_name: string | null
+          id: string
+          updated_at: string | null
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          full_name?: string | null
+          id: string
+          updated_at?: string | null
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      route_collection_items: {
+        Row: {
+          added_at: string | null
+          collection_id: string
+          id: string
+          position: number
+          route_id: string
+        }
+        Insert: {
+          added_at?: string | null
+          collection_id: string
+          id?: string
+          position: number
+          route_id: string
+        }
+        Update: {
+          added_at?: string | null
+          collection_id?: string
+          id?: string
+          position?: number
+          route_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_collection_items_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "route_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_collection_items_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      route_collections: {
+        Row: {
+          copied_from: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_public: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          copied_from?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          copied_from?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_collections_copied_from_fkey"
+            columns: ["copied_from"]
+            isOneToOne: false
+            referencedRelation: "route_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      route_reviews: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          id: string
+          rating: number
+          route_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          rating: number
+          route_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          rating?: number
+          route_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_reviews_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_routes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_procrastination_routes: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          notes: string | null
+          original_task: string
+          route_steps: Json
+          seed: string | null
+          status: string | null
+          time_budget_minutes: number | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          notes?: string | null
+          original_task: string
+          route_steps: Json
+          seed?: string | null
+          status?: string | null
+          time_budget_minutes?: number | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          notes?: string | null
+          original_task?: string
+          route_steps?: Json
+          seed?: string | null
+          status?: string | null
+          time_budget_minutes?: number | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_procrastination_routes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_routes: {
+        Row: {
+          completed_at: string | null
+          id: string
+          notes: string | null
+          route_id: string
+          saved_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          id?: string
+          notes?: string | null
+          route_id: string
+          saved_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          id?: string
+          notes?: string | null
+          route_id?: string
+          saved_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_routes_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_routes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_routes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_plan_items: {
+        Row: {
+          created_at: string | null
+          day_offset: number
+          id: string
+          notes: string | null
+          plan_id: string
+          position: number
+          route_id: string | null
+          route_name: string | null
+          target_duration_minutes: number | null
+          target_pace_minutes_per_mile: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          day_offset: number
+          id?: string
+          notes?: string | null
+          plan_id: string
+          position?: number
+          route_id?: string | null
+          route_name?: string | null
+          target_duration_minutes?: number | null
+          target_pace_minutes_per_mile?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          day_offset?: number
+          id?: string
+          notes?: string | null
+          plan_id?: string
+          position?: number
+          route_id?: string | null
+          route_name?: string | null
+          target_duration_minutes?: number | null
+          target_pace_minutes_per_mile?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_plan_items_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "training_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_plan_items_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_plans: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          start_date: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          start_date: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_date?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_plans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          id: string
+          seen_at: string | null
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          id?: string
+          seen_at?: string | null
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          id?: string
+          seen_at?: string | null
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_achievements_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_goals: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          metric: string
+          period: string
+          route_type: string | null
+          target: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          metric: string
+          period?: string
+          route_type?: string | null
+          target: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          metric?: string
+          period?: string
+          route_type?: string | null
+          target?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_goals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_logs: {
+        Row: {
+          completed_at: string
+          created_at: string | null
+          distance: number
+          elapsed_seconds: number
+          id: string
+          notes: string | null
+          perceived_effort: number | null
+          route_id: string | null
+          route_name: string | null
+          route_type: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string
+          created_at?: string | null
+          distance: number
+          elapsed_seconds: number
+          id?: string
+          notes?: string | null
+          perceived_effort?: number | null
+          route_id?: string | null
+          route_name?: string | null
+          route_type?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          created_at?: string | null
+          distance?: number
+          elapsed_seconds?: number
+          id?: string
+          notes?: string | null
+          perceived_effort?: number | null
+          route_id?: string | null
+          route_name?: string | null
+          route_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_logs_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_routes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      add_route_to_collection: {
+        Args: {
+          collection_uuid: string
+          route_uuid: string
+        }
+        Returns: {
+          added_at: string | null
+          collection_id: string
+          id: string
+          position: number
+          route_id: string
+        }[]
+      }
+      compute_route_difficulty: {
+        Args: {
+          route_distance: number
+          elevation_gain: number
+          route_kind: string
+        }
+        Returns: string
+      }
+      copy_route_collection: {
+        Args: {
+          source_uuid: string
+          new_name?: string
+        }
+        Returns: {
+          copied_from: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_public: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      distance_km: {
+        Args: {
+          lat1: number
+          lon1: number
+          lat2: number
+          lon2: number
+        }
+        Returns: number
+      }
+      get_user_saved_routes: {
+        Args: {
+          user_uuid: string
+        }
+        Returns: {
+          saved_route_id: string
+          route_id: string
+          route_name: string
+          route_description: string
+          distance: number
+          difficulty_level: string
+          duration_minutes: number
+          route_type: string
+          status: string
+          saved_at: string
+          completed_at: string
+          notes: string
+        }[]
+      }
+      get_user_stats: {
+        Args: {
+          user_uuid: string
+          time_zone?: string
+          weeks?: number
+          months?: number
+        }
+        Returns: Json
+      }
+      route_track_distance: {
+        Args: {
+          points: Json
+        }
+        Returns: number
+      }
+      route_track_elevation_gain: {
+        Args: {
+          points: Json
+        }
+        Returns: number
+      }
+      search_fitness_routes: {
+        Args: {
+          search?: string
+          route_kinds?: string[]
+          difficulties?: string[]
+          min_distance?: number
+          max_distance?: number
+          min_duration?: number
+          max_duration?: number
+          saved_filter?: string
+          near_lat?: number
+          near_lon?: number
+          radius_km?: number
+          sort_by?: string
+          cursor_id?: string
+          cursor_name?: string
+          cursor_distance?: number
+          cursor_rank?: number
+          cursor_created_at?: string
+          cursor_distance_km?: number
+          cursor_rating?: number
+          page_size?: number
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          difficulty_level: string
+          distance: number
+          duration_minutes: number | null
+          elevation_gain_meters: number
+          id: string
+          name: string
+          rating_average: number | null
+          rating_count: number
+          route_type: string
+          start_distance_km: number | null
+          start_lat: number | null
+          start_lon: number | null
+          track_points: Json | null
+        }[]
+      }
+      set_route_collection_order: {
+        Args: {
+          collection_uuid: string
+          route_uuids: string[]
+        }
+        Returns: undefined
+      }
+      upsert_saved_route: {
+        Args: {
+          user_uuid: string
+          route_uuid: string
+          route_status?: string
+        }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
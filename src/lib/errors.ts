@@ -0,0 +1,41 @@
+// Enhanced error handling, shared by every data backend (see lib/dataProvider)
+export class SupabaseError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>,
+    public isRetryable: boolean = false
+  ) {
+    super(message)
+    this.name = 'SupabaseError'
+  }
+}
+
+export class NetworkError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode?: number,
+    public isRetryable: boolean = true
+  ) {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+// One problem found by a schema check; path points into the value, e.g. $.route_steps[2].name
+export type ValidationIssue = {
+  path: string
+  message: string
+}
+
+// Data crossing the API boundary that does not match its schema (see lib/schemas)
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: ValidationIssue[]
+  ) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
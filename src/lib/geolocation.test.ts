@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  GeolocationError,
+  browserGeolocation,
+  createFixedGeolocation,
+  getCurrentPosition,
+  setGeolocationSource
+} from './geolocation'
+
+// The codes GeolocationPositionError carries, as constants on every error
+const ERROR_CODES = { PERMISSION_DENIED: 1, POSITION_UNAVAILABLE: 2, TIMEOUT: 3 }
+
+// Stands in for navigator.geolocation, answering every request the same way
+const stubGeolocation = (answer: { coords: { latitude: number; longitude: number } } | { code: number }) => {
+  const getPosition = vi.fn((success: PositionCallback, failure: PositionErrorCallback) => {
+    if ('coords' in answer) success(answer as GeolocationPosition)
+    else failure({ ...ERROR_CODES, message: '', code: answer.code } as GeolocationPositionError)
+  })
+  vi.stubGlobal('navigator', { geolocation: { getCurrentPosition: getPosition } })
+  return getPosition
+}
+
+const failureCode = (promise: Promise<unknown>) =>
+  promise.then(
+    () => { throw new Error('expected the position request to fail') },
+    (error: unknown) => {
+      expect(error).toBeInstanceOf(GeolocationError)
+      return (error as GeolocationError).code
+    }
+  )
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  setGeolocationSource(null)
+})
+
+describe('browserGeolocation', () => {
+  it('reports the browser position as lat and lon', async () => {
+    const getPosition = stubGeolocation({ coords: { latitude: 51.5, longitude: -0.12 } })
+    await expect(browserGeolocation.getCurrentPosition()).resolves.toEqual({ lat: 51.5, lon: -0.12 })
+    expect(getPosition).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.any(Function),
+      expect.objectContaining({ enableHighAccuracy: false })
+    )
+  })
+
+  it('maps browser errors to GeolocationError codes', async () => {
+    stubGeolocation({ code: ERROR_CODES.PERMISSION_DENIED })
+    expect(await failureCode(browserGeolocation.getCurrentPosition())).toBe('PERMISSION_DENIED')
+
+    stubGeolocation({ code: ERROR_CODES.TIMEOUT })
+    expect(await failureCode(browserGeolocation.getCurrentPosition())).toBe('TIMEOUT')
+
+    stubGeolocation({ code: ERROR_CODES.POSITION_UNAVAILABLE })
+    expect(await failureCode(browserGeolocation.getCurrentPosition())).toBe('POSITION_UNAVAILABLE')
+  })
+
+  it('reports UNSUPPORTED without navigator.geolocation', async () => {
+    vi.stubGlobal('navigator', {})
+    expect(await failureCode(browserGeolocation.getCurrentPosition())).toBe('UNSUPPORTED')
+  })
+})
+
+describe('setGeolocationSource', () => {
+  it('answers from the source it was given, and from the browser again after null', async () => {
+    stubGeolocation({ coords: { latitude: 1, longitude: 2 } })
+
+    setGeolocationSource(createFixedGeolocation({ lat: 48.86, lon: 2.35 }))
+    await expect(getCurrentPosition()).resolves.toEqual({ lat: 48.86, lon: 2.35 })
+
+    setGeolocationSource(null)
+    await expect(getCurrentPosition()).resolves.toEqual({ lat: 1, lon: 2 })
+  })
+})
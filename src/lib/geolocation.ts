@@ -0,0 +1,71 @@
+// Where the user is, for the "near me" route filter. Components ask this module
+// rather than navigator.geolocation so tests and demos can supply a fixed position.
+
+export type GeoPoint = {
+  lat: number
+  lon: number
+}
+
+export type GeolocationErrorCode = 'UNSUPPORTED' | 'PERMISSION_DENIED' | 'POSITION_UNAVAILABLE' | 'TIMEOUT'
+
+export class GeolocationError extends Error {
+  constructor(
+    message: string,
+    public code: GeolocationErrorCode
+  ) {
+    super(message)
+    this.name = 'GeolocationError'
+  }
+}
+
+export interface GeolocationSource {
+  getCurrentPosition(): Promise<GeoPoint>
+}
+
+const POSITION_TIMEOUT_MS = 10000
+// A position fixed in the last five minutes is close enough for finding routes
+const MAXIMUM_POSITION_AGE_MS = 5 * 60 * 1000
+
+export const browserGeolocation: GeolocationSource = {
+  getCurrentPosition() {
+    return new Promise((resolve, reject) => {
+      if (typeof navigator === 'undefined' || !navigator.geolocation) {
+        reject(new GeolocationError('Location is not available in this browser.', 'UNSUPPORTED'))
+        return
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        position => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+        error => {
+          switch (error.code) {
+            case error.PERMISSION_DENIED:
+              reject(new GeolocationError('Location access was denied. Allow it in your browser settings or enter coordinates.', 'PERMISSION_DENIED'))
+              break
+            case error.TIMEOUT:
+              reject(new GeolocationError('Finding your location took too long. Please try again.', 'TIMEOUT'))
+              break
+            default:
+              reject(new GeolocationError('Your location is currently unavailable.', 'POSITION_UNAVAILABLE'))
+          }
+        },
+        { enableHighAccuracy: false, timeout: POSITION_TIMEOUT_MS, maximumAge: MAXIMUM_POSITION_AGE_MS }
+      )
+    })
+  }
+}
+
+// A source that always reports the same position
+export function createFixedGeolocation(position: GeoPoint): GeolocationSource {
+  return { getCurrentPosition: async () => position }
+}
+
+let source: GeolocationSource = browserGeolocation
+
+// Pass null to go back to the browser
+export function setGeolocationSource(next: GeolocationSource | null) {
+  source = next ?? browserGeolocation
+}
+
+export function getCurrentPosition(): Promise<GeoPoint> {
+  return source.getCurrentPosition()
+}
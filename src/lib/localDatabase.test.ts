@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { DataProvider } from './dataProvider'
+import type { FitnessRouteInput, ProcrastinationLibraryStep } from './supabase'
+
+// The local provider keeps its tables in offlineStore, which falls back to memory
+// here; fresh modules per test give every test empty tables
+
+type Modules = {
+  database: DataProvider
+  getLocalSnapshot: <T>() => Promise<T | null>
+}
+
+let modules: Modules
+
+const PASSWORD = 'secret-password'
+
+const routeInput: FitnessRouteInput = {
+  name: 'Riverside Loop',
+  description: null,
+  route_type: 'running',
+  distance: 3.1,
+  duration_minutes: 30,
+  elevation_gain_meters: 20,
+  track_points: null,
+  start_lat: null,
+  start_lon: null
+}
+
+// Returns the data, failing the test on an error
+async function ok<T>(result: Promise<{ data: T | null; error: unknown }>): Promise<T> {
+  const { data, error } = await result
+  expect(error).toBeNull()
+  return data as T
+}
+
+async function signUp(email: string): Promise<string> {
+  const { database } = modules
+  expect((await database.auth.signUp({ email, password: PASSWORD })).error).toBeNull()
+  return (await database.auth.getSession()).data.session!.user.id
+}
+
+async function signIn(email: string) {
+  expect((await modules.database.auth.signInWithPassword({ email, password: PASSWORD })).error).toBeNull()
+}
+
+beforeEach(async () => {
+  const storage = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value) },
+    removeItem: (key: string) => { storage.delete(key) }
+  })
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  vi.resetModules()
+  const { createLocalDataProvider } = await import('./localDatabase')
+  const { getLocalSnapshot } = await import('./offlineStore')
+  modules = { database: createLocalDataProvider(), getLocalSnapshot }
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('ownership', () => {
+  it('does not let another user change or delete rows they do not own', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    const route = await ok(database.createFitnessRoute(aliceId, routeInput))
+    const saved = await ok(database.saveRoute(aliceId, route.id))
+    const collection = await ok(database.createCollection(aliceId, { name: 'Mine', description: null, is_public: true }))
+
+    await signUp('bob@example.com')
+    for (const { error } of [
+      await database.updateRouteStatus(saved.id, 'completed'),
+      await database.updateSavedRouteNotes(saved.id, 'hijacked'),
+      await database.updateCollection(collection.id, { name: 'Stolen' }),
+      await database.updateFitnessRoute(route.id, { name: 'Stolen' })
+    ]) {
+      expect(error?.code).toBe('PGRST116')
+    }
+    await ok(database.deleteFitnessRoute(route.id))
+    await ok(database.deleteCollection(collection.id))
+
+    await signIn('alice@example.com')
+    expect(await ok(database.getUserSavedRoutes(aliceId))).toMatchObject([{ id: saved.id, status: 'to-do', notes: '' }])
+    expect(await ok(database.getUserCollections(aliceId))).toMatchObject([{ id: collection.id, name: 'Mine' }])
+    expect(await ok(database.getFitnessRoute(route.id))).toMatchObject({ name: 'Riverside Loop' })
+  })
+
+  it('refuses writes on behalf of another user', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    await signUp('bob@example.com')
+
+    const { error } = await database.createCollection(aliceId, { name: 'Not mine', description: null, is_public: false })
+    expect(error?.code).toBe('PERMISSION_ERROR')
+  })
+})
+
+describe('deleteFitnessRoute', () => {
+  it('removes what belongs to the route and keeps workouts and plan items with their snapshot', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    const route = await ok(database.createFitnessRoute(aliceId, routeInput))
+    const other = await ok(database.createFitnessRoute(aliceId, { ...routeInput, name: 'Hill Repeats' }))
+    await ok(database.saveRoute(aliceId, route.id))
+    await ok(database.saveRouteReview(aliceId, route.id, { rating: 5, body: 'Lovely' }))
+    const collection = await ok(database.createCollection(aliceId, { name: 'Loops', description: null, is_public: true }))
+    await ok(database.addRouteToCollection(collection.id, route.id))
+    await ok(database.addRouteToCollection(collection.id, other.id))
+
+    // Someone else's history on the same route
+    const bobId = await signUp('bob@example.com')
+    const workout = await ok(database.logWorkout(bobId, {
+      route_id: route.id,
+      completed_at: new Date().toISOString(),
+      elapsed_seconds: 1800,
+      distance: 3.1,
+      perceived_effort: null,
+      notes: null
+    }))
+    const plan = await ok(database.createTrainingPlan(bobId, {
+      name: 'Base',
+      description: null,
+      start_date: '2025-07-01',
+      is_active: true
+    }))
+    await ok(database.addTrainingPlanItem(plan.id, {
+      route_id: route.id,
+      day_offset: 0,
+      position: 0,
+      target_duration_minutes: null,
+      target_pace_minutes_per_mile: null,
+      notes: null
+    }))
+
+    await signIn('alice@example.com')
+    await ok(database.deleteFitnessRoute(route.id))
+
+    expect(await ok(database.getFitnessRoute(route.id))).toBeNull()
+    expect(await ok(database.getUserSavedRoutes(aliceId))).toEqual([])
+    expect(await ok(database.getRouteReviews(route.id))).toEqual([])
+    expect((await ok(database.getCollectionRoutes(collection.id))).map(item => item.route_id)).toEqual([other.id])
+
+    await signIn('bob@example.com')
+    expect(await ok(database.getUserWorkoutLogs(bobId))).toMatchObject([{
+      id: workout.id,
+      route_id: null,
+      route_name: 'Riverside Loop',
+      route_type: 'running',
+      distance: 3.1
+    }])
+    const [savedPlan] = await ok(database.getUserTrainingPlans(bobId))
+    expect(savedPlan.training_plan_items).toMatchObject([{ route_id: null, route_name: 'Riverside Loop' }])
+
+    const stats = await ok(database.getUserStats(bobId))
+    expect(stats).toMatchObject({ workouts: 1, routes_completed: 0, distance_by_route_type: { running: 3.1 } })
+  })
+})
+
+describe('collection visibility', () => {
+  it('shows a collection to other users only once it is public', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    const route = await ok(database.createFitnessRoute(aliceId, routeInput))
+    const collection = await ok(database.createCollection(aliceId, { name: 'Secret', description: null, is_public: false }))
+    await ok(database.addRouteToCollection(collection.id, route.id))
+
+    const bobId = await signUp('bob@example.com')
+    expect(await ok(database.getCollectionRoutes(collection.id))).toEqual([])
+    expect(await ok(database.getPublicCollections(bobId))).toEqual([])
+    expect((await database.copyCollection(collection.id)).error?.code).toBe('PGRST116')
+
+    await signIn('alice@example.com')
+    await ok(database.updateCollection(collection.id, { is_public: true }))
+
+    await signIn('bob@example.com')
+    expect((await ok(database.getCollectionRoutes(collection.id))).map(item => item.route_id)).toEqual([route.id])
+    expect((await ok(database.getPublicCollections(bobId))).map(item => item.id)).toEqual([collection.id])
+    const copy = await ok(database.copyCollection(collection.id))
+    expect(copy).toMatchObject({ user_id: bobId, copied_from: collection.id, is_public: false })
+
+    // Public collections are for signed-in users only
+    await database.auth.signOut()
+    expect(await ok(database.getCollectionRoutes(collection.id))).toEqual([])
+    expect(await ok(database.getPublicCollections(bobId))).toEqual([])
+  })
+})
+
+describe('library steps', () => {
+  const stepInput = {
+    name: 'Alphabetize the spice rack',
+    description: 'By cuisine, then by color',
+    time_investment_minutes: 45,
+    benefit: 'Dinner, eventually',
+    is_public: true
+  }
+
+  // There are no moderators locally, so approve the way a moderator would
+  async function approve(stepId: string) {
+    const tables = await modules.getLocalSnapshot<{ procrastination_steps: ProcrastinationLibraryStep[] }>()
+    tables!.procrastination_steps.find(step => step.id === stepId)!.review_status = 'approved'
+  }
+
+  it('lists only your own steps, and only to you', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    const step = await ok(database.createLibraryStep(aliceId, { ...stepInput, is_public: false }))
+    expect(step.review_status).toBe('pending')
+
+    const bobId = await signUp('bob@example.com')
+    expect(await ok(database.getUserLibrarySteps(bobId))).toEqual([])
+    expect(await ok(database.getUserLibrarySteps(aliceId))).toEqual([])
+
+    await signIn('alice@example.com')
+    expect((await ok(database.getUserLibrarySteps(aliceId))).map(item => item.id)).toEqual([step.id])
+  })
+
+  it('shares public steps with others once approved', async () => {
+    const { database } = modules
+    const aliceId = await signUp('alice@example.com')
+    const shared = await ok(database.createLibraryStep(aliceId, stepInput))
+    const privateStep = await ok(database.createLibraryStep(aliceId, { ...stepInput, is_public: false }))
+    await approve(privateStep.id)
+
+    const bobId = await signUp('bob@example.com')
+    expect(await ok(database.getCommunityLibrarySteps(bobId))).toEqual([])
+
+    await approve(shared.id)
+    expect((await ok(database.getCommunityLibrarySteps(bobId))).map(item => item.id)).toEqual([shared.id])
+
+    // Your own steps are already in your library
+    await signIn('alice@example.com')
+    expect(await ok(database.getCommunityLibrarySteps(aliceId))).toEqual([])
+
+    // Editing sends it back for review
+    await ok(database.updateLibraryStep(shared.id, { name: 'Alphabetize the whole pantry' }))
+    expect(await ok(database.getCommunityLibrarySteps(bobId))).toEqual([])
+
+    // The community library is for signed-in users only
+    await approve(shared.id)
+    await database.auth.signOut()
+    expect(await ok(database.getCommunityLibrarySteps(bobId))).toEqual([])
+  })
+})
+
+describe('procrastination route status', () => {
+  const step = (name: string, completedAt: string | null = null) =>
+    ({ name, description: name, timeInvestmentMinutes: 30, benefit: name, completedAt })
+
+  it('completes a route once every step is done and reopens it when one is undone', async () => {
+    const { database } = modules
+    const userId = await signUp('alice@example.com')
+    const route = await ok(database.saveProcrastinationRoute(userId, 'Taxes', [step('a'), step('b')], null, null))
+
+    // Only the steps are sent, as a queued write from an older client would
+    const done = '2025-07-19T10:00:00.000Z'
+    const partly = await ok(database.updateProcrastinationRoute(route.id, { route_steps: [step('a', done), step('b')] }))
+    expect(partly).toMatchObject({ status: 'active', completed_at: null })
+
+    const finished = await ok(database.updateProcrastinationRoute(route.id, { route_steps: [step('a', done), step('b', done)] }))
+    expect(finished.status).toBe('completed')
+    expect(finished.completed_at).not.toBeNull()
+
+    const reopened = await ok(database.updateProcrastinationRoute(route.id, { route_steps: [step('a', done), step('b')] }))
+    expect(reopened).toMatchObject({ status: 'active', completed_at: null })
+  })
+
+  it('leaves archived routes and routes completed by hand alone', async () => {
+    const { database } = modules
+    const userId = await signUp('alice@example.com')
+    const done = '2025-07-19T10:00:00.000Z'
+
+    const archived = await ok(database.saveProcrastinationRoute(userId, 'Taxes', [step('a')], null, null))
+    await ok(database.updateProcrastinationRoute(archived.id, { status: 'archived' }))
+    expect(await ok(database.updateProcrastinationRoute(archived.id, { route_steps: [step('a', done)] })))
+      .toMatchObject({ status: 'archived' })
+
+    const byHand = await ok(database.saveProcrastinationRoute(userId, 'Laundry', [step('a'), step('b')], null, null))
+    await ok(database.updateProcrastinationRoute(byHand.id, { status: 'completed', completed_at: done }))
+    expect(await ok(database.updateProcrastinationRoute(byHand.id, { route_steps: [step('a', done), step('b')] })))
+      .toMatchObject({ status: 'completed', completed_at: done })
+  })
+})
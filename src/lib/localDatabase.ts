@@ -0,0 +1,1256 @@
+import { AuthChangeEvent, AuthError, Session, User } from '@supabase/supabase-js'
+import type { AuthBackend, DataProvider } from './dataProvider'
+import { SupabaseError } from './errors'
+import { createSampleRoutes } from './localSeed'
+import { getLocalSnapshot, setLocalSnapshot } from './offlineStore'
+import type {
+  FitnessRoute,
+  ProcrastinationLibraryStep,
+  ProcrastinationStep,
+  Profile,
+  RouteCollection,
+  RouteCollectionItem,
+  RouteReview,
+  SavedProcrastinationRoute,
+  SavedRoute,
+  StatsPeriod,
+  TrainingPlan,
+  TrainingPlanItem,
+  UserAchievement,
+  UserGoal,
+  UserStats,
+  WorkoutLog
+} from './supabase'
+import { computeDifficultyLevel } from '../utils/routeDifficulty'
+import { computeAscentDescent, getElevationSamples } from '../utils/elevationAnalysis'
+import { MAX_ROUTE_DISTANCE_MILES, computeTrackDistance } from '../utils/routeGeometry'
+import { ROUTE_LIMITS } from '../utils/routeValidation'
+import {
+  LIBRARY_STEP_LIMITS,
+  STEP_MAX_MINUTES,
+  upgradeProcrastinationStep,
+  upgradeTimeInvestment
+} from '../utils/procrastinationEngine'
+import { ROUTE_PAGE_SIZE, compareRoutes, getRouteCursor, isAfterCursor, matchesRouteQuery } from '../utils/routeSearch'
+import { addPeriods, getPeriodStart } from '../utils/goalProgress'
+import { isStepCompleted } from '../utils/procrastinationProgress'
+
+// An in-browser stand-in for the Supabase project: the same tables, seeded with the
+// sample routes, persisted to IndexedDB. Row-level security is mirrored by only
+// exposing the signed-in user's rows, and the database triggers by recomputing
+// route terrain on write, so the UI behaves the same on either backend.
+
+type LocalUser = {
+  id: string
+  email: string
+  password_hash: string
+  user_metadata: Record<string, unknown>
+  created_at: string
+}
+
+type StoredSavedRoute = Omit<SavedRoute, 'fitness_routes'>
+type StoredWorkoutLog = Omit<WorkoutLog, 'fitness_routes'>
+type StoredRouteReview = Omit<RouteReview, 'profiles'>
+type StoredRouteCollection = Omit<RouteCollection, 'route_collection_items' | 'profiles'>
+type StoredRouteCollectionItem = Omit<RouteCollectionItem, 'fitness_routes'>
+type StoredTrainingPlan = Omit<TrainingPlan, 'training_plan_items'>
+type StoredTrainingPlanItem = Omit<TrainingPlanItem, 'fitness_routes'>
+
+type LocalTables = {
+  users: LocalUser[]
+  profiles: Profile[]
+  fitness_routes: FitnessRoute[]
+  route_reviews: StoredRouteReview[]
+  route_collections: StoredRouteCollection[]
+  route_collection_items: StoredRouteCollectionItem[]
+  saved_routes: StoredSavedRoute[]
+  workout_logs: StoredWorkoutLog[]
+  user_goals: UserGoal[]
+  training_plans: StoredTrainingPlan[]
+  training_plan_items: StoredTrainingPlanItem[]
+  user_achievements: UserAchievement[]
+  saved_procrastination_routes: SavedProcrastinationRoute[]
+  procrastination_steps: ProcrastinationLibraryStep[]
+}
+
+const SESSION_STORAGE_KEY = 'strong-strong-local-session'
+const STATS_WEEKS = 12
+const STATS_MONTHS = 12
+const MIN_PASSWORD_LENGTH = 6
+
+// Columns with a procrastination_steps length check
+const LIBRARY_STEP_CHECKS = [
+  ['name', LIBRARY_STEP_LIMITS.nameMaxLength],
+  ['description', LIBRARY_STEP_LIMITS.descriptionMaxLength],
+  ['benefit', LIBRARY_STEP_LIMITS.benefitMaxLength]
+] as const
+
+const timestamp = () => new Date().toISOString()
+const newId = () => crypto.randomUUID()
+
+const byNewest = <T>(key: keyof T) => (a: T, b: T) => String(b[key]).localeCompare(String(a[key]))
+
+// Same code PostgREST returns when .single() matches no row
+const notFound = (what: string) => new SupabaseError(`${what} not found`, 'PGRST116')
+
+function createEmptyTables(): LocalTables {
+  return {
+    users: [],
+    profiles: [],
+    fitness_routes: createSampleRoutes(),
+    route_reviews: [],
+    route_collections: [],
+    route_collection_items: [],
+    saved_routes: [],
+    workout_logs: [],
+    user_goals: [],
+    training_plans: [],
+    training_plan_items: [],
+    user_achievements: [],
+    saved_procrastination_routes: [],
+    procrastination_steps: []
+  }
+}
+
+// Mirrors sync_route_distance_from_track(), sync_route_terrain_from_track() and
+// sync_route_start_from_track()
+function syncRouteTerrain(route: FitnessRoute): FitnessRoute {
+  const synced = { ...route }
+
+  if (synced.track_points) {
+    synced.distance = computeTrackDistance(synced.track_points)
+    synced.elevation_gain_meters = computeAscentDescent(getElevationSamples(synced.track_points)).ascent
+  }
+
+  if (synced.track_points && synced.track_points.length > 0) {
+    synced.start_lat = synced.track_points[0].lat
+    synced.start_lon = synced.track_points[0].lon
+  }
+
+  const hasStart = synced.start_lat !== null && synced.start_lon !== null
+  const noStart = synced.start_lat === null && synced.start_lon === null
+  if (!(noStart || (hasStart && Math.abs(synced.start_lat!) <= 90 && Math.abs(synced.start_lon!) <= 180))) {
+    throw new SupabaseError(
+      'Data failed validation. Please check the values you entered.',
+      'CONSTRAINT_ERROR',
+      { constraint: 'fitness_routes_start_check' }
+    )
+  }
+
+  if (!(synced.distance >= 0 && synced.distance <= MAX_ROUTE_DISTANCE_MILES)) {
+    throw new SupabaseError(
+      'Data failed validation. Please check the values you entered.',
+      'CONSTRAINT_ERROR',
+      { constraint: 'fitness_routes_distance_check' }
+    )
+  }
+
+  synced.difficulty_level = computeDifficultyLevel(synced.distance, synced.elevation_gain_meters, synced.route_type)
+  return synced
+}
+
+// Snapshots saved before a migration lack its tables and columns; fill them in the
+// way the migration would so stored rows still pass validation
+function upgradeTables(snapshot: LocalTables): LocalTables {
+  const tables = { ...createEmptyTables(), ...snapshot }
+  const samples = new Map(createSampleRoutes().map(route => [route.id, route]))
+
+  tables.fitness_routes = tables.fitness_routes.map(route => {
+    const sample = route.created_by === null ? samples.get(route.id) : undefined
+    const start = route.track_points?.[0] ?? (sample && { lat: sample.start_lat, lon: sample.start_lon })
+    return route.start_lat === undefined || route.start_lon === undefined
+      ? { ...route, start_lat: start?.lat ?? null, start_lon: start?.lon ?? null }
+      : route
+  })
+  tables.fitness_routes = tables.fitness_routes.map(route =>
+    route.rating_count === undefined ? { ...route, rating_average: null, rating_count: 0 } : route)
+  tables.saved_procrastination_routes = tables.saved_procrastination_routes.map(route =>
+    route.seed === undefined ? { ...route, seed: null } : route)
+  tables.saved_procrastination_routes = tables.saved_procrastination_routes.map(route => ({
+    ...route,
+    route_steps: route.route_steps.map(upgradeProcrastinationStep),
+    time_budget_minutes: route.time_budget_minutes ?? null
+  }))
+  const routes = new Map(tables.fitness_routes.map(route => [route.id, route]))
+  tables.workout_logs = tables.workout_logs.map(workout => {
+    if (workout.route_type !== undefined) return workout
+    const route = workout.route_id ? routes.get(workout.route_id) : undefined
+    return { ...workout, route_name: route?.name ?? null, route_type: route?.route_type ?? null }
+  })
+  tables.training_plan_items = tables.training_plan_items.map(item => {
+    if (item.route_name !== undefined) return item
+    const route = item.route_id ? routes.get(item.route_id) : undefined
+    return { ...item, route_name: route?.name ?? null }
+  })
+  tables.procrastination_steps = tables.procrastination_steps.map(step => {
+    const { time_investment, ...rest } = step as ProcrastinationLibraryStep & { time_investment?: string }
+    return time_investment === undefined
+      ? step
+      : { ...rest, time_investment_minutes: upgradeTimeInvestment(time_investment) }
+  })
+  return tables
+}
+
+// Mirrors sync_route_rating()
+function syncRouteRating(tables: LocalTables, routeId: string) {
+  const route = tables.fitness_routes.find(item => item.id === routeId)
+  if (!route) return
+
+  const ratings = tables.route_reviews.filter(review => review.route_id === routeId).map(review => review.rating)
+  route.rating_count = ratings.length
+  route.rating_average = ratings.length > 0
+    ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 100) / 100
+    : null
+}
+
+const allStepsCompleted = (steps: ProcrastinationStep[]) => steps.length > 0 && steps.every(isStepCompleted)
+
+// Mirrors sync_procrastination_route_status()
+function syncProcrastinationStatus(route: SavedProcrastinationRoute, previousSteps: ProcrastinationStep[]) {
+  if (allStepsCompleted(route.route_steps)) {
+    if ((route.status ?? 'active') === 'active') {
+      route.status = 'completed'
+      route.completed_at = route.completed_at ?? timestamp()
+    }
+  } else if (route.status === 'completed' && allStepsCompleted(previousSteps)) {
+    route.status = 'active'
+    route.completed_at = null
+  }
+}
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Same document as get_user_stats(), in the browser's time zone
+function computeUserStats(tables: LocalTables, userId: string, now = new Date()): UserStats {
+  const workouts = tables.workout_logs.filter(workout => workout.user_id === userId)
+  const savedRoutes = tables.saved_routes.filter(saved => saved.user_id === userId)
+
+  const completedRoutes = new Set([
+    ...workouts.flatMap(workout => (workout.route_id ? [workout.route_id] : [])),
+    ...savedRoutes.filter(saved => saved.status === 'completed').map(saved => saved.route_id)
+  ])
+
+  const distanceByType: UserStats['distance_by_route_type'] = {}
+  workouts.forEach(workout => {
+    const type = workout.route_type
+    if (type) distanceByType[type] = (distanceByType[type] ?? 0) + workout.distance
+  })
+
+  const series = (period: 'week' | 'month', count: number): StatsPeriod[] => {
+    const current = getPeriodStart(now, period)
+    return Array.from({ length: count }, (_, index) => {
+      const start = addPeriods(current, period, index - count + 1)
+      const end = addPeriods(start, period, 1)
+      const inPeriod = workouts.filter(workout => {
+        const completedAt = new Date(workout.completed_at)
+        return completedAt >= start && completedAt < end
+      })
+      return {
+        period_start: formatDate(start),
+        workouts: inPeriod.length,
+        distance: inPeriod.reduce((sum, workout) => sum + workout.distance, 0)
+      }
+    })
+  }
+
+  return {
+    routes_completed: completedRoutes.size,
+    routes_saved: savedRoutes.length,
+    workouts: workouts.length,
+    total_distance: workouts.reduce((sum, workout) => sum + workout.distance, 0),
+    total_elapsed_seconds: workouts.reduce((sum, workout) => sum + workout.elapsed_seconds, 0),
+    days_active: new Set(workouts.map(workout => formatDate(new Date(workout.completed_at)))).size,
+    distance_by_route_type: distanceByType,
+    weekly: series('week', STATS_WEEKS),
+    monthly: series('month', STATS_MONTHS)
+  }
+}
+
+async function hashPassword(email: string, password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${email}:${password}`))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function createLocalDataProvider(): DataProvider {
+  let tablesPromise: Promise<LocalTables> | null = null
+  const authListeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>()
+
+  const loadTables = () => {
+    if (!tablesPromise) {
+      tablesPromise = getLocalSnapshot<LocalTables>()
+        .then(snapshot => (snapshot ? upgradeTables(snapshot) : createEmptyTables()))
+        .catch(error => {
+          console.warn('⚠️ Could not load local data, starting fresh:', error)
+          return createEmptyTables()
+        })
+    }
+    return tablesPromise
+  }
+
+  const currentUserId = () => localStorage.getItem(SESSION_STORAGE_KEY)
+
+  // Row-level security: users only ever see and change their own rows
+  const requireUser = (userId: string) => {
+    if (!userId || userId !== currentUserId()) {
+      throw new SupabaseError(
+        'Permission denied. You may not have access to this resource.',
+        'PERMISSION_ERROR',
+        { userId }
+      )
+    }
+  }
+
+  const ownRow = <T extends { id: string; user_id: string }>(rows: T[], id: string, what: string): T => {
+    const row = rows.find(item => item.id === id && item.user_id === currentUserId())
+    if (!row) throw notFound(what)
+    return row
+  }
+
+  const requireRoute = (tables: LocalTables, routeId: string) => {
+    const route = tables.fitness_routes.find(item => item.id === routeId)
+    if (!route) {
+      throw new SupabaseError(
+        'Related data not found. Please check your data relationships.',
+        'FOREIGN_KEY_ERROR',
+        { routeId }
+      )
+    }
+    return route
+  }
+
+  const withRoute = <T extends { route_id: string | null }>(tables: LocalTables, row: T) => ({
+    ...row,
+    fitness_routes: tables.fitness_routes.find(route => route.id === row.route_id)
+  })
+
+  const withReviewer = (tables: LocalTables, review: StoredRouteReview): RouteReview => {
+    const profile = tables.profiles.find(item => item.id === review.user_id)
+    return {
+      ...review,
+      profiles: profile ? { username: profile.username, full_name: profile.full_name } : null
+    }
+  }
+
+  // Collections are readable by their owner and, once public, by every signed-in user
+  const visibleCollection = (tables: LocalTables, collectionId: string) => {
+    const userId = currentUserId()
+    const collection = tables.route_collections.find(item => item.id === collectionId)
+    return userId && collection && (collection.user_id === userId || collection.is_public) ? collection : undefined
+  }
+
+  const collectionItems = (tables: LocalTables, collectionId: string) =>
+    tables.route_collection_items
+      .filter(item => item.collection_id === collectionId)
+      .sort((a, b) => a.position - b.position)
+
+  const withItems = (tables: LocalTables, collection: StoredRouteCollection): RouteCollection => ({
+    ...collection,
+    route_collection_items: collectionItems(tables, collection.id).map(item => ({ ...item }))
+  })
+
+  // Mirrors the route_collections name and description check constraints
+  const checkCollection = (collection: StoredRouteCollection) => {
+    const name = collection.name.trim()
+    if (name.length < 1 || name.length > ROUTE_LIMITS.collectionNameMaxLength) {
+      throw new SupabaseError(
+        'Data failed validation. Please check the values you entered.',
+        'CONSTRAINT_ERROR',
+        { constraint: 'route_collections_name_check' }
+      )
+    }
+    if (collection.description !== null && collection.description.length > ROUTE_LIMITS.descriptionMaxLength) {
+      throw new SupabaseError(
+        'Data failed validation. Please check the values you entered.',
+        'CONSTRAINT_ERROR',
+        { constraint: 'route_collections_description_check' }
+      )
+    }
+    return collection
+  }
+
+  const ownPlan = (tables: LocalTables, planId: string) =>
+    tables.training_plans.find(plan => plan.id === planId && plan.user_id === currentUserId())
+
+  const ownPlanItem = (tables: LocalTables, itemId: string) => {
+    const item = tables.training_plan_items.find(candidate => candidate.id === itemId)
+    if (!item || !ownPlan(tables, item.plan_id)) throw notFound('Training plan item')
+    return item
+  }
+
+  // Mirrors training_plan_items_single_target_check
+  const checkPlanItem = (item: StoredTrainingPlanItem) => {
+    if (item.target_duration_minutes !== null && item.target_pace_minutes_per_mile !== null) {
+      throw new SupabaseError(
+        'Data failed validation. Please check the values you entered.',
+        'CONSTRAINT_ERROR',
+        { constraint: 'training_plan_items_single_target_check' }
+      )
+    }
+    return item
+  }
+
+  const checkLibraryStep = (step: ProcrastinationLibraryStep) => {
+    for (const [column, maxLength] of LIBRARY_STEP_CHECKS) {
+      const length = step[column].trim().length
+      if (length < 1 || length > maxLength) {
+        throw new SupabaseError(
+          'Data failed validation. Please check the values you entered.',
+          'CONSTRAINT_ERROR',
+          { constraint: `procrastination_steps_${column}_check` }
+        )
+      }
+    }
+    if (!Number.isInteger(step.time_investment_minutes)
+      || step.time_investment_minutes < 1
+      || step.time_investment_minutes > STEP_MAX_MINUTES) {
+      throw new SupabaseError(
+        'Data failed validation. Please check the values you entered.',
+        'CONSTRAINT_ERROR',
+        { constraint: 'procrastination_steps_time_investment_minutes_check' }
+      )
+    }
+    return step
+  }
+
+  // Mirrors guard_procrastination_step_review(); there are no moderators locally,
+  // so public steps stay pending
+  const needsReview = (before: ProcrastinationLibraryStep, after: ProcrastinationLibraryStep) =>
+    LIBRARY_STEP_CHECKS.some(([column]) => before[column] !== after[column])
+    || before.time_investment_minutes !== after.time_investment_minutes
+    || (after.is_public && !before.is_public)
+
+  // Runs an operation against the tables with the same logging and error shape as safeSupabaseQuery
+  async function run<T>(
+    context: string,
+    operation: (tables: LocalTables) => T,
+    write = false
+  ): Promise<{ data: T | null; error: SupabaseError | null }> {
+    try {
+      console.log(`🔍 ${context} (local)`)
+      const tables = await loadTables()
+      const data = operation(tables)
+      if (write) await setLocalSnapshot(tables)
+      console.log(`✅ ${context} successful`)
+      return { data, error: null }
+    } catch (error: unknown) {
+      const localError = error instanceof SupabaseError
+        ? error
+        : new SupabaseError(
+            error instanceof Error ? error.message : 'An unexpected error occurred',
+            'UNKNOWN_ERROR',
+            { originalError: error, context }
+          )
+      console.error(`❌ ${context} failed:`, localError)
+      return { data: null, error: localError }
+    }
+  }
+
+  const toAuthUser = (user: LocalUser): User => ({
+    id: user.id,
+    email: user.email,
+    aud: 'authenticated',
+    role: 'authenticated',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: user.user_metadata,
+    created_at: user.created_at
+  })
+
+  const toSession = (user: LocalUser): Session => ({
+    access_token: `local-${user.id}`,
+    refresh_token: `local-${user.id}`,
+    token_type: 'bearer',
+    expires_in: 365 * 24 * 60 * 60,
+    expires_at: Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60,
+    user: toAuthUser(user)
+  })
+
+  const getSession = async () => {
+    const userId = currentUserId()
+    const user = userId ? (await loadTables()).users.find(item => item.id === userId) : undefined
+    return user ? toSession(user) : null
+  }
+
+  const emitAuthChange = (event: AuthChangeEvent, session: Session | null) => {
+    authListeners.forEach(callback => {
+      try {
+        callback(event, session)
+      } catch (error) {
+        console.error('Error in auth listener:', error)
+      }
+    })
+  }
+
+  const signInAs = (user: LocalUser) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, user.id)
+    emitAuthChange('SIGNED_IN', toSession(user))
+  }
+
+  const auth: AuthBackend = {
+    async getSession() {
+      return { data: { session: await getSession() }, error: null }
+    },
+
+    onAuthStateChange(callback) {
+      authListeners.add(callback)
+      // Like supabase-js, new subscribers hear about the current session
+      getSession().then(session => {
+        if (authListeners.has(callback)) callback('INITIAL_SESSION', session)
+      })
+      return { data: { subscription: { unsubscribe: () => authListeners.delete(callback) } } }
+    },
+
+    async signUp({ email, password, options }) {
+      const normalizedEmail = email.trim().toLowerCase()
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return { error: new AuthError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422, 'weak_password') }
+      }
+
+      const tables = await loadTables()
+      if (tables.users.some(user => user.email === normalizedEmail)) {
+        return { error: new AuthError('User already registered', 422, 'user_already_exists') }
+      }
+
+      const metadata = options?.data ?? {}
+      const user: LocalUser = {
+        id: newId(),
+        email: normalizedEmail,
+        password_hash: await hashPassword(normalizedEmail, password),
+        user_metadata: metadata,
+        created_at: timestamp()
+      }
+
+      // Mirrors the handle_new_user() trigger
+      tables.users.push(user)
+      tables.profiles.push({
+        id: user.id,
+        username: typeof metadata.username === 'string' ? metadata.username : null,
+        full_name: typeof metadata.full_name === 'string' ? metadata.full_name : null,
+        avatar_url: null,
+        created_at: user.created_at,
+        updated_at: user.created_at
+      })
+      await setLocalSnapshot(tables)
+
+      signInAs(user)
+      return { error: null }
+    },
+
+    async signInWithPassword({ email, password }) {
+      const normalizedEmail = email.trim().toLowerCase()
+      const tables = await loadTables()
+      const user = tables.users.find(item => item.email === normalizedEmail)
+
+      if (!user || user.password_hash !== await hashPassword(normalizedEmail, password)) {
+        return { error: new AuthError('Invalid login credentials', 400, 'invalid_credentials') }
+      }
+
+      signInAs(user)
+      return { error: null }
+    },
+
+    async signOut() {
+      localStorage.removeItem(SESSION_STORAGE_KEY)
+      emitAuthChange('SIGNED_OUT', null)
+      return { error: null }
+    },
+
+    async resetPasswordForEmail() {
+      return { error: new AuthError('Password reset is not available with the local backend.', 501) }
+    }
+  }
+
+  return {
+    auth,
+
+    // Profiles
+    async getProfile(userId) {
+      return run(`Get profile for user ${userId}`, tables => {
+        const profile = tables.profiles.find(item => item.id === userId && item.id === currentUserId())
+        if (!profile) throw notFound('Profile')
+        return profile
+      })
+    },
+
+    async updateProfile(userId, updates) {
+      return run(`Update profile for user ${userId}`, tables => {
+        requireUser(userId)
+        const index = tables.profiles.findIndex(item => item.id === userId)
+        if (index === -1) throw notFound('Profile')
+        tables.profiles[index] = { ...tables.profiles[index], ...updates, id: userId, updated_at: timestamp() }
+        return tables.profiles[index]
+      }, true)
+    },
+
+    // Fitness Routes
+    async getFitnessRoutes(limit) {
+      return run('Get fitness routes', tables => {
+        const routes = [...tables.fitness_routes].sort(byNewest('created_at'))
+        return limit ? routes.slice(0, limit) : routes
+      })
+    },
+
+    async getFitnessRoute(routeId) {
+      return run(`Get fitness route ${routeId}`, tables =>
+        tables.fitness_routes.find(route => route.id === routeId) ?? null)
+    },
+
+    async countFitnessRoutes(difficulty) {
+      return run(`Count ${difficulty} fitness routes`, tables =>
+        tables.fitness_routes.filter(route => route.difficulty_level === difficulty).length)
+    },
+
+    async searchFitnessRoutes(query, cursor = null, pageSize = ROUTE_PAGE_SIZE) {
+      return run('Search fitness routes', tables => {
+        const userId = currentUserId()
+        const savedRoutes = tables.saved_routes.filter(savedRoute => savedRoute.user_id === userId)
+        const matches = tables.fitness_routes
+          .filter(route => matchesRouteQuery(route, query, savedRoutes))
+          .sort(compareRoutes(query))
+          .filter(route => !cursor || isAfterCursor(route, cursor, query))
+
+        const routes = matches.slice(0, pageSize)
+        const nextCursor = matches.length > pageSize ? getRouteCursor(routes[routes.length - 1], query) : null
+        return { routes, nextCursor }
+      })
+    },
+
+    async getRelatedRoutes(route, limit = 4) {
+      return run(`Get routes related to ${route.id}`, tables =>
+        tables.fitness_routes
+          .filter(item =>
+            item.id !== route.id &&
+            item.route_type === route.route_type &&
+            item.difficulty_level === route.difficulty_level)
+          .sort(byNewest('created_at'))
+          .slice(0, limit))
+    },
+
+    async createFitnessRoute(userId, route) {
+      return run(`Create fitness route for user ${userId}`, tables => {
+        requireUser(userId)
+        const created = syncRouteTerrain({
+          ...route,
+          id: newId(),
+          difficulty_level: 'beginner',
+          created_by: userId,
+          created_at: timestamp(),
+          rating_average: null,
+          rating_count: 0
+        })
+        tables.fitness_routes.push(created)
+        return created
+      }, true)
+    },
+
+    async updateFitnessRoute(routeId, updates) {
+      return run(`Update fitness route ${routeId}`, tables => {
+        const index = tables.fitness_routes.findIndex(route => route.id === routeId && route.created_by === currentUserId())
+        if (index === -1) throw notFound('Route')
+        tables.fitness_routes[index] = syncRouteTerrain({ ...tables.fitness_routes[index], ...updates })
+        return tables.fitness_routes[index]
+      }, true)
+    },
+
+    async deleteFitnessRoute(routeId) {
+      return run(`Delete fitness route ${routeId}`, tables => {
+        const route = tables.fitness_routes.find(item => item.id === routeId && item.created_by === currentUserId())
+        if (!route) return null
+
+        // ON DELETE CASCADE from saved_routes, route_reviews and route_collection_items;
+        // workout_logs and training_plan_items keep their snapshot (ON DELETE SET NULL)
+        tables.fitness_routes = tables.fitness_routes.filter(item => item.id !== routeId)
+        tables.route_reviews = tables.route_reviews.filter(review => review.route_id !== routeId)
+        tables.route_collection_items = tables.route_collection_items.filter(item => item.route_id !== routeId)
+        tables.training_plan_items = tables.training_plan_items.map(item =>
+          item.route_id === routeId ? { ...item, route_id: null } : item)
+        tables.saved_routes = tables.saved_routes.filter(saved => saved.route_id !== routeId)
+        tables.workout_logs = tables.workout_logs.map(workout =>
+          workout.route_id === routeId ? { ...workout, route_id: null } : workout)
+        return null
+      }, true)
+    },
+
+    async updateRouteTrack(routeId, trackPoints) {
+      return run(`Update track for route ${routeId}`, tables => {
+        const index = tables.fitness_routes.findIndex(route => route.id === routeId && route.created_by === currentUserId())
+        if (index === -1) throw notFound('Route')
+        tables.fitness_routes[index] = syncRouteTerrain({ ...tables.fitness_routes[index], track_points: trackPoints })
+        return tables.fitness_routes[index]
+      }, true)
+    },
+
+    // Route Reviews
+    async getRouteReviews(routeId) {
+      return run(`Get reviews for route ${routeId}`, tables =>
+        !currentUserId()
+          ? []
+          : tables.route_reviews
+            .filter(review => review.route_id === routeId)
+            .sort(byNewest('updated_at'))
+            .map(review => withReviewer(tables, review)))
+    },
+
+    async saveRouteReview(userId, routeId, review) {
+      return run(`Save review of route ${routeId} for user ${userId}`, tables => {
+        requireUser(userId)
+        requireRoute(tables, routeId)
+
+        // Upsert on UNIQUE(route_id, user_id)
+        const now = timestamp()
+        let saved = tables.route_reviews.find(item => item.route_id === routeId && item.user_id === userId)
+        if (saved) {
+          Object.assign(saved, review, { updated_at: now })
+        } else {
+          saved = { ...review, id: newId(), route_id: routeId, user_id: userId, created_at: now, updated_at: now }
+          tables.route_reviews.push(saved)
+        }
+
+        syncRouteRating(tables, routeId)
+        return withReviewer(tables, saved)
+      }, true)
+    },
+
+    async deleteRouteReview(reviewId) {
+      return run(`Delete route review ${reviewId}`, tables => {
+        const review = tables.route_reviews.find(item => item.id === reviewId && item.user_id === currentUserId())
+        if (!review) return null
+
+        tables.route_reviews = tables.route_reviews.filter(item => item.id !== reviewId)
+        syncRouteRating(tables, review.route_id)
+        return null
+      }, true)
+    },
+
+    // Route Collections
+    async getUserCollections(userId) {
+      return run(`Get collections for user ${userId}`, tables =>
+        tables.route_collections
+          .filter(collection => collection.user_id === userId && userId === currentUserId())
+          .sort(byNewest('updated_at'))
+          .map(collection => withItems(tables, collection)))
+    },
+
+    async getPublicCollections(userId, limit = 20) {
+      return run('Get public collections', tables => {
+        if (!currentUserId()) return []
+        return tables.route_collections
+          .filter(collection => collection.is_public && collection.user_id !== userId)
+          .sort(byNewest('updated_at'))
+          .slice(0, limit)
+          .map(collection => {
+            const profile = tables.profiles.find(item => item.id === collection.user_id)
+            return {
+              ...withItems(tables, collection),
+              profiles: profile ? { username: profile.username, full_name: profile.full_name } : null
+            }
+          })
+      })
+    },
+
+    async getCollectionRoutes(collectionId) {
+      return run(`Get routes in collection ${collectionId}`, tables =>
+        visibleCollection(tables, collectionId)
+          ? collectionItems(tables, collectionId).map(item => withRoute(tables, item))
+          : [])
+    },
+
+    async createCollection(userId, collection) {
+      return run(`Create collection for user ${userId}`, tables => {
+        requireUser(userId)
+        const now = timestamp()
+        const created = checkCollection({
+          ...collection,
+          id: newId(),
+          user_id: userId,
+          copied_from: null,
+          created_at: now,
+          updated_at: now
+        })
+        tables.route_collections.push(created)
+        return { ...created }
+      }, true)
+    },
+
+    async updateCollection(collectionId, updates) {
+      return run(`Update collection ${collectionId}`, tables => {
+        const collection = ownRow(tables.route_collections, collectionId, 'Collection')
+        Object.assign(collection, checkCollection({ ...collection, ...updates }), { updated_at: timestamp() })
+        return { ...collection }
+      }, true)
+    },
+
+    async deleteCollection(collectionId) {
+      return run(`Delete collection ${collectionId}`, tables => {
+        const collection = tables.route_collections.find(item =>
+          item.id === collectionId && item.user_id === currentUserId())
+        if (!collection) return null
+
+        // ON DELETE CASCADE from route_collection_items, SET NULL on copies
+        tables.route_collections = tables.route_collections.filter(item => item.id !== collectionId)
+        tables.route_collection_items = tables.route_collection_items.filter(item => item.collection_id !== collectionId)
+        tables.route_collections.forEach(item => {
+          if (item.copied_from === collectionId) item.copied_from = null
+        })
+        return null
+      }, true)
+    },
+
+    // Mirrors add_route_to_collection()
+    async addRouteToCollection(collectionId, routeId) {
+      return run(`Add route ${routeId} to collection ${collectionId}`, tables => {
+        const collection = ownRow(tables.route_collections, collectionId, 'Collection')
+        requireRoute(tables, routeId)
+
+        const items = collectionItems(tables, collectionId)
+        let item = items.find(existing => existing.route_id === routeId)
+        if (!item) {
+          item = {
+            id: newId(),
+            collection_id: collectionId,
+            route_id: routeId,
+            position: items.length > 0 ? items[items.length - 1].position + 1 : 0,
+            added_at: timestamp()
+          }
+          tables.route_collection_items.push(item)
+        }
+        collection.updated_at = timestamp()
+        return { ...item }
+      }, true)
+    },
+
+    async removeRouteFromCollection(collectionId, routeId) {
+      return run(`Remove route ${routeId} from collection ${collectionId}`, tables => {
+        if (!tables.route_collections.some(item => item.id === collectionId && item.user_id === currentUserId())) return null
+
+        tables.route_collection_items = tables.route_collection_items.filter(item =>
+          !(item.collection_id === collectionId && item.route_id === routeId))
+        return null
+      }, true)
+    },
+
+    // Mirrors set_route_collection_order()
+    async reorderCollection(collectionId, routeIds) {
+      return run(`Reorder collection ${collectionId}`, tables => {
+        const collection = tables.route_collections.find(item =>
+          item.id === collectionId && item.user_id === currentUserId())
+        if (!collection) return null
+
+        collectionItems(tables, collectionId).forEach(item => {
+          const position = routeIds.indexOf(item.route_id)
+          if (position !== -1) item.position = position
+        })
+        collection.updated_at = timestamp()
+        return null
+      }, true)
+    },
+
+    // Mirrors copy_route_collection()
+    async copyCollection(collectionId, name) {
+      return run(`Copy collection ${collectionId}`, tables => {
+        const userId = currentUserId()
+        const original = visibleCollection(tables, collectionId)
+        if (!userId || !original) throw notFound('Collection')
+
+        const now = timestamp()
+        const copied = checkCollection({
+          id: newId(),
+          user_id: userId,
+          name: name?.trim() || original.name.slice(0, ROUTE_LIMITS.collectionNameMaxLength),
+          description: original.description,
+          is_public: false,
+          copied_from: original.id,
+          created_at: now,
+          updated_at: now
+        })
+        tables.route_collections.push(copied)
+        collectionItems(tables, original.id).forEach(item => {
+          tables.route_collection_items.push({ ...item, id: newId(), collection_id: copied.id, added_at: now })
+        })
+        return { ...copied }
+      }, true)
+    },
+
+    // Saved Routes
+    async getUserSavedRoutes(userId) {
+      return run(`Get saved routes for user ${userId}`, tables =>
+        tables.saved_routes
+          .filter(saved => saved.user_id === userId && userId === currentUserId())
+          .sort(byNewest('saved_at'))
+          .map(saved => withRoute(tables, saved)))
+    },
+
+    async saveRoute(userId, routeId, status = 'to-do') {
+      return run(`Save route ${routeId} for user ${userId}`, tables => {
+        requireUser(userId)
+        requireRoute(tables, routeId)
+
+        // Upsert on UNIQUE(user_id, route_id)
+        const existing = tables.saved_routes.find(saved => saved.user_id === userId && saved.route_id === routeId)
+        if (existing) {
+          existing.status = status
+          return { ...existing }
+        }
+
+        const saved: StoredSavedRoute = {
+          id: newId(),
+          user_id: userId,
+          route_id: routeId,
+          status,
+          saved_at: timestamp(),
+          completed_at: null,
+          notes: ''
+        }
+        tables.saved_routes.push(saved)
+        return { ...saved }
+      }, true)
+    },
+
+    async updateRouteStatus(savedRouteId, status) {
+      return run(`Update route status to ${status}`, tables => {
+        const saved = ownRow(tables.saved_routes, savedRouteId, 'Saved route')
+        saved.status = status
+        if (status === 'completed') {
+          saved.completed_at = timestamp()
+        }
+        return { ...saved }
+      }, true)
+    },
+
+    async getSavedRoute(userId, routeId) {
+      return run(`Get saved route ${routeId} for user ${userId}`, tables => {
+        const saved = tables.saved_routes.find(item =>
+          item.user_id === userId && item.route_id === routeId && userId === currentUserId())
+        return saved ? { ...saved } : null
+      })
+    },
+
+    async updateSavedRouteNotes(savedRouteId, notes) {
+      return run(`Update notes for saved route ${savedRouteId}`, tables => {
+        if (notes.length > ROUTE_LIMITS.notesMaxLength) {
+          throw new SupabaseError(
+            'Data failed validation. Please check the values you entered.',
+            'CONSTRAINT_ERROR',
+            { constraint: 'saved_routes_notes_check' }
+          )
+        }
+        const saved = ownRow(tables.saved_routes, savedRouteId, 'Saved route')
+        saved.notes = notes
+        return { ...saved }
+      }, true)
+    },
+
+    // Workout Log
+    async getUserWorkoutLogs(userId) {
+      return run(`Get workout logs for user ${userId}`, tables =>
+        tables.workout_logs
+          .filter(workout => workout.user_id === userId && userId === currentUserId())
+          .sort(byNewest('completed_at'))
+          .map(workout => withRoute(tables, workout)))
+    },
+
+    async getRouteWorkoutLogs(userId, routeId) {
+      return run(`Get workout logs for route ${routeId}`, tables =>
+        tables.workout_logs
+          .filter(workout => workout.user_id === userId && workout.route_id === routeId && userId === currentUserId())
+          .sort(byNewest('completed_at'))
+          .map(workout => ({ ...workout })))
+    },
+
+    async logWorkout(userId, workout) {
+      return run(`Log workout on route ${workout.route_id} for user ${userId}`, tables => {
+        requireUser(userId)
+        const route = requireRoute(tables, workout.route_id)
+        // Mirrors snapshot_workout_route()
+        const created: StoredWorkoutLog = {
+          ...workout,
+          id: newId(),
+          user_id: userId,
+          route_name: route.name,
+          route_type: route.route_type,
+          created_at: timestamp()
+        }
+        tables.workout_logs.push(created)
+        return { ...created }
+      }, true)
+    },
+
+    async deleteWorkoutLog(workoutId) {
+      return run(`Delete workout log ${workoutId}`, tables => {
+        tables.workout_logs = tables.workout_logs.filter(workout =>
+          !(workout.id === workoutId && workout.user_id === currentUserId()))
+        return null
+      }, true)
+    },
+
+    // Goals
+    async getUserGoals(userId) {
+      return run(`Get goals for user ${userId}`, tables =>
+        tables.user_goals
+          .filter(goal => goal.user_id === userId && goal.is_active && userId === currentUserId())
+          .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '')))
+    },
+
+    async createGoal(userId, goal) {
+      return run(`Create goal for user ${userId}`, tables => {
+        requireUser(userId)
+        const now = timestamp()
+        const created: UserGoal = { ...goal, id: newId(), user_id: userId, is_active: true, created_at: now, updated_at: now }
+        tables.user_goals.push(created)
+        return created
+      }, true)
+    },
+
+    async updateGoal(goalId, updates) {
+      return run(`Update goal ${goalId}`, tables => {
+        const goal = ownRow(tables.user_goals, goalId, 'Goal')
+        Object.assign(goal, updates, { updated_at: timestamp() })
+        return { ...goal }
+      }, true)
+    },
+
+    async deleteGoal(goalId) {
+      return run(`Delete goal ${goalId}`, tables => {
+        tables.user_goals = tables.user_goals.filter(goal => !(goal.id === goalId && goal.user_id === currentUserId()))
+        return null
+      }, true)
+    },
+
+    // Training Plans
+    async getUserTrainingPlans(userId) {
+      return run(`Get training plans for user ${userId}`, tables =>
+        tables.training_plans
+          .filter(plan => plan.user_id === userId && userId === currentUserId())
+          .sort(byNewest('created_at'))
+          .map(plan => ({
+            ...plan,
+            training_plan_items: tables.training_plan_items
+              .filter(item => item.plan_id === plan.id)
+              .sort((a, b) => a.day_offset - b.day_offset || a.position - b.position)
+              .map(item => withRoute(tables, item))
+          })))
+    },
+
+    async createTrainingPlan(userId, plan) {
+      return run(`Create training plan for user ${userId}`, tables => {
+        requireUser(userId)
+        const now = timestamp()
+        const created: StoredTrainingPlan = { ...plan, id: newId(), user_id: userId, created_at: now, updated_at: now }
+        tables.training_plans.push(created)
+        return { ...created }
+      }, true)
+    },
+
+    async updateTrainingPlan(planId, updates) {
+      return run(`Update training plan ${planId}`, tables => {
+        const plan = ownRow(tables.training_plans, planId, 'Training plan')
+        Object.assign(plan, updates, { updated_at: timestamp() })
+        return { ...plan }
+      }, true)
+    },
+
+    async deleteTrainingPlan(planId) {
+      return run(`Delete training plan ${planId}`, tables => {
+        if (!ownPlan(tables, planId)) return null
+
+        // ON DELETE CASCADE from training_plan_items
+        tables.training_plans = tables.training_plans.filter(plan => plan.id !== planId)
+        tables.training_plan_items = tables.training_plan_items.filter(item => item.plan_id !== planId)
+        return null
+      }, true)
+    },
+
+    async addTrainingPlanItem(planId, item) {
+      return run(`Add route ${item.route_id} to training plan ${planId}`, tables => {
+        if (!ownPlan(tables, planId)) throw notFound('Training plan')
+        const route = requireRoute(tables, item.route_id)
+
+        // Mirrors snapshot_plan_item_route()
+        const created = checkPlanItem({
+          ...item,
+          id: newId(),
+          plan_id: planId,
+          route_name: route.name,
+          created_at: timestamp()
+        })
+        tables.training_plan_items.push(created)
+        return withRoute(tables, created)
+      }, true)
+    },
+
+    async updateTrainingPlanItem(itemId, updates) {
+      return run(`Update training plan item ${itemId}`, tables => {
+        const item = ownPlanItem(tables, itemId)
+        const route = updates.route_id && updates.route_id !== item.route_id
+          ? requireRoute(tables, updates.route_id)
+          : null
+        Object.assign(item, checkPlanItem({ ...item, ...updates, route_name: route?.name ?? item.route_name }))
+        return withRoute(tables, item)
+      }, true)
+    },
+
+    async deleteTrainingPlanItem(itemId) {
+      return run(`Delete training plan item ${itemId}`, tables => {
+        const item = tables.training_plan_items.find(candidate => candidate.id === itemId)
+        if (!item || !ownPlan(tables, item.plan_id)) return null
+
+        tables.training_plan_items = tables.training_plan_items.filter(candidate => candidate.id !== itemId)
+        return null
+      }, true)
+    },
+
+    // Achievements
+    async getUserAchievements(userId) {
+      return run(`Get achievements for user ${userId}`, tables =>
+        tables.user_achievements
+          .filter(achievement => achievement.user_id === userId && userId === currentUserId())
+          .sort(byNewest('unlocked_at')))
+    },
+
+    async unlockAchievements(userId, achievementIds) {
+      return run(`Unlock achievements for user ${userId}`, tables => {
+        requireUser(userId)
+        const unlocked = new Set(
+          tables.user_achievements.filter(item => item.user_id === userId).map(item => item.achievement_id)
+        )
+
+        // ignoreDuplicates: only newly inserted rows come back
+        const created = [...new Set(achievementIds)]
+          .filter(achievementId => !unlocked.has(achievementId))
+          .map(achievementId => ({
+            id: newId(),
+            user_id: userId,
+            achievement_id: achievementId,
+            unlocked_at: timestamp(),
+            seen_at: null
+          }))
+        tables.user_achievements.push(...created)
+        return created
+      }, true)
+    },
+
+    async markAchievementsSeen(userId) {
+      return run(`Mark achievements seen for user ${userId}`, tables => {
+        requireUser(userId)
+        const seenAt = timestamp()
+        tables.user_achievements
+          .filter(item => item.user_id === userId && !item.seen_at)
+          .forEach(item => { item.seen_at = seenAt })
+        return null
+      }, true)
+    },
+
+    // Statistics
+    async getUserStats(userId) {
+      return run(`Get stats for user ${userId}`, tables => {
+        requireUser(userId)
+        return computeUserStats(tables, userId)
+      })
+    },
+
+    // Procrastination Routes
+    async getUserProcrastinationRoutes(userId) {
+      return run(`Get procrastination routes for user ${userId}`, tables =>
+        tables.saved_procrastination_routes
+          .filter(route => route.user_id === userId && route.is_active && userId === currentUserId())
+          .sort(byNewest('created_at')))
+    },
+
+    async saveProcrastinationRoute(userId, originalTask, routeSteps, seed, timeBudgetMinutes, title) {
+      return run(`Save procrastination route for user ${userId}`, tables => {
+        requireUser(userId)
+        const created: SavedProcrastinationRoute = {
+          id: newId(),
+          user_id: userId,
+          original_task: originalTask,
+          title: title ?? null,
+          route_steps: routeSteps,
+          seed,
+          time_budget_minutes: timeBudgetMinutes,
+          status: 'active',
+          created_at: timestamp(),
+          completed_at: null,
+          notes: '',
+          is_active: true
+        }
+        syncProcrastinationStatus(created, [])
+        tables.saved_procrastination_routes.push(created)
+        return created
+      }, true)
+    },
+
+    async updateProcrastinationRoute(routeId, updates) {
+      return run(`Update procrastination route ${routeId}`, tables => {
+        const route = ownRow(tables.saved_procrastination_routes, routeId, 'Procrastination route')
+        const previousSteps = route.route_steps
+        Object.assign(route, updates, { id: route.id, user_id: route.user_id })
+        if (updates.route_steps) syncProcrastinationStatus(route, previousSteps)
+        return { ...route }
+      }, true)
+    },
+
+    async deleteProcrastinationRoute(routeId) {
+      return run(`Delete procrastination route ${routeId}`, tables => {
+        const route = tables.saved_procrastination_routes.find(item =>
+          item.id === routeId && item.user_id === currentUserId())
+        if (route) route.is_active = false
+        return null
+      }, true)
+    },
+
+    // Procrastination Step Library
+    async getUserLibrarySteps(userId) {
+      return run(`Get library steps for user ${userId}`, tables =>
+        tables.procrastination_steps
+          .filter(step => step.user_id === userId && userId === currentUserId())
+          .sort(byNewest('created_at')))
+    },
+
+    async getCommunityLibrarySteps(userId, limit = 100) {
+      return run('Get community library steps', tables => {
+        if (!currentUserId()) return []
+        return tables.procrastination_steps
+          .filter(step => step.is_public && step.review_status === 'approved' && step.user_id !== userId)
+          .sort(byNewest('created_at'))
+          .slice(0, limit)
+      })
+    },
+
+    async createLibraryStep(userId, step) {
+      return run(`Create library step for user ${userId}`, tables => {
+        requireUser(userId)
+        const now = timestamp()
+        const created = checkLibraryStep({
+          ...step,
+          id: newId(),
+          user_id: userId,
+          review_status: 'pending',
+          created_at: now,
+          updated_at: now
+        })
+        tables.procrastination_steps.push(created)
+        return { ...created }
+      }, true)
+    },
+
+    async updateLibraryStep(stepId, updates) {
+      return run(`Update library step ${stepId}`, tables => {
+        const step = ownRow(tables.procrastination_steps, stepId, 'Library step')
+        const updated = checkLibraryStep({ ...step, ...updates })
+        Object.assign(step, updated, {
+          review_status: needsReview(step, updated) ? 'pending' : step.review_status,
+          updated_at: timestamp()
+        })
+        return { ...step }
+      }, true)
+    },
+
+    async deleteLibraryStep(stepId) {
+      return run(`Delete library step ${stepId}`, tables => {
+        tables.procrastination_steps = tables.procrastination_steps.filter(step =>
+          !(step.id === stepId && step.user_id === currentUserId()))
+        return null
+      }, true)
+    }
+  }
+}
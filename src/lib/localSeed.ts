@@ -0,0 +1,35 @@
+import type { FitnessRoute } from './supabase'
+import { computeDifficultyLevel } from '../utils/routeDifficulty'
+
+type SampleRoute = Pick<
+  FitnessRoute,
+  | 'name' | 'description' | 'distance' | 'duration_minutes' | 'route_type' | 'elevation_gain_meters'
+  | 'start_lat' | 'start_lon'
+>
+
+// The sample routes seeded by the migrations, with the climbing set in 20250703141020_amber_ridge
+// and the start points set in 20250711093044_far_beacon
+const SAMPLE_ROUTES: SampleRoute[] = [
+  { name: 'Central Park Loop', description: 'A scenic 6.1 mile loop through Central Park with rolling hills and beautiful views', distance: 6.10, duration_minutes: 45, route_type: 'running', elevation_gain_meters: 60, start_lat: 40.7812, start_lon: -73.9665 },
+  { name: 'Riverside Walk', description: 'Easy 2 mile walk along the peaceful riverside path perfect for beginners', distance: 2.00, duration_minutes: 30, route_type: 'walking', elevation_gain_meters: 10, start_lat: 40.8010, start_lon: -73.9720 },
+  { name: 'Mountain Trail Challenge', description: 'Challenging 8 mile trail run with steep climbs and rewarding summit views', distance: 8.00, duration_minutes: 75, route_type: 'trail-running', elevation_gain_meters: 450, start_lat: 41.3126, start_lon: -73.9887 },
+  { name: 'City Bike Tour', description: '12 mile cycling route through downtown with bike-friendly streets', distance: 12.00, duration_minutes: 50, route_type: 'cycling', elevation_gain_meters: 150, start_lat: 40.7128, start_lon: -74.0060 },
+  { name: 'Beach Boardwalk', description: 'Relaxing 3 mile walk along the scenic beach boardwalk', distance: 3.00, duration_minutes: 40, route_type: 'walking', elevation_gain_meters: 5, start_lat: 40.5755, start_lon: -73.9707 },
+  { name: 'Forest Trail', description: 'Moderate 5 mile hike through dense forest with wildlife viewing opportunities', distance: 5.00, duration_minutes: 60, route_type: 'hiking', elevation_gain_meters: 200, start_lat: 40.8721, start_lon: -73.9259 },
+  { name: 'Urban Run', description: 'Fast-paced 4 mile run through city streets with minimal elevation change', distance: 4.00, duration_minutes: 35, route_type: 'running', elevation_gain_meters: 20, start_lat: 40.7003, start_lon: -73.9967 },
+  { name: 'Hill Climb Challenge', description: 'Intense 3 mile cycling route with steep hill climbs for advanced riders', distance: 3.00, duration_minutes: 25, route_type: 'cycling', elevation_gain_meters: 300, start_lat: 40.8612, start_lon: -73.9615 }
+]
+
+// Stable ids so links to sample routes keep working across resets of the local data
+export function createSampleRoutes(now = new Date()): FitnessRoute[] {
+  return SAMPLE_ROUTES.map((route, index) => ({
+    ...route,
+    id: `00000000-0000-4000-8000-${String(index + 1).padStart(12, '0')}`,
+    difficulty_level: computeDifficultyLevel(route.distance, route.elevation_gain_meters, route.route_type),
+    created_by: null,
+    created_at: new Date(now.getTime() - index * 60 * 1000).toISOString(),
+    track_points: null,
+    rating_average: null,
+    rating_count: 0
+  }))
+}
@@ -0,0 +1,255 @@
+import type { ProcrastinationStep, SavedRoute } from './supabase'
+import type { LegacyProcrastinationStep } from '../utils/procrastinationEngine'
+import {
+  StoredMutation,
+  addQueuedMutation,
+  getQueuedMutations,
+  putQueuedMutation,
+  removeQueuedMutation
+} from './offlineStore'
+
+// Rows created while offline get a temporary id until the server assigns one
+export const OFFLINE_ID_PREFIX = 'offline-'
+
+export const createOfflineId = () => `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`
+
+export const isOfflineId = (id: string) => id.startsWith(OFFLINE_ID_PREFIX)
+
+export type QueuedMutation =
+  | {
+      kind: 'save-route'
+      queuedAt: string
+      userId: string
+      routeId: string
+      status: 'to-do' | 'favorite'
+      tempId: string
+    }
+  | {
+      kind: 'update-route-status'
+      queuedAt: string
+      savedRouteId: string
+      status: SavedRoute['status']
+      // Captured when queued so a replay doesn't record the sync time instead
+      completedAt: string | null
+    }
+  | {
+      kind: 'save-procrastination-route'
+      queuedAt: string
+      userId: string
+      originalTask: string
+      // Writes queued before durations were stored in minutes still carry legacy steps
+      routeSteps: (ProcrastinationStep | LegacyProcrastinationStep)[]
+      // Missing from writes queued before seeds were recorded
+      seed?: string | null
+      // Missing from writes queued before time budgets were recorded
+      timeBudgetMinutes?: number | null
+      title?: string
+      // The id the row is saved under; missing from writes queued before inserts were idempotent
+      rowId?: string
+      tempId: string
+    }
+
+export type MutationResult =
+  | { outcome: 'applied'; idMapping?: { tempId: string; id: string } }
+  // The server state rules the mutation out; it is dropped and reported
+  | { outcome: 'conflict'; reason: string }
+  // Transient failure; replay stops here and resumes on the next healthy check
+  | { outcome: 'retry' }
+  // The session was rejected; replay stops here and resumes once the user signs in again
+  | { outcome: 'hold' }
+
+// Queued rows remember who made them, so they only replay for that user
+type OwnedMutation = QueuedMutation & {
+  // Missing from rows queued before the queue was kept per user
+  ownerId?: string
+}
+
+const ownerOf = (mutation: OwnedMutation) =>
+  mutation.ownerId ?? ('userId' in mutation ? mutation.userId : undefined)
+
+export type SyncConflict = {
+  mutation: QueuedMutation
+  reason: string
+  detectedAt: string
+}
+
+export type SyncState = {
+  pending: number
+  syncing: boolean
+  conflicts: SyncConflict[]
+  lastSyncedAt: Date | null
+  // Replay hit an expired or rejected session and waits for the user to sign in again
+  waitingForSignIn: boolean
+}
+
+type MutationExecutor = (mutation: QueuedMutation) => Promise<MutationResult>
+
+// Writes made while offline, replayed in order once Supabase is reachable again
+export class OfflineMutationQueue {
+  private static instance: OfflineMutationQueue
+  private executor: MutationExecutor | null = null
+  private userId: string | null = null
+  private waitingForSignIn = false
+  private pending = 0
+  private syncing = false
+  private conflicts: SyncConflict[] = []
+  private lastSyncedAt: Date | null = null
+  private listeners: Set<(state: SyncState) => void> = new Set()
+  private ready: Promise<void>
+
+  private constructor() {
+    this.ready = this.refreshPendingCount()
+  }
+
+  static getInstance(): OfflineMutationQueue {
+    if (!OfflineMutationQueue.instance) {
+      OfflineMutationQueue.instance = new OfflineMutationQueue()
+    }
+    return OfflineMutationQueue.instance
+  }
+
+  // The data layer supplies how each mutation kind is sent to the server
+  setExecutor(executor: MutationExecutor) {
+    this.executor = executor
+  }
+
+  // Only the signed-in user's writes are counted and replayed; a new session also
+  // lifts a hold left by a rejected one
+  setUser(userId: string | null): Promise<void> {
+    if (userId !== this.userId) {
+      this.userId = userId
+      this.conflicts = []
+      this.ready = this.refreshPendingCount()
+    }
+    this.waitingForSignIn = false
+    this.notifyListeners()
+    return this.ready
+  }
+
+  // New writes must queue behind pending ones or they would overtake them
+  async hasPending(): Promise<boolean> {
+    await this.ready
+    return this.pending > 0
+  }
+
+  async enqueue(mutation: QueuedMutation): Promise<void> {
+    await this.ready
+    if (!this.userId) throw new Error('Changes can only be queued while signed in')
+    await addQueuedMutation<OwnedMutation>({ ...mutation, ownerId: this.userId })
+    this.pending++
+    console.log(`📥 Queued offline change: ${mutation.kind} (${this.pending} pending)`)
+    this.notifyListeners()
+  }
+
+  async replay(): Promise<void> {
+    if (this.syncing || !this.executor || this.waitingForSignIn) return
+    await this.ready
+    if (this.pending === 0) return
+
+    this.syncing = true
+    this.notifyListeners()
+
+    try {
+      const queue = await this.getOwnMutations()
+
+      for (let index = 0; index < queue.length; index++) {
+        const mutation = queue[index]
+        const result = await this.executor(mutation)
+
+        if (result.outcome === 'retry') {
+          console.warn(`⚠️ Replay of ${mutation.kind} failed, will retry later`)
+          break
+        }
+
+        if (result.outcome === 'hold') {
+          console.warn(`⚠️ Replay of ${mutation.kind} was refused, waiting for the user to sign in again`)
+          this.waitingForSignIn = true
+          break
+        }
+
+        if (result.outcome === 'conflict') {
+          console.warn(`⚠️ Dropped conflicting ${mutation.kind}: ${result.reason}`)
+          this.conflicts = [...this.conflicts, { mutation, reason: result.reason, detectedAt: new Date().toISOString() }]
+        }
+
+        if (result.outcome === 'applied' && result.idMapping) {
+          await this.remapTemporaryId(queue.slice(index + 1), result.idMapping)
+        }
+
+        await removeQueuedMutation(mutation.id)
+        this.pending = Math.max(0, this.pending - 1)
+        this.notifyListeners()
+      }
+
+      this.lastSyncedAt = new Date()
+    } catch (error) {
+      console.error('💥 Offline queue replay failed:', error)
+    } finally {
+      this.syncing = false
+      await this.refreshPendingCount()
+      this.notifyListeners()
+    }
+  }
+
+  dismissConflicts() {
+    this.conflicts = []
+    this.notifyListeners()
+  }
+
+  getState(): SyncState {
+    return {
+      pending: this.pending,
+      syncing: this.syncing,
+      conflicts: this.conflicts,
+      lastSyncedAt: this.lastSyncedAt,
+      waitingForSignIn: this.waitingForSignIn
+    }
+  }
+
+  addListener(callback: (state: SyncState) => void): () => void {
+    this.listeners.add(callback)
+    return () => this.listeners.delete(callback)
+  }
+
+  // Later mutations may still point at a row by its temporary id
+  private async remapTemporaryId(
+    remaining: StoredMutation<QueuedMutation>[],
+    { tempId, id }: { tempId: string; id: string }
+  ) {
+    for (const mutation of remaining) {
+      if (mutation.kind === 'update-route-status' && mutation.savedRouteId === tempId) {
+        mutation.savedRouteId = id
+        await putQueuedMutation(mutation)
+      }
+    }
+  }
+
+  // Rows of unknown owner replay for anyone; row-level security still guards them
+  private async getOwnMutations(): Promise<StoredMutation<OwnedMutation>[]> {
+    if (!this.userId) return []
+    const queue = await getQueuedMutations<OwnedMutation>()
+    return queue.filter(mutation => {
+      const owner = ownerOf(mutation)
+      return !owner || owner === this.userId
+    })
+  }
+
+  private async refreshPendingCount() {
+    try {
+      this.pending = (await this.getOwnMutations()).length
+    } catch (error) {
+      console.error('Error reading offline queue:', error)
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState()
+    this.listeners.forEach(callback => {
+      try {
+        callback(state)
+      } catch (error) {
+        console.error('Error in offline queue listener:', error)
+      }
+    })
+  }
+}
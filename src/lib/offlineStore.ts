@@ -0,0 +1,179 @@
+// Persistent storage for offline support: a read cache of query results and
+// the queue of writes made while offline, plus the tables of the local backend.
+// Backed by IndexedDB, with an in-memory fallback for browsers where it is
+// unavailable (e.g. private mode).
+
+const DB_NAME = 'strong-strong-offline'
+const DB_VERSION = 2
+const CACHE_STORE = 'query_cache'
+const QUEUE_STORE = 'mutation_queue'
+const LOCAL_BACKEND_STORE = 'local_backend'
+const LOCAL_SNAPSHOT_KEY = 'tables'
+
+export type CachedEntry<T> = {
+  key: string
+  data: T
+  cachedAt: string
+}
+
+// Stored queue rows get an auto-incremented id, which also fixes replay order
+export type StoredMutation<T> = T & { id: number }
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+const memoryCache = new Map<string, CachedEntry<unknown>>()
+const memoryQueue = new Map<number, StoredMutation<unknown>>()
+let memoryQueueId = 0
+let memorySnapshot: unknown = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' })
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true })
+        }
+        if (!db.objectStoreNames.contains(LOCAL_BACKEND_STORE)) {
+          db.createObjectStore(LOCAL_BACKEND_STORE)
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn('⚠️ IndexedDB unavailable, offline data will not persist:', request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase()
+  if (!db) return null
+  return requestToPromise(operation(db.transaction(storeName, mode).objectStore(storeName)))
+}
+
+// Query cache
+
+export async function getCached<T>(key: string): Promise<CachedEntry<T> | null> {
+  const db = await openDatabase()
+  if (!db) return (memoryCache.get(key) as CachedEntry<T> | undefined) ?? null
+
+  const entry = await withStore<CachedEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key))
+  return entry ?? null
+}
+
+export async function setCached<T>(key: string, data: T): Promise<void> {
+  const entry: CachedEntry<T> = { key, data, cachedAt: new Date().toISOString() }
+  const db = await openDatabase()
+
+  if (!db) {
+    memoryCache.set(key, entry)
+    return
+  }
+  await withStore(CACHE_STORE, 'readwrite', store => store.put(entry))
+}
+
+// Patches a cached value in place, e.g. to show a queued write before it syncs
+export async function updateCached<T>(key: string, updater: (data: T) => T): Promise<void> {
+  const entry = await getCached<T>(key)
+  if (entry) await setCached(key, updater(entry.data))
+}
+
+// Patches every cached value whose key starts with the prefix, e.g. all saved route lists
+export async function updateCachedByPrefix<T>(prefix: string, updater: (data: T) => T): Promise<void> {
+  const db = await openDatabase()
+  const entries = db
+    ? await withStore<CachedEntry<T>[]>(CACHE_STORE, 'readonly', store =>
+        store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+    : [...memoryCache.values()].filter(entry => entry.key.startsWith(prefix)) as CachedEntry<T>[]
+
+  for (const entry of entries ?? []) {
+    await setCached(entry.key, updater(entry.data))
+  }
+}
+
+// Mutation queue
+
+export async function addQueuedMutation<T extends object>(mutation: T): Promise<StoredMutation<T>> {
+  const db = await openDatabase()
+
+  if (!db) {
+    const stored = { ...mutation, id: ++memoryQueueId }
+    memoryQueue.set(stored.id, stored)
+    return stored
+  }
+
+  const id = await withStore(QUEUE_STORE, 'readwrite', store => store.add(mutation))
+  return { ...mutation, id: Number(id) }
+}
+
+export async function getQueuedMutations<T>(): Promise<StoredMutation<T>[]> {
+  const db = await openDatabase()
+  if (!db) return [...memoryQueue.values()] as StoredMutation<T>[]
+
+  const rows = await withStore<StoredMutation<T>[]>(QUEUE_STORE, 'readonly', store => store.getAll())
+  return (rows ?? []).sort((a, b) => a.id - b.id)
+}
+
+export async function putQueuedMutation<T>(mutation: StoredMutation<T>): Promise<void> {
+  const db = await openDatabase()
+
+  if (!db) {
+    memoryQueue.set(mutation.id, mutation)
+    return
+  }
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(mutation))
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  const db = await openDatabase()
+
+  if (!db) {
+    memoryQueue.delete(id)
+    return
+  }
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(id))
+}
+
+// Local backend
+
+export async function getLocalSnapshot<T>(): Promise<T | null> {
+  const db = await openDatabase()
+  if (!db) return memorySnapshot as T | null
+
+  const snapshot = await withStore<T | undefined>(LOCAL_BACKEND_STORE, 'readonly', store => store.get(LOCAL_SNAPSHOT_KEY))
+  return snapshot ?? null
+}
+
+export async function setLocalSnapshot<T>(snapshot: T): Promise<void> {
+  const db = await openDatabase()
+
+  if (!db) {
+    memorySnapshot = snapshot
+    return
+  }
+  await withStore(LOCAL_BACKEND_STORE, 'readwrite', store => store.put(snapshot, LOCAL_SNAPSHOT_KEY))
+}
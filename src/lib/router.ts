@@ -0,0 +1,124 @@
+// Path-based routing on top of the History API. The host rewrites every path
+// to index.html (public/_redirects, netlify.toml), so any of these can be
+// loaded directly or bookmarked.
+
+export type PageId =
+  | 'home'
+  | 'routes'
+  | 'saved'
+  | 'route-detail'
+  | 'training'
+  | 'calendar'
+  | 'procrastination'
+  | 'procrastination-seed'
+  | 'procrastination-seed-budget'
+  | 'procrastination-library'
+  | 'saved-procrastination'
+  | 'saved-procrastination-detail'
+  | 'profile'
+  | 'badge-examples'
+  | 'debug-signout'
+  | 'auth-cleaner'
+  | 'debug-rest-api'
+  | 'not-found'
+
+export type RouteParams = Record<string, string>
+
+export type RouteDefinition = {
+  page: PageId
+  // Segments starting with ":" capture a parameter, e.g. /routes/:id
+  pattern: string
+  title: string
+  requiresAuth?: boolean
+}
+
+export type RouteMatch = {
+  route: RouteDefinition
+  params: RouteParams
+}
+
+export const APP_NAME = 'Strong Strong'
+
+// Order matters: literal paths must come before parameterised siblings
+export const ROUTES: RouteDefinition[] = [
+  { page: 'home', pattern: '/', title: 'Your Fitness Journey Starts Here' },
+  { page: 'routes', pattern: '/routes', title: 'Fitness Routes' },
+  { page: 'saved', pattern: '/routes/saved', title: 'My Fitness Routes', requiresAuth: true },
+  { page: 'route-detail', pattern: '/routes/:id', title: 'Route Details' },
+  { page: 'training', pattern: '/training', title: 'Training Plans', requiresAuth: true },
+  { page: 'calendar', pattern: '/calendar', title: 'Calendar', requiresAuth: true },
+  { page: 'procrastination', pattern: '/procrastination', title: 'Procrastination Planner' },
+  // Regenerates a route from its task and seed, for sharing
+  { page: 'procrastination-seed', pattern: '/procrastination/seed/:seed/:task', title: 'Procrastination Planner' },
+  // The same, for a route generated to fill a time budget in minutes
+  {
+    page: 'procrastination-seed-budget',
+    pattern: '/procrastination/seed/:seed/budget/:budget/:task',
+    title: 'Procrastination Planner'
+  },
+  { page: 'procrastination-library', pattern: '/procrastination/library', title: 'Step Library', requiresAuth: true },
+  { page: 'saved-procrastination', pattern: '/procrastination/saved', title: 'My Procrastination Routes', requiresAuth: true },
+  {
+    page: 'saved-procrastination-detail',
+    pattern: '/procrastination/saved/:id',
+    title: 'Procrastination Route',
+    requiresAuth: true
+  },
+  { page: 'profile', pattern: '/profile', title: 'Profile', requiresAuth: true },
+  { page: 'badge-examples', pattern: '/badges', title: 'Badge Examples' },
+  { page: 'debug-signout', pattern: '/debug/sign-out', title: 'Debug Sign-out' },
+  { page: 'auth-cleaner', pattern: '/debug/auth-cleaner', title: 'Clear Auth Data' },
+  { page: 'debug-rest-api', pattern: '/debug/rest-api', title: 'Debug REST API' }
+]
+
+const NOT_FOUND_ROUTE: RouteDefinition = { page: 'not-found', pattern: '*', title: 'Page Not Found' }
+
+const splitPath = (path: string) => path.split('/').filter(Boolean)
+
+// Malformed escapes such as "%E0" make a segment unreadable rather than throwing
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+export function matchPath(pathname: string): RouteMatch {
+  const segments = splitPath(pathname)
+
+  for (const route of ROUTES) {
+    const patternSegments = splitPath(route.pattern)
+    if (patternSegments.length !== segments.length) continue
+
+    const params: RouteParams = {}
+    const matches = patternSegments.every((patternSegment, index) => {
+      if (patternSegment.startsWith(':')) {
+        const value = decodeSegment(segments[index])
+        if (value === null) return false
+        params[patternSegment.slice(1)] = value
+        return true
+      }
+      return patternSegment === segments[index]
+    })
+
+    if (matches) return { route, params }
+  }
+
+  return { route: NOT_FOUND_ROUTE, params: {} }
+}
+
+// buildPath('route-detail', { id }) -> "/routes/<id>"
+export function buildPath(page: PageId, params: RouteParams = {}): string {
+  const route = ROUTES.find(candidate => candidate.page === page)
+  if (!route) return '/'
+
+  return route.pattern.replace(/:([A-Za-z]+)/g, (_, name: string) => {
+    if (!(name in params)) throw new Error(`Missing "${name}" parameter for ${page}`)
+    return encodeURIComponent(params[name])
+  })
+}
+
+export function getDocumentTitle(route: RouteDefinition): string {
+  return route.page === 'home' ? `${APP_NAME} - ${route.title}` : `${route.title} | ${APP_NAME}`
+}
@@ -0,0 +1,388 @@
+import type {
+  FitnessRoute,
+  FitnessRouteInput,
+  ProcrastinationLibraryStep,
+  ProcrastinationLibraryStepInput,
+  ProcrastinationStep,
+  Profile,
+  RouteCollection,
+  RouteCollectionInput,
+  RouteCollectionItem,
+  RouteCursor,
+  RouteQuery,
+  RouteReview,
+  RouteReviewInput,
+  RouteSort,
+  SavedProcrastinationRoute,
+  SavedRoute,
+  StatsPeriod,
+  TrackPoint,
+  UserAchievement,
+  TrainingPlan,
+  TrainingPlanInput,
+  TrainingPlanItem,
+  TrainingPlanItemInput,
+  UserGoal,
+  UserGoalInput,
+  UserStats,
+  WorkoutLog,
+  WorkoutLogInput
+} from './supabase'
+import {
+  Shape,
+  array,
+  boolean,
+  either,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  partial,
+  record,
+  string,
+  timestamp
+} from './validation'
+import { ROUTE_LIMITS, ROUTE_TYPES } from '../utils/routeValidation'
+import { PLAN_LIMITS } from '../utils/trainingPlans'
+import { SEED_MAX_LENGTH } from '../utils/random'
+import { LIBRARY_STEP_LIMITS, STEP_MAX_MINUTES, TIME_BUDGET_MAX_MINUTES } from '../utils/procrastinationEngine'
+
+// Schemas for every row the data layer returns and every payload it accepts.
+// Shape<T> makes the compiler flag a schema that falls behind its type; the
+// ranges mirror the CHECK constraints in supabase/migrations.
+
+const id = string({ minLength: 1 })
+// YYYY-MM-DD
+const calendarDate = string({ pattern: /^\d{4}-\d{2}-\d{2}$/ })
+
+const difficultyLevel = oneOf<FitnessRoute['difficulty_level']>(['beginner', 'intermediate', 'advanced'])
+const routeType = oneOf(ROUTE_TYPES)
+export const savedRouteStatus = oneOf<SavedRoute['status']>(['to-do', 'completed', 'favorite'])
+
+// Profiles
+
+const profileShape: Shape<Profile> = {
+  id,
+  username: nullable(string()),
+  full_name: nullable(string()),
+  avatar_url: nullable(string()),
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp())
+}
+
+export const profileSchema = object(profileShape)
+export const profileUpdateSchema = partial(profileShape)
+
+// Fitness Routes
+
+const trackPointSchema = object<TrackPoint>({
+  lat: number({ min: -90, max: 90 }),
+  lon: number({ min: -180, max: 180 }),
+  ele: optional(nullable(number()))
+})
+
+export const trackSchema = array(trackPointSchema)
+
+const fitnessRouteInputShape: Shape<FitnessRouteInput> = {
+  name: string({ minLength: 1, maxLength: ROUTE_LIMITS.nameMaxLength }),
+  description: nullable(string({ maxLength: ROUTE_LIMITS.descriptionMaxLength })),
+  route_type: routeType,
+  distance: number({ min: 0, max: ROUTE_LIMITS.maxDistance }),
+  duration_minutes: nullable(number({ min: 0, max: ROUTE_LIMITS.maxDurationMinutes })),
+  elevation_gain_meters: number({ min: 0, max: ROUTE_LIMITS.maxElevationGainMeters }),
+  track_points: nullable(trackSchema),
+  start_lat: nullable(number({ min: -90, max: 90 })),
+  start_lon: nullable(number({ min: -180, max: 180 }))
+}
+
+export const fitnessRouteInputSchema = object(fitnessRouteInputShape)
+export const fitnessRouteUpdateSchema = partial(fitnessRouteInputShape)
+
+export const fitnessRouteSchema = object<FitnessRoute>({
+  ...fitnessRouteInputShape,
+  id,
+  difficulty_level: difficultyLevel,
+  created_by: nullable(id),
+  created_at: nullable(timestamp()),
+  rating_average: nullable(number({ min: 1, max: 5 })),
+  rating_count: number({ min: 0, integer: true })
+})
+
+const routeSort = oneOf<RouteSort>(['name', 'distance', 'difficulty', 'date', 'nearest', 'rating'])
+
+export const routeQuerySchema = object<RouteQuery>({
+  search: optional(string({ maxLength: 200 })),
+  routeTypes: optional(array(routeType)),
+  difficulties: optional(array(difficultyLevel)),
+  minDistance: optional(number({ min: 0 })),
+  maxDistance: optional(number({ min: 0 })),
+  minDuration: optional(number({ min: 0 })),
+  maxDuration: optional(number({ min: 0 })),
+  savedStatus: optional(oneOf(['saved', 'completed', 'favorite'])),
+  near: optional(object({
+    lat: number({ min: -90, max: 90 }),
+    lon: number({ min: -180, max: 180 }),
+    radiusKm: number({ min: 0, max: 20000 })
+  })),
+  sortBy: routeSort
+})
+
+export const routeCursorSchema = object<RouteCursor>({
+  sortBy: routeSort,
+  value: either(string(), number()),
+  id
+})
+
+// Route Reviews
+
+const routeReviewInputShape: Shape<RouteReviewInput> = {
+  rating: number({ min: 1, max: 5, integer: true }),
+  body: nullable(string({ maxLength: ROUTE_LIMITS.reviewMaxLength }))
+}
+
+export const routeReviewInputSchema = object(routeReviewInputShape)
+
+export const routeReviewSchema = object<RouteReview>({
+  ...routeReviewInputShape,
+  id,
+  route_id: id,
+  user_id: id,
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp()),
+  profiles: optional(nullable(object({
+    username: nullable(string()),
+    full_name: nullable(string())
+  })))
+})
+
+// Route Collections
+
+export const collectionNameSchema = string({ minLength: 1, maxLength: ROUTE_LIMITS.collectionNameMaxLength })
+
+const routeCollectionInputShape: Shape<RouteCollectionInput> = {
+  name: collectionNameSchema,
+  description: nullable(string({ maxLength: ROUTE_LIMITS.descriptionMaxLength })),
+  is_public: boolean()
+}
+
+export const routeCollectionInputSchema = object(routeCollectionInputShape)
+export const routeCollectionUpdateSchema = partial(routeCollectionInputShape)
+
+export const routeCollectionItemSchema = object<RouteCollectionItem>({
+  id,
+  collection_id: id,
+  route_id: id,
+  position: number({ min: 0, integer: true }),
+  added_at: nullable(timestamp()),
+  fitness_routes: optional(nullable(fitnessRouteSchema))
+})
+
+export const routeCollectionSchema = object<RouteCollection>({
+  ...routeCollectionInputShape,
+  id,
+  user_id: id,
+  copied_from: nullable(id),
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp()),
+  route_collection_items: optional(array(routeCollectionItemSchema)),
+  profiles: optional(nullable(object({
+    username: nullable(string()),
+    full_name: nullable(string())
+  })))
+})
+
+export const routeIdsSchema = array(id)
+
+// Saved Routes
+
+export const savedRouteSchema = object<SavedRoute>({
+  id,
+  user_id: id,
+  route_id: id,
+  status: savedRouteStatus,
+  saved_at: nullable(timestamp()),
+  completed_at: nullable(timestamp()),
+  notes: nullable(string({ maxLength: ROUTE_LIMITS.notesMaxLength })),
+  fitness_routes: optional(nullable(fitnessRouteSchema))
+})
+
+export const routeNotesSchema = string({ maxLength: ROUTE_LIMITS.notesMaxLength })
+
+// Workout Log
+
+const workoutLogInputShape: Shape<WorkoutLogInput> = {
+  route_id: id,
+  completed_at: timestamp(),
+  elapsed_seconds: number({ min: 1, max: 172800 }),
+  distance: number({ min: 0, max: ROUTE_LIMITS.maxDistance }),
+  perceived_effort: nullable(number({ min: 1, max: 10, integer: true })),
+  notes: nullable(string())
+}
+
+export const workoutLogInputSchema = object(workoutLogInputShape)
+
+export const workoutLogSchema = object<WorkoutLog>({
+  ...workoutLogInputShape,
+  id,
+  user_id: id,
+  route_id: nullable(id),
+  route_name: nullable(string()),
+  route_type: nullable(routeType),
+  created_at: nullable(timestamp()),
+  fitness_routes: optional(nullable(fitnessRouteSchema))
+})
+
+// Goals
+
+const userGoalInputShape: Shape<UserGoalInput> = {
+  metric: oneOf<UserGoal['metric']>(['distance', 'workouts', 'duration']),
+  period: oneOf<UserGoal['period']>(['week', 'month']),
+  target: number({ min: 0, max: 100000 }),
+  route_type: nullable(routeType)
+}
+
+export const userGoalInputSchema = object(userGoalInputShape)
+export const userGoalUpdateSchema = partial(userGoalInputShape)
+
+export const userGoalSchema = object<UserGoal>({
+  ...userGoalInputShape,
+  id,
+  user_id: id,
+  is_active: nullable(boolean()),
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp())
+})
+
+// Training Plans
+
+const trainingPlanInputShape: Shape<TrainingPlanInput> = {
+  name: string({ minLength: 1, maxLength: PLAN_LIMITS.nameMaxLength }),
+  description: nullable(string({ maxLength: PLAN_LIMITS.descriptionMaxLength })),
+  start_date: calendarDate,
+  is_active: boolean()
+}
+
+export const trainingPlanInputSchema = object(trainingPlanInputShape)
+export const trainingPlanUpdateSchema = partial(trainingPlanInputShape)
+
+const trainingPlanItemInputShape: Shape<TrainingPlanItemInput> = {
+  route_id: id,
+  day_offset: number({ min: 0, max: PLAN_LIMITS.maxDays - 1, integer: true }),
+  position: number({ min: 0, integer: true }),
+  target_duration_minutes: nullable(number({ min: 0, max: PLAN_LIMITS.maxTargetDurationMinutes })),
+  target_pace_minutes_per_mile: nullable(number({ min: 0, max: PLAN_LIMITS.maxTargetPace })),
+  notes: nullable(string({ maxLength: PLAN_LIMITS.notesMaxLength }))
+}
+
+export const trainingPlanItemInputSchema = object(trainingPlanItemInputShape)
+export const trainingPlanItemUpdateSchema = partial(trainingPlanItemInputShape)
+
+export const trainingPlanItemSchema = object<TrainingPlanItem>({
+  ...trainingPlanItemInputShape,
+  id,
+  plan_id: id,
+  route_id: nullable(id),
+  route_name: nullable(string()),
+  created_at: nullable(timestamp()),
+  fitness_routes: optional(nullable(fitnessRouteSchema))
+})
+
+export const trainingPlanSchema = object<TrainingPlan>({
+  ...trainingPlanInputShape,
+  id,
+  user_id: id,
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp()),
+  training_plan_items: optional(array(trainingPlanItemSchema))
+})
+
+// Achievements
+
+const achievementId = string({ pattern: /^[a-z0-9-]{1,64}$/ })
+
+export const achievementIdsSchema = array(achievementId)
+
+export const userAchievementSchema = object<UserAchievement>({
+  id,
+  user_id: id,
+  achievement_id: achievementId,
+  unlocked_at: timestamp(),
+  seen_at: nullable(timestamp())
+})
+
+// Statistics
+
+const statsPeriodSchema = object<StatsPeriod>({
+  period_start: calendarDate,
+  workouts: number({ min: 0 }),
+  distance: number({ min: 0 })
+})
+
+export const userStatsSchema = object<UserStats>({
+  routes_completed: number({ min: 0 }),
+  routes_saved: number({ min: 0 }),
+  workouts: number({ min: 0 }),
+  total_distance: number({ min: 0 }),
+  total_elapsed_seconds: number({ min: 0 }),
+  days_active: number({ min: 0 }),
+  distance_by_route_type: record(ROUTE_TYPES, number({ min: 0 })),
+  weekly: array(statsPeriodSchema),
+  monthly: array(statsPeriodSchema)
+})
+
+// Procrastination Routes
+
+const stepMinutesSchema = number({ min: 1, max: STEP_MAX_MINUTES, integer: true })
+
+export const procrastinationStepSchema = object<ProcrastinationStep>({
+  name: string(),
+  description: string(),
+  timeInvestmentMinutes: stepMinutesSchema,
+  benefit: string(),
+  completedAt: optional(nullable(timestamp()))
+})
+
+export const procrastinationStepsSchema = array(procrastinationStepSchema)
+export const procrastinationSeedSchema = nullable(string({ minLength: 1, maxLength: SEED_MAX_LENGTH }))
+export const timeBudgetMinutesSchema = nullable(number({ min: 1, max: TIME_BUDGET_MAX_MINUTES, integer: true }))
+
+const savedProcrastinationRouteShape: Shape<SavedProcrastinationRoute> = {
+  id,
+  user_id: id,
+  original_task: string(),
+  route_steps: procrastinationStepsSchema,
+  seed: procrastinationSeedSchema,
+  time_budget_minutes: timeBudgetMinutesSchema,
+  title: nullable(string()),
+  notes: nullable(string()),
+  status: nullable(oneOf(['active', 'completed', 'archived'])),
+  is_active: nullable(boolean()),
+  created_at: nullable(timestamp()),
+  completed_at: nullable(timestamp())
+}
+
+export const savedProcrastinationRouteSchema = object(savedProcrastinationRouteShape)
+export const savedProcrastinationRouteUpdateSchema = partial(savedProcrastinationRouteShape)
+
+// Procrastination Step Library
+
+const libraryStepInputShape: Shape<ProcrastinationLibraryStepInput> = {
+  name: string({ minLength: 1, maxLength: LIBRARY_STEP_LIMITS.nameMaxLength }),
+  description: string({ minLength: 1, maxLength: LIBRARY_STEP_LIMITS.descriptionMaxLength }),
+  time_investment_minutes: stepMinutesSchema,
+  benefit: string({ minLength: 1, maxLength: LIBRARY_STEP_LIMITS.benefitMaxLength }),
+  is_public: boolean()
+}
+
+export const libraryStepInputSchema = object(libraryStepInputShape)
+export const libraryStepUpdateSchema = partial(libraryStepInputShape)
+
+export const libraryStepSchema = object<ProcrastinationLibraryStep>({
+  ...libraryStepInputShape,
+  id,
+  user_id: id,
+  review_status: oneOf(['pending', 'approved', 'rejected']),
+  created_at: nullable(timestamp()),
+  updated_at: nullable(timestamp())
+})
@@ -1,78 +1,54 @@
-import { createClient } from '@supabase/supabase-js'
-
-// Enhanced environment variable validation
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-// Comprehensive validation
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('❌ Missing Supabase Environment Variables:', {
-    url: supabaseUrl ? '✅ Present' : '❌ Missing',
-    key: supabaseAnonKey ? '✅ Present' : '❌ Missing'
-  })
-  throw new Error(
-    'Missing Supabase environment variables. Please check your .env file contains:\n' +
-    'VITE_SUPABASE_URL=your-project-url\n' +
-    'VITE_SUPABASE_ANON_KEY=your-anon-key'
-  )
-}
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+import type { Database as GeneratedDatabase } from './database.types'
+import { getCached, setCached } from './offlineStore'
+import { dataBackend, supabaseAnonKey, supabaseUrl } from './config'
+import { SupabaseError, ValidationError } from './errors'
 
-// Validate URL format
-try {
-  const url = new URL(supabaseUrl)
-  if (!url.hostname.includes('supabase.co')) {
-    console.warn('⚠️ Unusual Supabase URL format:', supabaseUrl)
-  }
-} catch (error) {
-  throw new Error(`Invalid Supabase URL format: ${supabaseUrl}`)
-}
+export { SupabaseError, NetworkError } from './errors'
 
-// Enhanced Supabase client with better configuration
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: true,
-    autoRefreshToken: true,
-    detectSessionInUrl: true,
-    flowType: 'pkce' // More secure auth flow
-  },
-  global: {
-    headers: {
-      'X-Client-Info': 'strong-strong-fitness@1.0.0'
-    }
-  },
-  db: {
-    schema: 'public'
-  },
-  realtime: {
-    params: {
-      eventsPerSecond: 10
+// Validate URL format
+if (dataBackend === 'supabase' && supabaseUrl) {
+  try {
+    const url = new URL(supabaseUrl)
+    if (!url.hostname.includes('supabase.co')) {
+      console.warn('⚠️ Unusual Supabase URL format:', supabaseUrl)
     }
-  }
-})
-
-// Enhanced error handling
-export class SupabaseError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public details?: any,
-    public isRetryable: boolean = false
-  ) {
-    super(message)
-    this.name = 'SupabaseError'
+  } catch (error) {
+    throw new Error(`Invalid Supabase URL format: ${supabaseUrl}`)
   }
 }
 
-export class NetworkError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public statusCode?: number,
-    public isRetryable: boolean = true
-  ) {
-    super(message)
-    this.name = 'NetworkError'
+// Enhanced Supabase client with better configuration; null on the local backend
+export const supabase: SupabaseClient<Database> | null = dataBackend === 'supabase' && supabaseUrl && supabaseAnonKey
+  ? createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        persistSession: true,
+        autoRefreshToken: true,
+        detectSessionInUrl: true,
+        flowType: 'pkce' // More secure auth flow
+      },
+      global: {
+        headers: {
+          'X-Client-Info': 'strong-strong-fitness@1.0.0'
+        }
+      },
+      db: {
+        schema: 'public'
+      },
+      realtime: {
+        params: {
+          eventsPerSecond: 10
+        }
+      }
+    })
+  : null
+
+// Queries only run on the Supabase backend (lib/supabaseDatabase), where the client always exists
+export function getClient(): SupabaseClient<Database> {
+  if (!supabase) {
+    throw new SupabaseError('Supabase is not configured for this build.', 'CONFIG_ERROR')
   }
+  return supabase
 }
 
 // Connection health monitoring
@@ -90,6 +66,14 @@ export class SupabaseHealthMonitor {
   }
 
   async checkHealth(): Promise<boolean> {
+    // The local backend lives in the browser and is always reachable
+    if (!supabase) {
+      this.healthStatus = 'healthy'
+      this.lastHealthCheck = new Date()
+      this.notifyListeners(this.healthStatus)
+      return true
+    }
+
     try {
       const startTime = performance.now()
       
@@ -97,7 +81,7 @@ export class SupabaseHealthMonitor {
       const response = await fetch(`${supabaseUrl}/rest/v1/`, {
         method: 'HEAD',
         headers: {
-          'apikey': supabaseAnonKey,
+          'apikey': supabaseAnonKey ?? '',
           'Authorization': `Bearer ${supabaseAnonKey}`
         },
         signal: AbortSignal.timeout(10000) // 10 second timeout
@@ -123,6 +107,29 @@ export class SupabaseHealthMonitor {
     }
   }
 
+  // Browser online/offline events, ahead of the next health check
+  addListener(callback: (online: boolean) => void): () => void {
+    const handleOnline = () => callback(true)
+    const handleOffline = () => callback(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }
+
+  isOffline(): boolean {
+    return !navigator.onLine || this.healthStatus === 'down'
+  }
+
+  // A request that failed with a network error tells as much as a failed check
+  markDown(): void {
+    this.healthStatus = 'down'
+    this.lastHealthCheck = new Date()
+    this.notifyListeners(this.healthStatus)
+  }
+
   addHealthListener(callback: (status: string) => void): () => void {
     this.healthListeners.add(callback)
     return () => this.healthListeners.delete(callback)
@@ -148,7 +155,7 @@ export class SupabaseHealthMonitor {
 
 // Enhanced query wrapper with retry logic and better error handling
 export async function safeSupabaseQuery<T>(
-  queryFn: () => Promise<{ data: T | null; error: any }>,
+  queryFn: () => PromiseLike<{ data: T | null; error: PostgrestError | null }>,
   context: string,
   maxRetries: number = 3
 ): Promise<{ data: T | null; error: SupabaseError | null }> {
@@ -196,12 +203,74 @@ export async function safeSupabaseQuery<T>(
   return { data: null, error: finalError }
 }
 
+// Read-through cache: successful reads are stored in IndexedDB and served
+// from there while offline or when the network request fails
+export async function cachedQuery<T>(
+  cacheKey: string,
+  queryFn: () => PromiseLike<{ data: T | null; error: PostgrestError | null }>,
+  context: string,
+  maxRetries?: number
+): Promise<{ data: T | null; error: SupabaseError | null }> {
+  const readCache = async () => {
+    try {
+      return await getCached<T | null>(cacheKey)
+    } catch (error) {
+      console.warn(`⚠️ Cache read failed for ${cacheKey}:`, error)
+      return null
+    }
+  }
+
+  if (SupabaseHealthMonitor.getInstance().isOffline()) {
+    const cached = await readCache()
+    if (cached) {
+      console.log(`📦 ${context} served from offline cache (${cached.cachedAt})`)
+      return { data: cached.data, error: null }
+    }
+    return {
+      data: null,
+      error: new SupabaseError(
+        'You are offline and this data has not been cached yet.',
+        'OFFLINE_ERROR',
+        { cacheKey, context },
+        true
+      )
+    }
+  }
+
+  const result = await safeSupabaseQuery(queryFn, context, maxRetries)
+
+  if (!result.error) {
+    setCached(cacheKey, result.data).catch(error => console.warn(`⚠️ Cache write failed for ${cacheKey}:`, error))
+    return result
+  }
+
+  if (result.error.code === 'NETWORK_ERROR') {
+    const cached = await readCache()
+    if (cached) {
+      console.log(`📦 ${context} fell back to offline cache (${cached.cachedAt})`)
+      return { data: cached.data, error: null }
+    }
+  }
+
+  return result
+}
+
 // Enhanced error categorization
-function categorizeError(error: any, context: string): SupabaseError {
+export function categorizeError(error: any, context: string): SupabaseError {
   if (!error) {
     return new SupabaseError('Unknown error occurred', 'UNKNOWN_ERROR', { context })
   }
 
+  // Rows or payloads that failed a schema check from lib/schemas
+  if (error instanceof ValidationError) {
+    return new SupabaseError(
+      'Some data was malformed and has been rejected.',
+      'VALIDATION_ERROR',
+      { originalError: error.message, issues: error.issues, context },
+      false // Not retryable
+    )
+  }
+
   // Network-related errors
   if (error.message?.includes('Failed to fetch') || 
       error.message?.includes('ERR_NAME_NOT_RESOLVED') ||
@@ -247,6 +316,16 @@ function categorizeError(error: any, context: string): SupabaseError {
     )
   }
 
+  // Check constraint violations (e.g. fitness_routes_distance_check)
+  if (error.code === '23514') {
+    return new SupabaseError(
+      'Data failed validation. Please check the values you entered.',
+      'CONSTRAINT_ERROR',
+      { originalError: error.message, context },
+      false // Not retryable
+    )
+  }
+
   // Foreign key violations
   if (error.code === '23503') {
     return new SupabaseError(
@@ -276,213 +355,265 @@ function categorizeError(error: any, context: string): SupabaseError {
   )
 }
 
-// Enhanced type definitions with better constraints
-export type Profile = {
-  id: string
-  username: string | null
-  full_name: string | null
-  avatar_url: string | null
-  created_at: string
-  updated_at: string
+// Enhanced type definitions, derived from the migrations via lib/database.types.
+// The generated types leave CHECK-constrained text as string and jsonb as Json;
+// Database below narrows those columns, and the client is typed with the result.
+
+type RouteType = 'running' | 'walking' | 'cycling' | 'trail-running' | 'hiking'
+type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced'
+
+export type GoalMetric = 'distance' | 'workouts' | 'duration'
+export type GoalPeriod = 'week' | 'month'
+
+// A single GPS sample of a route track; elevation is in meters when present
+export type TrackPoint = {
+  lat: number
+  lon: number
+  ele?: number | null
 }
 
-export type FitnessRoute = {
-  id: string
+export type ProcrastinationStep = {
   name: string
   description: string
+  // Whole minutes, 1 to STEP_MAX_MINUTES
+  timeInvestmentMinutes: number
+  benefit: string
+  // When the step was ticked off on a saved route; absent or null while still to do
+  completedAt?: string | null
+}
+
+type StatsPeriod = {
+  period_start: string // YYYY-MM-DD in the requested time zone
+  workouts: number
   distance: number
-  difficulty_level: 'beginner' | 'intermediate' | 'advanced'
-  duration_minutes: number
-  route_type: 'running' | 'walking' | 'cycling' | 'trail-running' | 'hiking'
-  created_by: string | null
-  created_at: string
 }
 
-export type SavedRoute = {
-  id: string
-  user_id: string
-  route_id: string
-  status: 'to-do' | 'completed' | 'favorite'
-  saved_at: string
-  completed_at: string | null
-  notes: string
-  fitness_routes?: FitnessRoute
+// Shape of the jsonb document returned by get_user_stats()
+type UserStats = {
+  routes_completed: number
+  routes_saved: number
+  workouts: number
+  total_distance: number
+  total_elapsed_seconds: number
+  days_active: number
+  distance_by_route_type: Partial<Record<RouteType, number>>
+  weekly: StatsPeriod[]
+  monthly: StatsPeriod[]
 }
 
-export type ProcrastinationStep = {
-  name: string
-  description: string
-  timeInvestment: string
-  benefit: string
+// Replaces the types of the listed columns, keeping which ones are optional
+type Narrow<Columns, Refined> = {
+  [K in keyof Columns]: K extends keyof Refined ? Refined[K] : Columns[K]
+}
+
+type GeneratedSchema = GeneratedDatabase['public']
+type GeneratedTables = GeneratedSchema['Tables']
+
+type NarrowTable<Table extends GeneratedTables[keyof GeneratedTables], Refined> = {
+  Row: Narrow<Table['Row'], Refined>
+  Insert: Narrow<Table['Insert'], Refined>
+  Update: Narrow<Table['Update'], Refined>
+  Relationships: Table['Relationships']
+}
+
+type FitnessRoutesTable = NarrowTable<GeneratedTables['fitness_routes'], {
+  // Computed by the database from distance, elevation_gain_meters and route_type
+  difficulty_level: DifficultyLevel
+  route_type: RouteType
+  track_points: TrackPoint[] | null
+}>
+
+export type Database = {
+  public: {
+    Tables: {
+      profiles: GeneratedTables['profiles']
+      fitness_routes: FitnessRoutesTable
+      route_reviews: GeneratedTables['route_reviews']
+      route_collections: GeneratedTables['route_collections']
+      route_collection_items: GeneratedTables['route_collection_items']
+      saved_routes: NarrowTable<GeneratedTables['saved_routes'], {
+        status: 'to-do' | 'completed' | 'favorite'
+      }>
+      workout_logs: NarrowTable<GeneratedTables['workout_logs'], {
+        route_type: RouteType | null
+      }>
+      training_plans: GeneratedTables['training_plans']
+      training_plan_items: GeneratedTables['training_plan_items']
+      user_goals: NarrowTable<GeneratedTables['user_goals'], {
+        metric: GoalMetric
+        period: GoalPeriod
+        route_type: RouteType | null
+      }>
+      user_achievements: GeneratedTables['user_achievements']
+      saved_procrastination_routes: NarrowTable<GeneratedTables['saved_procrastination_routes'], {
+        status: 'active' | 'completed' | 'archived' | null
+        route_steps: ProcrastinationStep[]
+      }>
+      procrastination_steps: NarrowTable<GeneratedTables['procrastination_steps'], {
+        review_status: LibraryStepReviewStatus
+      }>
+    }
+    Views: GeneratedSchema['Views']
+    Functions: Narrow<GeneratedSchema['Functions'], {
+      get_user_stats: Narrow<GeneratedSchema['Functions']['get_user_stats'], { Returns: UserStats }>
+      search_fitness_routes: Narrow<GeneratedSchema['Functions']['search_fitness_routes'], {
+        Returns: (FitnessRoutesTable['Row'] & { start_distance_km: number | null })[]
+      }>
+      upsert_saved_route: Narrow<GeneratedSchema['Functions']['upsert_saved_route'], {
+        Args: Narrow<GeneratedSchema['Functions']['upsert_saved_route']['Args'], {
+          route_status: 'to-do' | 'completed' | 'favorite'
+        }>
+      }>
+    }>
+    Enums: GeneratedSchema['Enums']
+    CompositeTypes: GeneratedSchema['CompositeTypes']
+  }
+}
+
+type Row<TableName extends keyof Database['public']['Tables']> = Database['public']['Tables'][TableName]['Row']
+
+export type Profile = Row<'profiles'>
+
+// distance is in miles; distance, elevation_gain_meters and difficulty_level are
+// recomputed by the database from track_points when a track is stored, and
+// start_lat / start_lon are set to the first track point. rating_average (null
+// until rated) and rating_count are maintained from route_reviews.
+export type FitnessRoute = Row<'fitness_routes'>
+
+// Fields a user provides when authoring a route; distance, elevation and difficulty
+// are recomputed by the database when a track is present
+export type FitnessRouteInput = Pick<
+  FitnessRoute,
+  | 'name' | 'description' | 'route_type' | 'distance' | 'duration_minutes' | 'elevation_gain_meters' | 'track_points'
+  | 'start_lat' | 'start_lon'
+>
+
+// nearest orders by distance from RouteQuery.near to each route's start;
+// rating puts the highest average first and unrated routes last
+export type RouteSort = 'name' | 'distance' | 'difficulty' | 'date' | 'nearest' | 'rating'
+
+// Route catalog filters, applied by the database (search_fitness_routes). Distances
+// are in miles and durations in minutes; ranges are inclusive.
+export type RouteQuery = {
+  search?: string
+  routeTypes?: RouteType[]
+  difficulties?: DifficultyLevel[]
+  minDistance?: number
+  maxDistance?: number
+  minDuration?: number
+  maxDuration?: number
+  // Matched against the signed-in user's saved routes
+  savedStatus?: 'saved' | 'completed' | 'favorite'
+  // Only routes starting within radiusKm of the point
+  near?: { lat: number; lon: number; radiusKm: number }
+  sortBy: RouteSort
 }
 
-export type SavedProcrastinationRoute = {
+// Keyset position after the last route of a page: its sort key and id
+export type RouteCursor = {
+  sortBy: RouteSort
+  value: string | number
   id: string
-  user_id: string
-  original_task: string
-  title?: string | null
-  route_steps: ProcrastinationStep[]
-  status: 'active' | 'completed' | 'archived'
-  created_at: string
-  completed_at: string | null
-  notes: string
-  is_active: boolean
 }
 
-// Enhanced database operations with proper error handling
-export const database = {
-  // Profiles
-  async getProfile(userId: string) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single(),
-      `Get profile for user ${userId}`
-    )
-  },
-
-  async updateProfile(userId: string, updates: Partial<Profile>) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('profiles')
-        .update(updates)
-        .eq('id', userId)
-        .select()
-        .single(),
-      `Update profile for user ${userId}`
-    )
-  },
-
-  // Fitness Routes
-  async getFitnessRoutes(limit?: number) {
-    return safeSupabaseQuery(
-      () => {
-        let query = supabase
-          .from('fitness_routes')
-          .select('*')
-          .order('created_at', { ascending: false })
-        
-        if (limit) {
-          query = query.limit(limit)
-        }
-        
-        return query
-      },
-      'Get fitness routes'
-    )
-  },
-
-  async getUserSavedRoutes(userId: string) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_routes')
-        .select(`
-          *,
-          fitness_routes (*)
-        `)
-        .eq('user_id', userId)
-        .order('saved_at', { ascending: false }),
-      `Get saved routes for user ${userId}`
-    )
-  },
-
-  async saveRoute(userId: string, routeId: string, status: 'to-do' | 'favorite' = 'to-do') {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_routes')
-        .upsert({
-          user_id: userId,
-          route_id: routeId,
-          status
-        })
-        .select()
-        .single(),
-      `Save route ${routeId} for user ${userId}`
-    )
-  },
+export type RoutePage = {
+  routes: FitnessRoute[]
+  nextCursor: RouteCursor | null // null on the last page
+}
 
-  async updateRouteStatus(savedRouteId: string, status: 'to-do' | 'completed' | 'favorite') {
-    const updates: any = { status }
-    if (status === 'completed') {
-      updates.completed_at = new Date().toISOString()
-    }
+// rating is 1 to 5 stars; each user has at most one review per route
+export type RouteReview = Row<'route_reviews'> & {
+  profiles?: Pick<Profile, 'username' | 'full_name'> | null
+}
 
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_routes')
-        .update(updates)
-        .eq('id', savedRouteId)
-        .select()
-        .single(),
-      `Update route status to ${status}`
-    )
-  },
-
-  // Procrastination Routes
-  async getUserProcrastinationRoutes(userId: string) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_procrastination_routes')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false }),
-      `Get procrastination routes for user ${userId}`
-    )
-  },
-
-  async saveProcrastinationRoute(
-    userId: string, 
-    originalTask: string, 
-    routeSteps: ProcrastinationStep[],
-    title?: string
-  ) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_procrastination_routes')
-        .insert({
-          user_id: userId,
-          original_task: originalTask,
-          route_steps: routeSteps,
-          title
-        })
-        .select()
-        .single(),
-      `Save procrastination route for user ${userId}`
-    )
-  },
-
-  async updateProcrastinationRoute(routeId: string, updates: Partial<SavedProcrastinationRoute>) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_procrastination_routes')
-        .update(updates)
-        .eq('id', routeId)
-        .select()
-        .single(),
-      `Update procrastination route ${routeId}`
-    )
-  },
-
-  async deleteProcrastinationRoute(routeId: string) {
-    return safeSupabaseQuery(
-      () => supabase
-        .from('saved_procrastination_routes')
-        .update({ is_active: false })
-        .eq('id', routeId),
-      `Delete procrastination route ${routeId}`
-    )
-  }
+export type RouteReviewInput = Pick<RouteReview, 'rating' | 'body'>
+
+// Named, ordered lists of routes; public ones can be read and copied by everyone
+export type RouteCollection = Row<'route_collections'> & {
+  route_collection_items?: RouteCollectionItem[] // ordered by position
+  profiles?: Pick<Profile, 'username' | 'full_name'> | null
+}
+
+export type RouteCollectionItem = Row<'route_collection_items'> & {
+  fitness_routes?: FitnessRoute | null
+}
+
+export type RouteCollectionInput = Pick<RouteCollection, 'name' | 'description' | 'is_public'>
+
+export type SavedRoute = Row<'saved_routes'> & {
+  fitness_routes?: FitnessRoute | null
+}
+
+// distance is the miles covered, captured from the route when the workout is logged;
+// perceived_effort is the rate of perceived exertion, 1 (very easy) to 10 (max effort).
+// route_name and route_type are snapshotted too, and route_id is null once the route is deleted
+export type WorkoutLog = Row<'workout_logs'> & {
+  fitness_routes?: FitnessRoute | null
+}
+
+export type WorkoutLogInput = Pick<WorkoutLog, 'completed_at' | 'elapsed_seconds' | 'distance' | 'perceived_effort' | 'notes'> & {
+  route_id: string
+}
+
+// start_date is the plan's first day (YYYY-MM-DD); items are scheduled day_offset days after it
+export type TrainingPlan = Row<'training_plans'> & {
+  training_plan_items?: TrainingPlanItem[] // ordered by day_offset, then position
+}
+
+export type TrainingPlanInput = Pick<TrainingPlan, 'name' | 'description' | 'start_date' | 'is_active'>
+
+// At most one target: finish the route within target_duration_minutes, or hold
+// target_pace_minutes_per_mile or faster. route_name is snapshotted when the item is
+// added, and route_id is null once the route is deleted
+export type TrainingPlanItem = Row<'training_plan_items'> & {
+  fitness_routes?: FitnessRoute | null
 }
 
+export type TrainingPlanItemInput = Pick<
+  TrainingPlanItem,
+  'day_offset' | 'position' | 'target_duration_minutes' | 'target_pace_minutes_per_mile' | 'notes'
+> & {
+  route_id: string
+}
+
+// distance targets are in miles, duration in minutes; a null route_type counts every workout
+export type UserGoal = Row<'user_goals'>
+
+export type UserGoalInput = Pick<UserGoal, 'metric' | 'period' | 'target' | 'route_type'>
+
+// achievement_id keys into the ACHIEVEMENTS catalog in utils/achievements
+export type UserAchievement = Row<'user_achievements'>
+
+export type { StatsPeriod, UserStats }
+
+export type SavedProcrastinationRoute = Row<'saved_procrastination_routes'>
+
+// Steps users write for the generator. Public steps join the community pool once a
+// moderator approves them; the database resets review_status whenever the owner
+// edits or publishes a step
+export type LibraryStepReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export type ProcrastinationLibraryStep = Row<'procrastination_steps'>
+
+export type ProcrastinationLibraryStepInput = Pick<
+  ProcrastinationLibraryStep,
+  'name' | 'description' | 'time_investment_minutes' | 'benefit' | 'is_public'
+>
+
 // Connection testing utilities
 export async function testSupabaseConnection(): Promise<{
   success: boolean
   message: string
   details: any
 }> {
+  if (!supabase) {
+    return {
+      success: false,
+      message: 'Supabase is not configured; the app is using the local backend',
+      details: { backend: dataBackend }
+    }
+  }
+
   try {
     console.log('🧪 Testing Supabase connection...')
     
@@ -539,9 +670,13 @@ export async function testSupabaseConnection(): Promise<{
 // Initialize health monitoring
 const healthMonitor = SupabaseHealthMonitor.getInstance()
 healthMonitor.checkHealth() // Initial health check
+healthMonitor.addListener(online => {
+  if (online) healthMonitor.checkHealth()
+})
 
 // Log Supabase configuration on startup
 console.log('🚀 Supabase Configuration:', {
+  backend: dataBackend,
   url: supabaseUrl,
   keyLength: supabaseAnonKey?.length || 0,
   timestamp: new Date().toISOString()
@@ -0,0 +1,833 @@
+import type { DataProvider } from './dataProvider'
+import { createOfflineId, isOfflineId } from './offlineQueue'
+import {
+  applyOptimisticProcrastinationRoute,
+  applyOptimisticRouteStatus,
+  applyOptimisticSaveRoute,
+  awaitingSync,
+  writeOrQueue
+} from './supabaseSync'
+import {
+  FitnessRoute,
+  FitnessRouteInput,
+  ProcrastinationLibraryStep,
+  ProcrastinationLibraryStepInput,
+  ProcrastinationStep,
+  Profile,
+  RouteCollection,
+  RouteCollectionInput,
+  RouteCollectionItem,
+  RouteCursor,
+  RouteQuery,
+  RouteReview,
+  RouteReviewInput,
+  SavedProcrastinationRoute,
+  SavedRoute,
+  TrackPoint,
+  TrainingPlan,
+  TrainingPlanInput,
+  TrainingPlanItem,
+  TrainingPlanItemInput,
+  UserAchievement,
+  UserGoal,
+  UserGoalInput,
+  UserStats,
+  WorkoutLog,
+  WorkoutLogInput,
+  cachedQuery,
+  getClient,
+  safeSupabaseQuery
+} from './supabase'
+import { ROUTE_PAGE_SIZE, getRouteCursor } from '../utils/routeSearch'
+
+// search_fitness_routes takes the cursor's sort key in a parameter of its own type
+function routeCursorArgs(cursor: RouteCursor | null) {
+  if (!cursor) return {}
+
+  switch (cursor.sortBy) {
+    case 'name': return { cursor_id: cursor.id, cursor_name: String(cursor.value) }
+    case 'distance': return { cursor_id: cursor.id, cursor_distance: Number(cursor.value) }
+    case 'difficulty': return { cursor_id: cursor.id, cursor_rank: Number(cursor.value) }
+    case 'date': return { cursor_id: cursor.id, cursor_created_at: String(cursor.value) }
+    case 'nearest': return { cursor_id: cursor.id, cursor_distance_km: Number(cursor.value) }
+    case 'rating': return { cursor_id: cursor.id, cursor_rating: Number(cursor.value) }
+  }
+}
+
+// The DataProvider backed by the Supabase project; lib/database selects it
+export const supabaseDataProvider: DataProvider = {
+  get auth() {
+    return getClient().auth
+  },
+
+  // Profiles
+  async getProfile(userId: string) {
+    return cachedQuery(
+      `profile:${userId}`,
+      () => getClient()
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single(),
+      `Get profile for user ${userId}`
+    )
+  },
+
+  async updateProfile(userId: string, updates: Partial<Profile>) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('profiles')
+        .update(updates)
+        .eq('id', userId)
+        .select()
+        .single(),
+      `Update profile for user ${userId}`
+    )
+  },
+
+  // Fitness Routes
+  async getFitnessRoutes(limit?: number) {
+    return cachedQuery(
+      `fitness_routes:${limit ?? 'all'}`,
+      () => {
+        let query = getClient()
+          .from('fitness_routes')
+          .select('*')
+          .order('created_at', { ascending: false })
+        
+        if (limit) {
+          query = query.limit(limit)
+        }
+        
+        return query
+      },
+      'Get fitness routes'
+    )
+  },
+
+  async getFitnessRoute(routeId: string) {
+    return cachedQuery<FitnessRoute>(
+      `fitness_route:${routeId}`,
+      () => getClient()
+        .from('fitness_routes')
+        .select('*')
+        .eq('id', routeId)
+        .maybeSingle(),
+      `Get fitness route ${routeId}`
+    )
+  },
+
+  // Counted by the database, so callers needn't load the catalog
+  async countFitnessRoutes(difficulty: FitnessRoute['difficulty_level']) {
+    return cachedQuery<number>(
+      `fitness_route_count:${difficulty}`,
+      () => getClient()
+        .from('fitness_routes')
+        .select('id', { count: 'exact', head: true })
+        .eq('difficulty_level', difficulty)
+        .then(({ count, error }) => ({ data: count, error })),
+      `Count ${difficulty} fitness routes`
+    )
+  },
+
+  // One page of the catalog, filtered and sorted by the database
+  async searchFitnessRoutes(query: RouteQuery, cursor: RouteCursor | null = null, pageSize = ROUTE_PAGE_SIZE) {
+    const { data, error } = await cachedQuery(
+      `route_search:${JSON.stringify({ query, cursor, pageSize })}`,
+      () => getClient().rpc('search_fitness_routes', {
+        search: query.search?.trim() || undefined,
+        route_kinds: query.routeTypes?.length ? query.routeTypes : undefined,
+        difficulties: query.difficulties?.length ? query.difficulties : undefined,
+        min_distance: query.minDistance,
+        max_distance: query.maxDistance,
+        min_duration: query.minDuration,
+        max_duration: query.maxDuration,
+        saved_filter: query.savedStatus,
+        near_lat: query.near?.lat,
+        near_lon: query.near?.lon,
+        radius_km: query.near?.radiusKm,
+        sort_by: query.sortBy,
+        ...routeCursorArgs(cursor),
+        page_size: pageSize + 1 // The extra row tells whether another page follows
+      }),
+      'Search fitness routes'
+    )
+
+    if (error || !data) return { data: null, error }
+
+    const routes = data.slice(0, pageSize)
+    const last = routes[routes.length - 1]
+    // The nearest cursor takes the database's own distance, so the next page starts exactly after it
+    const nextCursor = data.length > pageSize
+      ? getRouteCursor(last, query, query.sortBy === 'nearest' ? last.start_distance_km ?? undefined : undefined)
+      : null
+    return { data: { routes, nextCursor }, error: null }
+  },
+
+  // Other routes of the same type and difficulty
+  async getRelatedRoutes(route: Pick<FitnessRoute, 'id' | 'route_type' | 'difficulty_level'>, limit = 4) {
+    return cachedQuery<FitnessRoute[]>(
+      `related_routes:${route.id}:${limit}`,
+      () => getClient()
+        .from('fitness_routes')
+        .select('*')
+        .eq('route_type', route.route_type)
+        .eq('difficulty_level', route.difficulty_level)
+        .neq('id', route.id)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      `Get routes related to ${route.id}`
+    )
+  },
+
+  async createFitnessRoute(userId: string, route: FitnessRouteInput) {
+    return safeSupabaseQuery<FitnessRoute>(
+      () => getClient()
+        .from('fitness_routes')
+        .insert({ ...route, created_by: userId })
+        .select()
+        .single(),
+      `Create fitness route for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateFitnessRoute(routeId: string, updates: Partial<FitnessRouteInput>) {
+    return safeSupabaseQuery<FitnessRoute>(
+      () => getClient()
+        .from('fitness_routes')
+        .update(updates)
+        .eq('id', routeId)
+        .select()
+        .single(),
+      `Update fitness route ${routeId}`
+    )
+  },
+
+  async deleteFitnessRoute(routeId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('fitness_routes')
+        .delete()
+        .eq('id', routeId),
+      `Delete fitness route ${routeId}`
+    )
+  },
+
+  async updateRouteTrack(routeId: string, trackPoints: TrackPoint[]) {
+    // distance is recalculated from the track by the sync_route_distance_from_track trigger
+    return safeSupabaseQuery<FitnessRoute>(
+      () => getClient()
+        .from('fitness_routes')
+        .update({ track_points: trackPoints })
+        .eq('id', routeId)
+        .select()
+        .single(),
+      `Update track for route ${routeId}`
+    )
+  },
+
+  // Route Reviews
+  async getRouteReviews(routeId: string) {
+    return cachedQuery<RouteReview[]>(
+      `route_reviews:${routeId}`,
+      () => getClient()
+        .from('route_reviews')
+        .select(`
+          *,
+          profiles (username, full_name)
+        `)
+        .eq('route_id', routeId)
+        .order('updated_at', { ascending: false }),
+      `Get reviews for route ${routeId}`
+    )
+  },
+
+  // Upsert on UNIQUE(route_id, user_id); sync_route_rating() updates the route's average
+  async saveRouteReview(userId: string, routeId: string, review: RouteReviewInput) {
+    return safeSupabaseQuery<RouteReview>(
+      () => getClient()
+        .from('route_reviews')
+        .upsert({ ...review, route_id: routeId, user_id: userId }, { onConflict: 'route_id,user_id' })
+        .select(`
+          *,
+          profiles (username, full_name)
+        `)
+        .single(),
+      `Save review of route ${routeId} for user ${userId}`
+    )
+  },
+
+  async deleteRouteReview(reviewId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('route_reviews')
+        .delete()
+        .eq('id', reviewId),
+      `Delete route review ${reviewId}`
+    )
+  },
+
+  // Route Collections
+  async getUserCollections(userId: string) {
+    return cachedQuery<RouteCollection[]>(
+      `route_collections:${userId}`,
+      () => getClient()
+        .from('route_collections')
+        .select(`
+          *,
+          route_collection_items (*)
+        `)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .order('position', { referencedTable: 'route_collection_items' }),
+      `Get collections for user ${userId}`
+    )
+  },
+
+  // Other users' public collections, most recently updated first
+  async getPublicCollections(userId: string, limit = 20) {
+    return cachedQuery<RouteCollection[]>(
+      `public_route_collections:${userId}:${limit}`,
+      () => getClient()
+        .from('route_collections')
+        .select(`
+          *,
+          route_collection_items (*),
+          profiles (username, full_name)
+        `)
+        .eq('is_public', true)
+        .neq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .order('position', { referencedTable: 'route_collection_items' })
+        .limit(limit),
+      'Get public collections'
+    )
+  },
+
+  async getCollectionRoutes(collectionId: string) {
+    return cachedQuery<RouteCollectionItem[]>(
+      `route_collection_items:${collectionId}`,
+      () => getClient()
+        .from('route_collection_items')
+        .select(`
+          *,
+          fitness_routes (*)
+        `)
+        .eq('collection_id', collectionId)
+        .order('position'),
+      `Get routes in collection ${collectionId}`
+    )
+  },
+
+  async createCollection(userId: string, collection: RouteCollectionInput) {
+    return safeSupabaseQuery<RouteCollection>(
+      () => getClient()
+        .from('route_collections')
+        .insert({ ...collection, user_id: userId })
+        .select()
+        .single(),
+      `Create collection for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateCollection(collectionId: string, updates: Partial<RouteCollectionInput>) {
+    return safeSupabaseQuery<RouteCollection>(
+      () => getClient()
+        .from('route_collections')
+        .update(updates)
+        .eq('id', collectionId)
+        .select()
+        .single(),
+      `Update collection ${collectionId}`
+    )
+  },
+
+  async deleteCollection(collectionId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('route_collections')
+        .delete()
+        .eq('id', collectionId),
+      `Delete collection ${collectionId}`
+    )
+  },
+
+  async addRouteToCollection(collectionId: string, routeId: string) {
+    return safeSupabaseQuery<RouteCollectionItem>(
+      () => getClient()
+        .rpc('add_route_to_collection', { collection_uuid: collectionId, route_uuid: routeId })
+        .single(),
+      `Add route ${routeId} to collection ${collectionId}`
+    )
+  },
+
+  async removeRouteFromCollection(collectionId: string, routeId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('route_collection_items')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('route_id', routeId),
+      `Remove route ${routeId} from collection ${collectionId}`
+    )
+  },
+
+  async reorderCollection(collectionId: string, routeIds: string[]) {
+    return safeSupabaseQuery<null>(
+      // The function returns void, which PostgREST reports as undefined data
+      async () => {
+        const { error } = await getClient()
+          .rpc('set_route_collection_order', { collection_uuid: collectionId, route_uuids: routeIds })
+        return { data: null, error }
+      },
+      `Reorder collection ${collectionId}`
+    )
+  },
+
+  // Copies are private and owned by the caller
+  async copyCollection(collectionId: string, name?: string) {
+    return safeSupabaseQuery<RouteCollection>(
+      () => getClient()
+        .rpc('copy_route_collection', { source_uuid: collectionId, new_name: name })
+        .single(),
+      `Copy collection ${collectionId}`,
+      1 // Each call makes another copy
+    )
+  },
+
+  async getUserSavedRoutes(userId: string) {
+    return cachedQuery(
+      `saved_routes:${userId}`,
+      () => getClient()
+        .from('saved_routes')
+        .select(`
+          *,
+          fitness_routes (*)
+        `)
+        .eq('user_id', userId)
+        .order('saved_at', { ascending: false }),
+      `Get saved routes for user ${userId}`
+    )
+  },
+
+  async saveRoute(userId: string, routeId: string, status: 'to-do' | 'favorite' = 'to-do') {
+    const mutation = {
+      kind: 'save-route',
+      queuedAt: new Date().toISOString(),
+      userId,
+      routeId,
+      status,
+      tempId: createOfflineId()
+    } as const
+    return writeOrQueue(mutation, () => applyOptimisticSaveRoute(mutation))
+  },
+
+  async updateRouteStatus(savedRouteId: string, status: 'to-do' | 'completed' | 'favorite') {
+    const now = new Date().toISOString()
+    const mutation = {
+      kind: 'update-route-status',
+      queuedAt: now,
+      savedRouteId,
+      status,
+      completedAt: status === 'completed' ? now : null
+    } as const
+    return writeOrQueue(mutation, () => applyOptimisticRouteStatus(mutation))
+  },
+
+  async getSavedRoute(userId: string, routeId: string) {
+    return cachedQuery<SavedRoute>(
+      `saved_route:${userId}:${routeId}`,
+      () => getClient()
+        .from('saved_routes')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('route_id', routeId)
+        .maybeSingle(),
+      `Get saved route ${routeId} for user ${userId}`
+    )
+  },
+
+  async updateSavedRouteNotes(savedRouteId: string, notes: string) {
+    if (isOfflineId(savedRouteId)) return awaitingSync<SavedRoute>(savedRouteId)
+
+    return safeSupabaseQuery<SavedRoute>(
+      () => getClient()
+        .from('saved_routes')
+        .update({ notes })
+        .eq('id', savedRouteId)
+        .select()
+        .single(),
+      `Update notes for saved route ${savedRouteId}`
+    )
+  },
+
+  // Workout Log
+  async getUserWorkoutLogs(userId: string) {
+    return cachedQuery<WorkoutLog[]>(
+      `workout_logs:${userId}`,
+      () => getClient()
+        .from('workout_logs')
+        .select(`
+          *,
+          fitness_routes (*)
+        `)
+        .eq('user_id', userId)
+        .order('completed_at', { ascending: false }),
+      `Get workout logs for user ${userId}`
+    )
+  },
+
+  async getRouteWorkoutLogs(userId: string, routeId: string) {
+    return cachedQuery<WorkoutLog[]>(
+      `route_workout_logs:${userId}:${routeId}`,
+      () => getClient()
+        .from('workout_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('route_id', routeId)
+        .order('completed_at', { ascending: false }),
+      `Get workout logs for route ${routeId}`
+    )
+  },
+
+  async logWorkout(userId: string, workout: WorkoutLogInput) {
+    return safeSupabaseQuery<WorkoutLog>(
+      () => getClient()
+        .from('workout_logs')
+        .insert({ ...workout, user_id: userId })
+        .select()
+        .single(),
+      `Log workout on route ${workout.route_id} for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async deleteWorkoutLog(workoutId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('workout_logs')
+        .delete()
+        .eq('id', workoutId),
+      `Delete workout log ${workoutId}`
+    )
+  },
+
+  // Goals
+  async getUserGoals(userId: string) {
+    return cachedQuery<UserGoal[]>(
+      `goals:${userId}`,
+      () => getClient()
+        .from('user_goals')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true }),
+      `Get goals for user ${userId}`
+    )
+  },
+
+  async createGoal(userId: string, goal: UserGoalInput) {
+    return safeSupabaseQuery<UserGoal>(
+      () => getClient()
+        .from('user_goals')
+        .insert({ ...goal, user_id: userId })
+        .select()
+        .single(),
+      `Create goal for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateGoal(goalId: string, updates: Partial<UserGoalInput>) {
+    return safeSupabaseQuery<UserGoal>(
+      () => getClient()
+        .from('user_goals')
+        .update(updates)
+        .eq('id', goalId)
+        .select()
+        .single(),
+      `Update goal ${goalId}`
+    )
+  },
+
+  async deleteGoal(goalId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('user_goals')
+        .delete()
+        .eq('id', goalId),
+      `Delete goal ${goalId}`
+    )
+  },
+
+  // Training Plans
+  async getUserTrainingPlans(userId: string) {
+    return cachedQuery<TrainingPlan[]>(
+      `training_plans:${userId}`,
+      () => getClient()
+        .from('training_plans')
+        .select(`
+          *,
+          training_plan_items (
+            *,
+            fitness_routes (*)
+          )
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .order('day_offset', { referencedTable: 'training_plan_items' })
+        .order('position', { referencedTable: 'training_plan_items' }),
+      `Get training plans for user ${userId}`
+    )
+  },
+
+  async createTrainingPlan(userId: string, plan: TrainingPlanInput) {
+    return safeSupabaseQuery<TrainingPlan>(
+      () => getClient()
+        .from('training_plans')
+        .insert({ ...plan, user_id: userId })
+        .select()
+        .single(),
+      `Create training plan for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateTrainingPlan(planId: string, updates: Partial<TrainingPlanInput>) {
+    return safeSupabaseQuery<TrainingPlan>(
+      () => getClient()
+        .from('training_plans')
+        .update(updates)
+        .eq('id', planId)
+        .select()
+        .single(),
+      `Update training plan ${planId}`
+    )
+  },
+
+  async deleteTrainingPlan(planId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('training_plans')
+        .delete()
+        .eq('id', planId),
+      `Delete training plan ${planId}`
+    )
+  },
+
+  async addTrainingPlanItem(planId: string, item: TrainingPlanItemInput) {
+    return safeSupabaseQuery<TrainingPlanItem>(
+      () => getClient()
+        .from('training_plan_items')
+        .insert({ ...item, plan_id: planId })
+        .select(`
+          *,
+          fitness_routes (*)
+        `)
+        .single(),
+      `Add route ${item.route_id} to training plan ${planId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateTrainingPlanItem(itemId: string, updates: Partial<TrainingPlanItemInput>) {
+    return safeSupabaseQuery<TrainingPlanItem>(
+      () => getClient()
+        .from('training_plan_items')
+        .update(updates)
+        .eq('id', itemId)
+        .select(`
+          *,
+          fitness_routes (*)
+        `)
+        .single(),
+      `Update training plan item ${itemId}`
+    )
+  },
+
+  async deleteTrainingPlanItem(itemId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('training_plan_items')
+        .delete()
+        .eq('id', itemId),
+      `Delete training plan item ${itemId}`
+    )
+  },
+
+  // Achievements
+  async getUserAchievements(userId: string) {
+    return cachedQuery<UserAchievement[]>(
+      `achievements:${userId}`,
+      () => getClient()
+        .from('user_achievements')
+        .select('*')
+        .eq('user_id', userId)
+        .order('unlocked_at', { ascending: false }),
+      `Get achievements for user ${userId}`
+    )
+  },
+
+  async unlockAchievements(userId: string, achievementIds: string[]) {
+    return safeSupabaseQuery<UserAchievement[]>(
+      () => getClient()
+        .from('user_achievements')
+        .upsert(
+          achievementIds.map(achievementId => ({ user_id: userId, achievement_id: achievementId })),
+          { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+        )
+        .select(),
+      `Unlock achievements for user ${userId}`
+    )
+  },
+
+  async markAchievementsSeen(userId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('user_achievements')
+        .update({ seen_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('seen_at', null),
+      `Mark achievements seen for user ${userId}`
+    )
+  },
+
+  // Statistics
+  async getUserStats(userId: string) {
+    return cachedQuery<UserStats>(
+      `stats:${userId}`,
+      () => getClient().rpc('get_user_stats', {
+        user_uuid: userId,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      }),
+      `Get stats for user ${userId}`
+    )
+  },
+
+  // Procrastination Routes
+  async getUserProcrastinationRoutes(userId: string) {
+    return cachedQuery(
+      `procrastination_routes:${userId}`,
+      () => getClient()
+        .from('saved_procrastination_routes')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: false }),
+      `Get procrastination routes for user ${userId}`
+    )
+  },
+
+  async saveProcrastinationRoute(
+    userId: string, 
+    originalTask: string, 
+    routeSteps: ProcrastinationStep[],
+    seed: string | null,
+    timeBudgetMinutes: number | null,
+    title?: string
+  ) {
+    const mutation = {
+      kind: 'save-procrastination-route',
+      queuedAt: new Date().toISOString(),
+      userId,
+      originalTask,
+      routeSteps,
+      seed,
+      timeBudgetMinutes,
+      title,
+      rowId: crypto.randomUUID(),
+      tempId: createOfflineId()
+    } as const
+    return writeOrQueue(mutation, () => applyOptimisticProcrastinationRoute(mutation))
+  },
+
+  async updateProcrastinationRoute(routeId: string, updates: Partial<SavedProcrastinationRoute>) {
+    if (isOfflineId(routeId)) return awaitingSync<SavedProcrastinationRoute>(routeId)
+
+    return safeSupabaseQuery<SavedProcrastinationRoute>(
+      () => getClient()
+        .from('saved_procrastination_routes')
+        .update(updates)
+        .eq('id', routeId)
+        .select()
+        .single(),
+      `Update procrastination route ${routeId}`
+    )
+  },
+
+  async deleteProcrastinationRoute(routeId: string) {
+    if (isOfflineId(routeId)) return awaitingSync<null>(routeId)
+
+    return safeSupabaseQuery<null>(
+      () => getClient()
+        .from('saved_procrastination_routes')
+        .update({ is_active: false })
+        .eq('id', routeId),
+      `Delete procrastination route ${routeId}`
+    )
+  },
+
+  // Procrastination Step Library
+  async getUserLibrarySteps(userId: string) {
+    return cachedQuery<ProcrastinationLibraryStep[]>(
+      `procrastination_steps:${userId}`,
+      () => getClient()
+        .from('procrastination_steps')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false }),
+      `Get library steps for user ${userId}`
+    )
+  },
+
+  async getCommunityLibrarySteps(userId: string, limit = 100) {
+    return cachedQuery<ProcrastinationLibraryStep[]>(
+      `community_procrastination_steps:${userId}:${limit}`,
+      () => getClient()
+        .from('procrastination_steps')
+        .select('*')
+        .eq('is_public', true)
+        .eq('review_status', 'approved')
+        .neq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      'Get community library steps'
+    )
+  },
+
+  async createLibraryStep(userId: string, step: ProcrastinationLibraryStepInput) {
+    return safeSupabaseQuery<ProcrastinationLibraryStep>(
+      () => getClient()
+        .from('procrastination_steps')
+        .insert({ ...step, user_id: userId })
+        .select()
+        .single(),
+      `Create library step for user ${userId}`,
+      1 // Inserts are not idempotent
+    )
+  },
+
+  async updateLibraryStep(stepId: string, updates: Partial<ProcrastinationLibraryStepInput>) {
+    return safeSupabaseQuery<ProcrastinationLibraryStep>(
+      () => getClient()
+        .from('procrastination_steps')
+        .update(updates)
+        .eq('id', stepId)
+        .select()
+        .single(),
+      `Update library step ${stepId}`
+    )
+  },
+
+  async deleteLibraryStep(stepId: string) {
+    return safeSupabaseQuery(
+      () => getClient()
+        .from('procrastination_steps')
+        .delete()
+        .eq('id', stepId),
+      `Delete library step ${stepId}`
+    )
+  }
+}
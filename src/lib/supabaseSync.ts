@@ -0,0 +1,255 @@
+import { getCached, setCached, updateCached, updateCachedByPrefix } from './offlineStore'
+import { MutationResult, OfflineMutationQueue, QueuedMutation, isOfflineId } from './offlineQueue'
+import { notifyActivityChanged } from './activityEvents'
+import { SupabaseError } from './errors'
+import {
+  FitnessRoute,
+  SavedProcrastinationRoute,
+  SavedRoute,
+  SupabaseHealthMonitor,
+  getClient,
+  safeSupabaseQuery,
+  supabase
+} from './supabase'
+import { upgradeProcrastinationStep } from '../utils/procrastinationEngine'
+
+// Offline writes: while offline, or while earlier writes are still queued,
+// writes are queued for replay and answered with an optimistic row
+const offlineQueue = OfflineMutationQueue.getInstance()
+
+async function shouldQueueWrite(): Promise<boolean> {
+  return SupabaseHealthMonitor.getInstance().isOffline() || await offlineQueue.hasPending()
+}
+
+// The connection can come back without an 'online' event, so while writes are
+// queued the health check is repeated with backoff; a healthy check replays them
+const SYNC_RECHECK_BASE_MS = 5000
+const SYNC_RECHECK_MAX_MS = 5 * 60 * 1000
+let syncRecheckDelay = SYNC_RECHECK_BASE_MS
+let syncRecheckTimer: ReturnType<typeof setTimeout> | null = null
+
+function scheduleSyncRecheck() {
+  if (syncRecheckTimer) return
+
+  syncRecheckTimer = setTimeout(() => {
+    syncRecheckTimer = null
+    syncRecheckDelay = Math.min(syncRecheckDelay * 2, SYNC_RECHECK_MAX_MS)
+    SupabaseHealthMonitor.getInstance().checkHealth()
+  }, syncRecheckDelay)
+}
+
+async function replayQueuedWrites() {
+  if (!(await offlineQueue.hasPending())) return
+
+  await offlineQueue.replay()
+  notifyActivityChanged()
+
+  // A held queue resumes on the next sign-in rather than on a health check
+  if (offlineQueue.getState().waitingForSignIn) return
+
+  if (await offlineQueue.hasPending()) {
+    // A write failed again; try later
+    scheduleSyncRecheck()
+  } else {
+    syncRecheckDelay = SYNC_RECHECK_BASE_MS
+  }
+}
+
+// Rows created while offline only exist in the cache until their queued insert
+// syncs, so writes addressed to their temporary id have to wait for it
+export function awaitingSync<T>(id: string): { data: T | null; error: SupabaseError | null } {
+  return {
+    data: null,
+    error: new SupabaseError(
+      'This item has not synced yet. Try again once your offline changes have synced.',
+      'OFFLINE_ERROR',
+      { id },
+      false
+    )
+  }
+}
+
+function sendMutation(mutation: QueuedMutation, maxRetries?: number) {
+  switch (mutation.kind) {
+    case 'save-route':
+      return safeSupabaseQuery<SavedRoute>(
+        () => getClient()
+          .from('saved_routes')
+          .upsert(
+            { user_id: mutation.userId, route_id: mutation.routeId, status: mutation.status },
+            { onConflict: 'user_id,route_id' }
+          )
+          .select()
+          .single(),
+        `Save route ${mutation.routeId} for user ${mutation.userId}`,
+        maxRetries
+      )
+    case 'update-route-status':
+      return safeSupabaseQuery<SavedRoute>(
+        () => getClient()
+          .from('saved_routes')
+          .update({
+            status: mutation.status,
+            ...(mutation.completedAt ? { completed_at: mutation.completedAt } : {})
+          })
+          .eq('id', mutation.savedRouteId)
+          .select()
+          .single(),
+        `Update route status to ${mutation.status}`,
+        maxRetries
+      )
+    case 'save-procrastination-route':
+      return safeSupabaseQuery<SavedProcrastinationRoute>(
+        // Upserted on a client-made id, so replaying a write the server already
+        // applied before the connection dropped doesn't save the route twice
+        () => getClient()
+          .from('saved_procrastination_routes')
+          .upsert({
+            id: mutation.rowId,
+            user_id: mutation.userId,
+            original_task: mutation.originalTask,
+            route_steps: mutation.routeSteps.map(upgradeProcrastinationStep),
+            seed: mutation.seed ?? null,
+            time_budget_minutes: mutation.timeBudgetMinutes ?? null,
+            title: mutation.title
+          }, { onConflict: 'id' })
+          .select()
+          .single(),
+        `Save procrastination route for user ${mutation.userId}`,
+        // Writes queued without a row id are plain inserts, which are not idempotent
+        mutation.rowId ? maxRetries : 1
+      )
+  }
+}
+
+export async function writeOrQueue<T>(
+  mutation: QueuedMutation,
+  applyOptimistic: () => Promise<T | null>
+): Promise<{ data: T | null; error: SupabaseError | null }> {
+  if (!(await shouldQueueWrite())) {
+    const result = await sendMutation(mutation) as { data: T | null; error: SupabaseError | null }
+    if (result.error?.code !== 'NETWORK_ERROR') return result
+    SupabaseHealthMonitor.getInstance().markDown()
+  }
+
+  try {
+    await offlineQueue.enqueue(mutation)
+    scheduleSyncRecheck()
+    return { data: await applyOptimistic(), error: null }
+  } catch (error: unknown) {
+    return {
+      data: null,
+      error: new SupabaseError('Could not store this change for later sync.', 'OFFLINE_ERROR', { originalError: error }, false)
+    }
+  }
+}
+
+export async function applyOptimisticSaveRoute(mutation: Extract<QueuedMutation, { kind: 'save-route' }>): Promise<SavedRoute> {
+  const listKey = `saved_routes:${mutation.userId}`
+  const existing = (await getCached<SavedRoute[]>(listKey))?.data?.find(saved => saved.route_id === mutation.routeId)
+  const fitnessRoute = (await getCached<FitnessRoute | null>(`fitness_route:${mutation.routeId}`))?.data ?? undefined
+
+  const row: SavedRoute = existing
+    ? { ...existing, status: mutation.status }
+    : {
+        id: mutation.tempId,
+        user_id: mutation.userId,
+        route_id: mutation.routeId,
+        status: mutation.status,
+        saved_at: mutation.queuedAt,
+        completed_at: null,
+        notes: '',
+        fitness_routes: fitnessRoute
+      }
+
+  await updateCached<SavedRoute[]>(listKey, saved => existing
+    ? saved.map(item => item.id === row.id ? row : item)
+    : [row, ...saved])
+  await setCached(`saved_route:${mutation.userId}:${mutation.routeId}`, row)
+  return row
+}
+
+export async function applyOptimisticRouteStatus(mutation: Extract<QueuedMutation, { kind: 'update-route-status' }>): Promise<SavedRoute | null> {
+  let updated: SavedRoute | null = null
+  const patch = (saved: SavedRoute): SavedRoute => {
+    if (saved.id !== mutation.savedRouteId) return saved
+    updated = {
+      ...saved,
+      status: mutation.status,
+      completed_at: mutation.completedAt ?? saved.completed_at
+    }
+    return updated
+  }
+
+  await updateCachedByPrefix<SavedRoute[]>('saved_routes:', saved => saved.map(patch))
+  await updateCachedByPrefix<SavedRoute | null>('saved_route:', saved => saved ? patch(saved) : saved)
+  return updated
+}
+
+export async function applyOptimisticProcrastinationRoute(
+  mutation: Extract<QueuedMutation, { kind: 'save-procrastination-route' }>
+): Promise<SavedProcrastinationRoute> {
+  const row: SavedProcrastinationRoute = {
+    id: mutation.tempId,
+    user_id: mutation.userId,
+    original_task: mutation.originalTask,
+    title: mutation.title ?? null,
+    route_steps: mutation.routeSteps.map(upgradeProcrastinationStep),
+    seed: mutation.seed ?? null,
+    time_budget_minutes: mutation.timeBudgetMinutes ?? null,
+    status: 'active',
+    created_at: mutation.queuedAt,
+    completed_at: null,
+    notes: '',
+    is_active: true
+  }
+
+  await updateCached<SavedProcrastinationRoute[]>(`procrastination_routes:${mutation.userId}`, routes => [row, ...routes])
+  return row
+}
+
+// Sends one queued write during replay and classifies the outcome
+async function executeQueuedMutation(mutation: QueuedMutation): Promise<MutationResult> {
+  if (mutation.kind === 'update-route-status' && isOfflineId(mutation.savedRouteId)) {
+    return { outcome: 'conflict', reason: 'The route this status change belongs to could not be saved.' }
+  }
+
+  const { data, error } = await sendMutation(mutation, 1)
+
+  if (error) {
+    // An expired session fails as anon, which row-level security refuses, so
+    // neither is a verdict on the write itself
+    if (error.code === 'AUTH_ERROR' || error.code === 'PERMISSION_ERROR') return { outcome: 'hold' }
+    if (error.isRetryable) return { outcome: 'retry' }
+    if (error.code === 'PGRST116') {
+      return { outcome: 'conflict', reason: 'This saved route was removed before your change could sync.' }
+    }
+    return { outcome: 'conflict', reason: error.message }
+  }
+
+  if (mutation.kind !== 'update-route-status' && data) {
+    return { outcome: 'applied', idMapping: { tempId: mutation.tempId, id: data.id } }
+  }
+  return { outcome: 'applied' }
+}
+
+// Replay queued offline writes whenever Supabase is reachable again
+const healthMonitor = SupabaseHealthMonitor.getInstance()
+offlineQueue.setExecutor(executeQueuedMutation)
+healthMonitor.addHealthListener(async status => {
+  if (status === 'healthy') {
+    await replayQueuedWrites()
+  } else if (await offlineQueue.hasPending()) {
+    scheduleSyncRecheck()
+  }
+})
+
+// The queue follows the signed-in user; signing in again, or a refreshed token,
+// resumes writes held by a rejected session. Deferred, as supabase-js runs this
+// callback while holding its auth lock.
+supabase?.auth.onAuthStateChange((_event, session) => {
+  setTimeout(async () => {
+    await offlineQueue.setUser(session?.user.id ?? null)
+    if (session && !healthMonitor.isOffline()) await replayQueuedWrites()
+  }, 0)
+})
@@ -0,0 +1,380 @@
+import type { DataProvider, QueryResult } from './dataProvider'
+import { SupabaseError, ValidationError, ValidationIssue } from './errors'
+import { categorizeError } from './supabase'
+import { Schema, assertValid, nullable, optional, string, validate } from './validation'
+import * as schemas from './schemas'
+
+// Runtime validation at the API boundary, applied to whichever backend is selected.
+// Payloads are checked before they are sent or queued; a malformed row fails a
+// single-row read, while a list leaves it out and reports it in `malformed`.
+
+type Payload = [schema: Schema<unknown>, value: unknown, what: string]
+
+function refuseMalformedPayloads(context: string, payloads: Payload[]): SupabaseError | null {
+  try {
+    payloads.forEach(([schema, value, what]) => assertValid(schema, value, what))
+    return null
+  } catch (error) {
+    const validationError = categorizeError(error, context)
+    console.error(`❌ ${context} refused:`, validationError)
+    return validationError
+  }
+}
+
+async function validatedRow<T>(
+  context: string,
+  what: string,
+  schema: Schema<T> | null,
+  query: () => QueryResult<T>,
+  payloads: Payload[] = []
+): QueryResult<T> {
+  const payloadError = refuseMalformedPayloads(context, payloads)
+  if (payloadError) return { data: null, error: payloadError }
+
+  const result = await query()
+  if (result.error || result.data === null || !schema) return result
+
+  try {
+    assertValid(schema, result.data, what)
+    return result
+  } catch (error) {
+    const validationError = categorizeError(error, context)
+    console.error(`❌ ${context} returned a malformed ${what}:`, validationError)
+    return { data: null, error: validationError }
+  }
+}
+
+async function validatedList<T>(
+  context: string,
+  what: string,
+  schema: Schema<T>,
+  query: () => QueryResult<T[]>,
+  payloads: Payload[] = []
+): QueryResult<T[]> {
+  const payloadError = refuseMalformedPayloads(context, payloads)
+  if (payloadError) return { data: null, error: payloadError }
+
+  const result = await query()
+  if (result.error || !result.data) return result
+
+  const issues: ValidationIssue[] = []
+  const rows = result.data.filter((row, index) => {
+    const rowIssues = validate(schema, row)
+    issues.push(...rowIssues.map(issue => ({ ...issue, path: issue.path.replace('$', `$[${index}]`) })))
+    return rowIssues.length === 0
+  })
+
+  if (rows.length === result.data.length) return result
+
+  const rejected = result.data.length - rows.length
+  const malformed = categorizeError(
+    new ValidationError(`Left out ${rejected} malformed ${what}${rejected === 1 ? '' : 's'}`, issues),
+    context
+  )
+  console.warn(`⚠️ ${context} returned ${rejected} malformed ${what}(s):`, malformed)
+  return { data: rows, error: null, malformed }
+}
+
+export function withValidation(provider: DataProvider): DataProvider {
+  return {
+    get auth() {
+      return provider.auth
+    },
+
+    // Profiles
+    getProfile: userId => validatedRow(
+      'Get profile', 'profile', schemas.profileSchema,
+      () => provider.getProfile(userId)
+    ),
+    updateProfile: (userId, updates) => validatedRow(
+      'Update profile', 'profile', schemas.profileSchema,
+      () => provider.updateProfile(userId, updates),
+      [[schemas.profileUpdateSchema, updates, 'profile update']]
+    ),
+
+    // Fitness Routes
+    getFitnessRoutes: limit => validatedList(
+      'Get fitness routes', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.getFitnessRoutes(limit)
+    ),
+    getFitnessRoute: routeId => validatedRow(
+      'Get fitness route', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.getFitnessRoute(routeId)
+    ),
+    countFitnessRoutes: difficulty => validatedRow(
+      'Count fitness routes', 'route count', null,
+      () => provider.countFitnessRoutes(difficulty)
+    ),
+    searchFitnessRoutes: async (query, cursor, pageSize) => {
+      const page = await validatedRow(
+        'Search fitness routes', 'route page', null,
+        () => provider.searchFitnessRoutes(query, cursor, pageSize),
+        [
+          [schemas.routeQuerySchema, query, 'route query'],
+          [optional(nullable(schemas.routeCursorSchema)), cursor, 'route cursor']
+        ]
+      )
+      if (!page.data) return page
+
+      const { routes, nextCursor } = page.data
+      const checked = await validatedList(
+        'Search fitness routes', 'fitness route', schemas.fitnessRouteSchema,
+        async () => ({ data: routes, error: null })
+      )
+      return { data: { routes: checked.data ?? [], nextCursor }, error: null, malformed: checked.malformed }
+    },
+    getRelatedRoutes: (route, limit) => validatedList(
+      'Get related routes', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.getRelatedRoutes(route, limit)
+    ),
+    createFitnessRoute: (userId, route) => validatedRow(
+      'Create fitness route', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.createFitnessRoute(userId, route),
+      [[schemas.fitnessRouteInputSchema, route, 'fitness route']]
+    ),
+    updateFitnessRoute: (routeId, updates) => validatedRow(
+      'Update fitness route', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.updateFitnessRoute(routeId, updates),
+      [[schemas.fitnessRouteUpdateSchema, updates, 'fitness route update']]
+    ),
+    deleteFitnessRoute: routeId => validatedRow(
+      'Delete fitness route', 'fitness route', null,
+      () => provider.deleteFitnessRoute(routeId)
+    ),
+    updateRouteTrack: (routeId, trackPoints) => validatedRow(
+      'Update route track', 'fitness route', schemas.fitnessRouteSchema,
+      () => provider.updateRouteTrack(routeId, trackPoints),
+      [[schemas.trackSchema, trackPoints, 'track']]
+    ),
+
+    // Route Reviews
+    getRouteReviews: routeId => validatedList(
+      'Get route reviews', 'route review', schemas.routeReviewSchema,
+      () => provider.getRouteReviews(routeId)
+    ),
+    saveRouteReview: (userId, routeId, review) => validatedRow(
+      'Save route review', 'route review', schemas.routeReviewSchema,
+      () => provider.saveRouteReview(userId, routeId, review),
+      [[schemas.routeReviewInputSchema, review, 'route review']]
+    ),
+    deleteRouteReview: reviewId => validatedRow(
+      'Delete route review', 'route review', null,
+      () => provider.deleteRouteReview(reviewId)
+    ),
+
+    // Route Collections
+    getUserCollections: userId => validatedList(
+      'Get collections', 'collection', schemas.routeCollectionSchema,
+      () => provider.getUserCollections(userId)
+    ),
+    getPublicCollections: (userId, limit) => validatedList(
+      'Get public collections', 'collection', schemas.routeCollectionSchema,
+      () => provider.getPublicCollections(userId, limit)
+    ),
+    getCollectionRoutes: collectionId => validatedList(
+      'Get collection routes', 'collection item', schemas.routeCollectionItemSchema,
+      () => provider.getCollectionRoutes(collectionId)
+    ),
+    createCollection: (userId, collection) => validatedRow(
+      'Create collection', 'collection', schemas.routeCollectionSchema,
+      () => provider.createCollection(userId, collection),
+      [[schemas.routeCollectionInputSchema, collection, 'collection']]
+    ),
+    updateCollection: (collectionId, updates) => validatedRow(
+      'Update collection', 'collection', schemas.routeCollectionSchema,
+      () => provider.updateCollection(collectionId, updates),
+      [[schemas.routeCollectionUpdateSchema, updates, 'collection update']]
+    ),
+    deleteCollection: collectionId => validatedRow(
+      'Delete collection', 'collection', null,
+      () => provider.deleteCollection(collectionId)
+    ),
+    addRouteToCollection: (collectionId, routeId) => validatedRow(
+      'Add route to collection', 'collection item', schemas.routeCollectionItemSchema,
+      () => provider.addRouteToCollection(collectionId, routeId)
+    ),
+    removeRouteFromCollection: (collectionId, routeId) => validatedRow(
+      'Remove route from collection', 'collection item', null,
+      () => provider.removeRouteFromCollection(collectionId, routeId)
+    ),
+    reorderCollection: (collectionId, routeIds) => validatedRow(
+      'Reorder collection', 'collection', null,
+      () => provider.reorderCollection(collectionId, routeIds),
+      [[schemas.routeIdsSchema, routeIds, 'route order']]
+    ),
+    copyCollection: (collectionId, name) => validatedRow(
+      'Copy collection', 'collection', schemas.routeCollectionSchema,
+      () => provider.copyCollection(collectionId, name),
+      [[optional(schemas.collectionNameSchema), name, 'collection name']]
+    ),
+
+    // Saved Routes
+    getUserSavedRoutes: userId => validatedList(
+      'Get saved routes', 'saved route', schemas.savedRouteSchema,
+      () => provider.getUserSavedRoutes(userId)
+    ),
+    saveRoute: (userId, routeId, status) => validatedRow(
+      'Save route', 'saved route', schemas.savedRouteSchema,
+      () => provider.saveRoute(userId, routeId, status),
+      [[optional(schemas.savedRouteStatus), status, 'saved route status']]
+    ),
+    updateRouteStatus: (savedRouteId, status) => validatedRow(
+      'Update route status', 'saved route', schemas.savedRouteSchema,
+      () => provider.updateRouteStatus(savedRouteId, status),
+      [[schemas.savedRouteStatus, status, 'saved route status']]
+    ),
+    getSavedRoute: (userId, routeId) => validatedRow(
+      'Get saved route', 'saved route', schemas.savedRouteSchema,
+      () => provider.getSavedRoute(userId, routeId)
+    ),
+    updateSavedRouteNotes: (savedRouteId, notes) => validatedRow(
+      'Update saved route notes', 'saved route', schemas.savedRouteSchema,
+      () => provider.updateSavedRouteNotes(savedRouteId, notes),
+      [[schemas.routeNotesSchema, notes, 'route notes']]
+    ),
+
+    // Workout Log
+    getUserWorkoutLogs: userId => validatedList(
+      'Get workout logs', 'workout log', schemas.workoutLogSchema,
+      () => provider.getUserWorkoutLogs(userId)
+    ),
+    getRouteWorkoutLogs: (userId, routeId) => validatedList(
+      'Get route workout logs', 'workout log', schemas.workoutLogSchema,
+      () => provider.getRouteWorkoutLogs(userId, routeId)
+    ),
+    logWorkout: (userId, workout) => validatedRow(
+      'Log workout', 'workout log', schemas.workoutLogSchema,
+      () => provider.logWorkout(userId, workout),
+      [[schemas.workoutLogInputSchema, workout, 'workout']]
+    ),
+    deleteWorkoutLog: workoutId => validatedRow(
+      'Delete workout log', 'workout log', null,
+      () => provider.deleteWorkoutLog(workoutId)
+    ),
+
+    // Goals
+    getUserGoals: userId => validatedList(
+      'Get goals', 'goal', schemas.userGoalSchema,
+      () => provider.getUserGoals(userId)
+    ),
+    createGoal: (userId, goal) => validatedRow(
+      'Create goal', 'goal', schemas.userGoalSchema,
+      () => provider.createGoal(userId, goal),
+      [[schemas.userGoalInputSchema, goal, 'goal']]
+    ),
+    updateGoal: (goalId, updates) => validatedRow(
+      'Update goal', 'goal', schemas.userGoalSchema,
+      () => provider.updateGoal(goalId, updates),
+      [[schemas.userGoalUpdateSchema, updates, 'goal update']]
+    ),
+    deleteGoal: goalId => validatedRow(
+      'Delete goal', 'goal', null,
+      () => provider.deleteGoal(goalId)
+    ),
+
+    // Training Plans
+    getUserTrainingPlans: userId => validatedList(
+      'Get training plans', 'training plan', schemas.trainingPlanSchema,
+      () => provider.getUserTrainingPlans(userId)
+    ),
+    createTrainingPlan: (userId, plan) => validatedRow(
+      'Create training plan', 'training plan', schemas.trainingPlanSchema,
+      () => provider.createTrainingPlan(userId, plan),
+      [[schemas.trainingPlanInputSchema, plan, 'training plan']]
+    ),
+    updateTrainingPlan: (planId, updates) => validatedRow(
+      'Update training plan', 'training plan', schemas.trainingPlanSchema,
+      () => provider.updateTrainingPlan(planId, updates),
+      [[schemas.trainingPlanUpdateSchema, updates, 'training plan update']]
+    ),
+    deleteTrainingPlan: planId => validatedRow(
+      'Delete training plan', 'training plan', null,
+      () => provider.deleteTrainingPlan(planId)
+    ),
+    addTrainingPlanItem: (planId, item) => validatedRow(
+      'Add training plan item', 'training plan item', schemas.trainingPlanItemSchema,
+      () => provider.addTrainingPlanItem(planId, item),
+      [[schemas.trainingPlanItemInputSchema, item, 'training plan item']]
+    ),
+    updateTrainingPlanItem: (itemId, updates) => validatedRow(
+      'Update training plan item', 'training plan item', schemas.trainingPlanItemSchema,
+      () => provider.updateTrainingPlanItem(itemId, updates),
+      [[schemas.trainingPlanItemUpdateSchema, updates, 'training plan item update']]
+    ),
+    deleteTrainingPlanItem: itemId => validatedRow(
+      'Delete training plan item', 'training plan item', null,
+      () => provider.deleteTrainingPlanItem(itemId)
+    ),
+
+    // Achievements
+    getUserAchievements: userId => validatedList(
+      'Get achievements', 'achievement', schemas.userAchievementSchema,
+      () => provider.getUserAchievements(userId)
+    ),
+    unlockAchievements: (userId, achievementIds) => validatedList(
+      'Unlock achievements', 'achievement', schemas.userAchievementSchema,
+      () => provider.unlockAchievements(userId, achievementIds),
+      [[schemas.achievementIdsSchema, achievementIds, 'achievement ids']]
+    ),
+    markAchievementsSeen: userId => validatedRow(
+      'Mark achievements seen', 'achievement', null,
+      () => provider.markAchievementsSeen(userId)
+    ),
+
+    // Statistics
+    getUserStats: userId => validatedRow(
+      'Get stats', 'stats document', schemas.userStatsSchema,
+      () => provider.getUserStats(userId)
+    ),
+
+    // Procrastination Routes
+    getUserProcrastinationRoutes: userId => validatedList(
+      'Get procrastination routes', 'procrastination route', schemas.savedProcrastinationRouteSchema,
+      () => provider.getUserProcrastinationRoutes(userId)
+    ),
+    saveProcrastinationRoute: (userId, originalTask, routeSteps, seed, timeBudgetMinutes, title) => validatedRow(
+      'Save procrastination route', 'procrastination route', schemas.savedProcrastinationRouteSchema,
+      () => provider.saveProcrastinationRoute(userId, originalTask, routeSteps, seed, timeBudgetMinutes, title),
+      [
+        [string({ minLength: 1 }), originalTask, 'task'],
+        [schemas.procrastinationStepsSchema, routeSteps, 'route steps'],
+        [schemas.procrastinationSeedSchema, seed, 'seed'],
+        [schemas.timeBudgetMinutesSchema, timeBudgetMinutes, 'time budget'],
+        [optional(string()), title, 'title']
+      ]
+    ),
+    updateProcrastinationRoute: (routeId, updates) => validatedRow(
+      'Update procrastination route', 'procrastination route', schemas.savedProcrastinationRouteSchema,
+      () => provider.updateProcrastinationRoute(routeId, updates),
+      [[schemas.savedProcrastinationRouteUpdateSchema, updates, 'procrastination route update']]
+    ),
+    deleteProcrastinationRoute: routeId => validatedRow(
+      'Delete procrastination route', 'procrastination route', null,
+      () => provider.deleteProcrastinationRoute(routeId)
+    ),
+
+    // Procrastination Step Library
+    getUserLibrarySteps: userId => validatedList(
+      'Get library steps', 'library step', schemas.libraryStepSchema,
+      () => provider.getUserLibrarySteps(userId)
+    ),
+    getCommunityLibrarySteps: (userId, limit) => validatedList(
+      'Get community library steps', 'library step', schemas.libraryStepSchema,
+      () => provider.getCommunityLibrarySteps(userId, limit)
+    ),
+    createLibraryStep: (userId, step) => validatedRow(
+      'Create library step', 'library step', schemas.libraryStepSchema,
+      () => provider.createLibraryStep(userId, step),
+      [[schemas.libraryStepInputSchema, step, 'library step']]
+    ),
+    updateLibraryStep: (stepId, updates) => validatedRow(
+      'Update library step', 'library step', schemas.libraryStepSchema,
+      () => provider.updateLibraryStep(stepId, updates),
+      [[schemas.libraryStepUpdateSchema, updates, 'library step update']]
+    ),
+    deleteLibraryStep: stepId => validatedRow(
+      'Delete library step', 'library step', null,
+      () => provider.deleteLibraryStep(stepId)
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { ValidationError, ValidationIssue } from './errors'
+
+// Runtime checks for data crossing the API boundary. A schema reports every
+// problem it finds rather than stopping at the first, so one log line explains
+// everything wrong with a row.
+export type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => value is T
+
+// One schema per property; optional properties may be missing or undefined
+export type Shape<T> = { [K in keyof T]: Schema<T[K]> }
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+function fail(issues: ValidationIssue[], path: string, message: string): false {
+  issues.push({ path, message })
+  return false
+}
+
+export function string(options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> {
+  return (value, path, issues): value is string => {
+    if (typeof value !== 'string') return fail(issues, path, `expected a string, got ${describe(value)}`)
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return fail(issues, path, `must be at least ${options.minLength} characters`)
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return fail(issues, path, `must be at most ${options.maxLength} characters`)
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      return fail(issues, path, `does not match ${options.pattern}`)
+    }
+    return true
+  }
+}
+
+// ISO 8601 timestamps as Postgres returns them
+export function timestamp(): Schema<string> {
+  return (value, path, issues): value is string => {
+    if (typeof value !== 'string') return fail(issues, path, `expected a timestamp, got ${describe(value)}`)
+    if (Number.isNaN(Date.parse(value))) return fail(issues, path, `"${value}" is not a valid timestamp`)
+    return true
+  }
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return (value, path, issues): value is number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return fail(issues, path, `expected a finite number, got ${describe(value)}`)
+    }
+    if (options.integer && !Number.isInteger(value)) return fail(issues, path, 'must be a whole number')
+    if (options.min !== undefined && value < options.min) return fail(issues, path, `must be at least ${options.min}`)
+    if (options.max !== undefined && value > options.max) return fail(issues, path, `must be at most ${options.max}`)
+    return true
+  }
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path, issues): value is boolean =>
+    typeof value === 'boolean' || fail(issues, path, `expected a boolean, got ${describe(value)}`)
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, issues): value is T =>
+    values.includes(value as T) || fail(issues, path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`)
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues): value is T | null => value === null || schema(value, path, issues)
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues): value is T | undefined => value === undefined || schema(value, path, issues)
+}
+
+// Passes if either schema does; otherwise reports the second schema's issues
+export function either<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return (value, path, issues): value is A | B => first(value, path, []) || second(value, path, issues)
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) return fail(issues, path, `expected an array, got ${describe(value)}`)
+    // Check every item so all malformed entries are reported
+    return value.map((item, index) => schema(item, `${path}[${index}]`, issues)).every(Boolean)
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Properties not in the shape are allowed, e.g. columns added by a newer migration
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return (value, path, issues): value is T => {
+    if (!isPlainObject(value)) return fail(issues, path, `expected an object, got ${describe(value)}`)
+    return Object.entries(shape)
+      .map(([key, schema]) => (schema as Schema<unknown>)(value[key], `${path}.${key}`, issues))
+      .every(Boolean)
+  }
+}
+
+// For updates: any subset of the shape's properties
+export function partial<T>(shape: Shape<T>): Schema<Partial<T>> {
+  return (value, path, issues): value is Partial<T> => {
+    if (!isPlainObject(value)) return fail(issues, path, `expected an object, got ${describe(value)}`)
+    return Object.entries(shape)
+      .filter(([key]) => value[key] !== undefined)
+      .map(([key, schema]) => (schema as Schema<unknown>)(value[key], `${path}.${key}`, issues))
+      .every(Boolean)
+  }
+}
+
+// An object keyed by a fixed set of names, any of which may be missing
+export function record<K extends string, V>(keys: readonly K[], schema: Schema<V>): Schema<Partial<Record<K, V>>> {
+  return (value, path, issues): value is Partial<Record<K, V>> => {
+    if (!isPlainObject(value)) return fail(issues, path, `expected an object, got ${describe(value)}`)
+    return Object.entries(value)
+      .map(([key, item]) =>
+        keys.includes(key as K)
+          ? schema(item, `${path}.${key}`, issues)
+          : fail(issues, `${path}.${key}`, `unexpected key, expected one of ${keys.join(', ')}`))
+      .every(Boolean)
+  }
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  schema(value, '$', issues)
+  return issues
+}
+
+export function isValid<T>(schema: Schema<T>, value: unknown): value is T {
+  return validate(schema, value).length === 0
+}
+
+// what names the value in the error message, e.g. "fitness route"
+export function assertValid<T>(schema: Schema<T>, value: unknown, what: string): asserts value is T {
+  const issues = validate(schema, value)
+  if (issues.length > 0) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')
+    throw new ValidationError(`Malformed ${what}: ${summary}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`, issues)
+  }
+}
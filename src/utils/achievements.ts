@@ -0,0 +1,216 @@
+import { FitnessRoute, SavedRoute, UserAchievement, WorkoutLog } from '../lib/supabase'
+import { computeActivityStreak } from './goalProgress'
+import { KM_PER_MILE } from './routeGeometry'
+import { ROUTE_TYPES } from './routeValidation'
+
+// Everything a rule may look at. Rules are pure, so the same context always
+// produces the same result and evaluation can be repeated safely.
+// Route details come from the rows joined onto savedRoutes and workouts, so only the
+// user's own routes are ever loaded; advancedRouteCount sizes the catalog-wide rule.
+export type AchievementContext = {
+  savedRoutes: SavedRoute[]
+  workouts: WorkoutLog[]
+  advancedRouteCount: number
+}
+
+export type AchievementProgress = {
+  current: number
+  target: number
+}
+
+export type AchievementDefinition = {
+  id: string
+  title: string
+  description: string
+  icon: string
+  // Colour of the Badge shown once unlocked
+  variant: 'primary' | 'danger' | 'warning' | 'success' | 'info'
+  unit?: string
+  evaluate: (context: AchievementContext) => AchievementProgress
+}
+
+export type AchievementStatus = {
+  definition: AchievementDefinition
+  progress: AchievementProgress
+  achieved: boolean
+  unlocked: UserAchievement | null
+}
+
+const routeLookup = (context: AchievementContext) =>
+  new Map(
+    [...context.savedRoutes, ...context.workouts]
+      .flatMap(row => (row.fitness_routes ? [row.fitness_routes] : []))
+      .map(route => [route.id, route])
+  )
+
+const workoutRoute = (workout: WorkoutLog, routes: Map<string, FitnessRoute>) =>
+  workout.fitness_routes ?? (workout.route_id ? routes.get(workout.route_id) : undefined)
+
+// A route counts as completed once it has a logged workout or was marked completed
+export function getCompletedRouteIds(context: AchievementContext): Set<string> {
+  return new Set([
+    ...context.workouts.flatMap(workout => (workout.route_id ? [workout.route_id] : [])),
+    ...context.savedRoutes.filter(saved => saved.status === 'completed').map(saved => saved.route_id)
+  ])
+}
+
+// Reads the route type snapshot, so workouts on deleted routes keep counting
+function distanceOnRouteTypes(context: AchievementContext, types: FitnessRoute['route_type'][]): number {
+  return context.workouts
+    .filter(workout => (workout.route_type ? types.includes(workout.route_type) : false))
+    .reduce((total, workout) => total + Number(workout.distance), 0)
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-route',
+    title: 'First Steps',
+    description: 'Complete your first route',
+    icon: '👟',
+    variant: 'primary',
+    evaluate: context => ({ current: getCompletedRouteIds(context).size, target: 1 })
+  },
+  {
+    id: 'route-collector',
+    title: 'Route Collector',
+    description: 'Complete 10 different routes',
+    icon: '🗺️',
+    variant: 'info',
+    evaluate: context => ({ current: getCompletedRouteIds(context).size, target: 10 })
+  },
+  {
+    id: 'ten-workouts',
+    title: 'Regular',
+    description: 'Log 10 workouts',
+    icon: '📅',
+    variant: 'primary',
+    evaluate: context => ({ current: context.workouts.length, target: 10 })
+  },
+  {
+    id: 'fifty-workouts',
+    title: 'Dedicated',
+    description: 'Log 50 workouts',
+    icon: '💪',
+    variant: 'warning',
+    evaluate: context => ({ current: context.workouts.length, target: 50 })
+  },
+  {
+    id: 'century-ride',
+    title: 'Century Rider',
+    description: 'Cycle 100 km in total',
+    icon: '🚴',
+    variant: 'success',
+    unit: 'km',
+    evaluate: context => ({ current: distanceOnRouteTypes(context, ['cycling']) * KM_PER_MILE, target: 100 })
+  },
+  {
+    id: 'marathon-legs',
+    title: 'Marathon Legs',
+    description: 'Run a marathon distance (42.2 km) in total',
+    icon: '🏃',
+    variant: 'success',
+    unit: 'km',
+    evaluate: context => ({
+      current: distanceOnRouteTypes(context, ['running', 'trail-running']) * KM_PER_MILE,
+      target: 42.2
+    })
+  },
+  {
+    id: 'summit-seeker',
+    title: 'Summit Seeker',
+    description: 'Climb 1,000 m across your workouts',
+    icon: '⛰️',
+    variant: 'warning',
+    unit: 'm',
+    evaluate: context => {
+      const routes = routeLookup(context)
+      const climbed = context.workouts.reduce(
+        (total, workout) => total + (workoutRoute(workout, routes)?.elevation_gain_meters ?? 0),
+        0
+      )
+      return { current: climbed, target: 1000 }
+    }
+  },
+  {
+    id: 'all-rounder',
+    title: 'All-Rounder',
+    description: 'Complete a route of every type',
+    icon: '🎯',
+    variant: 'info',
+    evaluate: context => {
+      const routes = routeLookup(context)
+      const completedTypes = new Set(
+        [...getCompletedRouteIds(context)]
+          .map(id => routes.get(id)?.route_type)
+          .filter(Boolean)
+      )
+      return { current: completedTypes.size, target: ROUTE_TYPES.length }
+    }
+  },
+  {
+    id: 'all-advanced',
+    title: 'Hard as Nails',
+    description: 'Complete every advanced route',
+    icon: '🏆',
+    variant: 'danger',
+    evaluate: context => {
+      const routes = routeLookup(context)
+      const completedAdvanced = [...getCompletedRouteIds(context)]
+        .filter(id => routes.get(id)?.difficulty_level === 'advanced')
+      // With no advanced routes around there is nothing to complete, so keep it locked
+      return {
+        current: completedAdvanced.length,
+        target: Math.max(1, context.advancedRouteCount)
+      }
+    }
+  },
+  {
+    id: 'week-streak',
+    title: 'On a Roll',
+    description: 'Work out 7 days in a row',
+    icon: '🔥',
+    variant: 'danger',
+    evaluate: context => ({ current: computeActivityStreak(context.workouts).best, target: 7 })
+  },
+  {
+    id: 'early-bird',
+    title: 'Early Bird',
+    description: 'Finish a workout before 7am',
+    icon: '🌅',
+    variant: 'warning',
+    evaluate: context => ({
+      current: context.workouts.some(workout => new Date(workout.completed_at).getHours() < 7) ? 1 : 0,
+      target: 1
+    })
+  }
+]
+
+export function evaluateAchievements(
+  context: AchievementContext,
+  unlocked: UserAchievement[] = []
+): AchievementStatus[] {
+  const unlockedById = new Map(unlocked.map(achievement => [achievement.achievement_id, achievement]))
+
+  return ACHIEVEMENTS.map(definition => {
+    const progress = definition.evaluate(context)
+    return {
+      definition,
+      progress,
+      achieved: progress.current >= progress.target,
+      unlocked: unlockedById.get(definition.id) ?? null
+    }
+  })
+}
+
+// Achievements whose rule now passes but that haven't been persisted yet
+export function findNewlyAchieved(statuses: AchievementStatus[]): string[] {
+  return statuses
+    .filter(status => status.achieved && !status.unlocked)
+    .map(status => status.definition.id)
+}
+
+export function formatAchievementProgress(definition: AchievementDefinition, progress: AchievementProgress): string {
+  const current = Math.min(progress.current, progress.target)
+  const format = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1))
+  return `${format(current)} / ${format(progress.target)}${definition.unit ? ` ${definition.unit}` : ''}`
+}
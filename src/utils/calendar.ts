@@ -0,0 +1,257 @@
+import { SavedProcrastinationRoute, TrainingPlan, WorkoutLog } from '../lib/supabase'
+import { APP_NAME } from '../lib/router'
+import { ScheduledWorkoutStatus, addDays, formatPlanDate, formatTarget, schedulePlan } from './trainingPlans'
+import { formatDuration, formatWorkoutPerformance } from './workoutMetrics'
+import { formatTimeInvestment } from './procrastinationEngine'
+
+export type CalendarEventKind = 'workout' | 'activity' | 'procrastination'
+
+export type CalendarEvent = {
+  // Stable across exports so calendar apps update events instead of duplicating them
+  id: string
+  kind: CalendarEventKind
+  title: string
+  description: string | null
+  start: Date
+  // Exclusive; all-day events end at the following local midnight
+  end: Date
+  allDay: boolean
+  // Scheduled workouts only
+  status: ScheduledWorkoutStatus | null
+  // Fitness route for workouts and activities, saved route for procrastination steps;
+  // null for a workout or plan item on a route that has since been deleted
+  linkId: string | null
+}
+
+export type CalendarView = 'month' | 'week'
+
+const MINUTE_MS = 60 * 1000
+
+// Scheduled items from the active plans, as all-day events
+export function getWorkoutEvents(plans: TrainingPlan[], workouts: WorkoutLog[], now = new Date()): CalendarEvent[] {
+  return plans
+    .filter(plan => plan.is_active)
+    .flatMap(plan => schedulePlan(plan, workouts, now))
+    .map(({ plan, item, date, status }) => {
+      const routeName = item.fitness_routes?.name ?? item.route_name
+      const details = [`Training plan: ${plan.name}`, formatTarget(item), item.notes].filter(Boolean)
+
+      return {
+        id: `plan-item-${item.id}`,
+        kind: 'workout',
+        title: routeName ?? 'Scheduled workout',
+        description: details.join('\n'),
+        start: date,
+        end: addDays(date, 1),
+        allDay: true,
+        status,
+        linkId: item.route_id
+      }
+    })
+}
+
+// Logged workouts, ending at their completion time
+export function getActivityEvents(workouts: WorkoutLog[]): CalendarEvent[] {
+  return workouts.map(workout => {
+    const end = new Date(workout.completed_at)
+    // Deleted routes leave only the snapshot taken when the workout was logged
+    const routeName = workout.fitness_routes?.name ?? workout.route_name
+    const routeType = workout.fitness_routes?.route_type ?? workout.route_type
+    const details = [
+      routeType
+        ? `${formatDuration(workout.elapsed_seconds)} · ${formatWorkoutPerformance(workout, routeType)}`
+        : formatDuration(workout.elapsed_seconds),
+      workout.notes
+    ].filter(Boolean)
+
+    return {
+      id: `workout-${workout.id}`,
+      kind: 'activity',
+      title: routeName ? `Completed: ${routeName}` : 'Completed workout',
+      description: details.join('\n'),
+      start: new Date(end.getTime() - workout.elapsed_seconds * 1000),
+      end,
+      allDay: false,
+      status: null,
+      linkId: workout.route_id
+    }
+  })
+}
+
+// Each step of an active route is a block of its time investment, back to back
+// from when the route was saved
+export function getProcrastinationEvents(routes: SavedProcrastinationRoute[]): CalendarEvent[] {
+  return routes
+    .filter(route => (route.status ?? 'active') === 'active' && route.created_at)
+    .flatMap(route => {
+      let start = new Date(route.created_at!)
+
+      return route.route_steps.map((step, index) => {
+        const end = new Date(start.getTime() + step.timeInvestmentMinutes * MINUTE_MS)
+        const event: CalendarEvent = {
+          id: `procrastination-${route.id}-${index}`,
+          kind: 'procrastination',
+          title: step.name,
+          description: [
+            `Avoiding: ${route.title || route.original_task}`,
+            `Step ${index + 1} of ${route.route_steps.length} · ${formatTimeInvestment(step.timeInvestmentMinutes)}`,
+            step.description
+          ].join('\n'),
+          start,
+          end,
+          allDay: false,
+          status: null,
+          linkId: route.id
+        }
+        start = end
+        return event
+      })
+    })
+}
+
+// All-day events first, then by start time
+const byStart = (a: CalendarEvent, b: CalendarEvent) =>
+  Number(b.allDay) - Number(a.allDay) || a.start.getTime() - b.start.getTime()
+
+export function buildCalendarEvents(
+  plans: TrainingPlan[],
+  workouts: WorkoutLog[],
+  procrastinationRoutes: SavedProcrastinationRoute[],
+  now = new Date()
+): CalendarEvent[] {
+  return [
+    ...getWorkoutEvents(plans, workouts, now),
+    ...getActivityEvents(workouts),
+    ...getProcrastinationEvents(procrastinationRoutes)
+  ].sort(byStart)
+}
+
+// ---------------------------------------------------------------------------
+// Grid
+// ---------------------------------------------------------------------------
+
+// Weeks start on Sunday
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -date.getDay())
+}
+
+export function getWeekDays(date: Date): Date[] {
+  const start = startOfWeek(date)
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index))
+}
+
+// Whole weeks covering the month of the given date
+export function getMonthDays(date: Date): Date[] {
+  const first = new Date(date.getFullYear(), date.getMonth(), 1)
+  const last = new Date(date.getFullYear(), date.getMonth() + 1, 0)
+  const start = startOfWeek(first)
+  const days = Math.ceil((last.getDate() + first.getDay()) / 7) * 7
+  return Array.from({ length: days }, (_, index) => addDays(start, index))
+}
+
+export function shiftPeriod(date: Date, view: CalendarView, offset: number): Date {
+  return view === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + offset, 1)
+    : addDays(date, offset * 7)
+}
+
+// Events overlapping the given local day, keyed by YYYY-MM-DD
+export function groupEventsByDay(events: CalendarEvent[], days: Date[]): Map<string, CalendarEvent[]> {
+  return new Map(days.map(day => {
+    const dayStart = day.getTime()
+    const dayEnd = addDays(day, 1).getTime()
+    const overlapping = events.filter(event => event.start.getTime() < dayEnd && event.end.getTime() > dayStart)
+    return [formatPlanDate(day), overlapping]
+  }))
+}
+
+export function formatEventTime(event: CalendarEvent): string {
+  if (event.allDay) return 'All day'
+  const format = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  return `${format(event.start)} – ${format(event.end)}`
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar (RFC 5545)
+// ---------------------------------------------------------------------------
+
+const ICS_LINE_OCTETS = 75
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+const formatIcsDate = (date: Date) => formatPlanDate(date).replace(/-/g, '')
+
+const formatIcsDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// never splitting a multi-byte character
+const foldLine = (line: string) => {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const length = utf8Length(char)
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1
+    if (octets + length > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += length
+  }
+
+  return [...parts, current].join('\r\n ')
+}
+
+const toVEvent = (event: CalendarEvent, stamp: string) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@strong-strong`,
+    `DTSTAMP:${stamp}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${formatIcsDate(event.start)}` : `DTSTART:${formatIcsDateTime(event.start)}`,
+    event.allDay ? `DTEND;VALUE=DATE:${formatIcsDate(event.end)}` : `DTEND:${formatIcsDateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    `CATEGORIES:${event.kind.toUpperCase()}`
+  ]
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+  // Day-long plan entries shouldn't block out the whole day
+  lines.push(`TRANSP:${event.allDay ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT')
+  return lines
+}
+
+// A complete calendar; hosted at a URL it doubles as a subscription feed,
+// which calendar apps refresh every few hours
+export function toICalendar(events: CalendarEvent[], name = APP_NAME, now = new Date()): string {
+  const stamp = formatIcsDateTime(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_NAME}//Calendar//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...events.flatMap(event => toVEvent(event, stamp)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,187 @@
+import { TrackPoint } from '../lib/supabase'
+import { cumulativeDistances } from './routeGeometry'
+
+const METERS_PER_MILE = 1609.344
+
+// Elevation changes smaller than this are treated as GPS noise when totalling ascent/descent
+export const ELEVATION_NOISE_THRESHOLD_METERS = 3
+
+// Horizontal window used for grades so single noisy samples do not produce 60% spikes
+const GRADE_WINDOW_MILES = 0.05
+
+// A climb ends once the profile drops this far below its highest point
+const CLIMB_DIP_TOLERANCE_METERS = 10
+
+const MIN_CLIMB_GAIN_METERS = 15
+
+export type ClimbCategory = 'HC' | '1' | '2' | '3' | '4' | 'uncategorized'
+
+export interface ElevationSample {
+  distance: number // miles from the start
+  elevation: number // meters
+}
+
+export interface Climb {
+  startDistance: number
+  endDistance: number
+  length: number // miles
+  gain: number // meters
+  averageGrade: number // percent
+  category: ClimbCategory
+}
+
+export interface ElevationAnalysis {
+  samples: ElevationSample[]
+  totalAscent: number
+  totalDescent: number
+  minElevation: number
+  maxElevation: number
+  maxGrade: number
+  climbs: Climb[]
+}
+
+export function getElevationSamples(points: TrackPoint[]): ElevationSample[] {
+  const distances = cumulativeDistances(points)
+
+  return points.flatMap((point, index) =>
+    typeof point.ele === 'number' && Number.isFinite(point.ele)
+      ? [{ distance: distances[index], elevation: point.ele }]
+      : []
+  )
+}
+
+// Sums ascent and descent with a hysteresis threshold, matching route_track_elevation_gain() in SQL
+export function computeAscentDescent(samples: ElevationSample[]): { ascent: number; descent: number } {
+  if (samples.length < 2) return { ascent: 0, descent: 0 }
+
+  let reference = samples[0].elevation
+  let ascent = 0
+  let descent = 0
+
+  for (const sample of samples.slice(1)) {
+    const delta = sample.elevation - reference
+    if (delta >= ELEVATION_NOISE_THRESHOLD_METERS) {
+      ascent += delta
+      reference = sample.elevation
+    } else if (delta <= -ELEVATION_NOISE_THRESHOLD_METERS) {
+      descent -= delta
+      reference = sample.elevation
+    }
+  }
+
+  return { ascent: Math.round(ascent), descent: Math.round(descent) }
+}
+
+const gradePercent = (from: ElevationSample, to: ElevationSample) => {
+  const run = (to.distance - from.distance) * METERS_PER_MILE
+  return run > 0 ? ((to.elevation - from.elevation) / run) * 100 : 0
+}
+
+// Steepest uphill grade measured over GRADE_WINDOW_MILES
+export function computeMaxGrade(samples: ElevationSample[]): number {
+  let maxGrade = 0
+  let end = 0
+
+  for (let start = 0; start < samples.length; start++) {
+    end = Math.max(end, start + 1)
+    while (end < samples.length && samples[end].distance - samples[start].distance < GRADE_WINDOW_MILES) {
+      end++
+    }
+    if (end >= samples.length) break
+
+    maxGrade = Math.max(maxGrade, gradePercent(samples[start], samples[end]))
+  }
+
+  return Math.round(maxGrade * 10) / 10
+}
+
+// Climb score (meters of length x average grade %) thresholds, as used by most cycling platforms
+export function categorizeClimb(lengthMeters: number, averageGrade: number): ClimbCategory {
+  const score = lengthMeters * averageGrade
+
+  if (score >= 80000) return 'HC'
+  if (score >= 64000) return '1'
+  if (score >= 32000) return '2'
+  if (score >= 16000) return '3'
+  if (score >= 8000) return '4'
+  return 'uncategorized'
+}
+
+const toClimb = (samples: ElevationSample[], low: number, peak: number): Climb | null => {
+  const start = samples[low]
+  const end = samples[peak]
+  const gain = end.elevation - start.elevation
+  const length = end.distance - start.distance
+
+  if (gain < MIN_CLIMB_GAIN_METERS || length <= 0) return null
+
+  const averageGrade = gradePercent(start, end)
+
+  return {
+    startDistance: start.distance,
+    endDistance: end.distance,
+    length,
+    gain: Math.round(gain),
+    averageGrade: Math.round(averageGrade * 10) / 10,
+    category: categorizeClimb(length * METERS_PER_MILE, averageGrade)
+  }
+}
+
+export function detectClimbs(samples: ElevationSample[]): Climb[] {
+  const climbs: Climb[] = []
+  if (samples.length < 2) return climbs
+
+  let low = 0
+  let peak = 0
+
+  for (let i = 1; i < samples.length; i++) {
+    const elevation = samples[i].elevation
+
+    if (elevation > samples[peak].elevation) {
+      peak = i
+      continue
+    }
+
+    if (peak === low) {
+      // Not climbing yet - follow the valley floor down
+      if (elevation < samples[low].elevation) {
+        low = i
+        peak = i
+      }
+      continue
+    }
+
+    if (samples[peak].elevation - elevation > CLIMB_DIP_TOLERANCE_METERS) {
+      const climb = toClimb(samples, low, peak)
+      if (climb) climbs.push(climb)
+      low = i
+      peak = i
+    }
+  }
+
+  const lastClimb = toClimb(samples, low, peak)
+  if (lastClimb) climbs.push(lastClimb)
+
+  return climbs
+}
+
+// Returns null when the track carries fewer than two elevation samples
+export function analyzeElevation(points: TrackPoint[] | null | undefined): ElevationAnalysis | null {
+  if (!points) return null
+
+  const samples = getElevationSamples(points)
+  if (samples.length < 2) return null
+
+  const { ascent, descent } = computeAscentDescent(samples)
+  const elevations = samples.map(sample => sample.elevation)
+
+  return {
+    samples,
+    totalAscent: ascent,
+    totalDescent: descent,
+    minElevation: Math.min(...elevations),
+    maxElevation: Math.max(...elevations),
+    maxGrade: computeMaxGrade(samples),
+    climbs: detectClimbs(samples)
+  }
+}
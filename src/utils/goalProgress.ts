@@ -0,0 +1,143 @@
+import { GoalMetric, GoalPeriod, UserGoal, WorkoutLog } from '../lib/supabase'
+
+export type GoalProgress = {
+  current: number
+  target: number
+  // 0-1, capped so progress bars never overflow
+  fraction: number
+  achieved: boolean
+  periodStart: Date
+  periodEnd: Date
+}
+
+export type Streak = {
+  current: number
+  best: number
+}
+
+export const GOAL_METRIC_LABELS: Record<GoalMetric, string> = {
+  distance: 'Distance (mi)',
+  workouts: 'Workouts',
+  duration: 'Time (min)'
+}
+
+// Weeks start on Monday, the same as date_trunc('week', ...) on the database side
+export function getPeriodStart(date: Date, period: GoalPeriod): Date {
+  if (period === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1)
+  }
+
+  const daysSinceMonday = (date.getDay() + 6) % 7
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday)
+}
+
+export function addPeriods(start: Date, period: GoalPeriod, count: number): Date {
+  return period === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + count, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + count * 7)
+}
+
+export function workoutMatchesGoal(goal: Pick<UserGoal, 'route_type'>, workout: WorkoutLog): boolean {
+  return !goal.route_type || workout.route_type === goal.route_type
+}
+
+// How much a single workout moves the needle for a given metric
+export function workoutContribution(metric: GoalMetric, workout: WorkoutLog): number {
+  switch (metric) {
+    case 'distance': return Number(workout.distance)
+    case 'duration': return workout.elapsed_seconds / 60
+    case 'workouts': return 1
+  }
+}
+
+// Totals per period, keyed by the period start timestamp
+function totalsByPeriod(goal: UserGoal, workouts: WorkoutLog[]): Map<number, number> {
+  const totals = new Map<number, number>()
+
+  for (const workout of workouts) {
+    if (!workoutMatchesGoal(goal, workout)) continue
+    const key = getPeriodStart(new Date(workout.completed_at), goal.period).getTime()
+    totals.set(key, (totals.get(key) ?? 0) + workoutContribution(goal.metric, workout))
+  }
+
+  return totals
+}
+
+export function computeGoalProgress(goal: UserGoal, workouts: WorkoutLog[], now = new Date()): GoalProgress {
+  const periodStart = getPeriodStart(now, goal.period)
+  const current = totalsByPeriod(goal, workouts).get(periodStart.getTime()) ?? 0
+  const target = Number(goal.target)
+
+  return {
+    current,
+    target,
+    fraction: target > 0 ? Math.min(1, current / target) : 0,
+    achieved: current >= target,
+    periodStart,
+    periodEnd: addPeriods(periodStart, goal.period, 1)
+  }
+}
+
+// Consecutive periods in which the goal was met. The period in progress only
+// counts once it is met, so an unfinished week doesn't break the streak.
+export function computeGoalStreak(goal: UserGoal, workouts: WorkoutLog[], now = new Date()): Streak {
+  const totals = totalsByPeriod(goal, workouts)
+  if (totals.size === 0) return { current: 0, best: 0 }
+
+  const target = Number(goal.target)
+  const currentStart = getPeriodStart(now, goal.period)
+  let cursor = new Date(Math.min(...totals.keys()))
+  let run = 0
+  let best = 0
+  let previousRun = 0
+
+  while (cursor.getTime() <= currentStart.getTime()) {
+    const met = (totals.get(cursor.getTime()) ?? 0) >= target
+    const isCurrent = cursor.getTime() === currentStart.getTime()
+
+    if (isCurrent) previousRun = run
+    run = met ? run + 1 : 0
+    best = Math.max(best, run)
+    cursor = addPeriods(cursor, goal.period, 1)
+  }
+
+  return { current: Math.max(run, previousRun), best }
+}
+
+// Consecutive days with at least one workout, ending today or yesterday
+export function computeActivityStreak(workouts: WorkoutLog[], now = new Date()): Streak {
+  const dayKey = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+  const days = [...new Set(workouts.map(workout => dayKey(new Date(workout.completed_at))))].sort((a, b) => a - b)
+  if (days.length === 0) return { current: 0, best: 0 }
+
+  let best = 1
+  let run = 1
+  for (let i = 1; i < days.length; i++) {
+    // Compare calendar days rather than milliseconds so DST shifts don't break a run
+    const previous = new Date(days[i - 1])
+    const expected = new Date(previous.getFullYear(), previous.getMonth(), previous.getDate() + 1).getTime()
+    run = days[i] === expected ? run + 1 : 1
+    best = Math.max(best, run)
+  }
+
+  const today = dayKey(now)
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1).getTime()
+  const lastDay = days[days.length - 1]
+
+  return { current: lastDay === today || lastDay === yesterday ? run : 0, best }
+}
+
+export function formatGoalAmount(metric: GoalMetric, value: number): string {
+  switch (metric) {
+    case 'distance': return `${value.toFixed(1)} mi`
+    case 'duration': return `${Math.round(value)} min`
+    case 'workouts': return `${Math.floor(value)} workout${Math.floor(value) === 1 ? '' : 's'}`
+  }
+}
+
+// "20.0 mi of running per week"
+export function describeGoal(goal: Pick<UserGoal, 'metric' | 'period' | 'target' | 'route_type'>): string {
+  const amount = formatGoalAmount(goal.metric, Number(goal.target))
+  const activity = goal.route_type ? ` of ${goal.route_type.replace('-', ' ')}` : ''
+  return `${amount}${activity} per ${goal.period}`
+}
@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ProcrastinationCatalog,
+  StepTemplate,
+  generateRouteSteps,
+  generateSeededRoute,
+  getEligibleTemplates,
+  getTotalMinutes,
+  interpolate,
+  loadProcrastinationCatalog,
+  matchCategories,
+  parseTimeInvestment,
+  renderStep
+} from './procrastinationEngine'
+import { Random, createRandom } from './random'
+import { ValidationError } from '../lib/errors'
+import { ProcrastinationStep } from '../lib/supabase'
+
+// Shared links and saved seeds regenerate their route from these outputs, so a
+// change here breaks every link already handed out
+const summary = (steps: ProcrastinationStep[]) =>
+  steps.map(step => [step.name, step.timeInvestmentMinutes])
+
+describe('generateSeededRoute', () => {
+  it('gives the same route for the same task and seed', () => {
+    expect(summary(generateSeededRoute('Write the quarterly report', 'a1b2c3'))).toEqual([
+      ['Comprehensive Workspace Ergonomics Assessment', 150],
+      ['Social Media Competitive Intelligence Analysis', 168],
+      ['Literary Inspiration Archaeological Expedition', 210],
+      ['Email Organization Architecture Overhaul', 240]
+    ])
+    expect(summary(generateSeededRoute('Clean the garage', 'seed-42'))).toEqual([
+      ['Deep Research Rabbit Hole Expedition', 192],
+      ['Zen Master Space Clearing Meditation Protocol', 252],
+      ['Social Media Competitive Intelligence Analysis', 168],
+      ['Strategic Snack Inventory Management System', 90]
+    ])
+  })
+
+  it('renders the steps identically on every run', () => {
+    expect(generateSeededRoute('Clean the garage', 'seed-42'))
+      .toEqual(generateSeededRoute('Clean the garage', 'seed-42'))
+  })
+})
+
+describe('generateSeededRoute with a time budget', () => {
+  it('fills the budget with the same steps for the same seed', () => {
+    const steps = generateSeededRoute('Write the quarterly report', 'a1b2c3', 300)
+    expect(summary(steps)).toEqual([
+      ['Strategic Snack Inventory Management System', 90],
+      ['Literary Inspiration Archaeological Expedition', 210]
+    ])
+    expect(getTotalMinutes(steps)).toBe(300)
+  })
+
+  it('keeps a single step for a budget one step fills', () => {
+    expect(summary(generateSeededRoute('Study for the exam', 'k9', 90))).toEqual([
+      ['Strategic Snack Inventory Management System', 90]
+    ])
+  })
+})
+
+describe('parseTimeInvestment', () => {
+  it('reads hours and minutes', () => {
+    expect(parseTimeInvestment('2.5 hours')).toBe(150)
+    expect(parseTimeInvestment('45 minutes')).toBe(45)
+    expect(parseTimeInvestment('1h 15m')).toBe(75)
+    expect(parseTimeInvestment('2.8 hrs')).toBe(168)
+    expect(parseTimeInvestment('90 min')).toBe(90)
+  })
+
+  it('returns null for durations it cannot read', () => {
+    expect(parseTimeInvestment('a while')).toBeNull()
+    expect(parseTimeInvestment('0 minutes')).toBeNull()
+    expect(parseTimeInvestment('')).toBeNull()
+  })
+})
+
+// Small catalogs built inline, so each test only sees the templates it is about
+const template = (id: string, extra: Partial<StepTemplate> = {}): StepTemplate => ({
+  id,
+  name: id,
+  description: `About ${id}`,
+  timeInvestmentMinutes: 30,
+  benefit: `Benefit of ${id}`,
+  ...extra
+})
+
+const catalog = (templates: StepTemplate[], extra: Partial<ProcrastinationCatalog> = {}): ProcrastinationCatalog => ({
+  version: 1,
+  stepCount: { min: 1, max: 1 },
+  rules: [
+    { category: 'writing', keywords: ['write', 'Essay'] },
+    { category: 'cleaning', keywords: ['clean'] }
+  ],
+  templates,
+  ...extra
+})
+
+// Returns the given values in turn, starting over when they run out
+const fixedRandom = (...values: number[]): Random => {
+  let index = 0
+  return () => values[index++ % values.length]
+}
+
+const names = (steps: ProcrastinationStep[]) => steps.map(step => step.name)
+
+// Many seeded runs, for properties that must hold whatever gets picked
+const seededRuns = (task: string, routeCatalog: ProcrastinationCatalog, budget: number | null = null) =>
+  Array.from({ length: 50 }, (_, run) =>
+    names(generateRouteSteps(task, routeCatalog, createRandom(`run-${run}`), budget)))
+
+describe('matchCategories', () => {
+  const { rules } = catalog([])
+
+  it('matches keywords anywhere in the task, ignoring case', () => {
+    expect(matchCategories('Rewrite my ESSAY', rules)).toEqual(new Set(['writing']))
+    expect(matchCategories('Write up and clean the notes', rules)).toEqual(new Set(['writing', 'cleaning']))
+  })
+
+  it('matches nothing when no keyword appears', () => {
+    expect(matchCategories('Call the bank', rules)).toEqual(new Set())
+  })
+})
+
+describe('getEligibleTemplates', () => {
+  const routeCatalog = catalog([
+    template('anywhere'),
+    template('writing-only', { categories: ['writing'] }),
+    template('cleaning-only', { categories: ['cleaning'] }),
+    template('empty-categories', { categories: [] })
+  ])
+
+  it('offers categorised templates only when the task matches one of their categories', () => {
+    expect(getEligibleTemplates('Write a report', routeCatalog).map(item => item.id))
+      .toEqual(['anywhere', 'writing-only', 'empty-categories'])
+    expect(getEligibleTemplates('Call the bank', routeCatalog).map(item => item.id))
+      .toEqual(['anywhere', 'empty-categories'])
+  })
+})
+
+describe('generateRouteSteps weights', () => {
+  // The first draw picks the step count, the second the template
+  it('picks in proportion to weight', () => {
+    const routeCatalog = catalog([template('light'), template('heavy', { weight: 3 })])
+    expect(names(generateRouteSteps('task', routeCatalog, fixedRandom(0, 0.2)))).toEqual(['light'])
+    expect(names(generateRouteSteps('task', routeCatalog, fixedRandom(0, 0.3)))).toEqual(['heavy'])
+  })
+
+  it('never picks a template with weight 0', () => {
+    const routeCatalog = catalog(
+      [template('never', { weight: 0 }), template('a'), template('b'), template('c')],
+      { stepCount: { min: 1, max: 4 } }
+    )
+    expect(names(generateRouteSteps('task', routeCatalog, fixedRandom(0.99, 0)))).not.toContain('never')
+    expect(seededRuns('task', routeCatalog).flat()).not.toContain('never')
+    expect(seededRuns('task', routeCatalog, 120).flat()).not.toContain('never')
+  })
+
+  it('gives an empty route when every weight is 0', () => {
+    const routeCatalog = catalog([template('a', { weight: 0 }), template('b', { weight: 0 })])
+    expect(generateRouteSteps('task', routeCatalog, fixedRandom(0.5))).toEqual([])
+  })
+})
+
+describe('generateRouteSteps excludes', () => {
+  const pairs = (routes: string[][]) => routes.filter(route => route.includes('a') && route.includes('b'))
+
+  it('keeps excluded templates apart whichever side declares it', () => {
+    for (const templates of [
+      [template('a', { excludes: ['b'] }), template('b'), template('c')],
+      [template('a'), template('b', { excludes: ['a'] }), template('c')]
+    ]) {
+      const routeCatalog = catalog(templates, { stepCount: { min: 3, max: 3 } })
+      const routes = seededRuns('task', routeCatalog)
+      expect(pairs(routes)).toEqual([])
+      // Excluding one leaves room for only two of the three
+      routes.forEach(route => expect(route).toHaveLength(2))
+      expect(pairs(seededRuns('task', routeCatalog, 90))).toEqual([])
+    }
+  })
+})
+
+describe('interpolate and renderStep', () => {
+  it('fills {task} in every text field with the trimmed task', () => {
+    const step = renderStep(
+      template('t', { name: 'Avoid {task}', description: '{task}, later', benefit: 'No {task} today' }),
+      { task: 'taxes' }
+    )
+    expect(step).toEqual({
+      name: 'Avoid taxes',
+      description: 'taxes, later',
+      timeInvestmentMinutes: 30,
+      benefit: 'No taxes today'
+    })
+    const routeCatalog = catalog([template('t', { name: 'Avoid {task}' })])
+    expect(names(generateRouteSteps('  taxes  ', routeCatalog, fixedRandom(0)))).toEqual(['Avoid taxes'])
+  })
+
+  it('leaves unknown placeholders as written', () => {
+    expect(interpolate('{task} in a {mood} mood', { task: 'Taxes' })).toBe('Taxes in a {mood} mood')
+  })
+})
+
+describe('loadProcrastinationCatalog', () => {
+  const issuesOf = (raw: unknown) => {
+    try {
+      loadProcrastinationCatalog(raw)
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError)
+      return (error as ValidationError).issues.map(issue => `${issue.path} ${issue.message}`)
+    }
+    throw new Error('expected the catalog to be rejected')
+  }
+
+  it('accepts a well-formed catalog as is', () => {
+    const routeCatalog = catalog([template('a', { categories: ['writing'], excludes: ['b'] }), template('b')])
+    expect(loadProcrastinationCatalog(routeCatalog)).toBe(routeCatalog)
+  })
+
+  it('rejects duplicate ids', () => {
+    expect(issuesOf(catalog([template('a'), template('b'), template('a')])))
+      .toEqual(['$.templates[2].id duplicate id "a"'])
+  })
+
+  it('rejects categories without a rule', () => {
+    expect(issuesOf(catalog([template('a', { categories: ['gardening'] })])))
+      .toEqual(['$.templates[0].categories no rule for category "gardening"'])
+  })
+
+  it('rejects a step count whose min exceeds its max', () => {
+    expect(issuesOf(catalog([template('a')], { stepCount: { min: 4, max: 2 } })))
+      .toEqual(['$.stepCount min must not exceed max'])
+  })
+
+  it('rejects excludes of unknown templates and unknown placeholders', () => {
+    expect(issuesOf(catalog([template('a', { excludes: ['ghost'], benefit: 'A {mood} break' })]))).toEqual([
+      '$.templates[0] unknown placeholder {mood}',
+      '$.templates[0].excludes unknown template "ghost"'
+    ])
+  })
+
+  it('rejects catalogs that do not match the schema', () => {
+    expect(() => loadProcrastinationCatalog({ ...catalog([]), templates: [{ id: 'a' }] })).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,336 @@
+import type { ProcrastinationLibraryStep, ProcrastinationStep } from '../lib/supabase'
+import { ValidationError, ValidationIssue } from '../lib/errors'
+import { Shape, array, assertValid, number, object, optional, string } from '../lib/validation'
+import { Random, createRandom, shuffle } from './random'
+import catalogJson from '../data/procrastinationCatalog.json'
+
+// Generates procrastination routes from a declarative catalog of step templates
+// and keyword rules, so new steps need no code changes. Pure functions with an
+// injectable random source, so nothing here depends on React.
+
+export type StepTemplate = ProcrastinationStep & {
+  id: string
+  // Relative chance of being picked; defaults to 1
+  weight?: number
+  // Only offered when the task matches one of these categories
+  categories?: string[]
+  // Never appears in the same route as these templates, in either direction
+  excludes?: string[]
+}
+
+// A task matches a category when it contains any keyword, case-insensitively
+export type CategoryRule = {
+  category: string
+  keywords: string[]
+}
+
+export type ProcrastinationCatalog = {
+  version: number
+  stepCount: { min: number; max: number }
+  rules: CategoryRule[]
+  templates: StepTemplate[]
+}
+
+// Values a template may interpolate as {name}
+export type TemplateValues = {
+  task: string
+}
+
+const PLACEHOLDERS: (keyof TemplateValues)[] = ['task']
+
+// Mirrors the procrastination_steps check constraints
+export const LIBRARY_STEP_LIMITS = {
+  nameMaxLength: 100,
+  descriptionMaxLength: 1000,
+  benefitMaxLength: 500
+}
+
+// Mirror the procrastination_steps and saved_procrastination_routes minute checks
+export const STEP_MAX_MINUTES = 24 * 60
+export const TIME_BUDGET_MAX_MINUTES = 24 * 60
+
+// What a duration that can't be read counts as
+export const DEFAULT_STEP_MINUTES = 60
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g
+
+const nonEmpty = string({ minLength: 1 })
+
+const stepMinutes = number({ min: 1, max: STEP_MAX_MINUTES, integer: true })
+
+const stepTemplateShape: Shape<StepTemplate> = {
+  id: nonEmpty,
+  name: nonEmpty,
+  description: nonEmpty,
+  timeInvestmentMinutes: stepMinutes,
+  benefit: nonEmpty,
+  weight: optional(number({ min: 0 })),
+  categories: optional(array(nonEmpty)),
+  excludes: optional(array(nonEmpty))
+}
+
+const catalogSchema = object<ProcrastinationCatalog>({
+  version: number({ min: 1, integer: true }),
+  stepCount: object({ min: number({ min: 1, integer: true }), max: number({ min: 1, integer: true }) }),
+  rules: array(object<CategoryRule>({ category: nonEmpty, keywords: array(nonEmpty) })),
+  templates: array(object(stepTemplateShape))
+})
+
+// Problems the schema can't see: references between templates and rules
+function findReferenceIssues(catalog: ProcrastinationCatalog): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const ids = new Set<string>()
+  const categories = new Set(catalog.rules.map(rule => rule.category))
+
+  if (catalog.stepCount.min > catalog.stepCount.max) {
+    issues.push({ path: '$.stepCount', message: 'min must not exceed max' })
+  }
+
+  catalog.templates.forEach((template, index) => {
+    const path = `$.templates[${index}]`
+    if (ids.has(template.id)) issues.push({ path: `${path}.id`, message: `duplicate id "${template.id}"` })
+    ids.add(template.id)
+
+    for (const category of template.categories ?? []) {
+      if (!categories.has(category)) issues.push({ path: `${path}.categories`, message: `no rule for category "${category}"` })
+    }
+
+    for (const text of [template.name, template.description, template.benefit]) {
+      for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!PLACEHOLDERS.includes(name as keyof TemplateValues)) {
+          issues.push({ path, message: `unknown placeholder {${name}}` })
+        }
+      }
+    }
+  })
+
+  catalog.templates.forEach((template, index) => {
+    for (const excluded of template.excludes ?? []) {
+      if (!ids.has(excluded)) issues.push({ path: `$.templates[${index}].excludes`, message: `unknown template "${excluded}"` })
+    }
+  })
+
+  return issues
+}
+
+// Validates a catalog loaded from JSON or elsewhere; throws ValidationError
+export function loadProcrastinationCatalog(raw: unknown): ProcrastinationCatalog {
+  assertValid(catalogSchema, raw, 'procrastination catalog')
+
+  const issues = findReferenceIssues(raw)
+  if (issues.length > 0) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')
+    throw new ValidationError(`Malformed procrastination catalog: ${summary}`, issues)
+  }
+
+  return raw
+}
+
+export const defaultCatalog = loadProcrastinationCatalog(catalogJson)
+
+// "2.5 hours", "45 minutes", "1 hour 30 min" or "1h 15m"; null when no
+// positive duration can be read
+export function parseTimeInvestment(value: string): number | null {
+  const pattern = /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi
+  let minutes = 0
+
+  for (const [, amount, unit] of value.matchAll(pattern)) {
+    minutes += parseFloat(amount) * (unit.toLowerCase().startsWith('h') ? 60 : 1)
+  }
+
+  return Math.round(minutes) > 0 ? Math.round(minutes) : null
+}
+
+// 45 -> "45 min", 150 -> "2 h 30 min", 240 -> "4 h"
+export function formatTimeInvestment(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const remainder = minutes % 60
+  if (hours === 0) return `${remainder} min`
+  return remainder === 0 ? `${hours} h` : `${hours} h ${remainder} min`
+}
+
+export function getTotalMinutes(steps: ProcrastinationStep[]): number {
+  return steps.reduce((total, step) => total + step.timeInvestmentMinutes, 0)
+}
+
+// Steps stored before durations were kept in minutes
+export type LegacyProcrastinationStep = Omit<ProcrastinationStep, 'timeInvestmentMinutes'> & {
+  timeInvestment: string
+}
+
+// Mirrors parse_time_investment() in supabase/migrations/20250717083104_steady_clock.sql,
+// for data stored in the browser before that migration
+export function upgradeTimeInvestment(value: string): number {
+  return Math.min(parseTimeInvestment(value) ?? DEFAULT_STEP_MINUTES, STEP_MAX_MINUTES)
+}
+
+export function upgradeProcrastinationStep(step: ProcrastinationStep | LegacyProcrastinationStep): ProcrastinationStep {
+  if (!('timeInvestment' in step)) return step
+
+  const { timeInvestment, ...rest } = step
+  return { ...rest, timeInvestmentMinutes: upgradeTimeInvestment(timeInvestment) }
+}
+
+// User-written steps join the pool uncategorised, so they are offered for any
+// task, and may use the same placeholders as the built-in templates
+export function toStepTemplate(step: ProcrastinationLibraryStep): StepTemplate {
+  return {
+    id: `library-${step.id}`,
+    name: step.name,
+    description: step.description,
+    timeInvestmentMinutes: step.time_investment_minutes,
+    benefit: step.benefit
+  }
+}
+
+// The built-in templates plus library steps. Sorted by id so a seed picks the
+// same steps whatever order the steps were fetched in.
+export function withLibrarySteps(
+  catalog: ProcrastinationCatalog,
+  steps: ProcrastinationLibraryStep[]
+): ProcrastinationCatalog {
+  // Keyed by id, so a step fetched twice is offered once
+  const added = new Map(steps.map(step => [step.id, toStepTemplate(step)]))
+  const templates = [...added.values()].sort((a, b) => a.id.localeCompare(b.id))
+
+  return { ...catalog, templates: [...catalog.templates, ...templates] }
+}
+
+export function matchCategories(task: string, rules: CategoryRule[]): Set<string> {
+  const taskLower = task.toLowerCase()
+  return new Set(
+    rules
+      .filter(rule => rule.keywords.some(keyword => taskLower.includes(keyword.toLowerCase())))
+      .map(rule => rule.category)
+  )
+}
+
+// Unknown placeholders are left as written
+export function interpolate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    PLACEHOLDERS.includes(name as keyof TemplateValues) ? values[name as keyof TemplateValues] : placeholder
+  )
+}
+
+export function renderStep(template: StepTemplate, values: TemplateValues): ProcrastinationStep {
+  return {
+    name: interpolate(template.name, values),
+    description: interpolate(template.description, values),
+    timeInvestmentMinutes: template.timeInvestmentMinutes,
+    benefit: interpolate(template.benefit, values)
+  }
+}
+
+// Templates the task qualifies for: the uncategorised ones plus those of matched categories
+export function getEligibleTemplates(task: string, catalog: ProcrastinationCatalog): StepTemplate[] {
+  const categories = matchCategories(task, catalog.rules)
+  return catalog.templates.filter(template =>
+    !template.categories?.length || template.categories.some(category => categories.has(category))
+  )
+}
+
+const excludesEither = (a: StepTemplate, b: StepTemplate) =>
+  (a.excludes ?? []).includes(b.id) || (b.excludes ?? []).includes(a.id)
+
+function pickWeighted(templates: StepTemplate[], random: Random): StepTemplate | null {
+  const total = templates.reduce((sum, template) => sum + (template.weight ?? 1), 0)
+  if (total <= 0) return null
+
+  let remaining = random() * total
+  for (const template of templates) {
+    remaining -= template.weight ?? 1
+    if (remaining < 0) return template
+  }
+  // Rounding can leave a sliver past the last template
+  return templates.filter(template => (template.weight ?? 1) > 0).pop() ?? null
+}
+
+function pickCount(pool: StepTemplate[], count: number, random: Random): StepTemplate[] {
+  const picked: StepTemplate[] = []
+
+  while (picked.length < count) {
+    const template = pickWeighted(pool, random)
+    if (!template) break
+    picked.push(template)
+    pool = pool.filter(candidate => candidate !== template && !excludesEither(template, candidate))
+  }
+
+  return picked
+}
+
+// Weighted orderings tried when filling a time budget; the closest fit wins
+const BUDGET_ATTEMPTS = 40
+
+// Every template with a positive weight, in weighted random order
+function weightedOrder(pool: StepTemplate[], random: Random): StepTemplate[] {
+  const order: StepTemplate[] = []
+  let remaining = pool
+
+  for (let template = pickWeighted(remaining, random); template; template = pickWeighted(remaining, random)) {
+    order.push(template)
+    remaining = remaining.filter(candidate => candidate !== template)
+  }
+
+  return order
+}
+
+// Walks the templates in weighted order, keeping each one that brings the total
+// closer to the budget. Always keeps the first, so a route is never empty.
+function pickForBudget(pool: StepTemplate[], budgetMinutes: number, random: Random): StepTemplate[] {
+  let best: StepTemplate[] = []
+  let bestGap = Infinity
+
+  for (let attempt = 0; attempt < BUDGET_ATTEMPTS && bestGap > 0; attempt++) {
+    const picked: StepTemplate[] = []
+    let total = 0
+
+    for (const template of weightedOrder(pool, random)) {
+      if (picked.some(kept => excludesEither(kept, template))) continue
+      const gap = Math.abs(budgetMinutes - total - template.timeInvestmentMinutes)
+      if (picked.length > 0 && gap >= Math.abs(budgetMinutes - total)) continue
+
+      picked.push(template)
+      total += template.timeInvestmentMinutes
+    }
+
+    const gap = Math.abs(budgetMinutes - total)
+    if (gap < bestGap) {
+      best = picked
+      bestGap = gap
+    }
+  }
+
+  return best
+}
+
+// Picks templates by weight, without repeats or excluded pairs. Without a time
+// budget that is between stepCount.min and stepCount.max of them, fewer when the
+// eligible pool runs out; with one, as many as fill the budget most closely.
+export function generateRouteSteps(
+  task: string,
+  catalog: ProcrastinationCatalog = defaultCatalog,
+  random: Random = Math.random,
+  budgetMinutes: number | null = null
+): ProcrastinationStep[] {
+  const values: TemplateValues = { task: task.trim() }
+  const pool = getEligibleTemplates(task, catalog)
+
+  const { min, max } = catalog.stepCount
+  const picked = budgetMinutes === null
+    ? pickCount(pool, min + Math.floor(random() * (max - min + 1)), random)
+    : pickForBudget(pool, budgetMinutes, random)
+
+  // Heavier templates are drawn first, so shuffle to keep them from leading every route
+  return shuffle(picked, random).map(template => renderStep(template, values))
+}
+
+// The same task, seed and budget always give the same route. Seeds end up in links
+// and saved routes, so they only ever draw on the built-in catalog: library steps
+// differ from user to user and change over time.
+export function generateSeededRoute(
+  task: string,
+  seed: string,
+  budgetMinutes: number | null = null
+): ProcrastinationStep[] {
+  return generateRouteSteps(task, defaultCatalog, createRandom(seed), budgetMinutes)
+}
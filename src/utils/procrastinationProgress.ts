@@ -0,0 +1,55 @@
+import { ProcrastinationStep, SavedProcrastinationRoute } from '../lib/supabase'
+import { getTotalMinutes } from './procrastinationEngine'
+
+// Step-by-step progress through a saved procrastination route. Completion lives
+// on each step in route_steps; the route's own status follows it.
+
+export type RouteProgress = {
+  completedSteps: number
+  totalSteps: number
+  completedMinutes: number
+  totalMinutes: number
+  // 0-1, by steps
+  fraction: number
+}
+
+export type RouteProgressUpdate = Pick<SavedProcrastinationRoute, 'route_steps'>
+  & Partial<Pick<SavedProcrastinationRoute, 'status' | 'completed_at'>>
+
+export const isStepCompleted = (step: ProcrastinationStep) => !!step.completedAt
+
+export function getRouteProgress(steps: ProcrastinationStep[]): RouteProgress {
+  const completed = steps.filter(isStepCompleted)
+
+  return {
+    completedSteps: completed.length,
+    totalSteps: steps.length,
+    completedMinutes: getTotalMinutes(completed),
+    totalMinutes: getTotalMinutes(steps),
+    fraction: steps.length > 0 ? completed.length / steps.length : 0
+  }
+}
+
+// Ticks a step off or back on. Ticking off the last open step completes an active
+// route; reopening a step of a route completed that way makes it active again.
+// Archived routes keep their status.
+export function setStepCompleted(
+  route: SavedProcrastinationRoute,
+  index: number,
+  completed: boolean,
+  now = new Date()
+): RouteProgressUpdate {
+  const route_steps = route.route_steps.map((step, stepIndex) =>
+    stepIndex === index ? { ...step, completedAt: completed ? now.toISOString() : null } : step)
+
+  const status = route.status ?? 'active'
+  const allDone = route_steps.length > 0 && route_steps.every(isStepCompleted)
+
+  if (allDone && status === 'active') {
+    return { route_steps, status: 'completed', completed_at: now.toISOString() }
+  }
+  if (!allDone && status === 'completed' && route.route_steps.every(isStepCompleted)) {
+    return { route_steps, status: 'active', completed_at: null }
+  }
+  return { route_steps }
+}
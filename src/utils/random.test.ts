@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { Random, createRandom, hashSeed, nextSeed, shuffle } from './random'
+
+const draws = (random: Random, count: number) => Array.from({ length: count }, () => random())
+
+describe('hashSeed', () => {
+  it('is 32-bit FNV-1a', () => {
+    expect(hashSeed('')).toBe(0x811c9dc5)
+    expect(hashSeed('a')).toBe(0xe40c292c)
+  })
+})
+
+describe('createRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draws(createRandom('a1b2c3'), 20)).toEqual(draws(createRandom('a1b2c3'), 20))
+  })
+
+  it('gives different sequences for different seeds', () => {
+    expect(draws(createRandom('a1b2c3'), 5)).not.toEqual(draws(createRandom('a1b2c4'), 5))
+  })
+
+  it('stays within [0, 1)', () => {
+    draws(createRandom('range'), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+})
+
+describe('nextSeed', () => {
+  it('always leads to the same seven-character seed', () => {
+    expect(nextSeed('a1b2c3')).toMatch(/^[0-9a-z]{7}$/)
+    expect(nextSeed('a1b2c3')).toBe(nextSeed('a1b2c3'))
+    expect(nextSeed('a1b2c3')).not.toBe(nextSeed(nextSeed('a1b2c3')))
+  })
+})
+
+describe('shuffle', () => {
+  it('returns a shuffled copy and leaves the input alone', () => {
+    const items = [1, 2, 3, 4, 5, 6]
+    const shuffled = shuffle(items, createRandom('shuffle'))
+    expect(items).toEqual([1, 2, 3, 4, 5, 6])
+    expect(shuffled).not.toBe(items)
+    expect([...shuffled].sort()).toEqual(items)
+  })
+
+  it('swaps each position with the one the random source points at', () => {
+    // Always the first remaining position, then always the current one
+    expect(shuffle([1, 2, 3, 4], () => 0)).toEqual([2, 3, 4, 1])
+    expect(shuffle([1, 2, 3, 4], () => 0.999)).toEqual([1, 2, 3, 4])
+  })
+
+  it('gives the same order for the same seed', () => {
+    const items = ['a', 'b', 'c', 'd', 'e']
+    expect(shuffle(items, createRandom('s'))).toEqual(shuffle(items, createRandom('s')))
+  })
+
+  it('handles empty and single-item lists', () => {
+    expect(shuffle([], () => 0.5)).toEqual([])
+    expect(shuffle(['only'], () => 0.5)).toEqual(['only'])
+  })
+})
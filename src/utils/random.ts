@@ -0,0 +1,51 @@
+// Seeded pseudo-random numbers, so generated content can be reproduced from a
+// short seed that users can save and share
+
+export type Random = () => number
+
+// Mirrors the saved_procrastination_routes seed check constraint
+export const SEED_MAX_LENGTH = 64
+
+// FNV-1a: maps seed text of any length to a 32-bit state
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < seed.length; index++) {
+    hash ^= seed.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: uniform numbers in [0, 1), the same sequence for the same seed
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const formatSeed = (value: number) => value.toString(36).padStart(7, '0')
+
+// Seven characters of base 36, e.g. "0k3j9x2"
+export function randomSeed(): string {
+  return formatSeed(crypto.getRandomValues(new Uint32Array(1))[0])
+}
+
+// The next seed in a chain of variations; the same seed always leads to the same next one
+export function nextSeed(seed: string): string {
+  return formatSeed(Math.floor(createRandom(`${seed}:next`)() * 4294967296))
+}
+
+// Fisher–Yates; returns a shuffled copy
+export function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const shuffled = [...items]
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1))
+    ;[shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]]
+  }
+  return shuffled
+}
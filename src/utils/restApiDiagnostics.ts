@@ -1,4 +1,5 @@
-import { database, testSupabaseConnection, SupabaseError } from '../lib/supabase'
+import { testSupabaseConnection, SupabaseError } from '../lib/supabase'
+import { database } from '../lib/database'
 
 export interface RestApiDiagnosticResult {
   endpoint: string
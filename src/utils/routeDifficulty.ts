@@ -0,0 +1,68 @@
+import { FitnessRoute } from '../lib/supabase'
+
+export type DifficultyLevel = FitnessRoute['difficulty_level']
+
+// Keep these in sync with compute_route_difficulty() in the database
+
+// Cycling covers ground roughly three times faster than running or walking
+const DISTANCE_FACTORS: Record<FitnessRoute['route_type'], number> = {
+  running: 1,
+  walking: 1,
+  'trail-running': 1,
+  hiking: 1,
+  cycling: 1 / 3
+}
+
+// 100 m of climbing counts as roughly one extra mile of effort
+const METERS_PER_EFFORT_MILE = 100
+
+const EFFORT_THRESHOLDS = { intermediate: 5, advanced: 10 }
+
+// Meters climbed per mile; steep routes are hard regardless of their length
+const CLIMB_DENSITY_THRESHOLDS = { intermediate: 45, advanced: 90 }
+
+const LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced']
+
+const levelFor = (value: number, thresholds: { intermediate: number; advanced: number }): DifficultyLevel => {
+  if (value >= thresholds.advanced) return 'advanced'
+  if (value >= thresholds.intermediate) return 'intermediate'
+  return 'beginner'
+}
+
+export function computeRouteEffort(
+  distance: number,
+  elevationGainMeters: number,
+  routeType: FitnessRoute['route_type']
+): number {
+  return distance * DISTANCE_FACTORS[routeType] + elevationGainMeters / METERS_PER_EFFORT_MILE
+}
+
+export function computeDifficultyLevel(
+  distance: number,
+  elevationGainMeters: number,
+  routeType: FitnessRoute['route_type']
+): DifficultyLevel {
+  const effortLevel = levelFor(
+    computeRouteEffort(distance, elevationGainMeters, routeType),
+    EFFORT_THRESHOLDS
+  )
+  const climbDensity = elevationGainMeters / Math.max(distance, 0.1)
+  const densityLevel = levelFor(climbDensity, CLIMB_DENSITY_THRESHOLDS)
+
+  return LEVELS[Math.max(LEVELS.indexOf(effortLevel), LEVELS.indexOf(densityLevel))]
+}
+
+export const DIFFICULTY_ORDER: Record<DifficultyLevel, number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3
+}
+
+export const getDifficultyColor = (difficulty: string) => {
+  switch (difficulty) {
+    case 'beginner': return 'bg-green-100 text-green-800'
+    case 'intermediate': return 'bg-yellow-100 text-yellow-800'
+    case 'advanced': return 'bg-red-100 text-red-800'
+    default: return 'bg-gray-100 text-gray-800'
+  }
+}
@@ -0,0 +1,246 @@
+import { FitnessRoute, TrackPoint } from '../lib/supabase'
+import { isValidTrackPoint } from './routeGeometry'
+
+export type RouteFileFormat = 'gpx' | 'geojson'
+
+export interface ParsedTrack {
+  name: string | null
+  description: string | null
+  points: TrackPoint[]
+  format: RouteFileFormat
+}
+
+export class RouteFileError extends Error {
+  constructor(
+    message: string,
+    public code: 'UNSUPPORTED_FORMAT' | 'PARSE_ERROR' | 'NO_TRACK'
+  ) {
+    super(message)
+    this.name = 'RouteFileError'
+  }
+}
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1'
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const textOf = (parent: Element, tagName: string): string | null => {
+  const element = Array.from(parent.children).find(child => child.localName === tagName)
+  const text = element?.textContent?.trim()
+  return text ? text : null
+}
+
+const toTrackPoint = (element: Element): TrackPoint => {
+  const ele = textOf(element, 'ele')
+  return {
+    lat: parseFloat(element.getAttribute('lat') ?? ''),
+    lon: parseFloat(element.getAttribute('lon') ?? ''),
+    ...(ele !== null ? { ele: parseFloat(ele) } : {})
+  }
+}
+
+export function parseGpx(xml: string): ParsedTrack {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RouteFileError('The GPX file is not valid XML.', 'PARSE_ERROR')
+  }
+
+  const root = doc.documentElement
+  if (root.localName !== 'gpx') {
+    throw new RouteFileError('The file does not contain a <gpx> document.', 'PARSE_ERROR')
+  }
+
+  // Prefer recorded track points, fall back to planned route points
+  let pointElements = Array.from(root.getElementsByTagNameNS('*', 'trkpt'))
+  if (pointElements.length === 0) {
+    pointElements = Array.from(root.getElementsByTagNameNS('*', 'rtept'))
+  }
+
+  const points = pointElements.map(toTrackPoint).filter(isValidTrackPoint)
+  if (points.length === 0) {
+    throw new RouteFileError('No track or route points were found in the GPX file.', 'NO_TRACK')
+  }
+
+  const metadata = Array.from(root.children).find(child => child.localName === 'metadata')
+  const track = Array.from(root.children).find(child => child.localName === 'trk' || child.localName === 'rte')
+
+  return {
+    name: (track && textOf(track, 'name')) || (metadata && textOf(metadata, 'name')) || null,
+    description: (track && textOf(track, 'desc')) || (metadata && textOf(metadata, 'desc')) || null,
+    points,
+    format: 'gpx'
+  }
+}
+
+type GeoJsonObject = {
+  type?: unknown
+  coordinates?: unknown
+  geometry?: GeoJsonObject | null
+  features?: unknown
+  properties?: Record<string, unknown> | null
+}
+
+const toLineCoordinates = (geometry: GeoJsonObject | null | undefined): number[][] | null => {
+  if (geometry?.type === 'LineString' && Array.isArray(geometry.coordinates)) {
+    return geometry.coordinates
+  }
+  return null
+}
+
+export function parseGeoJson(text: string): ParsedTrack {
+  let json: GeoJsonObject
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new RouteFileError('The GeoJSON file is not valid JSON.', 'PARSE_ERROR')
+  }
+
+  let coordinates: number[][] | null = null
+  let properties: Record<string, unknown> = {}
+
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    const features = json.features as GeoJsonObject[]
+    const feature = features.find(candidate => toLineCoordinates(candidate?.geometry))
+    coordinates = feature ? toLineCoordinates(feature.geometry) : null
+    properties = feature?.properties ?? {}
+  } else if (json?.type === 'Feature') {
+    coordinates = toLineCoordinates(json.geometry)
+    properties = json.properties ?? {}
+  } else {
+    coordinates = toLineCoordinates(json)
+  }
+
+  if (!coordinates) {
+    throw new RouteFileError('No LineString geometry was found in the GeoJSON file.', 'NO_TRACK')
+  }
+
+  // GeoJSON positions are [longitude, latitude, elevation?]
+  const points = coordinates
+    .filter(position => Array.isArray(position))
+    .map(([lon, lat, ele]): TrackPoint => ({
+      lat,
+      lon,
+      ...(typeof ele === 'number' ? { ele } : {})
+    }))
+    .filter(isValidTrackPoint)
+
+  if (points.length === 0) {
+    throw new RouteFileError('The LineString in the GeoJSON file has no valid positions.', 'NO_TRACK')
+  }
+
+  return {
+    name: typeof properties.name === 'string' ? properties.name : null,
+    description: typeof properties.description === 'string' ? properties.description : null,
+    points,
+    format: 'geojson'
+  }
+}
+
+export function detectRouteFileFormat(fileName: string, content: string): RouteFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+
+  if (extension === 'gpx') return 'gpx'
+  if (extension === 'geojson' || extension === 'json') return 'geojson'
+
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('<')) return 'gpx'
+  if (trimmed.startsWith('{')) return 'geojson'
+
+  throw new RouteFileError('Unsupported file type. Please upload a .gpx or .geojson file.', 'UNSUPPORTED_FORMAT')
+}
+
+export async function parseRouteFile(file: File): Promise<ParsedTrack> {
+  const content = await file.text()
+  const format = detectRouteFileFormat(file.name, content)
+  return format === 'gpx' ? parseGpx(content) : parseGeoJson(content)
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+type ExportableRoute = Pick<FitnessRoute, 'name' | 'description' | 'route_type' | 'track_points'>
+
+export function toGpx(route: ExportableRoute): string {
+  const points = route.track_points ?? []
+  const trackPoints = points
+    .map(point => {
+      const ele = point.ele !== undefined && point.ele !== null ? `<ele>${point.ele}</ele>` : ''
+      return `      <trkpt lat="${point.lat}" lon="${point.lon}">${ele}</trkpt>`
+    })
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Strong Strong" xmlns="${GPX_NAMESPACE}">
+  <metadata>
+    <name>${escapeXml(route.name)}</name>
+    <desc>${escapeXml(route.description || '')}</desc>
+  </metadata>
+  <trk>
+    <name>${escapeXml(route.name)}</name>
+    <type>${escapeXml(route.route_type)}</type>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>
+`
+}
+
+export function toGeoJson(route: ExportableRoute): string {
+  const points = route.track_points ?? []
+  const feature = {
+    type: 'Feature',
+    properties: {
+      name: route.name,
+      description: route.description,
+      route_type: route.route_type
+    },
+    geometry: {
+      type: 'LineString',
+      coordinates: points.map(point =>
+        point.ele !== undefined && point.ele !== null
+          ? [point.lon, point.lat, point.ele]
+          : [point.lon, point.lat]
+      )
+    }
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [feature] }, null, 2)
+}
+
+const toFileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'route'
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export function exportRouteTrack(route: ExportableRoute, format: RouteFileFormat) {
+  const slug = toFileSlug(route.name)
+
+  if (format === 'gpx') {
+    downloadTextFile(toGpx(route), `${slug}.gpx`, 'application/gpx+xml')
+  } else {
+    downloadTextFile(toGeoJson(route), `${slug}.geojson`, 'application/geo+json')
+  }
+}
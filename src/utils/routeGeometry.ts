@@ -0,0 +1,87 @@
+import { TrackPoint } from '../lib/supabase'
+
+// Mean Earth radius in miles - route distances are stored in miles
+export const EARTH_RADIUS_MILES = 3958.8
+
+// Mirrors the fitness_routes_distance_check constraint
+export const MAX_ROUTE_DISTANCE_MILES = 1000
+
+export const MIN_TRACK_POINTS = 2
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle distance between two points using the haversine formula
+export function haversineMiles(a: Pick<TrackPoint, 'lat' | 'lon'>, b: Pick<TrackPoint, 'lat' | 'lon'>): number {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLon = toRadians(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+export const KM_PER_MILE = 1.609344
+
+export function haversineKm(a: Pick<TrackPoint, 'lat' | 'lon'>, b: Pick<TrackPoint, 'lat' | 'lon'>): number {
+  return haversineMiles(a, b) * KM_PER_MILE
+}
+
+// Cumulative distance (miles) at every point of the track
+export function cumulativeDistances(points: TrackPoint[]): number[] {
+  const distances: number[] = []
+  let total = 0
+
+  points.forEach((point, index) => {
+    if (index > 0) {
+      total += haversineMiles(points[index - 1], point)
+    }
+    distances.push(total)
+  })
+
+  return distances
+}
+
+// Total track length rounded to the numeric(8,2) precision of fitness_routes.distance
+export function computeTrackDistance(points: TrackPoint[]): number {
+  if (points.length < MIN_TRACK_POINTS) return 0
+
+  const distances = cumulativeDistances(points)
+  return Math.round(distances[distances.length - 1] * 100) / 100
+}
+
+export function isValidTrackPoint(point: TrackPoint): boolean {
+  return (
+    Number.isFinite(point.lat) &&
+    Number.isFinite(point.lon) &&
+    point.lat >= -90 && point.lat <= 90 &&
+    point.lon >= -180 && point.lon <= 180 &&
+    (point.ele === undefined || point.ele === null || Number.isFinite(point.ele))
+  )
+}
+
+// Returns a user-facing problem description, or null when the track can be stored
+export function validateTrack(points: TrackPoint[]): string | null {
+  if (points.length < MIN_TRACK_POINTS) {
+    return `A route track needs at least ${MIN_TRACK_POINTS} points.`
+  }
+
+  const invalidIndex = points.findIndex(point => !isValidTrackPoint(point))
+  if (invalidIndex !== -1) {
+    return `Track point ${invalidIndex + 1} has invalid coordinates.`
+  }
+
+  const distance = computeTrackDistance(points)
+  if (distance <= 0) {
+    return 'The track has no length. Check that it contains distinct points.'
+  }
+  if (distance > MAX_ROUTE_DISTANCE_MILES) {
+    return `The track is ${distance} miles long; routes are limited to ${MAX_ROUTE_DISTANCE_MILES} miles.`
+  }
+
+  return null
+}
+
+export function hasTrack(route: { track_points?: TrackPoint[] | null }): boolean {
+  return !!route.track_points && route.track_points.length >= MIN_TRACK_POINTS
+}
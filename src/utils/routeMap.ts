@@ -0,0 +1,175 @@
+import { TrackPoint } from '../lib/supabase'
+import { KM_PER_MILE, cumulativeDistances } from './routeGeometry'
+
+// Geometry for the offline route map. Points are projected with Web Mercator
+// onto a unit square (x east, y south, both 0..1) so an optional slippy-map
+// tile layer lines up with the track without any conversion.
+
+export type WorldPoint = {
+  x: number
+  y: number
+}
+
+export type WorldBounds = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type DistanceMarker = WorldPoint & {
+  km: number
+}
+
+// A run of consecutive segments drawn in one color; start and end are point indexes
+export type ElevationRun = {
+  start: number
+  end: number
+  level: number
+}
+
+// Optional background tiles, e.g. an OpenStreetMap-style server or a local tile cache
+export interface MapTileLayer {
+  tileUrl(zoom: number, x: number, y: number): string
+  maxZoom: number
+  attribution?: string
+}
+
+export type MapTile = {
+  key: string
+  url: string
+  x: number
+  y: number
+  size: number
+}
+
+export const TILE_SIZE = 256
+export const ELEVATION_LEVELS = 8
+
+// Web Mercator is undefined at the poles; slippy maps stop here too
+const MAX_LATITUDE = 85.05112878
+// Never fetch more than this many tiles for one view
+const MAX_TILES = 64
+
+const MARKER_STEPS_KM = [0.5, 1, 2, 5, 10, 20, 50, 100, 200]
+
+export function projectPoint(point: Pick<TrackPoint, 'lat' | 'lon'>): WorldPoint {
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.lat))
+  const sin = Math.sin((lat * Math.PI) / 180)
+  return {
+    x: (point.lon + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)
+  }
+}
+
+export function getWorldBounds(points: WorldPoint[]): WorldBounds {
+  return points.reduce(
+    (bounds, point) => ({
+      minX: Math.min(bounds.minX, point.x),
+      minY: Math.min(bounds.minY, point.y),
+      maxX: Math.max(bounds.maxX, point.x),
+      maxY: Math.max(bounds.maxY, point.y)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  )
+}
+
+// Picks a marker spacing that puts at most maxMarkers markers along the route
+export function chooseMarkerStepKm(totalKm: number, maxMarkers = 10): number {
+  return MARKER_STEPS_KM.find(step => totalKm / step <= maxMarkers) ?? MARKER_STEPS_KM[MARKER_STEPS_KM.length - 1]
+}
+
+// Positions every stepKm along the track, interpolated between track points;
+// the finish itself gets no marker
+export function getDistanceMarkers(points: TrackPoint[], stepKm: number): DistanceMarker[] {
+  const distancesKm = cumulativeDistances(points).map(miles => miles * KM_PER_MILE)
+  const projected = points.map(projectPoint)
+  const totalKm = distancesKm[distancesKm.length - 1] ?? 0
+  const markers: DistanceMarker[] = []
+
+  let index = 1
+  for (let km = stepKm; km < totalKm; km += stepKm) {
+    while (distancesKm[index] < km) index++
+
+    const from = distancesKm[index - 1]
+    const span = distancesKm[index] - from
+    const t = span > 0 ? (km - from) / span : 0
+    const a = projected[index - 1]
+    const b = projected[index]
+    markers.push({ km: Math.round(km * 10) / 10, x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+  }
+
+  return markers
+}
+
+// Groups segments by their mean elevation into ELEVATION_LEVELS bands, lowest
+// first. Returns no runs when the track has fewer than two elevations.
+export function getElevationRuns(points: TrackPoint[]): ElevationRun[] {
+  const elevations = points.map(point =>
+    typeof point.ele === 'number' && Number.isFinite(point.ele) ? point.ele : null)
+  const known = elevations.filter((ele): ele is number => ele !== null)
+  if (known.length < 2) return []
+
+  const min = Math.min(...known)
+  const range = Math.max(...known) - min
+  const runs: ElevationRun[] = []
+  let level = 0
+
+  for (let index = 1; index < points.length; index++) {
+    const ends = [elevations[index - 1], elevations[index]].filter((ele): ele is number => ele !== null)
+    // Segments without elevation keep the previous segment's color
+    if (ends.length > 0 && range > 0) {
+      const mean = ends.reduce((sum, ele) => sum + ele, 0) / ends.length
+      level = Math.min(ELEVATION_LEVELS - 1, Math.floor(((mean - min) / range) * ELEVATION_LEVELS))
+    }
+
+    const last = runs[runs.length - 1]
+    if (last && last.level === level) {
+      last.end = index
+    } else {
+      runs.push({ start: index - 1, end: index, level })
+    }
+  }
+
+  return runs
+}
+
+// Green for the lowest band through yellow to red for the highest
+export function elevationLevelColor(level: number): string {
+  const hue = 120 - (level / (ELEVATION_LEVELS - 1)) * 120
+  return `hsl(${Math.round(hue)}, 75%, 42%)`
+}
+
+// Tiles covering the visible world area at the zoom closest to the view scale.
+// scale is view units per world unit; view offsets map world (0, 0) into the view.
+export function getVisibleTiles(
+  layer: MapTileLayer,
+  visible: WorldBounds,
+  scale: number,
+  offset: WorldPoint
+): MapTile[] {
+  const zoom = Math.max(0, Math.min(layer.maxZoom, Math.round(Math.log2(scale / TILE_SIZE))))
+  const count = 2 ** zoom
+  const clampTile = (value: number) => Math.max(0, Math.min(count - 1, Math.floor(value * count)))
+
+  const fromX = clampTile(visible.minX)
+  const toX = clampTile(visible.maxX)
+  const fromY = clampTile(visible.minY)
+  const toY = clampTile(visible.maxY)
+  if ((toX - fromX + 1) * (toY - fromY + 1) > MAX_TILES) return []
+
+  const size = scale / count
+  const tiles: MapTile[] = []
+  for (let x = fromX; x <= toX; x++) {
+    for (let y = fromY; y <= toY; y++) {
+      tiles.push({
+        key: `${zoom}/${x}/${y}`,
+        url: layer.tileUrl(zoom, x, y),
+        x: offset.x + x * size,
+        y: offset.y + y * size,
+        size
+      })
+    }
+  }
+  return tiles
+}
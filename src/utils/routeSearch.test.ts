@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { compareRoutes, distanceToStartKm, getRouteCursor, isAfterCursor, matchesRouteQuery } from './routeSearch'
+import { createFixedGeolocation, getCurrentPosition, setGeolocationSource } from '../lib/geolocation'
+import { FitnessRoute, RouteCursor, RouteQuery } from '../lib/supabase'
+
+const route = (id: string, start: { lat: number; lon: number } | null, extra: Partial<FitnessRoute> = {}): FitnessRoute => ({
+  id,
+  name: `Route ${id}`,
+  description: null,
+  distance: 3,
+  duration_minutes: 30,
+  elevation_gain_meters: 0,
+  route_type: 'running',
+  difficulty_level: 'beginner',
+  created_by: null,
+  created_at: '2025-07-01T00:00:00Z',
+  track_points: null,
+  start_lat: start?.lat ?? null,
+  start_lon: start?.lon ?? null,
+  rating_average: null,
+  rating_count: 0,
+  ...extra
+})
+
+// Routes along the meridian through the user, who stands on the equator; one
+// degree of latitude is about 111 km, and north and south of the user at the same
+// offset are exactly as far
+const routes = [
+  route('d', { lat: 0.2, lon: 0 }),
+  route('b', { lat: -0.1, lon: 0 }),
+  route('e', { lat: 1, lon: 0 }),
+  route('a', { lat: 0.1, lon: 0 }),
+  route('c', { lat: 0.1, lon: 0 }),
+  route('f', null)
+]
+
+const nearQuery = async (radiusKm: number): Promise<RouteQuery> => {
+  const position = await getCurrentPosition()
+  return { sortBy: 'nearest', near: { ...position, radiusKm } }
+}
+
+// Pages through the routes the way loadMoreRoutes does: sort, keep what comes
+// after the cursor, take a page and move the cursor to its last route
+function pageThrough(query: RouteQuery, pageSize: number): string[][] {
+  const sorted = routes.filter(item => matchesRouteQuery(item, query, [])).sort(compareRoutes(query))
+  const pages: string[][] = []
+  let remaining = sorted
+
+  while (remaining.length > 0) {
+    const page = remaining.slice(0, pageSize)
+    pages.push(page.map(item => item.id))
+    const cursor: RouteCursor = getRouteCursor(page[page.length - 1], query)
+    remaining = sorted.filter(item => isAfterCursor(item, cursor, query))
+  }
+
+  return pages
+}
+
+describe('route search near a position', () => {
+  beforeEach(() => setGeolocationSource(createFixedGeolocation({ lat: 0, lon: 0 })))
+  afterEach(() => setGeolocationSource(null))
+
+  it('measures the distance to where a route starts', async () => {
+    const position = await getCurrentPosition()
+    expect(distanceToStartKm(routes[3], position)).toBeCloseTo(11.12, 1)
+    expect(distanceToStartKm(routes[1], position)).toBe(distanceToStartKm(routes[3], position))
+    expect(distanceToStartKm(routes[5], position)).toBe(Infinity)
+  })
+
+  it('keeps only routes starting within the radius', async () => {
+    const query = await nearQuery(15)
+    expect(routes.filter(item => matchesRouteQuery(item, query, [])).map(item => item.id)).toEqual(['b', 'a', 'c'])
+
+    const wider = await nearQuery(50)
+    expect(routes.filter(item => matchesRouteQuery(item, wider, [])).map(item => item.id)).toEqual(['d', 'b', 'a', 'c'])
+  })
+
+  it('never matches a route without a start', async () => {
+    const query = await nearQuery(100000)
+    expect(matchesRouteQuery(routes[5], query, [])).toBe(false)
+  })
+
+  it('sorts nearest first, breaking ties by id', async () => {
+    const query = await nearQuery(200)
+    expect([...routes].filter(item => item.start_lat !== null).sort(compareRoutes(query)).map(item => item.id))
+      .toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('pages across routes at the same distance without skipping or repeating any', async () => {
+    const query = await nearQuery(200)
+    expect(pageThrough(query, 1)).toEqual([['a'], ['b'], ['c'], ['d'], ['e']])
+    expect(pageThrough(query, 2)).toEqual([['a', 'b'], ['c', 'd'], ['e']])
+  })
+})
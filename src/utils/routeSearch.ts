@@ -0,0 +1,99 @@
+import { FitnessRoute, RouteCursor, RouteQuery, RouteSort, SavedRoute } from '../lib/supabase'
+import { GeoPoint } from '../lib/geolocation'
+import { DIFFICULTY_ORDER } from './routeDifficulty'
+import { haversineKm } from './routeGeometry'
+
+export const ROUTE_PAGE_SIZE = 24
+
+// Routes without created_at sort last when newest come first
+const NO_DATE = '-infinity'
+
+export function getRouteStart(route: FitnessRoute): GeoPoint | null {
+  return route.start_lat !== null && route.start_lon !== null
+    ? { lat: route.start_lat, lon: route.start_lon }
+    : null
+}
+
+// Kilometers from the point to where the route starts; Infinity without a start
+export function distanceToStartKm(route: FitnessRoute, point: GeoPoint): number {
+  const start = getRouteStart(route)
+  return start ? haversineKm(point, start) : Infinity
+}
+
+// Sort keys as search_fitness_routes orders them; ties are broken by id
+function sortKey(route: FitnessRoute, query: Pick<RouteQuery, 'sortBy' | 'near'>): string | number {
+  switch (query.sortBy) {
+    case 'name': return route.name.toLowerCase()
+    case 'distance': return route.distance
+    case 'difficulty': return DIFFICULTY_ORDER[route.difficulty_level]
+    case 'date': return route.created_at ?? NO_DATE
+    case 'nearest': return query.near ? distanceToStartKm(route, query.near) : Infinity
+    case 'rating': return route.rating_average ?? 0
+  }
+}
+
+const dateValue = (value: string | number) =>
+  value === NO_DATE ? -Infinity : new Date(value).getTime()
+
+function compareKeys(a: string | number, b: string | number, sortBy: RouteSort): number {
+  if (sortBy === 'date') return dateValue(b) - dateValue(a)
+  if (sortBy === 'rating') return Number(b) - Number(a)
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+
+// value overrides the sort key, for keys the database computed itself
+export function getRouteCursor(
+  route: FitnessRoute,
+  query: RouteQuery,
+  value: string | number = sortKey(route, query)
+): RouteCursor {
+  return { sortBy: query.sortBy, value, id: route.id }
+}
+
+export function compareRoutes(query: RouteQuery) {
+  return (a: FitnessRoute, b: FitnessRoute) =>
+    compareKeys(sortKey(a, query), sortKey(b, query), query.sortBy) || compareIds(a.id, b.id)
+}
+
+export function isAfterCursor(route: FitnessRoute, cursor: RouteCursor, query: RouteQuery): boolean {
+  const order = compareKeys(sortKey(route, { ...query, sortBy: cursor.sortBy }), cursor.value, cursor.sortBy)
+  return order > 0 || (order === 0 && route.id > cursor.id)
+}
+
+// Runs of letters and digits, as search_fitness_routes splits the search
+export function getSearchWords(search: string | undefined): string[] {
+  return (search ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+// The in-browser counterpart of the search_fitness_routes filters. Every search
+// word must start a word of the name or description (no stemming).
+export function matchesRouteQuery(route: FitnessRoute, query: RouteQuery, savedRoutes: SavedRoute[]): boolean {
+  const words = getSearchWords(query.search)
+  if (words.length > 0) {
+    const routeWords = `${route.name} ${route.description ?? ''}`.toLowerCase().split(/[^\p{L}\p{N}]+/u)
+    if (!words.every(word => routeWords.some(routeWord => routeWord.startsWith(word)))) return false
+  }
+
+  if (query.routeTypes?.length && !query.routeTypes.includes(route.route_type)) return false
+  if (query.difficulties?.length && !query.difficulties.includes(route.difficulty_level)) return false
+
+  if (query.minDistance !== undefined && route.distance < query.minDistance) return false
+  if (query.maxDistance !== undefined && route.distance > query.maxDistance) return false
+
+  const duration = route.duration_minutes ?? 0
+  if (query.minDuration !== undefined && duration < query.minDuration) return false
+  if (query.maxDuration !== undefined && duration > query.maxDuration) return false
+
+  if (query.near && !(distanceToStartKm(route, query.near) <= query.near.radiusKm)) return false
+
+  if (query.savedStatus) {
+    const saved = savedRoutes.find(savedRoute => savedRoute.route_id === route.id)
+    if (!saved) return false
+    if (query.savedStatus !== 'saved' && saved.status !== query.savedStatus) return false
+  }
+
+  return true
+}
@@ -0,0 +1,126 @@
+import { FitnessRoute, FitnessRouteInput, TrackPoint } from '../lib/supabase'
+import { GeoPoint } from '../lib/geolocation'
+import { MAX_ROUTE_DISTANCE_MILES, isValidTrackPoint, validateTrack } from './routeGeometry'
+
+export const ROUTE_TYPES: FitnessRoute['route_type'][] = ['running', 'walking', 'cycling', 'trail-running', 'hiking']
+
+export const getRouteTypeIcon = (type: string) => {
+  switch (type) {
+    case 'running': return '🏃‍♂️'
+    case 'walking': return '🚶‍♂️'
+    case 'cycling': return '🚴‍♂️'
+    case 'trail-running': return '⛰️'
+    case 'hiking': return '🥾'
+    default: return '🏃‍♂️'
+  }
+}
+
+// Mirrors the fitness_routes (and saved_routes.notes, route_reviews.body, route_collections.name) check constraints
+export const ROUTE_LIMITS = {
+  nameMaxLength: 100,
+  descriptionMaxLength: 1000,
+  notesMaxLength: 2000,
+  reviewMaxLength: 2000,
+  collectionNameMaxLength: 100,
+  maxDistance: MAX_ROUTE_DISTANCE_MILES,
+  maxDurationMinutes: 1440,
+  maxElevationGainMeters: 20000
+}
+
+// Parses one "lat, lon[, elevation]" waypoint per line
+export function parseWaypoints(text: string): { points: TrackPoint[]; errors: string[] } {
+  const points: TrackPoint[] = []
+  const errors: string[] = []
+
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed) return
+
+    const values = trimmed.split(/[\s,;]+/).map(Number)
+    if (values.length < 2 || values.length > 3 || values.some(value => !Number.isFinite(value))) {
+      errors.push(`Line ${index + 1}: expected "latitude, longitude" with an optional elevation`)
+      return
+    }
+
+    const [lat, lon, ele] = values
+    const point: TrackPoint = ele !== undefined ? { lat, lon, ele } : { lat, lon }
+
+    if (!isValidTrackPoint(point)) {
+      errors.push(`Line ${index + 1}: coordinates are out of range`)
+      return
+    }
+
+    points.push(point)
+  })
+
+  return { points, errors }
+}
+
+// Parses a single "lat, lon" pair, e.g. a typed route start or search center
+export function parseCoordinate(text: string): GeoPoint | null {
+  const values = text.trim().split(/[\s,;]+/).map(Number)
+  if (values.length !== 2 || values.some(value => !Number.isFinite(value))) return null
+
+  const [lat, lon] = values
+  return isValidTrackPoint({ lat, lon }) ? { lat, lon } : null
+}
+
+export function formatCoordinate(point: GeoPoint): string {
+  return `${point.lat}, ${point.lon}`
+}
+
+export function formatWaypoints(points: TrackPoint[]): string {
+  return points
+    .map(point =>
+      point.ele !== undefined && point.ele !== null
+        ? `${point.lat}, ${point.lon}, ${point.ele}`
+        : `${point.lat}, ${point.lon}`
+    )
+    .join('\n')
+}
+
+// Final guard before a route is written; returns every violated constraint
+export function validateRouteInput(input: FitnessRouteInput): string[] {
+  const errors: string[] = []
+  const name = input.name.trim()
+
+  if (!name) {
+    errors.push('Route name is required')
+  } else if (name.length > ROUTE_LIMITS.nameMaxLength) {
+    errors.push(`Route name must be at most ${ROUTE_LIMITS.nameMaxLength} characters`)
+  }
+
+  if ((input.description ?? '').length > ROUTE_LIMITS.descriptionMaxLength) {
+    errors.push(`Description must be at most ${ROUTE_LIMITS.descriptionMaxLength} characters`)
+  }
+
+  if (!ROUTE_TYPES.includes(input.route_type)) {
+    errors.push('Please choose a valid route type')
+  }
+
+  if (input.track_points) {
+    const trackProblem = validateTrack(input.track_points)
+    if (trackProblem) errors.push(trackProblem)
+  } else if (!(input.distance >= 0 && input.distance <= ROUTE_LIMITS.maxDistance)) {
+    errors.push(`Distance must be between 0 and ${ROUTE_LIMITS.maxDistance} miles`)
+  }
+
+  if ((input.start_lat === null) !== (input.start_lon === null) ||
+      (input.start_lat !== null && input.start_lon !== null &&
+        !isValidTrackPoint({ lat: input.start_lat, lon: input.start_lon }))) {
+    errors.push('Start point must be a valid latitude and longitude')
+  }
+
+  const duration = input.duration_minutes ?? 0
+  if (!Number.isInteger(duration) || duration < 0 || duration > ROUTE_LIMITS.maxDurationMinutes) {
+    errors.push(`Duration must be a whole number of minutes between 0 and ${ROUTE_LIMITS.maxDurationMinutes}`)
+  }
+
+  if (!Number.isInteger(input.elevation_gain_meters) ||
+      input.elevation_gain_meters < 0 ||
+      input.elevation_gain_meters > ROUTE_LIMITS.maxElevationGainMeters) {
+    errors.push(`Elevation gain must be between 0 and ${ROUTE_LIMITS.maxElevationGainMeters} meters`)
+  }
+
+  return errors
+}
@@ -1,4 +1,5 @@
 import { supabase, testSupabaseConnection, SupabaseHealthMonitor } from '../lib/supabase'
+import { database } from '../lib/database'
 
 export interface DiagnosticResult {
   test: string
@@ -434,7 +435,7 @@ async function testAuthService(): Promise<DiagnosticResult> {
   const timestamp = new Date().toISOString()
 
   try {
-    const { data, error } = await supabase.auth.getSession()
+    const { data, error } = await database.auth.getSession()
 
     if (error) {
       return {
@@ -476,6 +477,16 @@ async function testDatabaseAccess(): Promise<DiagnosticResult> {
   const timestamp = new Date().toISOString()
 
   try {
+    if (!supabase) {
+      return {
+        test: 'Database Access',
+        success: false,
+        message: 'Supabase is not configured; the app is using the local backend',
+        timestamp,
+        duration: Date.now() - startTime
+      }
+    }
+
     const { data, error } = await supabase
       .from('fitness_routes')
       .select('id')
@@ -524,6 +535,16 @@ async function testRealtimeConnection(): Promise<DiagnosticResult> {
   const timestamp = new Date().toISOString()
 
   try {
+    if (!supabase) {
+      return {
+        test: 'Realtime Connection',
+        success: false,
+        message: 'Supabase is not configured; the app is using the local backend',
+        timestamp,
+        duration: Date.now() - startTime
+      }
+    }
+
     // Test realtime by subscribing briefly
     const channel = supabase
       .channel('test-channel')
@@ -0,0 +1,111 @@
+import { TrainingPlan, TrainingPlanItem, WorkoutLog } from '../lib/supabase'
+import { computePace, formatPace } from './workoutMetrics'
+
+// Mirrors the training_plans and training_plan_items check constraints
+export const PLAN_LIMITS = {
+  nameMaxLength: 100,
+  descriptionMaxLength: 1000,
+  notesMaxLength: 500,
+  maxDays: 364, // 52 weeks
+  maxTargetDurationMinutes: 1440,
+  maxTargetPace: 60
+}
+
+export const DAYS_PER_WEEK = 7
+
+// done: a workout on the item's route was logged on its day
+export type ScheduledWorkoutStatus = 'done' | 'missed' | 'today' | 'upcoming'
+
+export type ScheduledWorkout = {
+  plan: TrainingPlan
+  item: TrainingPlanItem
+  date: Date // local midnight
+  status: ScheduledWorkoutStatus
+  workout: WorkoutLog | null
+  // Whether the workout hit the item's target; null without a target or a workout
+  metTarget: boolean | null
+}
+
+// Plan dates are calendar days in the browser's time zone
+export function parsePlanDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function formatPlanDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+export function getItemDate(plan: Pick<TrainingPlan, 'start_date'>, item: Pick<TrainingPlanItem, 'day_offset'>): Date {
+  return addDays(parsePlanDate(plan.start_date), item.day_offset)
+}
+
+// Weeks shown by the editor: every scheduled week, and at least one
+export function getPlanWeekCount(plan: TrainingPlan): number {
+  const lastDay = Math.max(-1, ...(plan.training_plan_items ?? []).map(item => item.day_offset))
+  return Math.max(1, Math.ceil((lastDay + 1) / DAYS_PER_WEEK))
+}
+
+export function meetsTarget(item: TrainingPlanItem, workout: WorkoutLog): boolean | null {
+  if (item.target_duration_minutes !== null) {
+    return workout.elapsed_seconds <= Number(item.target_duration_minutes) * 60
+  }
+  if (item.target_pace_minutes_per_mile !== null) {
+    const pace = computePace(Number(workout.distance), workout.elapsed_seconds)
+    return pace !== null && pace <= Number(item.target_pace_minutes_per_mile)
+  }
+  return null
+}
+
+export function formatTarget(item: Pick<TrainingPlanItem, 'target_duration_minutes' | 'target_pace_minutes_per_mile'>): string | null {
+  if (item.target_duration_minutes !== null) return `Within ${Number(item.target_duration_minutes)} min`
+  if (item.target_pace_minutes_per_mile !== null) return `${formatPace(Number(item.target_pace_minutes_per_mile))} or faster`
+  return null
+}
+
+// Checks off each item with a workout on its route logged on its day. A workout
+// checks off at most one item, so the same route twice in a day needs two workouts.
+export function schedulePlan(plan: TrainingPlan, workouts: WorkoutLog[], now = new Date()): ScheduledWorkout[] {
+  const today = formatPlanDate(now)
+  const used = new Set<string>()
+  const byDay = new Map<string, WorkoutLog[]>()
+
+  for (const workout of [...workouts].sort((a, b) => a.completed_at.localeCompare(b.completed_at))) {
+    // A workout whose route was deleted can't check off anything
+    if (!workout.route_id) continue
+    const key = `${workout.route_id}:${formatPlanDate(new Date(workout.completed_at))}`
+    byDay.set(key, [...(byDay.get(key) ?? []), workout])
+  }
+
+  return [...(plan.training_plan_items ?? [])]
+    .sort((a, b) => a.day_offset - b.day_offset || a.position - b.position)
+    .map(item => {
+      const date = getItemDate(plan, item)
+      const day = formatPlanDate(date)
+      const candidates = item.route_id
+        ? (byDay.get(`${item.route_id}:${day}`) ?? []).filter(workout => !used.has(workout.id))
+        : []
+      // Prefer a workout that hit the target when several were logged
+      const workout = candidates.find(candidate => meetsTarget(item, candidate) !== false) ?? candidates[0] ?? null
+      if (workout) used.add(workout.id)
+
+      const status: ScheduledWorkoutStatus = workout
+        ? 'done'
+        : day < today ? 'missed' : day === today ? 'today' : 'upcoming'
+
+      return { plan, item, date, status, workout, metTarget: workout ? meetsTarget(item, workout) : null }
+    })
+}
+
+// Everything scheduled for today across the active plans
+export function getTodaysWorkouts(plans: TrainingPlan[], workouts: WorkoutLog[], now = new Date()): ScheduledWorkout[] {
+  const today = formatPlanDate(now)
+  return plans
+    .filter(plan => plan.is_active)
+    .flatMap(plan => schedulePlan(plan, workouts, now))
+    .filter(scheduled => formatPlanDate(scheduled.date) === today)
+}
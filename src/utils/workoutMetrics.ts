@@ -0,0 +1,92 @@
+import { FitnessRoute, WorkoutLog } from '../lib/supabase'
+
+// Cyclists think in speed, everyone else in pace
+export type PerformanceMetric = 'pace' | 'speed'
+
+export const PERCEIVED_EFFORT_LABELS: Record<number, string> = {
+  1: 'Very easy',
+  2: 'Easy',
+  3: 'Light',
+  4: 'Moderate',
+  5: 'Steady',
+  6: 'Somewhat hard',
+  7: 'Hard',
+  8: 'Very hard',
+  9: 'Near max',
+  10: 'Max effort'
+}
+
+export function getPerformanceMetric(routeType: FitnessRoute['route_type']): PerformanceMetric {
+  return routeType === 'cycling' ? 'speed' : 'pace'
+}
+
+// "1:05:32" or "42:07"
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const remainder = seconds % 60
+  const pad = (value: number) => value.toString().padStart(2, '0')
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(remainder)}`
+    : `${minutes}:${pad(remainder)}`
+}
+
+// Accepts "hh:mm:ss", "mm:ss" or plain minutes; returns null when unparseable
+export function parseDuration(value: string): number | null {
+  const parts = value.trim().split(':')
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) {
+    return null
+  }
+
+  const numbers = parts.map(Number)
+  if (numbers.length === 1) return numbers[0] * 60
+
+  const [seconds, minutes, hours = 0] = numbers.reverse()
+  if (seconds >= 60 || (parts.length === 3 && minutes >= 60)) return null
+
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+// Minutes per mile
+export function computePace(distance: number, elapsedSeconds: number): number | null {
+  if (distance <= 0 || elapsedSeconds <= 0) return null
+  return elapsedSeconds / 60 / distance
+}
+
+// Miles per hour
+export function computeSpeed(distance: number, elapsedSeconds: number): number | null {
+  if (distance <= 0 || elapsedSeconds <= 0) return null
+  return distance / (elapsedSeconds / 3600)
+}
+
+export function formatPace(minutesPerMile: number): string {
+  return `${formatDuration(minutesPerMile * 60)} /mi`
+}
+
+export function formatSpeed(milesPerHour: number): string {
+  return `${milesPerHour.toFixed(1)} mph`
+}
+
+// Pace for on-foot routes, speed for cycling; "–" when distance or time is missing
+export function formatWorkoutPerformance(
+  workout: Pick<WorkoutLog, 'distance' | 'elapsed_seconds'>,
+  routeType: FitnessRoute['route_type']
+): string {
+  if (getPerformanceMetric(routeType) === 'speed') {
+    const speed = computeSpeed(workout.distance, workout.elapsed_seconds)
+    return speed === null ? '–' : formatSpeed(speed)
+  }
+
+  const pace = computePace(workout.distance, workout.elapsed_seconds)
+  return pace === null ? '–' : formatPace(pace)
+}
+
+// Fastest entry by elapsed time - all entries of a route share its distance
+export function findPersonalBest(workouts: WorkoutLog[]): WorkoutLog | null {
+  return workouts.reduce<WorkoutLog | null>(
+    (best, workout) => (!best || workout.elapsed_seconds < best.elapsed_seconds ? workout : best),
+    null
+  )
+}
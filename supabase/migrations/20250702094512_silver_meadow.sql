@@ -0,0 +1,98 @@
+/*
+  # Route Track Geometry
+
+  1. Schema Updates
+    - Add `track_points` (jsonb array) to `fitness_routes`
+      - Ordered list of `{ "lat": number, "lon": number, "ele": number? }` objects
+      - Elevation is in meters, latitude/longitude in WGS84 degrees
+
+  2. Functions
+    - `route_track_distance(jsonb)` computes the haversine length of a track in miles
+    - `sync_route_distance_from_track()` derives `distance` from the stored track
+
+  3. Data Integrity
+    - `distance` is no longer typed in for routes that carry a track; the trigger
+      runs BEFORE INSERT/UPDATE so `fitness_routes_distance_check` validates the
+      derived value
+    - `track_points` must be a JSON array with at least 2 points when present
+*/
+
+-- Add track geometry column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fitness_routes' AND column_name = 'track_points'
+  ) THEN
+    ALTER TABLE public.fitness_routes ADD COLUMN track_points jsonb;
+  END IF;
+END $$;
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_track_points_check
+CHECK (
+  track_points IS NULL OR (
+    jsonb_typeof(track_points) = 'array' AND
+    jsonb_array_length(track_points) >= 2
+  )
+);
+
+-- Haversine length of a track in miles
+CREATE OR REPLACE FUNCTION public.route_track_distance(points jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  earth_radius_miles CONSTANT double precision := 3958.8;
+  total double precision := 0;
+  prev_lat double precision;
+  prev_lon double precision;
+  cur_lat double precision;
+  cur_lon double precision;
+  point jsonb;
+BEGIN
+  IF points IS NULL OR jsonb_typeof(points) <> 'array' THEN
+    RETURN 0;
+  END IF;
+
+  FOR point IN SELECT value FROM jsonb_array_elements(points)
+  LOOP
+    cur_lat := radians((point->>'lat')::double precision);
+    cur_lon := radians((point->>'lon')::double precision);
+
+    IF prev_lat IS NOT NULL THEN
+      total := total + 2 * earth_radius_miles * asin(least(1, sqrt(
+        power(sin((cur_lat - prev_lat) / 2), 2) +
+        cos(prev_lat) * cos(cur_lat) * power(sin((cur_lon - prev_lon) / 2), 2)
+      )));
+    END IF;
+
+    prev_lat := cur_lat;
+    prev_lon := cur_lon;
+  END LOOP;
+
+  RETURN round(total::numeric, 2);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.route_track_distance(jsonb) TO authenticated;
+
+-- Keep distance in sync with the stored track
+CREATE OR REPLACE FUNCTION public.sync_route_distance_from_track()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.track_points IS NOT NULL THEN
+    NEW.distance := public.route_track_distance(NEW.track_points);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_fitness_routes_distance ON public.fitness_routes;
+CREATE TRIGGER sync_fitness_routes_distance
+  BEFORE INSERT OR UPDATE OF track_points, distance ON public.fitness_routes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_route_distance_from_track();
+
@@ -0,0 +1,148 @@
+/*
+  # Computed Route Difficulty
+
+  1. Schema Updates
+    - Add `elevation_gain_meters` (integer) to `fitness_routes`
+    - Constrain `difficulty_level` to beginner, intermediate or advanced
+
+  2. Functions
+    - `route_track_elevation_gain(jsonb)` totals climbing from track elevations,
+      ignoring changes under 3 m as GPS noise
+    - `compute_route_difficulty(numeric, integer, text)` rates a route from its
+      distance, climbing and route type
+    - `sync_route_terrain_from_track()` keeps both columns derived
+
+  3. Data Changes
+    - Sample routes get their known climbing and a recomputed difficulty instead
+      of the hand-set seed values
+
+  4. Notes
+    - Keep the thresholds in sync with src/utils/routeDifficulty.ts
+    - The trigger is named so it fires after sync_fitness_routes_distance
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fitness_routes' AND column_name = 'elevation_gain_meters'
+  ) THEN
+    ALTER TABLE public.fitness_routes ADD COLUMN elevation_gain_meters integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_elevation_gain_check
+CHECK (elevation_gain_meters >= 0 AND elevation_gain_meters <= 20000);
+
+-- Total climbing of a track in meters
+CREATE OR REPLACE FUNCTION public.route_track_elevation_gain(points jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  noise_threshold CONSTANT double precision := 3;
+  reference double precision;
+  elevation double precision;
+  gain double precision := 0;
+  point jsonb;
+BEGIN
+  IF points IS NULL OR jsonb_typeof(points) <> 'array' THEN
+    RETURN 0;
+  END IF;
+
+  FOR point IN SELECT value FROM jsonb_array_elements(points)
+  LOOP
+    IF jsonb_typeof(point->'ele') <> 'number' THEN
+      CONTINUE;
+    END IF;
+
+    elevation := (point->>'ele')::double precision;
+
+    IF reference IS NULL THEN
+      reference := elevation;
+    ELSIF elevation - reference >= noise_threshold THEN
+      gain := gain + (elevation - reference);
+      reference := elevation;
+    ELSIF reference - elevation >= noise_threshold THEN
+      reference := elevation;
+    END IF;
+  END LOOP;
+
+  RETURN round(gain)::integer;
+END;
+$$;
+
+-- Rate a route from distance (miles), climbing (meters) and route type
+CREATE OR REPLACE FUNCTION public.compute_route_difficulty(
+  route_distance numeric,
+  elevation_gain integer,
+  route_kind text
+)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  distance_factor numeric := CASE WHEN route_kind = 'cycling' THEN 1.0 / 3 ELSE 1 END;
+  effort numeric := COALESCE(route_distance, 0) * distance_factor + COALESCE(elevation_gain, 0) / 100.0;
+  climb_density numeric := COALESCE(elevation_gain, 0) / GREATEST(COALESCE(route_distance, 0), 0.1);
+BEGIN
+  IF effort >= 10 OR climb_density >= 90 THEN
+    RETURN 'advanced';
+  ELSIF effort >= 5 OR climb_density >= 45 THEN
+    RETURN 'intermediate';
+  END IF;
+  RETURN 'beginner';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.route_track_elevation_gain(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_route_difficulty(numeric, integer, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_route_terrain_from_track()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.track_points IS NOT NULL THEN
+    NEW.elevation_gain_meters := public.route_track_elevation_gain(NEW.track_points);
+  END IF;
+
+  NEW.difficulty_level := public.compute_route_difficulty(
+    NEW.distance,
+    NEW.elevation_gain_meters,
+    NEW.route_type
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_fitness_routes_terrain ON public.fitness_routes;
+CREATE TRIGGER sync_fitness_routes_terrain
+  BEFORE INSERT OR UPDATE OF track_points, distance, elevation_gain_meters, route_type, difficulty_level
+  ON public.fitness_routes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_route_terrain_from_track();
+
+-- Known climbing for the sample routes; the trigger recomputes their difficulty
+UPDATE public.fitness_routes SET elevation_gain_meters = CASE name
+  WHEN 'Central Park Loop' THEN 60
+  WHEN 'Riverside Walk' THEN 10
+  WHEN 'Mountain Trail Challenge' THEN 450
+  WHEN 'City Bike Tour' THEN 150
+  WHEN 'Beach Boardwalk' THEN 5
+  WHEN 'Forest Trail' THEN 200
+  WHEN 'Urban Run' THEN 20
+  WHEN 'Hill Climb Challenge' THEN 300
+  ELSE elevation_gain_meters
+END
+WHERE created_by IS NULL;
+
+-- Recompute any remaining rows so existing free-text values conform
+UPDATE public.fitness_routes
+SET difficulty_level = public.compute_route_difficulty(distance, elevation_gain_meters, route_type);
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_difficulty_level_check
+CHECK (difficulty_level IN ('beginner', 'intermediate', 'advanced'));
@@ -0,0 +1,49 @@
+/*
+  # User-Authored Fitness Routes
+
+  1. Security
+    - Add "Users can delete own routes" policy on `fitness_routes`
+    - Add WITH CHECK to "Users can update own routes" so ownership cannot be reassigned
+
+  2. Data Integrity
+    - `name` must be 1-100 characters after trimming
+    - `description` is limited to 1000 characters
+    - `route_type` is limited to the types supported by the app
+    - Saved routes are removed together with the route they reference
+
+  3. Notes
+    - Keep limits in sync with ROUTE_LIMITS in src/utils/routeValidation.ts
+*/
+
+DROP POLICY IF EXISTS "Users can update own routes" ON public.fitness_routes;
+CREATE POLICY "Users can update own routes"
+  ON public.fitness_routes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Users can delete own routes" ON public.fitness_routes;
+CREATE POLICY "Users can delete own routes"
+  ON public.fitness_routes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_name_check
+CHECK (char_length(btrim(name)) BETWEEN 1 AND 100);
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_description_check
+CHECK (description IS NULL OR char_length(description) <= 1000);
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_route_type_check
+CHECK (route_type IN ('running', 'walking', 'cycling', 'trail-running', 'hiking'));
+
+-- Deleting a route should not be blocked by users who saved it
+ALTER TABLE public.saved_routes DROP CONSTRAINT IF EXISTS saved_routes_route_id_fkey;
+ALTER TABLE public.saved_routes
+ADD CONSTRAINT saved_routes_route_id_fkey
+FOREIGN KEY (route_id) REFERENCES public.fitness_routes(id) ON DELETE CASCADE;
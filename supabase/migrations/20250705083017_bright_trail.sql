@@ -0,0 +1,72 @@
+/*
+  # Workout Log
+
+  1. New Tables
+    - `workout_logs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `route_id` (uuid, references fitness_routes)
+      - `completed_at` (timestamp the workout was done)
+      - `elapsed_seconds` (integer, moving time)
+      - `distance` (numeric, miles covered - snapshot of the route distance)
+      - `perceived_effort` (integer 1-10, rate of perceived exertion)
+      - `notes` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `workout_logs`
+    - Users can only read and manage their own workout entries
+
+  3. Notes
+    - A route can be completed any number of times; `saved_routes.completed_at`
+      keeps its existing meaning of "first marked completed"
+*/
+
+CREATE TABLE IF NOT EXISTS workout_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  route_id uuid NOT NULL REFERENCES fitness_routes(id) ON DELETE CASCADE,
+  completed_at timestamptz NOT NULL DEFAULT now(),
+  elapsed_seconds integer NOT NULL,
+  distance numeric(8,2) NOT NULL,
+  perceived_effort integer,
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT workout_logs_elapsed_check CHECK (elapsed_seconds > 0 AND elapsed_seconds <= 172800),
+  CONSTRAINT workout_logs_distance_check CHECK (distance >= 0 AND distance <= 1000),
+  CONSTRAINT workout_logs_effort_check CHECK (perceived_effort IS NULL OR perceived_effort BETWEEN 1 AND 10),
+  CONSTRAINT workout_logs_completed_at_check CHECK (completed_at <= now() + interval '1 day')
+);
+
+ALTER TABLE workout_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own workout logs"
+  ON workout_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own workout logs"
+  ON workout_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own workout logs"
+  ON workout_logs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own workout logs"
+  ON workout_logs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_workout_logs_user_completed_at
+  ON workout_logs(user_id, completed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_workout_logs_route_id
+  ON workout_logs(route_id);
@@ -0,0 +1,116 @@
+/*
+  # Profile Statistics
+
+  1. Functions
+    - `get_user_stats(user_uuid, time_zone, weeks, months)` returns a jsonb document with
+      - `routes_completed` (distinct routes with a logged workout or marked completed)
+      - `routes_saved`, `workouts`, `total_distance`, `total_elapsed_seconds`
+      - `days_active` (distinct local days with at least one workout)
+      - `distance_by_route_type` (object keyed by route type)
+      - `weekly` / `monthly` (zero-filled series of `{ period_start, workouts, distance }`)
+
+  2. Security
+    - SECURITY DEFINER like `get_user_saved_routes`, but only answers for the calling user
+
+  3. Notes
+    - Periods are bucketed in the caller's time zone so a late-evening run lands on the right day
+*/
+
+CREATE OR REPLACE FUNCTION public.get_user_stats(
+  user_uuid UUID,
+  time_zone TEXT DEFAULT 'UTC',
+  weeks INTEGER DEFAULT 12,
+  months INTEGER DEFAULT 12
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now timestamp := now() AT TIME ZONE time_zone;
+  result jsonb;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'permission denied: stats are only available for your own profile'
+      USING ERRCODE = '42501';
+  END IF;
+
+  WITH workouts AS (
+    SELECT
+      wl.route_id,
+      wl.distance,
+      wl.elapsed_seconds,
+      wl.completed_at AT TIME ZONE time_zone AS local_completed_at,
+      fr.route_type
+    FROM workout_logs wl
+    JOIN fitness_routes fr ON fr.id = wl.route_id
+    WHERE wl.user_id = user_uuid
+  )
+  SELECT jsonb_build_object(
+    'routes_completed', (
+      SELECT count(*) FROM (
+        SELECT route_id FROM workouts
+        UNION
+        SELECT route_id FROM saved_routes WHERE user_id = user_uuid AND status = 'completed'
+      ) completed
+    ),
+    'routes_saved', (SELECT count(*) FROM saved_routes WHERE user_id = user_uuid),
+    'workouts', (SELECT count(*) FROM workouts),
+    'total_distance', (SELECT COALESCE(sum(distance), 0) FROM workouts),
+    'total_elapsed_seconds', (SELECT COALESCE(sum(elapsed_seconds), 0) FROM workouts),
+    'days_active', (SELECT count(DISTINCT local_completed_at::date) FROM workouts),
+    'distance_by_route_type', (
+      SELECT COALESCE(jsonb_object_agg(route_type, distance), '{}'::jsonb)
+      FROM (
+        SELECT route_type, sum(distance) AS distance
+        FROM workouts
+        GROUP BY route_type
+      ) by_type
+    ),
+    'weekly', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period_start', to_char(periods.period_start, 'YYYY-MM-DD'),
+        'workouts', COALESCE(totals.workouts, 0),
+        'distance', COALESCE(totals.distance, 0)
+      ) ORDER BY periods.period_start), '[]'::jsonb)
+      FROM generate_series(
+        date_trunc('week', local_now) - (weeks - 1) * interval '1 week',
+        date_trunc('week', local_now),
+        interval '1 week'
+      ) AS periods(period_start)
+      LEFT JOIN (
+        SELECT date_trunc('week', local_completed_at) AS period_start,
+               count(*) AS workouts,
+               sum(distance) AS distance
+        FROM workouts
+        GROUP BY 1
+      ) totals ON totals.period_start = periods.period_start
+    ),
+    'monthly', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period_start', to_char(periods.period_start, 'YYYY-MM-DD'),
+        'workouts', COALESCE(totals.workouts, 0),
+        'distance', COALESCE(totals.distance, 0)
+      ) ORDER BY periods.period_start), '[]'::jsonb)
+      FROM generate_series(
+        date_trunc('month', local_now) - (months - 1) * interval '1 month',
+        date_trunc('month', local_now),
+        interval '1 month'
+      ) AS periods(period_start)
+      LEFT JOIN (
+        SELECT date_trunc('month', local_completed_at) AS period_start,
+               count(*) AS workouts,
+               sum(distance) AS distance
+        FROM workouts
+        GROUP BY 1
+      ) totals ON totals.period_start = periods.period_start
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_stats(UUID, TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,74 @@
+/*
+  # Goals
+
+  1. New Tables
+    - `user_goals`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `metric` (text: distance in miles, workouts count, or duration in minutes)
+      - `period` (text: week or month)
+      - `target` (numeric, amount to reach each period)
+      - `route_type` (text, optional - only count workouts on this type of route)
+      - `is_active` (boolean, default true)
+      - `created_at` / `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `user_goals`
+    - Users can only read and manage their own goals
+
+  3. Notes
+    - Progress and streaks are derived from `workout_logs`, nothing is stored per period
+    - Weeks start on Monday, matching `date_trunc('week', ...)` used by `get_user_stats`
+*/
+
+CREATE TABLE IF NOT EXISTS user_goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  metric text NOT NULL,
+  period text NOT NULL DEFAULT 'week',
+  target numeric(8,2) NOT NULL,
+  route_type text,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT user_goals_metric_check CHECK (metric IN ('distance', 'workouts', 'duration')),
+  CONSTRAINT user_goals_period_check CHECK (period IN ('week', 'month')),
+  CONSTRAINT user_goals_target_check CHECK (target > 0 AND target <= 100000),
+  CONSTRAINT user_goals_route_type_check CHECK (
+    route_type IS NULL OR route_type IN ('running', 'walking', 'cycling', 'trail-running', 'hiking')
+  )
+);
+
+ALTER TABLE user_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goals"
+  ON user_goals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goals"
+  ON user_goals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goals"
+  ON user_goals
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goals"
+  ON user_goals
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_goals_updated_at
+  BEFORE UPDATE ON user_goals
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_user_goals_user_id
+  ON user_goals(user_id);
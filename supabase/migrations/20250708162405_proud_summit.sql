@@ -0,0 +1,54 @@
+/*
+  # Achievements
+
+  1. New Tables
+    - `user_achievements`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `achievement_id` (text, key of a rule defined in the client catalog)
+      - `unlocked_at` (timestamp)
+      - `seen_at` (timestamp, null until the user has viewed it)
+
+  2. Security
+    - Enable RLS on `user_achievements`
+    - Users can read, unlock and mark their own achievements as seen
+    - No delete policy: once unlocked, an achievement stays unlocked
+
+  3. Notes
+    - The rules live in `src/utils/achievements.ts`; the table only records unlocks
+    - (user_id, achievement_id) is unique so re-evaluating rules is idempotent
+*/
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  achievement_id text NOT NULL,
+  unlocked_at timestamptz NOT NULL DEFAULT now(),
+  seen_at timestamptz,
+  UNIQUE(user_id, achievement_id),
+  CONSTRAINT user_achievements_id_check CHECK (achievement_id ~ '^[a-z0-9-]{1,64}$')
+);
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own achievements"
+  ON user_achievements
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own achievements"
+  ON user_achievements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own achievements"
+  ON user_achievements
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_id
+  ON user_achievements(user_id);
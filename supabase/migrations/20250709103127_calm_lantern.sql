@@ -0,0 +1,30 @@
+/*
+  # Editable Saved Route Notes
+
+  1. Security
+    - Add WITH CHECK to "Users can update own saved routes" so a saved route cannot be moved to another user
+
+  2. Data Integrity
+    - `saved_routes.notes` is limited to 2000 characters now that users can edit it
+
+  3. Performance
+    - Index for looking up routes of the same type and difficulty (related routes)
+
+  4. Notes
+    - Keep the limit in sync with ROUTE_LIMITS.notesMaxLength in src/utils/routeValidation.ts
+*/
+
+DROP POLICY IF EXISTS "Users can update own saved routes" ON public.saved_routes;
+CREATE POLICY "Users can update own saved routes"
+  ON public.saved_routes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE public.saved_routes
+ADD CONSTRAINT saved_routes_notes_check
+CHECK (notes IS NULL OR char_length(notes) <= 2000);
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_type_difficulty
+  ON public.fitness_routes(route_type, difficulty_level);
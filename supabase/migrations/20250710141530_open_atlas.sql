@@ -0,0 +1,119 @@
+/*
+  # Route Catalog Search
+
+  1. Functions
+    - `search_fitness_routes(...)` returns one page of `fitness_routes`, filtered and sorted in the database
+      - `search` matches words in the name or description; the last word may be partial
+      - `route_kinds` / `difficulties` limit to the listed values
+      - `min_distance` / `max_distance` (miles) and `min_duration` / `max_duration` (minutes) are inclusive ranges
+      - `saved_filter` is `saved`, `completed` or `favorite`, matched against the caller's saved_routes
+      - `sort_by` is `name`, `distance`, `difficulty` or `date` (newest first); ties are broken by id
+      - `cursor_*` hold the sort key and id of the last row of the previous page (keyset pagination)
+
+  2. Performance
+    - Full-text index over name and description
+    - Keyset indexes for each sort order
+
+  3. Notes
+    - SECURITY INVOKER, so the fitness_routes and saved_routes policies apply as usual
+    - Keep the sort keys in sync with getRouteCursor in src/utils/routeSearch.ts
+*/
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_search
+  ON public.fitness_routes
+  USING gin (to_tsvector('english', name || ' ' || COALESCE(description, '')));
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_name_id
+  ON public.fitness_routes(lower(name), id);
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_distance_id
+  ON public.fitness_routes(distance, id);
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_difficulty_rank_id
+  ON public.fitness_routes(
+    (array_position(ARRAY['beginner', 'intermediate', 'advanced'], difficulty_level)),
+    id
+  );
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_created_at_id
+  ON public.fitness_routes((COALESCE(created_at, '-infinity'::timestamptz)) DESC, id);
+
+CREATE OR REPLACE FUNCTION public.search_fitness_routes(
+  search TEXT DEFAULT NULL,
+  route_kinds TEXT[] DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_distance NUMERIC DEFAULT NULL,
+  max_distance NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  saved_filter TEXT DEFAULT NULL,
+  sort_by TEXT DEFAULT 'name',
+  cursor_id UUID DEFAULT NULL,
+  cursor_name TEXT DEFAULT NULL,
+  cursor_distance NUMERIC DEFAULT NULL,
+  cursor_rank INTEGER DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  page_size INTEGER DEFAULT 24
+)
+RETURNS SETOF public.fitness_routes
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  -- Every word must match; the trailing :* lets each word match as a prefix while typing
+  search_query tsquery := CASE
+    WHEN NULLIF(btrim(search), '') IS NULL THEN NULL
+    ELSE to_tsquery('english', array_to_string(ARRAY(
+      SELECT quote_literal(word) || ':*'
+      FROM regexp_split_to_table(lower(btrim(search)), '\s+') AS word
+      WHERE word <> ''
+    ), ' & '))
+  END;
+BEGIN
+  IF sort_by NOT IN ('name', 'distance', 'difficulty', 'date') THEN
+    RAISE EXCEPTION 'invalid sort_by: %', sort_by USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT fr.*
+  FROM fitness_routes fr
+  WHERE (search_query IS NULL
+         OR to_tsvector('english', fr.name || ' ' || COALESCE(fr.description, '')) @@ search_query)
+    AND (route_kinds IS NULL OR fr.route_type = ANY(route_kinds))
+    AND (difficulties IS NULL OR fr.difficulty_level = ANY(difficulties))
+    AND (min_distance IS NULL OR fr.distance >= min_distance)
+    AND (max_distance IS NULL OR fr.distance <= max_distance)
+    AND (min_duration IS NULL OR COALESCE(fr.duration_minutes, 0) >= min_duration)
+    AND (max_duration IS NULL OR COALESCE(fr.duration_minutes, 0) <= max_duration)
+    AND (saved_filter IS NULL OR EXISTS (
+      SELECT 1
+      FROM saved_routes sr
+      WHERE sr.route_id = fr.id
+        AND sr.user_id = auth.uid()
+        AND (saved_filter = 'saved' OR sr.status = saved_filter)
+    ))
+    AND (cursor_id IS NULL OR CASE sort_by
+      WHEN 'name' THEN (lower(fr.name), fr.id) > (cursor_name, cursor_id)
+      WHEN 'distance' THEN (fr.distance, fr.id) > (cursor_distance, cursor_id)
+      WHEN 'difficulty' THEN
+        (array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level), fr.id)
+          > (cursor_rank, cursor_id)
+      ELSE
+        COALESCE(fr.created_at, '-infinity'::timestamptz) < cursor_created_at
+        OR (COALESCE(fr.created_at, '-infinity'::timestamptz) = cursor_created_at AND fr.id > cursor_id)
+    END)
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN lower(fr.name) END,
+    CASE WHEN sort_by = 'distance' THEN fr.distance END,
+    CASE WHEN sort_by = 'difficulty'
+      THEN array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level) END,
+    CASE WHEN sort_by = 'date' THEN COALESCE(fr.created_at, '-infinity'::timestamptz) END DESC,
+    fr.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT, TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, INTEGER
+) TO authenticated;
@@ -0,0 +1,201 @@
+/*
+  # Nearby Routes
+
+  1. Schema Updates
+    - Add `start_lat` / `start_lon` (double precision) to `fitness_routes`, both set or both null
+    - Routes with a track start at its first point; others may set a start by hand
+
+  2. Functions
+    - `distance_km(lat1, lon1, lat2, lon2)` great-circle distance in kilometers
+    - `sync_route_start_from_track()` keeps the start on the first track point
+    - `search_fitness_routes(...)` gains `near_lat`, `near_lon` and `radius_km` to keep routes
+      starting within the radius, and the `nearest` sort (distance to the start, closest first)
+
+  3. Data Changes
+    - Existing tracks get their start point; sample routes get the start of their namesake
+
+  4. Performance
+    - Index on the start point for the radius prefilter
+
+  5. Notes
+    - Keep the earth radius in sync with EARTH_RADIUS_MILES in src/utils/routeGeometry.ts
+    - Keep the nearest sort key in sync with getRouteCursor in src/utils/routeSearch.ts
+*/
+
+ALTER TABLE public.fitness_routes
+  ADD COLUMN IF NOT EXISTS start_lat double precision,
+  ADD COLUMN IF NOT EXISTS start_lon double precision;
+
+ALTER TABLE public.fitness_routes
+ADD CONSTRAINT fitness_routes_start_check
+CHECK (
+  (start_lat IS NULL AND start_lon IS NULL)
+  OR (start_lat BETWEEN -90 AND 90 AND start_lon BETWEEN -180 AND 180)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_start
+  ON public.fitness_routes(start_lat, start_lon)
+  WHERE start_lat IS NOT NULL;
+
+-- Haversine distance with a mean earth radius of 3958.8 miles
+CREATE OR REPLACE FUNCTION public.distance_km(
+  lat1 double precision,
+  lon1 double precision,
+  lat2 double precision,
+  lon2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 3958.8 * 1.609344 * asin(least(1, sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2
+    + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lon2 - lon1) / 2) ^ 2
+  )))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.distance_km(double precision, double precision, double precision, double precision) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_route_start_from_track()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.track_points IS NOT NULL AND jsonb_array_length(NEW.track_points) > 0 THEN
+    NEW.start_lat := (NEW.track_points->0->>'lat')::double precision;
+    NEW.start_lon := (NEW.track_points->0->>'lon')::double precision;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_fitness_routes_start ON public.fitness_routes;
+CREATE TRIGGER sync_fitness_routes_start
+  BEFORE INSERT OR UPDATE OF track_points, start_lat, start_lon
+  ON public.fitness_routes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_route_start_from_track();
+
+UPDATE public.fitness_routes
+SET start_lat = (track_points->0->>'lat')::double precision,
+    start_lon = (track_points->0->>'lon')::double precision
+WHERE track_points IS NOT NULL AND jsonb_array_length(track_points) > 0;
+
+UPDATE public.fitness_routes AS fr
+SET start_lat = sample.lat, start_lon = sample.lon
+FROM (VALUES
+  ('Central Park Loop', 40.7812, -73.9665),
+  ('Riverside Walk', 40.8010, -73.9720),
+  ('Mountain Trail Challenge', 41.3126, -73.9887),
+  ('City Bike Tour', 40.7128, -74.0060),
+  ('Beach Boardwalk', 40.5755, -73.9707),
+  ('Forest Trail', 40.8721, -73.9259),
+  ('Urban Run', 40.7003, -73.9967),
+  ('Hill Climb Challenge', 40.8612, -73.9615)
+) AS sample(name, lat, lon)
+WHERE fr.name = sample.name
+  AND fr.created_by IS NULL
+  AND fr.start_lat IS NULL;
+
+DROP FUNCTION IF EXISTS public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT, TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_fitness_routes(
+  search TEXT DEFAULT NULL,
+  route_kinds TEXT[] DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_distance NUMERIC DEFAULT NULL,
+  max_distance NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  saved_filter TEXT DEFAULT NULL,
+  near_lat DOUBLE PRECISION DEFAULT NULL,
+  near_lon DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'name',
+  cursor_id UUID DEFAULT NULL,
+  cursor_name TEXT DEFAULT NULL,
+  cursor_distance NUMERIC DEFAULT NULL,
+  cursor_rank INTEGER DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_distance_km DOUBLE PRECISION DEFAULT NULL,
+  page_size INTEGER DEFAULT 24
+)
+RETURNS SETOF public.fitness_routes
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  -- Every word must match; the trailing :* lets each word match as a prefix while typing
+  search_query tsquery := CASE
+    WHEN NULLIF(btrim(search), '') IS NULL THEN NULL
+    ELSE to_tsquery('english', array_to_string(ARRAY(
+      SELECT quote_literal(word) || ':*'
+      FROM regexp_split_to_table(lower(btrim(search)), '\s+') AS word
+      WHERE word <> ''
+    ), ' & '))
+  END;
+  near BOOLEAN := near_lat IS NOT NULL AND near_lon IS NOT NULL AND radius_km IS NOT NULL;
+  -- One degree of latitude is about 111.2 km; used to prefilter on the start index
+  lat_margin DOUBLE PRECISION := radius_km / 111.19;
+BEGIN
+  IF sort_by NOT IN ('name', 'distance', 'difficulty', 'date', 'nearest') THEN
+    RAISE EXCEPTION 'invalid sort_by: %', sort_by USING ERRCODE = '22023';
+  END IF;
+
+  IF sort_by = 'nearest' AND NOT near THEN
+    RAISE EXCEPTION 'sort_by nearest needs near_lat, near_lon and radius_km' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT fr.*
+  FROM fitness_routes fr
+  WHERE (search_query IS NULL
+         OR to_tsvector('english', fr.name || ' ' || COALESCE(fr.description, '')) @@ search_query)
+    AND (route_kinds IS NULL OR fr.route_type = ANY(route_kinds))
+    AND (difficulties IS NULL OR fr.difficulty_level = ANY(difficulties))
+    AND (min_distance IS NULL OR fr.distance >= min_distance)
+    AND (max_distance IS NULL OR fr.distance <= max_distance)
+    AND (min_duration IS NULL OR COALESCE(fr.duration_minutes, 0) >= min_duration)
+    AND (max_duration IS NULL OR COALESCE(fr.duration_minutes, 0) <= max_duration)
+    AND (saved_filter IS NULL OR EXISTS (
+      SELECT 1
+      FROM saved_routes sr
+      WHERE sr.route_id = fr.id
+        AND sr.user_id = auth.uid()
+        AND (saved_filter = 'saved' OR sr.status = saved_filter)
+    ))
+    AND (NOT near OR (
+      fr.start_lat BETWEEN near_lat - lat_margin AND near_lat + lat_margin
+      AND distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon) <= radius_km
+    ))
+    AND (cursor_id IS NULL OR CASE sort_by
+      WHEN 'name' THEN (lower(fr.name), fr.id) > (cursor_name, cursor_id)
+      WHEN 'distance' THEN (fr.distance, fr.id) > (cursor_distance, cursor_id)
+      WHEN 'difficulty' THEN
+        (array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level), fr.id)
+          > (cursor_rank, cursor_id)
+      WHEN 'nearest' THEN
+        (distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon), fr.id) > (cursor_distance_km, cursor_id)
+      ELSE
+        COALESCE(fr.created_at, '-infinity'::timestamptz) < cursor_created_at
+        OR (COALESCE(fr.created_at, '-infinity'::timestamptz) = cursor_created_at AND fr.id > cursor_id)
+    END)
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN lower(fr.name) END,
+    CASE WHEN sort_by = 'distance' THEN fr.distance END,
+    CASE WHEN sort_by = 'difficulty'
+      THEN array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level) END,
+    CASE WHEN sort_by = 'nearest' THEN distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon) END,
+    CASE WHEN sort_by = 'date' THEN COALESCE(fr.created_at, '-infinity'::timestamptz) END DESC,
+    fr.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, DOUBLE PRECISION, INTEGER
+) TO authenticated;
@@ -0,0 +1,261 @@
+/*
+  # Route Reviews
+
+  1. New Tables
+    - `route_reviews`
+      - `id` (uuid, primary key)
+      - `route_id` (uuid, references fitness_routes)
+      - `user_id` (uuid, references profiles)
+      - `rating` (smallint, 1 to 5 stars)
+      - `body` (text, optional written review)
+      - `created_at` / `updated_at` (timestamps)
+      - One review per user and route
+
+  2. Schema Updates
+    - `fitness_routes.rating_average` (numeric(3,2), null until the first rating)
+    - `fitness_routes.rating_count` (integer, default 0)
+
+  3. Security
+    - Enable RLS on `route_reviews`
+    - Signed-in users can read every review, and write, change or delete only their own
+
+  4. Functions
+    - `sync_route_rating()` recomputes the route's average and count after every review change
+    - `protect_route_rating()` stops users from writing the aggregates on their own routes
+    - `search_fitness_routes(...)` gains the `rating` sort (highest average first, unrated last)
+
+  5. Notes
+    - The aggregates are only written by `sync_route_rating()`, which runs as the table owner
+    - Keep the rating sort key in sync with getRouteCursor in src/utils/routeSearch.ts
+*/
+
+CREATE TABLE IF NOT EXISTS route_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id uuid NOT NULL REFERENCES fitness_routes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating smallint NOT NULL,
+  body text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT route_reviews_rating_check CHECK (rating BETWEEN 1 AND 5),
+  CONSTRAINT route_reviews_body_check CHECK (body IS NULL OR length(body) <= 2000),
+  CONSTRAINT route_reviews_route_user_key UNIQUE (route_id, user_id)
+);
+
+ALTER TABLE route_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviews are readable by signed-in users"
+  ON route_reviews
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert own reviews"
+  ON route_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reviews"
+  ON route_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews"
+  ON route_reviews
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_route_reviews_updated_at
+  BEFORE UPDATE ON route_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_route_reviews_route_id
+  ON route_reviews(route_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_route_reviews_user_id
+  ON route_reviews(user_id);
+
+ALTER TABLE public.fitness_routes
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3,2),
+  ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_fitness_routes_rating_id
+  ON public.fitness_routes((COALESCE(rating_average, 0)) DESC, id);
+
+CREATE OR REPLACE FUNCTION public.sync_route_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected uuid;
+BEGIN
+  FOR affected IN
+    SELECT DISTINCT route_id
+    FROM (VALUES
+      (CASE WHEN TG_OP <> 'INSERT' THEN OLD.route_id END),
+      (CASE WHEN TG_OP <> 'DELETE' THEN NEW.route_id END)
+    ) AS changed(route_id)
+    WHERE route_id IS NOT NULL
+  LOOP
+    UPDATE fitness_routes fr
+    SET rating_average = stats.average,
+        rating_count = stats.count
+    FROM (
+      SELECT round(avg(rating), 2) AS average, count(*)::integer AS count
+      FROM route_reviews
+      WHERE route_id = affected
+    ) stats
+    WHERE fr.id = affected;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_route_reviews_rating ON route_reviews;
+CREATE TRIGGER sync_route_reviews_rating
+  AFTER INSERT OR UPDATE OF rating, route_id OR DELETE
+  ON route_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.sync_route_rating();
+
+-- Route authors may update their routes, but not the rating columns
+CREATE OR REPLACE FUNCTION public.protect_route_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.rating_average := NULL;
+      NEW.rating_count := 0;
+    ELSE
+      NEW.rating_average := OLD.rating_average;
+      NEW.rating_count := OLD.rating_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_fitness_routes_rating ON public.fitness_routes;
+CREATE TRIGGER protect_fitness_routes_rating
+  BEFORE INSERT OR UPDATE OF rating_average, rating_count
+  ON public.fitness_routes
+  FOR EACH ROW EXECUTE FUNCTION public.protect_route_rating();
+
+DROP FUNCTION IF EXISTS public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, DOUBLE PRECISION, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_fitness_routes(
+  search TEXT DEFAULT NULL,
+  route_kinds TEXT[] DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_distance NUMERIC DEFAULT NULL,
+  max_distance NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  saved_filter TEXT DEFAULT NULL,
+  near_lat DOUBLE PRECISION DEFAULT NULL,
+  near_lon DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'name',
+  cursor_id UUID DEFAULT NULL,
+  cursor_name TEXT DEFAULT NULL,
+  cursor_distance NUMERIC DEFAULT NULL,
+  cursor_rank INTEGER DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_distance_km DOUBLE PRECISION DEFAULT NULL,
+  cursor_rating NUMERIC DEFAULT NULL,
+  page_size INTEGER DEFAULT 24
+)
+RETURNS SETOF public.fitness_routes
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  -- Every word must match; the trailing :* lets each word match as a prefix while typing
+  search_query tsquery := CASE
+    WHEN NULLIF(btrim(search), '') IS NULL THEN NULL
+    ELSE to_tsquery('english', array_to_string(ARRAY(
+      SELECT quote_literal(word) || ':*'
+      FROM regexp_split_to_table(lower(btrim(search)), '\s+') AS word
+      WHERE word <> ''
+    ), ' & '))
+  END;
+  near BOOLEAN := near_lat IS NOT NULL AND near_lon IS NOT NULL AND radius_km IS NOT NULL;
+  -- One degree of latitude is about 111.2 km; used to prefilter on the start index
+  lat_margin DOUBLE PRECISION := radius_km / 111.19;
+BEGIN
+  IF sort_by NOT IN ('name', 'distance', 'difficulty', 'date', 'nearest', 'rating') THEN
+    RAISE EXCEPTION 'invalid sort_by: %', sort_by USING ERRCODE = '22023';
+  END IF;
+
+  IF sort_by = 'nearest' AND NOT near THEN
+    RAISE EXCEPTION 'sort_by nearest needs near_lat, near_lon and radius_km' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT fr.*
+  FROM fitness_routes fr
+  WHERE (search_query IS NULL
+         OR to_tsvector('english', fr.name || ' ' || COALESCE(fr.description, '')) @@ search_query)
+    AND (route_kinds IS NULL OR fr.route_type = ANY(route_kinds))
+    AND (difficulties IS NULL OR fr.difficulty_level = ANY(difficulties))
+    AND (min_distance IS NULL OR fr.distance >= min_distance)
+    AND (max_distance IS NULL OR fr.distance <= max_distance)
+    AND (min_duration IS NULL OR COALESCE(fr.duration_minutes, 0) >= min_duration)
+    AND (max_duration IS NULL OR COALESCE(fr.duration_minutes, 0) <= max_duration)
+    AND (saved_filter IS NULL OR EXISTS (
+      SELECT 1
+      FROM saved_routes sr
+      WHERE sr.route_id = fr.id
+        AND sr.user_id = auth.uid()
+        AND (saved_filter = 'saved' OR sr.status = saved_filter)
+    ))
+    AND (NOT near OR (
+      fr.start_lat BETWEEN near_lat - lat_margin AND near_lat + lat_margin
+      AND distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon) <= radius_km
+    ))
+    AND (cursor_id IS NULL OR CASE sort_by
+      WHEN 'name' THEN (lower(fr.name), fr.id) > (cursor_name, cursor_id)
+      WHEN 'distance' THEN (fr.distance, fr.id) > (cursor_distance, cursor_id)
+      WHEN 'difficulty' THEN
+        (array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level), fr.id)
+          > (cursor_rank, cursor_id)
+      WHEN 'nearest' THEN
+        (distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon), fr.id) > (cursor_distance_km, cursor_id)
+      WHEN 'rating' THEN
+        COALESCE(fr.rating_average, 0) < cursor_rating
+        OR (COALESCE(fr.rating_average, 0) = cursor_rating AND fr.id > cursor_id)
+      ELSE
+        COALESCE(fr.created_at, '-infinity'::timestamptz) < cursor_created_at
+        OR (COALESCE(fr.created_at, '-infinity'::timestamptz) = cursor_created_at AND fr.id > cursor_id)
+    END)
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN lower(fr.name) END,
+    CASE WHEN sort_by = 'distance' THEN fr.distance END,
+    CASE WHEN sort_by = 'difficulty'
+      THEN array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level) END,
+    CASE WHEN sort_by = 'nearest' THEN distance_km(near_lat, near_lon, fr.start_lat, fr.start_lon) END,
+    CASE WHEN sort_by = 'date' THEN COALESCE(fr.created_at, '-infinity'::timestamptz) END DESC,
+    CASE WHEN sort_by = 'rating' THEN COALESCE(fr.rating_average, 0) END DESC,
+    fr.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, DOUBLE PRECISION, NUMERIC, INTEGER
+) TO authenticated;
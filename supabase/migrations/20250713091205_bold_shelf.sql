@@ -0,0 +1,221 @@
+/*
+  # Route Collections
+
+  1. New Tables
+    - `route_collections`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text, 1-100 characters)
+      - `description` (text, optional)
+      - `is_public` (boolean, default false - visible to every signed-in user when true)
+      - `copied_from` (uuid, the public collection this one was copied from, if any)
+      - `created_at` / `updated_at` (timestamps)
+    - `route_collection_items`
+      - `id` (uuid, primary key)
+      - `collection_id` (uuid, references route_collections)
+      - `route_id` (uuid, references fitness_routes)
+      - `position` (integer, order within the collection starting at 0)
+      - `added_at` (timestamp)
+      - Each route appears at most once per collection
+
+  2. Security
+    - Enable RLS on both tables
+    - Users manage their own collections and items; public collections and their items
+      are readable by every signed-in user
+
+  3. Functions
+    - `add_route_to_collection(collection_uuid, route_uuid)` appends a route unless it is already there
+    - `set_route_collection_order(collection_uuid, route_uuids)` renumbers the items in the given order
+    - `copy_route_collection(source_uuid, new_name)` copies a visible collection and its items
+      into a new private collection owned by the caller
+
+  4. Notes
+    - All three functions are SECURITY INVOKER, so the policies above decide what may be read and written
+*/
+
+CREATE TABLE IF NOT EXISTS route_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  is_public boolean NOT NULL DEFAULT false,
+  copied_from uuid REFERENCES route_collections(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT route_collections_name_check CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  CONSTRAINT route_collections_description_check CHECK (description IS NULL OR length(description) <= 1000)
+);
+
+CREATE TABLE IF NOT EXISTS route_collection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id uuid NOT NULL REFERENCES route_collections(id) ON DELETE CASCADE,
+  route_id uuid NOT NULL REFERENCES fitness_routes(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  added_at timestamptz DEFAULT now(),
+  CONSTRAINT route_collection_items_position_check CHECK (position >= 0),
+  CONSTRAINT route_collection_items_collection_route_key UNIQUE (collection_id, route_id)
+);
+
+ALTER TABLE route_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE route_collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and public collections"
+  ON route_collections
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_public);
+
+CREATE POLICY "Users can insert own collections"
+  ON route_collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own collections"
+  ON route_collections
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own collections"
+  ON route_collections
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view items of visible collections"
+  ON route_collection_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM route_collections rc
+    WHERE rc.id = collection_id AND (rc.user_id = auth.uid() OR rc.is_public)
+  ));
+
+CREATE POLICY "Users can insert items into own collections"
+  ON route_collection_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM route_collections rc
+    WHERE rc.id = collection_id AND rc.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update items of own collections"
+  ON route_collection_items
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM route_collections rc
+    WHERE rc.id = collection_id AND rc.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM route_collections rc
+    WHERE rc.id = collection_id AND rc.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete items from own collections"
+  ON route_collection_items
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM route_collections rc
+    WHERE rc.id = collection_id AND rc.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_route_collections_updated_at
+  BEFORE UPDATE ON route_collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_route_collections_user_id
+  ON route_collections(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_route_collections_public
+  ON route_collections(updated_at DESC)
+  WHERE is_public;
+
+CREATE INDEX IF NOT EXISTS idx_route_collection_items_collection_position
+  ON route_collection_items(collection_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_route_collection_items_route_id
+  ON route_collection_items(route_id);
+
+-- Appends the route to the collection; adding a route that is already there keeps its place
+CREATE OR REPLACE FUNCTION public.add_route_to_collection(
+  collection_uuid UUID,
+  route_uuid UUID
+)
+RETURNS SETOF public.route_collection_items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO route_collection_items (collection_id, route_id, position)
+  SELECT collection_uuid, route_uuid, COALESCE(max(position) + 1, 0)
+  FROM route_collection_items
+  WHERE collection_id = collection_uuid
+  ON CONFLICT (collection_id, route_id) DO NOTHING;
+
+  UPDATE route_collections SET updated_at = now() WHERE id = collection_uuid;
+
+  RETURN QUERY
+  SELECT * FROM route_collection_items
+  WHERE collection_id = collection_uuid AND route_id = route_uuid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_route_to_collection(UUID, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_route_collection_order(
+  collection_uuid UUID,
+  route_uuids UUID[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE route_collection_items rci
+  SET position = ordered.position - 1
+  FROM unnest(route_uuids) WITH ORDINALITY AS ordered(route_id, position)
+  WHERE rci.collection_id = collection_uuid
+    AND rci.route_id = ordered.route_id;
+
+  UPDATE route_collections SET updated_at = now() WHERE id = collection_uuid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_route_collection_order(UUID, UUID[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.copy_route_collection(
+  source_uuid UUID,
+  new_name TEXT DEFAULT NULL
+)
+RETURNS SETOF public.route_collections
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  original route_collections;
+  copied route_collections;
+BEGIN
+  SELECT * INTO original FROM route_collections WHERE id = source_uuid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO route_collections (user_id, name, description, is_public, copied_from)
+  VALUES (auth.uid(), COALESCE(NULLIF(btrim(new_name), ''), left(original.name, 100)), original.description, false, original.id)
+  RETURNING * INTO copied;
+
+  INSERT INTO route_collection_items (collection_id, route_id, position)
+  SELECT copied.id, route_id, position
+  FROM route_collection_items
+  WHERE collection_id = original.id;
+
+  RETURN NEXT copied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.copy_route_collection(UUID, TEXT) TO authenticated;
@@ -0,0 +1,150 @@
+/*
+  # Training Plans
+
+  1. New Tables
+    - `training_plans`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text, 1-100 characters)
+      - `description` (text, optional)
+      - `start_date` (date, the plan's first day)
+      - `is_active` (boolean, default true - only active plans show up as today's workout)
+      - `created_at` / `updated_at` (timestamps)
+    - `training_plan_items`
+      - `id` (uuid, primary key)
+      - `plan_id` (uuid, references training_plans)
+      - `route_id` (uuid, references fitness_routes)
+      - `day_offset` (integer, days after the plan's start date, up to 52 weeks)
+      - `position` (integer, order among the workouts of the same day)
+      - `target_duration_minutes` (numeric, optional - finish the route within this time)
+      - `target_pace_minutes_per_mile` (numeric, optional - hold this pace or faster)
+      - `notes` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only read and manage their own plans and the items in them
+
+  3. Notes
+    - An item has at most one target, pace or duration
+    - Completion is derived from `workout_logs` on the client: an item is checked off by a
+      workout on its route logged on its scheduled day, nothing is stored per item
+*/
+
+CREATE TABLE IF NOT EXISTS training_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  start_date date NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT training_plans_name_check CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  CONSTRAINT training_plans_description_check CHECK (description IS NULL OR length(description) <= 1000)
+);
+
+CREATE TABLE IF NOT EXISTS training_plan_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES training_plans(id) ON DELETE CASCADE,
+  route_id uuid NOT NULL REFERENCES fitness_routes(id) ON DELETE CASCADE,
+  day_offset integer NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  target_duration_minutes numeric(6,2),
+  target_pace_minutes_per_mile numeric(5,2),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT training_plan_items_day_offset_check CHECK (day_offset BETWEEN 0 AND 363),
+  CONSTRAINT training_plan_items_position_check CHECK (position >= 0),
+  CONSTRAINT training_plan_items_target_duration_check CHECK (
+    target_duration_minutes IS NULL OR (target_duration_minutes > 0 AND target_duration_minutes <= 1440)
+  ),
+  CONSTRAINT training_plan_items_target_pace_check CHECK (
+    target_pace_minutes_per_mile IS NULL OR (target_pace_minutes_per_mile > 0 AND target_pace_minutes_per_mile <= 60)
+  ),
+  CONSTRAINT training_plan_items_single_target_check CHECK (
+    target_duration_minutes IS NULL OR target_pace_minutes_per_mile IS NULL
+  ),
+  CONSTRAINT training_plan_items_notes_check CHECK (notes IS NULL OR length(notes) <= 500)
+);
+
+ALTER TABLE training_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_plan_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own training plans"
+  ON training_plans
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own training plans"
+  ON training_plans
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own training plans"
+  ON training_plans
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own training plans"
+  ON training_plans
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view items of own training plans"
+  ON training_plan_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM training_plans tp
+    WHERE tp.id = plan_id AND tp.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can insert items into own training plans"
+  ON training_plan_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM training_plans tp
+    WHERE tp.id = plan_id AND tp.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update items of own training plans"
+  ON training_plan_items
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM training_plans tp
+    WHERE tp.id = plan_id AND tp.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM training_plans tp
+    WHERE tp.id = plan_id AND tp.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete items from own training plans"
+  ON training_plan_items
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM training_plans tp
+    WHERE tp.id = plan_id AND tp.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_training_plans_updated_at
+  BEFORE UPDATE ON training_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_training_plans_user_id
+  ON training_plans(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_training_plan_items_plan_schedule
+  ON training_plan_items(plan_id, day_offset, position);
+
+CREATE INDEX IF NOT EXISTS idx_training_plan_items_route_id
+  ON training_plan_items(route_id);
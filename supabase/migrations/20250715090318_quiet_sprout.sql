@@ -0,0 +1,20 @@
+/*
+  # Procrastination Route Seeds
+
+  1. Schema Updates
+    - Add `seed` (text) to `saved_procrastination_routes`: the seed the route was generated
+      from, 1 to 64 characters
+    - Routes saved before seeds were recorded keep a null seed
+
+  2. Notes
+    - The same task and seed regenerate the same steps while the step catalog
+      (src/data/procrastinationCatalog.json) is unchanged
+    - Keep the length limit in sync with SEED_MAX_LENGTH in src/utils/random.ts
+*/
+
+ALTER TABLE public.saved_procrastination_routes
+  ADD COLUMN IF NOT EXISTS seed text;
+
+ALTER TABLE public.saved_procrastination_routes
+ADD CONSTRAINT saved_procrastination_routes_seed_check
+CHECK (seed IS NULL OR char_length(seed) BETWEEN 1 AND 64);
@@ -0,0 +1,114 @@
+/*
+  # Procrastination Step Library
+
+  1. New Tables
+    - `procrastination_steps`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text, 1-100 characters)
+      - `description` (text, 1-1000 characters)
+      - `time_investment` (text, 1-50 characters, e.g. "2.5 hours")
+      - `benefit` (text, 1-500 characters)
+      - `is_public` (boolean, default false - submitted to the community pool when true)
+      - `review_status` (text, 'pending', 'approved' or 'rejected', default 'pending')
+      - `created_at` / `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `procrastination_steps` table
+    - Users manage their own steps; public steps approved by a moderator are readable
+      by every signed-in user
+
+  3. Functions
+    - `guard_procrastination_step_review()` keeps owners from reviewing their own steps: only
+      the service role sets `review_status`, and changing a step's text or publishing it
+      sends it back to 'pending'
+
+  4. Notes
+    - Moderators review pending public steps with the service role (e.g. from the dashboard)
+    - Keep the length limits in sync with LIBRARY_STEP_LIMITS in src/utils/procrastinationEngine.ts
+*/
+
+CREATE TABLE IF NOT EXISTS procrastination_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text NOT NULL,
+  time_investment text NOT NULL,
+  benefit text NOT NULL,
+  is_public boolean NOT NULL DEFAULT false,
+  review_status text NOT NULL DEFAULT 'pending',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT procrastination_steps_name_check CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  CONSTRAINT procrastination_steps_description_check CHECK (length(btrim(description)) BETWEEN 1 AND 1000),
+  CONSTRAINT procrastination_steps_time_investment_check CHECK (length(btrim(time_investment)) BETWEEN 1 AND 50),
+  CONSTRAINT procrastination_steps_benefit_check CHECK (length(btrim(benefit)) BETWEEN 1 AND 500),
+  CONSTRAINT procrastination_steps_review_status_check CHECK (review_status IN ('pending', 'approved', 'rejected'))
+);
+
+ALTER TABLE procrastination_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and approved community procrastination steps"
+  ON procrastination_steps
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR (is_public AND review_status = 'approved'));
+
+CREATE POLICY "Users can insert own procrastination steps"
+  ON procrastination_steps
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own procrastination steps"
+  ON procrastination_steps
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own procrastination steps"
+  ON procrastination_steps
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.guard_procrastination_step_review()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.time_investment IS DISTINCT FROM OLD.time_investment
+    OR NEW.benefit IS DISTINCT FROM OLD.benefit
+    OR (NEW.is_public AND NOT OLD.is_public)
+  THEN
+    NEW.review_status := 'pending';
+  ELSE
+    NEW.review_status := OLD.review_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_procrastination_step_review
+  BEFORE INSERT OR UPDATE ON procrastination_steps
+  FOR EACH ROW EXECUTE FUNCTION guard_procrastination_step_review();
+
+CREATE TRIGGER update_procrastination_steps_updated_at
+  BEFORE UPDATE ON procrastination_steps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_procrastination_steps_user_id
+  ON procrastination_steps(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_procrastination_steps_community
+  ON procrastination_steps(created_at DESC)
+  WHERE is_public AND review_status = 'approved';
@@ -0,0 +1,111 @@
+/*
+  # Procrastination Time Investment in Minutes
+
+  1. Schema Updates
+    - `procrastination_steps`: replace `time_investment` (free text) with
+      `time_investment_minutes` (integer, 1-1440)
+    - `saved_procrastination_routes`: add `time_budget_minutes` (integer, 1-1440, nullable):
+      the time budget the route was generated to fill, null when it had none
+
+  2. Data Migration
+    - Each step in `saved_procrastination_routes.route_steps` swaps its `timeInvestment`
+      string for `timeInvestmentMinutes`
+    - Durations are read from strings like "2.5 hours", "45 minutes" or "1h 15m"; anything
+      unreadable becomes 60 minutes, and longer durations are capped at 1440
+
+  3. Functions
+    - `guard_procrastination_step_review()` watches `time_investment_minutes` instead of
+      `time_investment`
+    - `parse_time_investment(text)` exists only for the data migration and is dropped again
+
+  4. Notes
+    - Mirrors parseTimeInvestment() and upgradeProcrastinationStep() in
+      src/utils/procrastinationEngine.ts, which upgrade data stored in the browser
+    - Keep the limits in sync with STEP_MAX_MINUTES and TIME_BUDGET_MAX_MINUTES there
+*/
+
+CREATE OR REPLACE FUNCTION public.parse_time_investment(value text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(coalesce(nullif(round(sum(
+    parts[1]::numeric * CASE WHEN lower(parts[2]) LIKE 'h%' THEN 60 ELSE 1 END
+  ))::integer, 0), 60), 1440)
+  FROM regexp_matches(
+    coalesce(value, ''),
+    '(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\M',
+    'gi'
+  ) AS parts
+$$;
+
+-- Saved routes: rewrite every step, keeping the step order
+UPDATE public.saved_procrastination_routes
+SET route_steps = (
+  SELECT coalesce(jsonb_agg(
+    CASE
+      WHEN step ? 'timeInvestmentMinutes' THEN step
+      ELSE (step - 'timeInvestment')
+        || jsonb_build_object('timeInvestmentMinutes', public.parse_time_investment(step->>'timeInvestment'))
+    END
+    ORDER BY position
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(route_steps) WITH ORDINALITY AS steps(step, position)
+)
+WHERE jsonb_typeof(route_steps) = 'array';
+
+ALTER TABLE public.saved_procrastination_routes
+  ADD COLUMN IF NOT EXISTS time_budget_minutes integer;
+
+ALTER TABLE public.saved_procrastination_routes
+ADD CONSTRAINT saved_procrastination_routes_time_budget_minutes_check
+CHECK (time_budget_minutes IS NULL OR time_budget_minutes BETWEEN 1 AND 1440);
+
+-- Library steps
+ALTER TABLE public.procrastination_steps
+  ADD COLUMN IF NOT EXISTS time_investment_minutes integer;
+
+-- Not a review-worthy change, so keep the guard trigger from resetting review status
+ALTER TABLE public.procrastination_steps DISABLE TRIGGER guard_procrastination_step_review;
+
+UPDATE public.procrastination_steps
+SET time_investment_minutes = public.parse_time_investment(time_investment);
+
+ALTER TABLE public.procrastination_steps ENABLE TRIGGER guard_procrastination_step_review;
+
+ALTER TABLE public.procrastination_steps
+  ALTER COLUMN time_investment_minutes SET NOT NULL;
+
+ALTER TABLE public.procrastination_steps
+ADD CONSTRAINT procrastination_steps_time_investment_minutes_check
+CHECK (time_investment_minutes BETWEEN 1 AND 1440);
+
+CREATE OR REPLACE FUNCTION public.guard_procrastination_step_review()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.time_investment_minutes IS DISTINCT FROM OLD.time_investment_minutes
+    OR NEW.benefit IS DISTINCT FROM OLD.benefit
+    OR (NEW.is_public AND NOT OLD.is_public)
+  THEN
+    NEW.review_status := 'pending';
+  ELSE
+    NEW.review_status := OLD.review_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.procrastination_steps
+  DROP COLUMN IF EXISTS time_investment;
+
+DROP FUNCTION public.parse_time_investment(text);
@@ -0,0 +1,154 @@
+/*
+  # Search Words Without Punctuation
+
+  1. Functions
+    - `search_fitness_routes(...)` splits the search on anything but letters and digits before
+      building the tsquery; a backslash used to be quoted as E'...' and make `to_tsquery` fail
+    - A search with no letters or digits no longer filters at all
+
+  2. Notes
+    - Keep the word split in sync with getSearchWords in src/utils/routeSearch.ts
+*/
+
+DROP FUNCTION IF EXISTS public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, DOUBLE PRECISION, NUMERIC, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_fitness_routes(
+  search TEXT DEFAULT NULL,
+  route_kinds TEXT[] DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_distance NUMERIC DEFAULT NULL,
+  max_distance NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  saved_filter TEXT DEFAULT NULL,
+  near_lat DOUBLE PRECISION DEFAULT NULL,
+  near_lon DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'name',
+  cursor_id UUID DEFAULT NULL,
+  cursor_name TEXT DEFAULT NULL,
+  cursor_distance NUMERIC DEFAULT NULL,
+  cursor_rank INTEGER DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_distance_km DOUBLE PRECISION DEFAULT NULL,
+  cursor_rating NUMERIC DEFAULT NULL,
+  page_size INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  distance NUMERIC,
+  duration_minutes INTEGER,
+  elevation_gain_meters INTEGER,
+  route_type TEXT,
+  difficulty_level TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  track_points JSONB,
+  start_lat DOUBLE PRECISION,
+  start_lon DOUBLE PRECISION,
+  rating_average NUMERIC(3,2),
+  rating_count INTEGER,
+  start_distance_km DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  -- Runs of letters and digits; anything else, tsquery operators included, separates words
+  search_words TEXT[] := ARRAY(
+    SELECT word
+    FROM regexp_split_to_table(lower(COALESCE(search, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  );
+  -- Every word must match; the trailing :* lets each word match as a prefix while typing
+  search_query tsquery := CASE
+    WHEN cardinality(search_words) = 0 THEN NULL
+    ELSE to_tsquery('english', array_to_string(ARRAY(
+      SELECT quote_literal(word) || ':*'
+      FROM unnest(search_words) AS word
+    ), ' & '))
+  END;
+  near BOOLEAN := near_lat IS NOT NULL AND near_lon IS NOT NULL AND radius_km IS NOT NULL;
+  -- One degree of latitude is about 111.2 km; used to prefilter on the start index
+  lat_margin DOUBLE PRECISION := radius_km / 111.19;
+BEGIN
+  IF sort_by NOT IN ('name', 'distance', 'difficulty', 'date', 'nearest', 'rating') THEN
+    RAISE EXCEPTION 'invalid sort_by: %', sort_by USING ERRCODE = '22023';
+  END IF;
+
+  IF sort_by = 'nearest' AND NOT near THEN
+    RAISE EXCEPTION 'sort_by nearest needs near_lat, near_lon and radius_km' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id, fr.name, fr.description, fr.distance, fr.duration_minutes, fr.elevation_gain_meters,
+    fr.route_type, fr.difficulty_level, fr.created_by, fr.created_at, fr.track_points,
+    fr.start_lat, fr.start_lon, fr.rating_average, fr.rating_count,
+    fr.start_distance_km
+  FROM (
+    SELECT
+      routes.*,
+      CASE WHEN near THEN distance_km(near_lat, near_lon, routes.start_lat, routes.start_lon) END
+        AS start_distance_km
+    FROM fitness_routes routes
+  ) fr
+  WHERE (search_query IS NULL
+         OR to_tsvector('english', fr.name || ' ' || COALESCE(fr.description, '')) @@ search_query)
+    AND (route_kinds IS NULL OR fr.route_type = ANY(route_kinds))
+    AND (difficulties IS NULL OR fr.difficulty_level = ANY(difficulties))
+    AND (min_distance IS NULL OR fr.distance >= min_distance)
+    AND (max_distance IS NULL OR fr.distance <= max_distance)
+    AND (min_duration IS NULL OR COALESCE(fr.duration_minutes, 0) >= min_duration)
+    AND (max_duration IS NULL OR COALESCE(fr.duration_minutes, 0) <= max_duration)
+    AND (saved_filter IS NULL OR EXISTS (
+      SELECT 1
+      FROM saved_routes sr
+      WHERE sr.route_id = fr.id
+        AND sr.user_id = auth.uid()
+        AND (saved_filter = 'saved' OR sr.status = saved_filter)
+    ))
+    AND (NOT near OR (
+      fr.start_lat BETWEEN near_lat - lat_margin AND near_lat + lat_margin
+      AND fr.start_distance_km <= radius_km
+    ))
+    AND (cursor_id IS NULL OR CASE sort_by
+      WHEN 'name' THEN (lower(fr.name), fr.id) > (cursor_name, cursor_id)
+      WHEN 'distance' THEN (fr.distance, fr.id) > (cursor_distance, cursor_id)
+      WHEN 'difficulty' THEN
+        (array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level), fr.id)
+          > (cursor_rank, cursor_id)
+      WHEN 'nearest' THEN (fr.start_distance_km, fr.id) > (cursor_distance_km, cursor_id)
+      WHEN 'rating' THEN
+        COALESCE(fr.rating_average, 0) < cursor_rating
+        OR (COALESCE(fr.rating_average, 0) = cursor_rating AND fr.id > cursor_id)
+      ELSE
+        COALESCE(fr.created_at, '-infinity'::timestamptz) < cursor_created_at
+        OR (COALESCE(fr.created_at, '-infinity'::timestamptz) = cursor_created_at AND fr.id > cursor_id)
+    END)
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN lower(fr.name) END,
+    CASE WHEN sort_by = 'distance' THEN fr.distance END,
+    CASE WHEN sort_by = 'difficulty'
+      THEN array_position(ARRAY['beginner', 'intermediate', 'advanced'], fr.difficulty_level) END,
+    CASE WHEN sort_by = 'nearest' THEN fr.start_distance_km END,
+    CASE WHEN sort_by = 'date' THEN COALESCE(fr.created_at, '-infinity'::timestamptz) END DESC,
+    CASE WHEN sort_by = 'rating' THEN COALESCE(fr.rating_average, 0) END DESC,
+    fr.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_fitness_routes(
+  TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, UUID, TEXT, NUMERIC, INTEGER, TIMESTAMPTZ, DOUBLE PRECISION, NUMERIC, INTEGER
+) TO authenticated;
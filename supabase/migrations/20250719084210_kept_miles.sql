@@ -0,0 +1,161 @@
+/*
+  # Keep Workouts When a Route Is Deleted
+
+  1. Changes
+    - `workout_logs.route_id` is nullable and set to null when its route is deleted; it used
+      to cascade, so deleting a route wiped every other user's workouts on it
+    - `workout_logs.route_name` and `workout_logs.route_type` keep a snapshot of the route,
+      backfilled for existing rows
+
+  2. Functions
+    - `snapshot_workout_route()` trigger fills the snapshot from `fitness_routes` when a
+      workout is logged or moved to another route, so clients cannot write their own
+    - `get_user_stats(...)` reads the route type from the snapshot, so workouts on deleted
+      routes still count towards distance and `distance_by_route_type`
+
+  3. Notes
+    - `routes_completed` only counts routes that still exist
+    - The snapshot is taken when the workout is logged; renaming a route later does not
+      change it
+*/
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS route_name text,
+  ADD COLUMN IF NOT EXISTS route_type text;
+
+UPDATE workout_logs wl
+SET route_name = fr.name,
+    route_type = fr.route_type
+FROM fitness_routes fr
+WHERE fr.id = wl.route_id;
+
+ALTER TABLE workout_logs
+  ALTER COLUMN route_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS workout_logs_route_id_fkey,
+  ADD CONSTRAINT workout_logs_route_id_fkey
+    FOREIGN KEY (route_id) REFERENCES fitness_routes(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.snapshot_workout_route()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Keep the snapshot taken when the workout was logged, also once its route is deleted
+  IF TG_OP = 'UPDATE' AND (NEW.route_id IS NULL OR NEW.route_id = OLD.route_id) THEN
+    NEW.route_name := OLD.route_name;
+    NEW.route_type := OLD.route_type;
+    RETURN NEW;
+  END IF;
+
+  SELECT fr.name, fr.route_type
+  INTO NEW.route_name, NEW.route_type
+  FROM fitness_routes fr
+  WHERE fr.id = NEW.route_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workout_logs_snapshot_route ON workout_logs;
+CREATE TRIGGER workout_logs_snapshot_route
+  BEFORE INSERT OR UPDATE ON workout_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_workout_route();
+
+CREATE OR REPLACE FUNCTION public.get_user_stats(
+  user_uuid UUID,
+  time_zone TEXT DEFAULT 'UTC',
+  weeks INTEGER DEFAULT 12,
+  months INTEGER DEFAULT 12
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now timestamp := now() AT TIME ZONE time_zone;
+  result jsonb;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'permission denied: stats are only available for your own profile'
+      USING ERRCODE = '42501';
+  END IF;
+
+  WITH workouts AS (
+    SELECT
+      wl.route_id,
+      wl.distance,
+      wl.elapsed_seconds,
+      wl.completed_at AT TIME ZONE time_zone AS local_completed_at,
+      wl.route_type
+    FROM workout_logs wl
+    WHERE wl.user_id = user_uuid
+  )
+  SELECT jsonb_build_object(
+    'routes_completed', (
+      SELECT count(*) FROM (
+        SELECT route_id FROM workouts WHERE route_id IS NOT NULL
+        UNION
+        SELECT route_id FROM saved_routes WHERE user_id = user_uuid AND status = 'completed'
+      ) completed
+    ),
+    'routes_saved', (SELECT count(*) FROM saved_routes WHERE user_id = user_uuid),
+    'workouts', (SELECT count(*) FROM workouts),
+    'total_distance', (SELECT COALESCE(sum(distance), 0) FROM workouts),
+    'total_elapsed_seconds', (SELECT COALESCE(sum(elapsed_seconds), 0) FROM workouts),
+    'days_active', (SELECT count(DISTINCT local_completed_at::date) FROM workouts),
+    'distance_by_route_type', (
+      SELECT COALESCE(jsonb_object_agg(route_type, distance), '{}'::jsonb)
+      FROM (
+        SELECT route_type, sum(distance) AS distance
+        FROM workouts
+        WHERE route_type IS NOT NULL
+        GROUP BY route_type
+      ) by_type
+    ),
+    'weekly', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period_start', to_char(periods.period_start, 'YYYY-MM-DD'),
+        'workouts', COALESCE(totals.workouts, 0),
+        'distance', COALESCE(totals.distance, 0)
+      ) ORDER BY periods.period_start), '[]'::jsonb)
+      FROM generate_series(
+        date_trunc('week', local_now) - (weeks - 1) * interval '1 week',
+        date_trunc('week', local_now),
+        interval '1 week'
+      ) AS periods(period_start)
+      LEFT JOIN (
+        SELECT date_trunc('week', local_completed_at) AS period_start,
+               count(*) AS workouts,
+               sum(distance) AS distance
+        FROM workouts
+        GROUP BY 1
+      ) totals ON totals.period_start = periods.period_start
+    ),
+    'monthly', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period_start', to_char(periods.period_start, 'YYYY-MM-DD'),
+        'workouts', COALESCE(totals.workouts, 0),
+        'distance', COALESCE(totals.distance, 0)
+      ) ORDER BY periods.period_start), '[]'::jsonb)
+      FROM generate_series(
+        date_trunc('month', local_now) - (months - 1) * interval '1 month',
+        date_trunc('month', local_now),
+        interval '1 month'
+      ) AS periods(period_start)
+      LEFT JOIN (
+        SELECT date_trunc('month', local_completed_at) AS period_start,
+               count(*) AS workouts,
+               sum(distance) AS distance
+        FROM workouts
+        GROUP BY 1
+      ) totals ON totals.period_start = periods.period_start
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,58 @@
+/*
+  # Keep Training Plan Items When a Route Is Deleted
+
+  1. Changes
+    - `training_plan_items.route_id` is nullable and set to null when its route is deleted; it
+      used to cascade, so deleting a route silently emptied days in other users' plans
+    - `training_plan_items.route_name` keeps a snapshot of the route's name, backfilled for
+      existing rows
+
+  2. Functions
+    - `snapshot_plan_item_route()` trigger fills the snapshot from `fitness_routes` when an
+      item is added or moved to another route, so clients cannot write their own
+
+  3. Notes
+    - An item without a route stays in the plan but can no longer be checked off; the owner
+      can delete it or add another route in its place
+*/
+
+ALTER TABLE training_plan_items
+  ADD COLUMN IF NOT EXISTS route_name text;
+
+UPDATE training_plan_items tpi
+SET route_name = fr.name
+FROM fitness_routes fr
+WHERE fr.id = tpi.route_id;
+
+ALTER TABLE training_plan_items
+  ALTER COLUMN route_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS training_plan_items_route_id_fkey,
+  ADD CONSTRAINT training_plan_items_route_id_fkey
+    FOREIGN KEY (route_id) REFERENCES fitness_routes(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.snapshot_plan_item_route()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Keep the snapshot taken when the item was added, also once its route is deleted
+  IF TG_OP = 'UPDATE' AND (NEW.route_id IS NULL OR NEW.route_id = OLD.route_id) THEN
+    NEW.route_name := OLD.route_name;
+    RETURN NEW;
+  END IF;
+
+  SELECT fr.name
+  INTO NEW.route_name
+  FROM fitness_routes fr
+  WHERE fr.id = NEW.route_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS training_plan_items_snapshot_route ON training_plan_items;
+CREATE TRIGGER training_plan_items_snapshot_route
+  BEFORE INSERT OR UPDATE ON training_plan_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_plan_item_route();
@@ -0,0 +1,61 @@
+/*
+  # Procrastination Route Status Follows Its Steps
+
+  1. Functions
+    - `sync_procrastination_route_status()` trigger on `saved_procrastination_routes`: when
+      `route_steps` is written and every step has a `completedAt`, an active route becomes
+      `completed` and gets a `completed_at`; reopening a step of a route that was completed
+      that way makes it `active` again and clears `completed_at`
+    - `all_steps_completed(steps)`: a non-empty step array with every step done
+
+  2. Notes
+    - The client already sends the new status along with the steps; this keeps the rule
+      when it doesn't, e.g. a queued offline write or another client
+    - Archived routes keep their status, and so does a route marked completed by hand
+      while steps were still open
+    - Mirrors setStepCompleted() in src/utils/procrastinationProgress.ts
+*/
+
+CREATE OR REPLACE FUNCTION public.all_steps_completed(steps jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- CASE, not AND, so jsonb_array_length() never sees anything but an array
+  SELECT CASE
+    WHEN COALESCE(jsonb_typeof(steps), '') <> 'array' THEN false
+    ELSE jsonb_array_length(steps) > 0 AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(steps) AS step
+      WHERE NULLIF(step->>'completedAt', '') IS NULL
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_procrastination_route_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF all_steps_completed(NEW.route_steps) THEN
+    IF COALESCE(NEW.status, 'active') = 'active' THEN
+      NEW.status := 'completed';
+      NEW.completed_at := COALESCE(NEW.completed_at, now());
+    END IF;
+  ELSIF TG_OP = 'UPDATE'
+    AND NEW.status = 'completed'
+    AND all_steps_completed(OLD.route_steps) THEN
+    NEW.status := 'active';
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_procrastination_route_status ON saved_procrastination_routes;
+CREATE TRIGGER sync_procrastination_route_status
+  BEFORE INSERT OR UPDATE OF route_steps ON saved_procrastination_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_procrastination_route_status();